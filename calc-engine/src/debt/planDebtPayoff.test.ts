@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import { planDebtPayoff, type DebtAccount, type DebtPlanInputs } from './planDebtPayoff';
+
+const visa: DebtAccount = {
+  name: 'Visa',
+  kind: 'creditCard',
+  balance: 8000,
+  annualRate: 20.99,
+  monthlyRepayment: 240,
+  limit: 15000
+};
+const car: DebtAccount = { name: 'Car', kind: 'carLoan', balance: 18000, annualRate: 9.5, monthlyRepayment: 450 };
+const afterpay: DebtAccount = {
+  name: 'Afterpay',
+  kind: 'bnpl',
+  balance: 600,
+  annualRate: 0,
+  monthlyRepayment: 150,
+  monthlyFee: 0
+};
+
+const baseInputs: DebtPlanInputs = {
+  debts: [visa, car, afterpay],
+  monthlyBudget: 1200,
+  startDate: '2025-01-01'
+};
+
+const strategy = (inputs: DebtPlanInputs, name: string) =>
+  planDebtPayoff(inputs).strategies.find((result) => result.strategy === name)!;
+
+describe('planDebtPayoff', () => {
+  it('clears the highest rate debt first under avalanche', () => {
+    const avalanche = strategy(baseInputs, 'avalanche');
+
+    expect(avalanche.cleared).toBe(true);
+    expect(avalanche.payoffOrder).toEqual(['Afterpay', 'Visa', 'Car']);
+    expect(avalanche.debts[0].payoffMonth).toBeLessThan(avalanche.debts[1].payoffMonth!);
+  });
+
+  it('clears the smallest balance first under snowball', () => {
+    const snowball = strategy({ ...baseInputs, debts: [car, visa] }, 'snowball');
+    const avalanche = strategy({ ...baseInputs, debts: [car, visa] }, 'avalanche');
+
+    expect(snowball.payoffOrder[0]).toBe('Visa');
+    expect(avalanche.totalInterest).toBeLessThanOrEqual(snowball.totalInterest);
+  });
+
+  it('targets the smaller balance under snowball even at a lower rate', () => {
+    const store: DebtAccount = { name: 'Store card', kind: 'creditCard', balance: 1500, annualRate: 12, monthlyRepayment: 45 };
+    const snowball = strategy({ ...baseInputs, debts: [visa, store] }, 'snowball');
+    const avalanche = strategy({ ...baseInputs, debts: [visa, store] }, 'avalanche');
+
+    expect(snowball.payoffOrder[0]).toBe('Store card');
+    expect(avalanche.payoffOrder[0]).toBe('Visa');
+    expect(avalanche.totalInterest).toBeLessThan(snowball.totalInterest);
+  });
+
+  it('builds per-debt schedules that repay each balance', () => {
+    const avalanche = strategy(baseInputs, 'avalanche');
+    const visaPlan = avalanche.debts[0];
+    const principal = visaPlan.schedule.reduce((sum, row) => sum + row.principalPaid, 0);
+
+    expect(visaPlan.schedule[0].openingBalance).toBe(8000);
+    expect(visaPlan.schedule[0].interestCharged).toBeCloseTo((8000 * 20.99) / 100 / 12, 6);
+    expect(principal).toBeCloseTo(8000, 4);
+    expect(visaPlan.schedule[visaPlan.schedule.length - 1].closingBalance).toBe(0);
+    expect(avalanche.schedule[0].openingBalance).toBe(26600);
+  });
+
+  it('spends the whole budget every month until the last month', () => {
+    const avalanche = strategy(baseInputs, 'avalanche');
+    const paid = (index: number) =>
+      avalanche.debts.reduce((sum, debt) => {
+        const row = debt.schedule[index];
+        return row ? sum + row.principalPaid + row.interestCharged + row.feesApplied : sum;
+      }, 0);
+
+    expect(paid(0)).toBeCloseTo(1200, 6);
+    expect(paid(avalanche.monthsToDebtFree - 2)).toBeCloseTo(1200, 6);
+    expect(avalanche.totalPaid).toBeCloseTo(26600 + avalanche.totalInterest + avalanche.totalFees, 4);
+  });
+
+  it('charges BNPL fees without interest', () => {
+    const bnpl: DebtAccount = { ...afterpay, monthlyFee: 6 };
+    const avalanche = strategy({ ...baseInputs, debts: [bnpl], monthlyBudget: 150 }, 'avalanche');
+
+    expect(avalanche.totalInterest).toBe(0);
+    expect(avalanche.totalFees).toBe(6 * avalanche.monthsToDebtFree);
+  });
+
+  it('pays minimums and reports the shortfall when the budget is too small', () => {
+    const plan = planDebtPayoff({ ...baseInputs, monthlyBudget: 500 });
+    const avalanche = plan.strategies[0];
+
+    expect(plan.totalMinimumRepayments).toBe(840);
+    expect(plan.budgetShortfall).toBe(340);
+    expect(avalanche.debts[1].schedule[0].extraRepayment).toBe(0);
+  });
+
+  it('flags debts that minimums never clear', () => {
+    const growing: DebtAccount = { ...visa, monthlyRepayment: 100 };
+    const plan = planDebtPayoff({ ...baseInputs, debts: [growing], monthlyBudget: 100 });
+
+    expect(plan.strategies[0].cleared).toBe(false);
+    expect(plan.strategies[0].debts[0].payoffMonth).toBeUndefined();
+    expect(plan.best).toBeUndefined();
+  });
+
+  it('consolidates into the mortgage and repays with the same budget', () => {
+    const plan = planDebtPayoff({
+      ...baseInputs,
+      consolidation: { annualRate: 6, years: 25, fees: { upfrontFee: 300, monthlyFee: 0, annualFee: 0 } }
+    });
+    const consolidated = plan.strategies[2];
+    const avalanche = plan.strategies[0];
+
+    expect(consolidated.strategy).toBe('consolidate');
+    expect(consolidated.schedule[0].openingBalance).toBe(26600);
+    expect(consolidated.schedule[0].principalPaid + consolidated.schedule[0].interestCharged).toBeCloseTo(1200, 6);
+    expect(consolidated.totalInterest).toBeLessThan(avalanche.totalInterest);
+    expect(consolidated.totalFees).toBe(300);
+    expect(plan.best).toBe('consolidate');
+  });
+
+  it('does not clear a consolidation the budget cannot repay', () => {
+    const plan = planDebtPayoff({
+      ...baseInputs,
+      monthlyBudget: 100,
+      consolidation: { annualRate: 6, years: 25 }
+    });
+    const consolidated = plan.strategies[2];
+
+    expect(consolidated.cleared).toBe(false);
+    expect(plan.best).not.toBe('consolidate');
+  });
+
+  it('reports the borrowing power freed by clearing the debts', () => {
+    const plan = planDebtPayoff({
+      ...baseInputs,
+      capacity: {
+        incomes: [{ amountAnnual: 150000, shadingFactor: 0.7 }],
+        livingExpensesMonthly: 3000,
+        dependants: 0,
+        hasHECS: false,
+        baseRate: 9,
+        bufferRate: 0,
+        termYears: 30,
+        repaymentType: 'principalAndInterest'
+      }
+    });
+    const impact = plan.borrowingPower!;
+
+    expect(impact.debtFree).toBeGreaterThan(impact.withDebts);
+    expect(impact.gain).toBeCloseTo(impact.debtFree - impact.withDebts, 6);
+    expect(impact.consolidated).toBeUndefined();
+  });
+
+  it('counts consolidated debts as a home loan in the borrowing power gain', () => {
+    const plan = planDebtPayoff({
+      ...baseInputs,
+      consolidation: { annualRate: 6, years: 25 },
+      capacity: {
+        incomes: [{ amountAnnual: 150000, shadingFactor: 0.7 }],
+        livingExpensesMonthly: 3000,
+        dependants: 0,
+        hasHECS: false,
+        baseRate: 9,
+        bufferRate: 0,
+        termYears: 30,
+        repaymentType: 'principalAndInterest'
+      }
+    });
+    const impact = plan.borrowingPower!;
+
+    expect(impact.consolidated).toBeGreaterThan(impact.withDebts);
+    expect(impact.consolidated).toBeLessThan(impact.debtFree);
+    expect(impact.consolidatedGain).toBeCloseTo(impact.consolidated! - impact.withDebts, 6);
+  });
+});
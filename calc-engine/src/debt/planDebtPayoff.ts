@@ -0,0 +1,343 @@
+/**
+ * Debt Payoff Planner
+ *
+ * Simulates clearing consumer debts (credit cards, personal and car loans,
+ * buy now pay later) from a fixed monthly budget. Every strategy pays each
+ * debt's minimum first, then directs what's left of the budget at one target:
+ *
+ * - Avalanche: highest interest rate first (least interest)
+ * - Snowball: smallest balance first (quickest wins)
+ * - Consolidate: roll every balance into the mortgage and repay it with the
+ *   same budget
+ *
+ * Debts use the same LiabilityInput shape as estimateBorrowingCapacity, so the
+ * plan can report the borrowing power freed by becoming debt-free.
+ */
+
+import {
+  estimateBorrowingCapacity,
+  generateAmortisation,
+  generateScenarioWithExtras,
+  type BorrowingCapacityInputs,
+  type FeeConfig,
+  type LiabilityInput,
+  type LoanInputs,
+  type PeriodRow
+} from '../index';
+import { mergeLoanSchedules } from '../loan/mergeLoanSchedules';
+
+export type DebtKind = 'creditCard' | 'personalLoan' | 'carLoan' | 'bnpl';
+
+export type DebtStrategy = 'avalanche' | 'snowball' | 'consolidate';
+
+/**
+ * A consumer debt; `monthlyRepayment` is its minimum repayment
+ */
+export interface DebtAccount extends LiabilityInput {
+  name: string;
+  kind: DebtKind;
+  balance: number;
+  annualRate: number;              // 0 for interest-free BNPL
+  monthlyFee?: number;
+  limit?: number;                  // Credit card limit, defaults to the balance
+}
+
+export interface DebtConsolidationOptions {
+  annualRate: number;              // Mortgage rate
+  years: number;                   // Term the consolidated balance is spread over
+  fees?: FeeConfig;                // Top-up or refinance costs
+}
+
+export interface DebtPlanInputs {
+  debts: DebtAccount[];
+  monthlyBudget: number;           // Total available for debt repayments each month
+  startDate: string;
+  consolidation?: DebtConsolidationOptions;  // Adds the consolidate strategy
+  capacity?: Omit<BorrowingCapacityInputs, 'creditCardLimits' | 'personalLoans' | 'carLoans'>;
+}
+
+export interface DebtPayoffSchedule {
+  name: string;
+  kind: DebtKind | 'consolidated';
+  schedule: PeriodRow[];
+  payoffMonth?: number;            // Months until cleared, undefined if never
+  totalInterest: number;
+  totalFees: number;
+}
+
+export interface DebtStrategyResult {
+  strategy: DebtStrategy;
+  debts: DebtPayoffSchedule[];
+  schedule: PeriodRow[];           // Every debt merged
+  payoffOrder: string[];
+  cleared: boolean;                // False if the budget never clears the debts
+  monthsToDebtFree: number;
+  debtFreeDate: string;
+  totalInterest: number;
+  totalFees: number;
+  totalPaid: number;
+}
+
+export interface DebtBorrowingPowerImpact {
+  withDebts: number;
+  debtFree: number;                // Debts repaid and cards closed (avalanche or snowball)
+  gain: number;
+  consolidated?: number;           // Debts rolled into the mortgage and cards closed
+  consolidatedGain?: number;
+}
+
+export interface DebtPlanResult {
+  strategies: DebtStrategyResult[];
+  best?: DebtStrategy;             // Lowest total paid among strategies that clear the debts
+  totalMinimumRepayments: number;
+  budgetShortfall: number;         // Minimums above the budget (minimums are always paid)
+  borrowingPower?: DebtBorrowingPowerImpact;
+}
+
+/** Longest simulation, so debts that never clear still end */
+const MAX_MONTHS = 600;
+const EPSILON = 0.005;
+
+function addMonths(startDate: string, months: number): Date {
+  const date = new Date(startDate);
+  date.setMonth(date.getMonth() + months);
+  return date;
+}
+
+function simulatePayoff(
+  debts: DebtAccount[],
+  monthlyBudget: number,
+  startDate: string,
+  strategy: 'avalanche' | 'snowball'
+): DebtStrategyResult {
+  const balances = debts.map((debt) => Math.max(debt.balance, 0));
+  const schedules: PeriodRow[][] = debts.map(() => []);
+  const interestTotals = debts.map(() => 0);
+  const feeTotals = debts.map(() => 0);
+  const payoffMonths: (number | undefined)[] = balances.map((balance) => (balance > EPSILON ? undefined : 0));
+  const payoffOrder: string[] = [];
+  let totalPaid = 0;
+
+  let month = 0;
+  while (balances.some((balance) => balance > EPSILON) && month < MAX_MONTHS) {
+    const date = addMonths(startDate, month).toISOString();
+    const opening = [...balances];
+    const interest = debts.map((debt, i) => (opening[i] > EPSILON ? (opening[i] * debt.annualRate) / 100 / 12 : 0));
+    const fees = debts.map((debt, i) => (opening[i] > EPSILON ? debt.monthlyFee ?? 0 : 0));
+    const owing = opening.map((balance, i) => balance + interest[i] + fees[i]);
+
+    // Minimums are paid even when they exceed the budget
+    const minimums = debts.map((debt, i) => (opening[i] > EPSILON ? Math.min(debt.monthlyRepayment, owing[i]) : 0));
+    const payments = [...minimums];
+    let available = Math.max(monthlyBudget - minimums.reduce((sum, amount) => sum + amount, 0), 0);
+
+    const targets = debts
+      .map((_, i) => i)
+      .filter((i) => owing[i] - payments[i] > EPSILON)
+      .sort((a, b) =>
+        strategy === 'avalanche'
+          ? debts[b].annualRate - debts[a].annualRate || owing[a] - owing[b]
+          : owing[a] - owing[b] || debts[b].annualRate - debts[a].annualRate
+      );
+    for (const i of targets) {
+      if (available <= EPSILON) break;
+      const extra = Math.min(available, owing[i] - payments[i]);
+      payments[i] += extra;
+      available -= extra;
+    }
+
+    debts.forEach((debt, i) => {
+      if (opening[i] <= EPSILON) return;
+      const closing = owing[i] - payments[i];
+      balances[i] = closing > EPSILON ? closing : 0;
+      interestTotals[i] += interest[i];
+      feeTotals[i] += fees[i];
+      totalPaid += payments[i];
+      schedules[i].push({
+        date,
+        periodIndex: month,
+        openingBalance: opening[i],
+        interestCharged: interest[i],
+        principalPaid: payments[i] - interest[i] - fees[i],
+        extraRepayment: payments[i] - minimums[i],
+        feesApplied: fees[i],
+        offsetBalance: 0,
+        offsetInterestSaved: 0,
+        redrawWithdrawal: 0,
+        redrawAvailable: 0,
+        closingBalance: balances[i]
+      });
+      if (balances[i] === 0) {
+        payoffMonths[i] = month + 1;
+        payoffOrder.push(debt.name);
+      }
+    });
+
+    month += 1;
+  }
+
+  const schedule = mergeLoanSchedules(...schedules);
+  return {
+    strategy,
+    debts: debts.map((debt, i) => ({
+      name: debt.name,
+      kind: debt.kind,
+      schedule: schedules[i],
+      payoffMonth: payoffMonths[i],
+      totalInterest: interestTotals[i],
+      totalFees: feeTotals[i]
+    })),
+    schedule,
+    payoffOrder,
+    cleared: balances.every((balance) => balance === 0),
+    monthsToDebtFree: month,
+    debtFreeDate: schedule.length ? schedule[schedule.length - 1].date : new Date(startDate).toISOString(),
+    totalInterest: interestTotals.reduce((sum, amount) => sum + amount, 0),
+    totalFees: feeTotals.reduce((sum, amount) => sum + amount, 0),
+    totalPaid
+  };
+}
+
+function simulateConsolidation(
+  debts: DebtAccount[],
+  monthlyBudget: number,
+  startDate: string,
+  options: DebtConsolidationOptions
+): DebtStrategyResult {
+  const inputs: LoanInputs = {
+    amount: debts.reduce((sum, debt) => sum + Math.max(debt.balance, 0), 0),
+    annualRate: options.annualRate,
+    years: options.years,
+    frequency: 'monthly',
+    repaymentType: 'principalAndInterest',
+    repaymentStrategy: 'reduceTerm',
+    startDate,
+    fees: options.fees
+  };
+
+  // Whatever the scheduled repayment and fees leave of the budget goes in as an extra
+  const scheduledRepayment = generateAmortisation(inputs).summary.regularPayment;
+  const extra = monthlyBudget - scheduledRepayment - (options.fees?.monthlyFee ?? 0);
+  const { withExtras } = generateScenarioWithExtras(
+    inputs,
+    extra > 0 ? [{ startMonth: 0, amount: extra, frequency: 'customMonths', intervalMonths: 1 }] : []
+  );
+  const finalRow = withExtras.schedule[withExtras.schedule.length - 1];
+
+  // A budget below the scheduled repayment and fees can't keep up the loan
+  const cleared = extra > -EPSILON && (!finalRow || finalRow.closingBalance <= EPSILON);
+
+  return {
+    strategy: 'consolidate',
+    debts: [
+      {
+        name: 'Consolidated loan',
+        kind: 'consolidated',
+        schedule: withExtras.schedule,
+        payoffMonth: withExtras.schedule.length,
+        totalInterest: withExtras.summary.totalInterest,
+        totalFees: withExtras.summary.totalFees
+      }
+    ],
+    schedule: withExtras.schedule,
+    payoffOrder: ['Consolidated loan'],
+    cleared,
+    monthsToDebtFree: withExtras.schedule.length,
+    debtFreeDate: withExtras.summary.payoffDate,
+    totalInterest: withExtras.summary.totalInterest,
+    totalFees: withExtras.summary.totalFees,
+    totalPaid: withExtras.summary.totalPaid
+  };
+}
+
+/**
+ * Plan how to clear consumer debts from a monthly budget
+ *
+ * @param inputs - Debts, monthly budget, optional consolidation terms and capacity inputs
+ * @returns Per-debt schedules and totals for each strategy, the best strategy
+ * and the borrowing power freed by clearing the debts or by consolidating them
+ *
+ * @example
+ * planDebtPayoff({
+ *   debts: [
+ *     { name: 'Visa', kind: 'creditCard', balance: 8000, annualRate: 20.99, monthlyRepayment: 240, limit: 15000 },
+ *     { name: 'Car', kind: 'carLoan', balance: 18000, annualRate: 9.5, monthlyRepayment: 450 }
+ *   ],
+ *   monthlyBudget: 1200,
+ *   startDate: '2025-01-01'
+ * })
+ * // best 'avalanche': Visa cleared first, debt-free in 25 months
+ */
+export function planDebtPayoff(inputs: DebtPlanInputs): DebtPlanResult {
+  const { debts, monthlyBudget, startDate, consolidation, capacity } = inputs;
+
+  const strategies = [
+    simulatePayoff(debts, monthlyBudget, startDate, 'avalanche'),
+    simulatePayoff(debts, monthlyBudget, startDate, 'snowball')
+  ];
+  if (consolidation) {
+    strategies.push(simulateConsolidation(debts, monthlyBudget, startDate, consolidation));
+  }
+
+  const best = strategies
+    .filter((strategy) => strategy.cleared)
+    .reduce<DebtStrategyResult | undefined>(
+      (lowest, strategy) => (!lowest || strategy.totalPaid < lowest.totalPaid ? strategy : lowest),
+      undefined
+    );
+
+  const totalMinimumRepayments = debts.reduce((sum, debt) => sum + debt.monthlyRepayment, 0);
+
+  let borrowingPower: DebtBorrowingPowerImpact | undefined;
+  if (capacity) {
+    const liabilitiesOf = (kinds: DebtKind[]) =>
+      debts
+        .filter((debt) => kinds.includes(debt.kind))
+        .map((debt): LiabilityInput => ({ monthlyRepayment: debt.monthlyRepayment }));
+    const withDebts = estimateBorrowingCapacity({
+      ...capacity,
+      creditCardLimits: debts
+        .filter((debt) => debt.kind === 'creditCard')
+        .reduce((sum, debt) => sum + (debt.limit ?? debt.balance), 0),
+      personalLoans: liabilitiesOf(['personalLoan', 'bnpl']),
+      carLoans: liabilitiesOf(['carLoan'])
+    }).maxBorrowing;
+    const debtFree = estimateBorrowingCapacity({
+      ...capacity,
+      creditCardLimits: 0,
+      personalLoans: [],
+      carLoans: []
+    }).maxBorrowing;
+    borrowingPower = { withDebts, debtFree, gain: debtFree - withDebts };
+
+    if (consolidation) {
+      // The rolled-in balance stays as a home loan, assessed at the buffered rate
+      const consolidatedRepayment = generateAmortisation({
+        amount: debts.reduce((sum, debt) => sum + Math.max(debt.balance, 0), 0),
+        annualRate: capacity.baseRate + capacity.bufferRate,
+        years: consolidation.years,
+        frequency: 'monthly',
+        repaymentType: 'principalAndInterest',
+        repaymentStrategy: 'reduceTerm',
+        startDate
+      }).summary.regularPayment;
+      const consolidated = estimateBorrowingCapacity({
+        ...capacity,
+        creditCardLimits: 0,
+        personalLoans: [],
+        carLoans: [],
+        homeLoans: [...(capacity.homeLoans ?? []), { monthlyRepayment: consolidatedRepayment }]
+      }).maxBorrowing;
+      borrowingPower.consolidated = consolidated;
+      borrowingPower.consolidatedGain = consolidated - withDebts;
+    }
+  }
+
+  return {
+    strategies,
+    best: best?.strategy,
+    totalMinimumRepayments,
+    budgetShortfall: Math.max(totalMinimumRepayments - monthlyBudget, 0),
+    borrowingPower
+  };
+}
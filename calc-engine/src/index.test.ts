@@ -1,5 +1,10 @@
 import { describe, it, expect } from 'vitest';
-import { generateAmortisation, estimateBorrowingCapacity, compareMortgageVsPersonalLoan } from './index';
+import {
+  generateAmortisation,
+  generateScenarioWithExtras,
+  estimateBorrowingCapacity,
+  compareMortgageVsPersonalLoan
+} from './index';
 
 describe('generateAmortisation', () => {
   it('computes a finite schedule with positive payment', () => {
@@ -18,6 +23,574 @@ describe('generateAmortisation', () => {
   });
 });
 
+describe('generateAmortisation with daily accrual', () => {
+  const baseInputs = {
+    amount: 500000,
+    annualRate: 6,
+    years: 30,
+    frequency: 'monthly' as const,
+    repaymentType: 'principalAndInterest' as const,
+    repaymentStrategy: 'reduceTerm' as const,
+    startDate: '2024-01-15',
+    interestAccrual: 'daily' as const
+  };
+
+  it('charges a month of daily interest on the charge day', () => {
+    const result = generateAmortisation(baseInputs);
+    const first = result.schedule[0];
+
+    // 15 Jan -> 15 Feb is 31 days
+    expect(first.interestCharged).toBeCloseTo((500000 * 0.06 * 31) / 365, 2);
+    expect(first.date.slice(0, 10)).toBe(new Date(2024, 1, 15).toISOString().slice(0, 10));
+    expect(first.principalPaid).toBeCloseTo(
+      result.summary.regularPayment - first.interestCharged,
+      6
+    );
+  });
+
+  it('pays the loan off by the end of the term', () => {
+    const result = generateAmortisation(baseInputs);
+    const last = result.schedule[result.schedule.length - 1];
+
+    expect(result.schedule.length).toBeLessThanOrEqual(360);
+    expect(last.closingBalance).toBeCloseTo(0, 6);
+  });
+
+  it('keeps total interest close to the per-period calculation', () => {
+    const daily = generateAmortisation(baseInputs);
+    const perPeriod = generateAmortisation({ ...baseInputs, interestAccrual: 'perPeriod' });
+
+    const relativeDiff =
+      Math.abs(daily.summary.totalInterest - perPeriod.summary.totalInterest) /
+      perPeriod.summary.totalInterest;
+    expect(relativeDiff).toBeLessThan(0.01);
+  });
+
+  it('charges interest monthly on a weekly loan', () => {
+    const result = generateAmortisation({ ...baseInputs, frequency: 'weekly' });
+    const charged = result.schedule.slice(0, 10).filter((row) => row.interestCharged > 0);
+
+    expect(charged.length).toBe(2);
+  });
+
+  it('applies a one-off extra repayment on its actual date', () => {
+    const early = generateAmortisation({
+      ...baseInputs,
+      extraRepayments: [{ effectiveDate: '2024-01-16', amount: 50000, recurring: false }]
+    });
+    const late = generateAmortisation({
+      ...baseInputs,
+      extraRepayments: [{ effectiveDate: '2024-02-14', amount: 50000, recurring: false }]
+    });
+
+    expect(early.schedule[0].extraRepayment).toBe(50000);
+    expect(late.schedule[0].extraRepayment).toBe(50000);
+    expect(early.schedule[0].interestCharged).toBeLessThan(late.schedule[0].interestCharged);
+  });
+
+  it('reduces interest with an offset balance', () => {
+    const result = generateAmortisation({
+      ...baseInputs,
+      offset: { startingBalance: 100000, monthlyContribution: 0 }
+    });
+
+    expect(result.schedule[0].interestCharged).toBeCloseTo((400000 * 0.06 * 31) / 365, 2);
+  });
+});
+
+describe('generateAmortisation with a fixed rate period', () => {
+  const baseInputs = {
+    amount: 600000,
+    annualRate: 6,
+    years: 30,
+    frequency: 'monthly' as const,
+    repaymentType: 'principalAndInterest' as const,
+    repaymentStrategy: 'reduceTerm' as const,
+    startDate: '2024-01-01',
+    fixedRate: { annualRate: 2.5, years: 3, revertRate: 6.5 }
+  };
+
+  it('charges the fixed rate until expiry then the revert rate', () => {
+    const result = generateAmortisation(baseInputs);
+
+    expect(result.schedule[0].interestCharged).toBeCloseTo((600000 * 0.025) / 12, 6);
+    const firstReverted = result.schedule[36];
+    expect(firstReverted.interestCharged).toBeCloseTo(
+      (firstReverted.openingBalance * 0.065) / 12,
+      6
+    );
+  });
+
+  it('recalculates the repayment at expiry and reports the jump', () => {
+    const result = generateAmortisation(baseInputs);
+    const expiry = result.summary.fixedRateExpiry;
+
+    expect(expiry).toBeDefined();
+    expect(expiry!.date).toBe(result.schedule[36].date);
+    expect(expiry!.balance).toBeCloseTo(result.schedule[36].openingBalance, 6);
+    expect(expiry!.revertRate).toBe(6.5);
+    expect(expiry!.paymentAfter).toBeGreaterThan(expiry!.paymentBefore);
+    expect(result.schedule.length).toBe(360);
+    expect(result.schedule[359].closingBalance).toBeCloseTo(0, 2);
+  });
+
+  it('applies rate changes after expiry on top of the revert rate', () => {
+    const result = generateAmortisation({
+      ...baseInputs,
+      rateChanges: [
+        { effectiveDate: '2025-01-01', annualRate: 9 },
+        { effectiveDate: '2028-01-01', annualRate: 5 }
+      ]
+    });
+
+    expect(result.schedule[12].interestCharged).toBeCloseTo(
+      (result.schedule[12].openingBalance * 0.025) / 12,
+      6
+    );
+    expect(result.schedule[36].interestCharged).toBeCloseTo(
+      (result.schedule[36].openingBalance * 0.065) / 12,
+      6
+    );
+    expect(result.schedule[48].interestCharged).toBeCloseTo(
+      (result.schedule[48].openingBalance * 0.05) / 12,
+      6
+    );
+  });
+
+  it('caps extra repayments per loan year while fixed', () => {
+    const result = generateAmortisation({
+      ...baseInputs,
+      fixedRate: { ...baseInputs.fixedRate, extraRepaymentLimit: 10000 },
+      extraRepayments: [{ effectiveDate: '2024-01-01', amount: 2000, recurring: true }]
+    });
+
+    const firstYearExtras = result.schedule
+      .slice(0, 12)
+      .reduce((sum, row) => sum + row.extraRepayment, 0);
+    expect(firstYearExtras).toBe(10000);
+    expect(result.schedule[36].extraRepayment).toBe(2000);
+  });
+});
+
+describe('generateAmortisation with an interest-only period', () => {
+  const baseInputs = {
+    amount: 600000,
+    annualRate: 6,
+    years: 30,
+    frequency: 'monthly' as const,
+    repaymentType: 'principalAndInterest' as const,
+    repaymentStrategy: 'reduceTerm' as const,
+    startDate: '2024-01-01',
+    interestOnlyYears: 5
+  };
+
+  it('pays interest only until the period ends', () => {
+    const result = generateAmortisation(baseInputs);
+
+    expect(result.schedule[0].principalPaid).toBe(0);
+    expect(result.schedule[59].closingBalance).toBe(600000);
+    expect(result.schedule[60].principalPaid).toBeGreaterThan(0);
+  });
+
+  it('amortises over the remaining term and reports the repayment shock', () => {
+    const result = generateAmortisation(baseInputs);
+    const expiry = result.summary.interestOnlyExpiry;
+
+    expect(expiry).toBeDefined();
+    expect(expiry!.date).toBe(result.schedule[60].date);
+    expect(expiry!.paymentBefore).toBeCloseTo(3000, 6);
+    // $600k at 6% over 25 years
+    expect(expiry!.paymentAfter).toBeCloseTo(3865.81, 2);
+    expect(expiry!.repaymentShock).toBeCloseTo(865.81, 2);
+    expect(result.schedule.length).toBe(360);
+    expect(result.schedule[359].closingBalance).toBeCloseTo(0, 2);
+  });
+
+  it('averages the interest-only repayment under daily accrual at a weekly frequency', () => {
+    const result = generateAmortisation({ ...baseInputs, frequency: 'weekly', interestAccrual: 'daily' });
+    const expiry = result.summary.interestOnlyExpiry!;
+
+    // A year of interest on $600k at 6% spread over 52 weeks, give or take the days in the year
+    expect(expiry.paymentBefore).toBeCloseTo(36000 / 52, -1);
+    expect(expiry.repaymentShock).toBeCloseTo(expiry.paymentAfter - expiry.paymentBefore, 6);
+    expect(expiry.repaymentShock).toBeLessThan(expiry.paymentAfter / 2);
+  });
+
+  it('is ignored for loans that are interest-only for the whole term', () => {
+    const result = generateAmortisation({ ...baseInputs, repaymentType: 'interestOnly' });
+
+    expect(result.summary.interestOnlyExpiry).toBeUndefined();
+    expect(result.schedule[100].principalPaid).toBe(0);
+  });
+});
+
+describe('generateAmortisation with repayments reset on rate changes', () => {
+  const baseInputs = {
+    amount: 600000,
+    annualRate: 6,
+    years: 30,
+    frequency: 'monthly' as const,
+    repaymentType: 'principalAndInterest' as const,
+    repaymentStrategy: 'reduceTerm' as const,
+    startDate: '2024-01-01',
+    rateChanges: [{ effectiveDate: '2026-01-01', annualRate: 8 }],
+    recalculateOnRateChange: true
+  };
+
+  it('recalculates the repayment over the remaining term when the rate moves', () => {
+    const result = generateAmortisation(baseInputs);
+    const before = result.schedule[23];
+    const after = result.schedule[24];
+    const expected = generateAmortisation({
+      ...baseInputs,
+      amount: before.closingBalance,
+      annualRate: 8,
+      years: 28,
+      rateChanges: [],
+      startDate: after.date
+    }).summary.regularPayment;
+
+    expect(before.interestCharged + before.principalPaid).toBeCloseTo(3597.3, 1);
+    expect(after.interestCharged + after.principalPaid).toBeCloseTo(expected, 6);
+    expect(result.schedule).toHaveLength(360);
+    expect(result.schedule[359].closingBalance).toBeCloseTo(0, 2);
+  });
+
+  it('holds the repayment without the option', () => {
+    const result = generateAmortisation({
+      ...baseInputs,
+      rateChanges: [{ effectiveDate: '2026-01-01', annualRate: 6.5 }],
+      recalculateOnRateChange: false
+    });
+
+    expect(result.schedule[24].interestCharged + result.schedule[24].principalPaid).toBeCloseTo(
+      result.schedule[0].interestCharged + result.schedule[0].principalPaid,
+      6
+    );
+  });
+
+  it('gives back term saved by extra repayments', () => {
+    const extraRepayments = [{ effectiveDate: '2024-01-01', amount: 50000, recurring: false }];
+    const reset = generateAmortisation({ ...baseInputs, extraRepayments });
+    const held = generateAmortisation({ ...baseInputs, extraRepayments, rateChanges: [] });
+
+    expect(held.schedule.length).toBeLessThan(360);
+    expect(reset.schedule).toHaveLength(360);
+  });
+});
+
+describe('generateAmortisation with a repayment pause', () => {
+  const baseInputs = {
+    amount: 600000,
+    annualRate: 6,
+    years: 30,
+    frequency: 'monthly' as const,
+    repaymentType: 'principalAndInterest' as const,
+    repaymentStrategy: 'reduceTerm' as const,
+    startDate: '2024-01-01',
+    repaymentPauses: [{ startDate: '2024-07-01', endDate: '2025-01-01' }]
+  };
+
+  it('capitalises interest while repayments are paused', () => {
+    const result = generateAmortisation(baseInputs);
+    const paused = result.schedule[6];
+
+    expect(paused.principalPaid).toBeCloseTo(-paused.interestCharged, 6);
+    expect(paused.closingBalance).toBeCloseTo(paused.openingBalance * 1.005, 6);
+    expect(result.schedule[12].principalPaid).toBeGreaterThan(0);
+
+    const pause = result.summary.repaymentPauses![0];
+    const capitalised = result.schedule
+      .slice(6, 12)
+      .reduce((sum, row) => sum + row.interestCharged, 0);
+    expect(pause.interestCapitalised).toBeCloseTo(capitalised, 6);
+  });
+
+  it('extends the term under reduceTerm', () => {
+    const result = generateAmortisation(baseInputs);
+    const pause = result.summary.repaymentPauses![0];
+
+    expect(pause.paymentAfter).toBe(pause.paymentBefore);
+    expect(pause.extraPeriods).toBeGreaterThan(6);
+    expect(result.schedule.length).toBe(360 + pause.extraPeriods);
+    expect(result.schedule[result.schedule.length - 1].closingBalance).toBeCloseTo(0, 2);
+  });
+
+  it('raises the repayment under reduceRepayment', () => {
+    const result = generateAmortisation({ ...baseInputs, repaymentStrategy: 'reduceRepayment' });
+    const pause = result.summary.repaymentPauses![0];
+
+    expect(pause.paymentAfter).toBeGreaterThan(pause.paymentBefore);
+    expect(pause.extraPeriods).toBe(0);
+    expect(result.schedule.length).toBe(360);
+    expect(result.schedule[359].closingBalance).toBeCloseTo(0, 2);
+  });
+
+  it('costs the pause against a baseline in generateScenarioWithExtras', () => {
+    const { repaymentPauses, ...loan } = baseInputs;
+    const scenario = generateScenarioWithExtras(loan, [], repaymentPauses);
+
+    expect(scenario.baseline.summary.repaymentPauses).toBeUndefined();
+    expect(scenario.withExtras.summary.repaymentPauses).toHaveLength(1);
+    expect(scenario.comparison.interestSaved).toBeLessThan(0);
+    expect(scenario.comparison.periodsSaved).toBeLessThan(0);
+  });
+
+  it('accepts a reduced repayment during the pause', () => {
+    const result = generateAmortisation({
+      ...baseInputs,
+      repaymentPauses: [{ startDate: '2024-07-01', endDate: '2025-01-01', reducedPayment: 1000 }]
+    });
+    const paused = result.schedule[6];
+
+    expect(paused.closingBalance).toBeCloseTo(paused.openingBalance + paused.interestCharged - 1000, 6);
+  });
+
+  it('carries on past the term when the pause outlasts it', () => {
+    const overrun = { ...baseInputs, years: 2, repaymentPauses: [{ startDate: '2025-06-01', endDate: '2026-07-01' }] };
+
+    for (const repaymentStrategy of ['reduceTerm', 'reduceRepayment'] as const) {
+      for (const interestAccrual of ['perPeriod', 'daily'] as const) {
+        const result = generateAmortisation({ ...overrun, repaymentStrategy, interestAccrual });
+        const pause = result.summary.repaymentPauses![0];
+        const last = result.schedule[result.schedule.length - 1];
+
+        expect(result.schedule.length).toBe(24 + pause.extraPeriods);
+        expect(pause.extraPeriods).toBeGreaterThan(6);
+        expect(last.closingBalance).toBeCloseTo(0, 2);
+        expect(new Date(last.date) >= new Date('2026-07-01')).toBe(true);
+      }
+    }
+  });
+
+  it('capitalises interest under daily accrual', () => {
+    const result = generateAmortisation({ ...baseInputs, interestAccrual: 'daily' });
+    const paused = result.schedule[6];
+
+    expect(paused.closingBalance).toBeCloseTo(paused.openingBalance + paused.interestCharged, 6);
+    expect(result.summary.repaymentPauses![0].interestCapitalised).toBeGreaterThan(17000);
+  });
+});
+
+describe('generateAmortisation with a redraw facility', () => {
+  const baseInputs = {
+    amount: 400000,
+    annualRate: 6,
+    years: 30,
+    frequency: 'monthly' as const,
+    repaymentType: 'principalAndInterest' as const,
+    repaymentStrategy: 'reduceTerm' as const,
+    startDate: '2024-01-01',
+    extraRepayments: [{ effectiveDate: '2024-01-01', amount: 20000, recurring: false }]
+  };
+
+  it('builds redraw from extra repayments', () => {
+    const result = generateAmortisation(baseInputs);
+
+    expect(result.schedule[0].redrawAvailable).toBe(20000);
+    expect(result.schedule[5].redrawAvailable).toBe(20000);
+    expect(result.schedule[0].redrawWithdrawal).toBe(0);
+  });
+
+  it('adds a one-off withdrawal back onto the balance', () => {
+    const withoutDraw = generateAmortisation(baseInputs);
+    const result = generateAmortisation({
+      ...baseInputs,
+      redraw: {
+        withdrawals: [{ effectiveDate: '2024-06-01', amount: 15000, recurring: false }],
+        withdrawalFee: 25
+      }
+    });
+
+    const row = result.schedule[5];
+    expect(row.redrawWithdrawal).toBe(15000);
+    expect(row.redrawAvailable).toBe(5000);
+    expect(row.feesApplied).toBe(25);
+    expect(row.closingBalance - withoutDraw.schedule[5].closingBalance).toBeCloseTo(15000, 6);
+    expect(result.schedule.length).toBeGreaterThan(withoutDraw.schedule.length);
+  });
+
+  it('caps withdrawals at the available redraw and enforces the minimum', () => {
+    const result = generateAmortisation({
+      ...baseInputs,
+      redraw: {
+        withdrawals: [{ effectiveDate: '2024-03-01', amount: 8000, recurring: true }],
+        minimumWithdrawal: 5000
+      }
+    });
+
+    expect(result.schedule[2].redrawWithdrawal).toBe(8000);
+    expect(result.schedule[3].redrawWithdrawal).toBe(8000);
+    // Only 4,000 remains, which is under the minimum
+    expect(result.schedule[4].redrawWithdrawal).toBe(0);
+    expect(result.schedule[4].redrawAvailable).toBe(4000);
+  });
+
+  it('draws on the withdrawal date under daily accrual', () => {
+    const result = generateAmortisation({
+      ...baseInputs,
+      interestAccrual: 'daily',
+      extraRepayments: [{ effectiveDate: '2024-01-10', amount: 20000, recurring: false }],
+      redraw: {
+        withdrawals: [{ effectiveDate: '2024-03-10', amount: 10000, recurring: false }]
+      }
+    });
+
+    const row = result.schedule[2];
+    expect(row.redrawWithdrawal).toBe(10000);
+    expect(row.closingBalance).toBeCloseTo(
+      row.openingBalance + row.redrawWithdrawal - row.principalPaid,
+      6
+    );
+  });
+});
+
+describe('generateAmortisation with offset accounts', () => {
+  const baseInputs = {
+    amount: 500000,
+    annualRate: 6,
+    years: 30,
+    frequency: 'fortnightly' as const,
+    repaymentType: 'principalAndInterest' as const,
+    repaymentStrategy: 'reduceTerm' as const,
+    startDate: '2024-01-01'
+  };
+
+  it('pro-rates monthly contributions to the repayment frequency', () => {
+    const result = generateAmortisation({
+      ...baseInputs,
+      offset: { startingBalance: 0, monthlyContribution: 1300 }
+    });
+
+    expect(result.schedule[0].offsetBalance).toBeCloseTo(600, 6);
+    expect(result.schedule[25].offsetBalance).toBeCloseTo(15600, 6);
+  });
+
+  it('combines linked accounts and reports the interest saved', () => {
+    const result = generateAmortisation({
+      ...baseInputs,
+      offset: {
+        startingBalance: 20000,
+        monthlyContribution: 0,
+        linkedAccounts: [{ name: 'Joint', startingBalance: 30000, monthlyContribution: 0 }]
+      }
+    });
+
+    const row = result.schedule[0];
+    expect(row.offsetBalance).toBe(50000);
+    expect(row.interestCharged).toBeCloseTo((450000 * 0.06) / 26, 6);
+    expect(row.offsetInterestSaved).toBeCloseTo((50000 * 0.06) / 26, 6);
+  });
+
+  it('applies dated deposits and withdrawals without going below zero', () => {
+    const result = generateAmortisation({
+      ...baseInputs,
+      frequency: 'monthly',
+      offset: {
+        startingBalance: 40000,
+        monthlyContribution: 0,
+        transactions: [
+          { date: '2024-03-15', amount: -25000 },
+          { date: '2024-06-01', amount: 10000 },
+          { date: '2024-09-01', amount: -100000 }
+        ]
+      }
+    });
+
+    expect(result.schedule[1].offsetBalance).toBe(40000);
+    expect(result.schedule[2].offsetBalance).toBe(15000);
+    expect(result.schedule[5].offsetBalance).toBe(25000);
+    expect(result.schedule[8].offsetBalance).toBe(0);
+    expect(result.schedule[8].offsetInterestSaved).toBe(0);
+  });
+
+  it('attributes interest saved under daily accrual', () => {
+    const result = generateAmortisation({
+      ...baseInputs,
+      frequency: 'weekly',
+      interestAccrual: 'daily',
+      offset: { startingBalance: 100000, monthlyContribution: 500 }
+    });
+
+    expect(result.schedule[0].offsetInterestSaved).toBeCloseTo(
+      (100000 * 0.06 * 7) / 365,
+      6
+    );
+  });
+});
+
+describe('generateAmortisation with a property value track', () => {
+  const baseInputs = {
+    amount: 600000,
+    annualRate: 6,
+    years: 30,
+    frequency: 'monthly' as const,
+    repaymentType: 'principalAndInterest' as const,
+    repaymentStrategy: 'reduceTerm' as const,
+    startDate: '2024-01-01'
+  };
+
+  it('adds property value, equity and LVR to each row', () => {
+    const result = generateAmortisation({
+      ...baseInputs,
+      propertyValue: { startValue: 700000, growthRate: 4 }
+    });
+
+    const yearOne = result.schedule[11];
+    expect(yearOne.propertyValue).toBeCloseTo(728000, 6);
+    expect(yearOne.equity).toBeCloseTo(728000 - yearOne.closingBalance, 6);
+    expect(yearOne.lvr).toBeCloseTo((yearOne.closingBalance / 728000) * 100, 6);
+    expect(result.schedule[0].propertyValue).toBeCloseTo(700000 * Math.pow(1.04, 1 / 12), 6);
+  });
+
+  it('leaves rows without a track untouched', () => {
+    const result = generateAmortisation(baseInputs);
+
+    expect(result.schedule[0].propertyValue).toBeUndefined();
+    expect(result.summary.propertyValue).toBeUndefined();
+  });
+
+  it('reports when the LVR first reaches 80% and 60%', () => {
+    const { schedule, summary } = generateAmortisation({
+      ...baseInputs,
+      propertyValue: { startValue: 700000, growthRate: 4 }
+    });
+    const track = summary.propertyValue!;
+    const lvr80Row = schedule.find((row) => row.periodIndex === track.lvr80!.periodIndex)!;
+
+    expect(track.startLvr).toBeCloseTo((600000 / 700000) * 100, 6);
+    expect(lvr80Row.lvr).toBeLessThanOrEqual(80);
+    expect(schedule[lvr80Row.periodIndex - 2].lvr).toBeGreaterThan(80);
+    expect(track.lvr80!.date).toBe(lvr80Row.date);
+    expect(track.lvr60!.periodIndex).toBeGreaterThan(track.lvr80!.periodIndex);
+    expect(track.lvr60!.lvr).toBeLessThanOrEqual(60);
+    expect(track.finalEquity).toBeCloseTo(track.finalPropertyValue, 6);
+  });
+
+  it('follows a year-by-year growth path and carries the last rate on', () => {
+    const { schedule } = generateAmortisation({
+      ...baseInputs,
+      propertyValue: { startValue: 700000, growthRate: 10, yearlyGrowthRates: [5, -2] }
+    });
+
+    expect(schedule[11].propertyValue).toBeCloseTo(735000, 6);
+    expect(schedule[23].propertyValue).toBeCloseTo(735000 * 0.98, 6);
+    expect(schedule[35].propertyValue).toBeCloseTo(735000 * 0.98 * 0.98, 6);
+    expect(schedule[17].propertyValue).toBeCloseTo(735000 * Math.pow(0.98, 0.5), 6);
+  });
+
+  it('never reaches 60% on an interest-only loan with flat prices', () => {
+    const { summary } = generateAmortisation({
+      ...baseInputs,
+      repaymentType: 'interestOnly',
+      propertyValue: { startValue: 750000 }
+    });
+
+    expect(summary.propertyValue!.lvr80!.periodIndex).toBe(1);
+    expect(summary.propertyValue!.lvr60).toBeUndefined();
+  });
+});
+
 describe('estimateBorrowingCapacity', () => {
   it('returns non-negative capacity', () => {
     const result = estimateBorrowingCapacity({
@@ -39,6 +612,77 @@ describe('estimateBorrowingCapacity', () => {
     expect(result.maxBorrowing).toBeGreaterThanOrEqual(0);
     expect(result.capacityByRate.length).toBeGreaterThan(0);
   });
+
+  it('counts existing home loan repayments as debts', () => {
+    const inputs = {
+      incomes: [{ amountAnnual: 180000, shadingFactor: 1 }],
+      livingExpensesMonthly: 3500,
+      dependants: 0,
+      creditCardLimits: 0,
+      personalLoans: [],
+      carLoans: [],
+      hasHECS: false,
+      baseRate: 6,
+      bufferRate: 3,
+      termYears: 30,
+      repaymentType: 'principalAndInterest' as const
+    };
+    const plain = estimateBorrowingCapacity(inputs);
+    const result = estimateBorrowingCapacity({ ...inputs, homeLoans: [{ monthlyRepayment: 2500 }] });
+
+    expect(result.totalOtherDebt).toBeCloseTo(plain.totalOtherDebt + 2500, 6);
+    expect(result.maxBorrowing).toBeLessThan(plain.maxBorrowing);
+    expect(result.limitingFactors).toContain('Existing home loan repayments reduce borrowing capacity.');
+  });
+
+  describe('with LMI', () => {
+    const inputs = {
+      incomes: [{ amountAnnual: 150000, shadingFactor: 0.9 }],
+      livingExpensesMonthly: 3000,
+      dependants: 0,
+      creditCardLimits: 0,
+      personalLoans: [],
+      carLoans: [],
+      hasHECS: false,
+      baseRate: 6,
+      bufferRate: 3,
+      termYears: 30,
+      repaymentType: 'principalAndInterest' as const,
+      depositPercent: 0.1
+    };
+
+    it('prices LMI paid in cash without changing the purchase price', () => {
+      const plain = estimateBorrowingCapacity(inputs);
+      const result = estimateBorrowingCapacity({ ...inputs, lmi: { state: 'NSW' } });
+
+      expect(result.estimatedPurchasePrice).toBeCloseTo(plain.estimatedPurchasePrice, 6);
+      expect(result.lmi!.lvr).toBeCloseTo(90, 6);
+      expect(result.lmi!.upfrontCost).toBeGreaterThan(0);
+    });
+
+    it('fits a capitalised premium within borrowing power', () => {
+      const plain = estimateBorrowingCapacity(inputs);
+      const result = estimateBorrowingCapacity({
+        ...inputs,
+        lmi: { state: 'NSW', capitalise: true }
+      });
+
+      expect(result.lmi!.totalLoanAmount).toBeCloseTo(result.maxBorrowing, 1);
+      expect(result.estimatedPurchasePrice).toBeLessThan(plain.estimatedPurchasePrice);
+      expect(result.lmi!.lvr).toBeCloseTo(90, 6);
+    });
+
+    it('skips LMI with a 20% deposit', () => {
+      const result = estimateBorrowingCapacity({
+        ...inputs,
+        depositPercent: 0.2,
+        lmi: { state: 'NSW', capitalise: true }
+      });
+
+      expect(result.lmi!.required).toBe(false);
+      expect(result.lmi!.totalLoanAmount).toBeCloseTo(result.maxBorrowing, 6);
+    });
+  });
 });
 
 describe('compareMortgageVsPersonalLoan', () => {
@@ -101,4 +745,29 @@ describe('compareMortgageVsPersonalLoan', () => {
     const expectedDiff = result.summary.splitMortgagePayment - result.summary.fullMortgagePayment;
     expect(result.summary.monthlyPaymentDifferenceAfterPersonal).toBeCloseTo(expectedDiff, 2);
   });
+
+  it('includes per-loan fees in totals and differences', () => {
+    const withoutFees = compareMortgageVsPersonalLoan(testInputs);
+    const result = compareMortgageVsPersonalLoan({
+      ...testInputs,
+      mortgageFees: { upfrontFee: 600, monthlyFee: 0, annualFee: 395 },
+      personalLoanFees: { upfrontFee: 250, monthlyFee: 15, annualFee: 0 }
+    });
+
+    expect(result.summary.fullMortgageTotalFees).toBeCloseTo(600 + 395 * 30, 6);
+    expect(result.summary.splitPersonalTotalFees).toBeCloseTo(250 + 15 * 60, 6);
+    expect(result.summary.splitCombinedTotalFees).toBeCloseTo(
+      result.summary.splitMortgageTotalFees + result.summary.splitPersonalTotalFees,
+      6
+    );
+    expect(result.summary.totalFeesDifference).toBeCloseTo(250 + 15 * 60, 6);
+    expect(result.summary.fullMortgageTotalPaid - withoutFees.summary.fullMortgageTotalPaid).toBeCloseTo(
+      result.summary.fullMortgageTotalFees,
+      6
+    );
+    expect(result.summary.totalPaidDifference - withoutFees.summary.totalPaidDifference).toBeCloseTo(
+      result.summary.totalFeesDifference,
+      6
+    );
+  });
 });
@@ -1,9 +1,22 @@
+import { compareLoanScenarios } from './loan/compareLoanScenarios';
+import { mergeLoanSchedules } from './loan/mergeLoanSchedules';
+import { estimateLMI, type LMIResult } from './property/estimateLMI';
+import type { LMIPremiumTable } from './property/lmiPremiumRates';
+import type { AustralianState } from './property/types';
+
 export type RepaymentFrequency = 'weekly' | 'fortnightly' | 'monthly';
 
 export type RepaymentType = 'principalAndInterest' | 'interestOnly';
 
 export type RepaymentStrategy = 'reduceTerm' | 'reduceRepayment';
 
+/**
+ * How interest is calculated:
+ * - perPeriod: annual rate / periods per year on each period's opening balance
+ * - daily: accrued daily on the balance net of offset, charged monthly
+ */
+export type InterestAccrualMode = 'perPeriod' | 'daily';
+
 export interface RateChange {
   effectiveDate: string;
   annualRate: number;
@@ -16,9 +29,46 @@ export interface ExtraRepayment {
   endDate?: string;
 }
 
-export interface OffsetConfig {
+export interface RedrawWithdrawal {
+  effectiveDate: string;
+  amount: number;
+  recurring: boolean;
+  endDate?: string;
+}
+
+export interface RedrawConfig {
+  withdrawals?: RedrawWithdrawal[];
+  minimumWithdrawal?: number;    // Smallest withdrawal the lender allows
+  withdrawalFee?: number;        // Charged on each withdrawal
+}
+
+export interface OffsetTransaction {
+  date: string;
+  amount: number;                  // Positive deposits, negative withdrawals
+}
+
+export interface OffsetAccount {
+  name?: string;
   startingBalance: number;
-  monthlyContribution: number;
+  monthlyContribution: number;     // Pro-rated to the repayment frequency
+  transactions?: OffsetTransaction[];
+}
+
+export interface OffsetConfig extends OffsetAccount {
+  linkedAccounts?: OffsetAccount[];  // Further accounts offsetting the same loan
+}
+
+export interface FixedRatePeriod {
+  annualRate: number;              // Fixed rate, overrides annualRate until expiry
+  years: number;                   // Fixed term from the loan start
+  revertRate: number;              // Variable rate the loan rolls to at expiry
+  extraRepaymentLimit?: number;    // Max extra repayments per loan year while fixed
+}
+
+export interface RepaymentPause {
+  startDate: string;
+  endDate: string;                 // Repayments resume from this date
+  reducedPayment?: number;         // Paid each period during the pause, defaults to 0
 }
 
 export interface FeeConfig {
@@ -27,6 +77,12 @@ export interface FeeConfig {
   annualFee: number;
 }
 
+export interface PropertyValueTrack {
+  startValue: number;              // Property value at the loan start date
+  growthRate?: number;             // % p.a., defaults to 0
+  yearlyGrowthRates?: number[];    // % for each loan year in turn, overrides growthRate; the last rate carries on
+}
+
 export interface LoanInputs {
   amount: number;
   annualRate: number;
@@ -39,6 +95,14 @@ export interface LoanInputs {
   offset?: OffsetConfig;
   extraRepayments?: ExtraRepayment[];
   fees?: FeeConfig;
+  fixedRate?: FixedRatePeriod;
+  redraw?: RedrawConfig;
+  interestOnlyYears?: number;             // Initial IO period on a P&I loan
+  recalculateOnRateChange?: boolean;      // reduceTerm only: reset the repayment over the remaining term when the rate moves
+  repaymentPauses?: RepaymentPause[];
+  interestAccrual?: InterestAccrualMode;  // Defaults to 'perPeriod'
+  interestChargeDay?: number;             // Day of month interest is charged (daily mode), defaults to start day
+  propertyValue?: PropertyValueTrack;     // Adds property value, equity and LVR to each row
 }
 
 export interface PeriodRow {
@@ -50,7 +114,54 @@ export interface PeriodRow {
   extraRepayment: number;
   feesApplied: number;
   offsetBalance: number;
+  offsetInterestSaved: number;  // Interest the offset balance avoided this period
+  redrawWithdrawal: number;     // Drawn back out of the loan this period
+  redrawAvailable: number;      // Extra repayments available to redraw at period end
   closingBalance: number;
+  propertyValue?: number;       // At period end, when LoanInputs.propertyValue is set
+  equity?: number;              // Property value less the closing balance
+  lvr?: number;                 // Closing balance over property value (%)
+}
+
+export interface FixedRateExpirySummary {
+  date: string;
+  balance: number;
+  revertRate: number;
+  paymentBefore: number;
+  paymentAfter: number;
+}
+
+export interface InterestOnlyExpirySummary {
+  date: string;
+  balance: number;
+  paymentBefore: number;
+  paymentAfter: number;
+  repaymentShock: number;         // Increase in the regular repayment
+}
+
+export interface RepaymentPauseSummary {
+  startDate: string;
+  endDate: string;
+  interestCapitalised: number;    // Unpaid interest added to the balance
+  paymentBefore: number;
+  paymentAfter: number;
+  extraPeriods: number;           // Periods added to the term under reduceTerm
+}
+
+export interface LvrMilestone {
+  date: string;
+  periodIndex: number;
+  propertyValue: number;
+  balance: number;
+  lvr: number;
+}
+
+export interface PropertyValueSummary {
+  startLvr: number;
+  lvr80?: LvrMilestone;            // First period at or under 80%, when refinancing needs no LMI
+  lvr60?: LvrMilestone;            // First period at or under 60%
+  finalPropertyValue: number;
+  finalEquity: number;
 }
 
 export interface AmortisationSummary {
@@ -59,6 +170,10 @@ export interface AmortisationSummary {
   totalFees: number;
   totalPaid: number;
   payoffDate: string;
+  fixedRateExpiry?: FixedRateExpirySummary;
+  interestOnlyExpiry?: InterestOnlyExpirySummary;
+  repaymentPauses?: RepaymentPauseSummary[];
+  propertyValue?: PropertyValueSummary;
 }
 
 export interface AmortisationResult {
@@ -94,6 +209,10 @@ export interface LoanComparisonInputs {
   personalLoanRate: number;
   personalLoanTermYears: number;
 
+  // Fees (the mortgage fees apply to the mortgage in both scenarios)
+  mortgageFees?: FeeConfig;
+  personalLoanFees?: FeeConfig;
+
   // Common settings
   frequency: RepaymentFrequency;
   repaymentType: RepaymentType;
@@ -108,6 +227,7 @@ export interface LoanComparisonSummary {
   // Scenario A: Full mortgage (for totalAmount)
   fullMortgagePayment: number;
   fullMortgageTotalInterest: number;
+  fullMortgageTotalFees: number;
   fullMortgageTotalPaid: number;
   fullMortgagePayoffDate: string;
 
@@ -115,6 +235,7 @@ export interface LoanComparisonSummary {
   splitMortgageAmount: number;
   splitMortgagePayment: number;
   splitMortgageTotalInterest: number;
+  splitMortgageTotalFees: number;
   splitMortgageTotalPaid: number;
   splitMortgagePayoffDate: string;
 
@@ -122,17 +243,20 @@ export interface LoanComparisonSummary {
   splitPersonalAmount: number;
   splitPersonalPayment: number;
   splitPersonalTotalInterest: number;
+  splitPersonalTotalFees: number;
   splitPersonalTotalPaid: number;
   splitPersonalPayoffDate: string;
 
   // Scenario B: Combined totals
   splitCombinedPaymentInitial: number;
   splitCombinedTotalInterest: number;
+  splitCombinedTotalFees: number;
   splitCombinedTotalPaid: number;
 
   // Differences (Scenario B - Scenario A)
   monthlyPaymentDifferenceInitial: number;
   totalInterestDifference: number;
+  totalFeesDifference: number;
   totalPaidDifference: number;
 
   // Monthly payment after personal loan ends
@@ -148,7 +272,10 @@ export interface LoanComparisonResult {
   summary: LoanComparisonSummary;
 }
 
-function frequencyToPeriodsPerYear(frequency: RepaymentFrequency): number {
+/**
+ * Number of repayments a year at a repayment frequency.
+ */
+export function frequencyToPeriodsPerYear(frequency: RepaymentFrequency): number {
   if (frequency === 'weekly') return 52;
   if (frequency === 'fortnightly') return 26;
   return 12;
@@ -166,31 +293,188 @@ function nextPeriodDate(current: Date, frequency: RepaymentFrequency): Date {
   return d;
 }
 
-function findCurrentRate(
-  baseRate: number,
-  changes: RateChange[] | undefined,
-  date: Date
-): number {
-  if (!changes || changes.length === 0) return baseRate;
-  const sorted = [...changes].sort((a, b) =>
-    a.effectiveDate.localeCompare(b.effectiveDate)
-  );
-  let rate = baseRate;
-  for (const change of sorted) {
-    const changeDate = new Date(change.effectiveDate);
-    if (changeDate <= date) {
+function fixedRateExpiryDate(inputs: LoanInputs): Date | undefined {
+  if (!inputs.fixedRate) return undefined;
+  const expiry = new Date(inputs.startDate);
+  expiry.setMonth(expiry.getMonth() + Math.round(inputs.fixedRate.years * 12));
+  return expiry;
+}
+
+/**
+ * Annual rate in force on a date: the fixed rate until the fixed term
+ * expires, then the revert rate with any later rate changes applied. Rate
+ * changes are sorted and parsed once, as the schedule looks the rate up
+ * every period (every day in daily mode).
+ */
+function createRateLookup(inputs: LoanInputs): (date: Date) => number {
+  const { annualRate, rateChanges, fixedRate } = inputs;
+  const expiry = fixedRateExpiryDate(inputs);
+  const changes = [...(rateChanges ?? [])]
+    .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate))
+    .map((change) => ({
+      time: new Date(change.effectiveDate).getTime(),
+      annualRate: change.annualRate
+    }))
+    .filter((change) => !expiry || change.time >= expiry.getTime());
+  const variableRate = fixedRate && expiry ? fixedRate.revertRate : annualRate;
+
+  return (date: Date) => {
+    if (fixedRate && expiry && date < expiry) {
+      return fixedRate.annualRate;
+    }
+    let rate = variableRate;
+    for (const change of changes) {
+      if (change.time > date.getTime()) break;
       rate = change.annualRate;
-    } else {
-      break;
     }
-  }
-  return rate;
+    return rate;
+  };
 }
 
 function isSameOrAfter(a: Date, b: Date): boolean {
   return a.getTime() >= b.getTime();
 }
 
+function isSameDay(a: Date, b: Date): boolean {
+  return (
+    a.getFullYear() === b.getFullYear() &&
+    a.getMonth() === b.getMonth() &&
+    a.getDate() === b.getDate()
+  );
+}
+
+const DAYS_PER_YEAR = 365;
+
+/**
+ * True when `date` is the given day of its month. Days past the end of a
+ * short month (e.g. the 31st in February) fall on the month's last day.
+ */
+function isDayOfMonth(date: Date, dayOfMonth: number): boolean {
+  const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  return date.getDate() === Math.min(dayOfMonth, daysInMonth);
+}
+
+/** Primary offset account followed by any linked accounts. */
+function offsetAccountsOf(offset: OffsetConfig | undefined): OffsetAccount[] {
+  return offset ? [offset, ...(offset.linkedAccounts ?? [])] : [];
+}
+
+/**
+ * Applies each account's dated deposits and withdrawals that are due, in
+ * place. Withdrawals are limited to the funds in the account.
+ */
+function applyOffsetTransactions(
+  accounts: OffsetAccount[],
+  balances: number[],
+  isDue: (date: Date) => boolean
+): void {
+  accounts.forEach((account, index) => {
+    for (const transaction of account.transactions ?? []) {
+      if (isDue(new Date(transaction.date))) {
+        balances[index] = Math.max(0, balances[index] + transaction.amount);
+      }
+    }
+  });
+}
+
+function sumBalances(balances: number[]): number {
+  return balances.reduce((total, balance) => total + balance, 0);
+}
+
+interface DailyAccrualState {
+  balance: number;
+  offsetBalances: number[];
+  accruedInterest: number;
+}
+
+interface DailyAccrualPeriod {
+  interestCharged: number;
+  oneOffExtras: number;
+  oneOffRedraws: number;
+  offsetInterestSaved: number;
+}
+
+interface DailyAccrualHooks {
+  chargeDay: number;
+  offsetDay: number;
+  rateOnDate: (date: Date) => number;
+  limitExtra: (date: Date, amount: number) => number;
+  drawRedraw: (amount: number) => number;
+}
+
+/**
+ * Walks each day in (periodStart, periodEnd], accruing interest on the balance
+ * net of offset and charging it to the loan on the charge day. One-off extra
+ * repayments, one-off redraws, offset transactions and monthly offset
+ * contributions land on their actual dates. Mutates `state` in place.
+ */
+function accrueDailyInterest(
+  state: DailyAccrualState,
+  periodStart: Date,
+  periodEnd: Date,
+  inputs: LoanInputs,
+  hooks: DailyAccrualHooks
+): DailyAccrualPeriod {
+  const { extraRepayments, redraw } = inputs;
+  const { chargeDay, offsetDay, rateOnDate, limitExtra, drawRedraw } = hooks;
+  const offsetAccounts = offsetAccountsOf(inputs.offset);
+  let interestCharged = 0;
+  let oneOffExtras = 0;
+  let oneOffRedraws = 0;
+  let offsetInterestSaved = 0;
+
+  const day = new Date(periodStart.getTime());
+  day.setDate(day.getDate() + 1);
+
+  while (day <= periodEnd && state.balance > 0) {
+    const rate = rateOnDate(day);
+    const offsetBalance = sumBalances(state.offsetBalances);
+    const effectiveBalance = Math.max(0, state.balance - offsetBalance);
+    state.accruedInterest += (effectiveBalance * rate) / 100 / DAYS_PER_YEAR;
+    offsetInterestSaved +=
+      (Math.min(state.balance, offsetBalance) * rate) / 100 / DAYS_PER_YEAR;
+
+    if (isDayOfMonth(day, chargeDay)) {
+      state.balance += state.accruedInterest;
+      interestCharged += state.accruedInterest;
+      state.accruedInterest = 0;
+    }
+
+    if (extraRepayments) {
+      for (const er of extraRepayments) {
+        if (!er.recurring && isSameDay(day, new Date(er.effectiveDate))) {
+          const applied = Math.min(limitExtra(day, er.amount), state.balance);
+          state.balance -= applied;
+          oneOffExtras += applied;
+        }
+      }
+    }
+
+    if (redraw?.withdrawals) {
+      for (const withdrawal of redraw.withdrawals) {
+        if (!withdrawal.recurring && isSameDay(day, new Date(withdrawal.effectiveDate))) {
+          const drawn = drawRedraw(withdrawal.amount);
+          state.balance += drawn;
+          oneOffRedraws += drawn;
+        }
+      }
+    }
+
+    applyOffsetTransactions(offsetAccounts, state.offsetBalances, (date) =>
+      isSameDay(day, date)
+    );
+    if (isDayOfMonth(day, offsetDay)) {
+      offsetAccounts.forEach((account, index) => {
+        state.offsetBalances[index] += account.monthlyContribution;
+      });
+    }
+
+    day.setDate(day.getDate() + 1);
+  }
+
+  return { interestCharged, oneOffExtras, oneOffRedraws, offsetInterestSaved };
+}
+
 function calculateBasePayment(
   amount: number,
   annualRate: number,
@@ -206,27 +490,147 @@ function calculateBasePayment(
   return (amount * r) / (1 - Math.pow(1 + r, -n));
 }
 
+/**
+ * Number of repayments needed to clear a balance at a fixed payment, or
+ * undefined when the payment never covers the interest.
+ */
+function periodsToRepay(
+  balance: number,
+  annualRate: number,
+  payment: number,
+  frequency: RepaymentFrequency
+): number | undefined {
+  const r = annualRate / 100 / frequencyToPeriodsPerYear(frequency);
+  if (payment <= balance * r || payment <= 0) {
+    return undefined;
+  }
+  const n = r === 0 ? balance / payment : -Math.log(1 - (balance * r) / payment) / Math.log(1 + r);
+  return Math.ceil(n - 1e-9);
+}
+
+/**
+ * Property value a number of years after the loan start. A yearly path
+ * compounds each loan year's rate in turn, with part years pro-rated.
+ */
+export function projectPropertyValue(track: PropertyValueTrack, years: number): number {
+  const rates = track.yearlyGrowthRates?.length ? track.yearlyGrowthRates : [track.growthRate ?? 0];
+  let value = track.startValue;
+  let remaining = years;
+  for (let year = 0; remaining > 0; year++) {
+    const rate = rates[Math.min(year, rates.length - 1)];
+    const portion = Math.min(remaining, 1);
+    value *= Math.pow(1 + rate / 100, portion);
+    remaining -= portion;
+  }
+  return value;
+}
+
+const LMI_FREE_LVR = 80;
+const LOW_LVR = 60;
+
+/**
+ * Fills in property value, equity and LVR on each row and finds the periods
+ * the LVR first reaches 80% and 60%.
+ */
+function applyPropertyValueTrack(
+  track: PropertyValueTrack,
+  amount: number,
+  schedule: PeriodRow[],
+  paymentsPerYear: number
+): PropertyValueSummary {
+  const lvrOf = (balance: number, value: number) => (value > 0 ? (balance / value) * 100 : 0);
+  let lvr80: LvrMilestone | undefined;
+  let lvr60: LvrMilestone | undefined;
+
+  for (const row of schedule) {
+    const propertyValue = projectPropertyValue(track, row.periodIndex / paymentsPerYear);
+    const lvr = lvrOf(row.closingBalance, propertyValue);
+    row.propertyValue = propertyValue;
+    row.equity = propertyValue - row.closingBalance;
+    row.lvr = lvr;
+
+    const milestone: LvrMilestone = {
+      date: row.date,
+      periodIndex: row.periodIndex,
+      propertyValue,
+      balance: row.closingBalance,
+      lvr
+    };
+    if (!lvr80 && lvr <= LMI_FREE_LVR) lvr80 = milestone;
+    if (!lvr60 && lvr <= LOW_LVR) lvr60 = milestone;
+  }
+
+  const last = schedule[schedule.length - 1];
+  const finalPropertyValue = last?.propertyValue ?? track.startValue;
+  return {
+    startLvr: lvrOf(amount, track.startValue),
+    lvr80,
+    lvr60,
+    finalPropertyValue,
+    finalEquity: finalPropertyValue - (last?.closingBalance ?? amount)
+  };
+}
+
 export function generateAmortisation(inputs: LoanInputs): AmortisationResult {
   const {
     amount,
-    annualRate,
     years,
     frequency,
     repaymentType,
     repaymentStrategy,
     startDate,
-    rateChanges,
     offset,
     extraRepayments,
-    fees
+    fees,
+    fixedRate,
+    redraw,
+    interestOnlyYears,
+    repaymentPauses,
+    interestAccrual,
+    interestChargeDay,
+    recalculateOnRateChange
   } = inputs;
 
   const paymentsPerYear = frequencyToPeriodsPerYear(frequency);
   const maxPeriods = years * paymentsPerYear;
+  // Grows when a repayment pause extends the term
+  let periodLimit = maxPeriods;
   const start = new Date(startDate);
+  const dailyAccrual = interestAccrual === 'daily';
+  const rateOnDate = createRateLookup(inputs);
+  const fixedExpiry = fixedRateExpiryDate(inputs);
+  let fixedRateExpiry: FixedRateExpirySummary | undefined;
+  const interestOnlyPeriods =
+    repaymentType === 'principalAndInterest'
+      ? Math.round((interestOnlyYears ?? 0) * paymentsPerYear)
+      : 0;
+  let interestOnlyExpiry: InterestOnlyExpirySummary | undefined;
+  const pauseSummaries: RepaymentPauseSummary[] = [];
+  let activePause: { pause: RepaymentPause; summary: RepaymentPauseSummary } | undefined;
+
+  // Extra repayments made while fixed, keyed by loan year
+  const fixedExtrasByYear = new Map<number, number>();
+  const limitExtra = (date: Date, extraAmount: number): number => {
+    const limit = fixedRate?.extraRepaymentLimit;
+    if (limit === undefined || !fixedExpiry || date >= fixedExpiry) {
+      return extraAmount;
+    }
+    const loanYear = Math.floor(
+      ((date.getFullYear() - start.getFullYear()) * 12 +
+        (date.getMonth() - start.getMonth())) /
+        12
+    );
+    const used = fixedExtrasByYear.get(loanYear) ?? 0;
+    const allowed = Math.max(0, Math.min(extraAmount, limit - used));
+    fixedExtrasByYear.set(loanYear, used + allowed);
+    return allowed;
+  };
 
   let balance = amount;
-  let offsetBalance = offset?.startingBalance ?? 0;
+  const offsetAccounts = offsetAccountsOf(offset);
+  const offsetBalances = offsetAccounts.map((account) => account.startingBalance);
+  let accruedInterest = 0;
+  let redrawAvailable = 0;
   let currentDate = new Date(start.getTime());
 
   const schedule: PeriodRow[] = [];
@@ -234,47 +638,234 @@ export function generateAmortisation(inputs: LoanInputs): AmortisationResult {
   let totalFees = fees?.upfrontFee ?? 0;
   let totalPaid = fees?.upfrontFee ?? 0;
 
+  // Withdrawal fees charged this period
+  let redrawFees = 0;
+  const drawRedraw = (requested: number): number => {
+    const drawn = Math.min(requested, redrawAvailable);
+    if (drawn <= 0 || drawn < (redraw?.minimumWithdrawal ?? 0)) {
+      return 0;
+    }
+    redrawAvailable -= drawn;
+    redrawFees += redraw?.withdrawalFee ?? 0;
+    return drawn;
+  };
+
   let regularPayment = calculateBasePayment(
     amount,
-    annualRate,
+    rateOnDate(start),
     years,
     frequency
   );
+  let previousRate = rateOnDate(start);
 
-  for (let i = 0; i < maxPeriods && balance > 0; i += 1) {
+  for (let i = 0; i < periodLimit && balance > 0; i += 1) {
     const periodIndex = i + 1;
-    const currentRate = findCurrentRate(annualRate, rateChanges, currentDate);
-    const periodRate = currentRate / 100 / paymentsPerYear;
+    const openingBalance = balance;
+
+    // The lender recalculates repayments when the fixed term rolls to the
+    // revert rate, whichever repayment strategy is in use
+    if (fixedRate && fixedExpiry && !fixedRateExpiry && currentDate >= fixedExpiry) {
+      const revertRate = rateOnDate(currentDate);
+      const paymentBefore = regularPayment;
+      regularPayment = calculateBasePayment(
+        balance,
+        revertRate,
+        (periodLimit - i) / paymentsPerYear,
+        frequency
+      );
+      fixedRateExpiry = {
+        date: currentDate.toISOString(),
+        balance,
+        revertRate,
+        paymentBefore,
+        paymentAfter: regularPayment
+      };
+    }
 
-    const effectiveBalance = Math.max(0, balance - offsetBalance);
-    const interestCharged = effectiveBalance * periodRate;
+    // P&I repayments start once the interest-only period ends and must clear
+    // the untouched balance over the remaining term
+    if (interestOnlyPeriods > 0 && i === interestOnlyPeriods) {
+      // Daily accrual charges interest monthly, so a weekly or fortnightly
+      // interest-only repayment is averaged over the last year of charges
+      const interestOnlyRows = dailyAccrual ? schedule.slice(-paymentsPerYear) : schedule.slice(-1);
+      const paymentBefore =
+        interestOnlyRows.reduce((sum, row) => sum + row.interestCharged, 0) / interestOnlyRows.length;
+      regularPayment = calculateBasePayment(
+        balance,
+        rateOnDate(currentDate),
+        (periodLimit - i) / paymentsPerYear,
+        frequency
+      );
+      interestOnlyExpiry = {
+        date: currentDate.toISOString(),
+        balance,
+        paymentBefore,
+        paymentAfter: regularPayment,
+        repaymentShock: regularPayment - paymentBefore
+      };
+    }
+
+    // Lenders reset a variable repayment when the rate moves, which gives
+    // back any term that extra repayments have saved
+    const openingRate = rateOnDate(currentDate);
+    if (
+      recalculateOnRateChange &&
+      repaymentStrategy === 'reduceTerm' &&
+      repaymentType === 'principalAndInterest' &&
+      i > interestOnlyPeriods &&
+      !activePause &&
+      openingRate !== previousRate
+    ) {
+      regularPayment = calculateBasePayment(
+        balance,
+        openingRate,
+        (periodLimit - i) / paymentsPerYear,
+        frequency
+      );
+    }
+    previousRate = openingRate;
+
+    // Daily mode rows are dated at the repayment closing the period;
+    // per-period rows are dated at the period start.
+    const periodEnd = nextPeriodDate(currentDate, frequency);
+    const rowDate = dailyAccrual ? periodEnd : currentDate;
+
+    const pause = repaymentPauses?.find(
+      (entry) =>
+        isSameOrAfter(rowDate, new Date(entry.startDate)) && rowDate < new Date(entry.endDate)
+    );
+    if (activePause && activePause.pause !== pause) {
+      // Repayments resume on the capitalised balance: reduceTerm keeps the
+      // repayment and runs longer, reduceRepayment keeps the term. A pause
+      // that ran past the term has no term left to keep, so it runs longer too.
+      const { summary } = activePause;
+      if (repaymentType === 'principalAndInterest' && i >= interestOnlyPeriods) {
+        const resumeRate = rateOnDate(rowDate);
+        const remaining = periodLimit - i;
+        const overranTerm = summary.extraPeriods > 0;
+        const termPeriods =
+          repaymentStrategy === 'reduceTerm' || overranTerm
+            ? periodsToRepay(balance, resumeRate, regularPayment, frequency)
+            : undefined;
+        if (termPeriods === undefined) {
+          regularPayment = calculateBasePayment(
+            balance,
+            resumeRate,
+            remaining / paymentsPerYear,
+            frequency
+          );
+        } else if (termPeriods > remaining) {
+          periodLimit = i + termPeriods;
+          summary.extraPeriods += termPeriods - remaining;
+        }
+      }
+      summary.paymentAfter = regularPayment;
+      activePause = undefined;
+    }
+    if (pause && !activePause) {
+      const summary: RepaymentPauseSummary = {
+        startDate: pause.startDate,
+        endDate: pause.endDate,
+        interestCapitalised: 0,
+        paymentBefore: regularPayment,
+        paymentAfter: regularPayment,
+        extraPeriods: 0
+      };
+      pauseSummaries.push(summary);
+      activePause = { pause, summary };
+    }
+    // A pause still running at the end of the term carries the loan on
+    // until repayments resume
+    if (activePause && periodIndex === periodLimit) {
+      periodLimit += 1;
+      activePause.summary.extraPeriods += 1;
+    }
+
+    let interestCharged: number;
+    let oneOffExtras = 0;
+    let oneOffRedraws = 0;
+    let offsetInterestSaved: number;
+    redrawFees = 0;
+    if (dailyAccrual) {
+      const state: DailyAccrualState = { balance, offsetBalances, accruedInterest };
+      const accrual = accrueDailyInterest(state, currentDate, periodEnd, inputs, {
+        chargeDay: interestChargeDay ?? start.getDate(),
+        offsetDay: start.getDate(),
+        rateOnDate,
+        limitExtra,
+        drawRedraw
+      });
+      balance = state.balance;
+      accruedInterest = state.accruedInterest;
+      interestCharged = accrual.interestCharged;
+      oneOffExtras = accrual.oneOffExtras;
+      oneOffRedraws = accrual.oneOffRedraws;
+      offsetInterestSaved = accrual.offsetInterestSaved;
+    } else {
+      // Offset transactions dated within the period land at its start
+      applyOffsetTransactions(
+        offsetAccounts,
+        offsetBalances,
+        (date) => isSameOrAfter(date, currentDate) && date < periodEnd
+      );
+      const currentRate = rateOnDate(currentDate);
+      const periodRate = currentRate / 100 / paymentsPerYear;
+      const offsetBalance = sumBalances(offsetBalances);
+      const effectiveBalance = Math.max(0, balance - offsetBalance);
+      interestCharged = effectiveBalance * periodRate;
+      offsetInterestSaved = Math.min(balance, offsetBalance) * periodRate;
+    }
 
     let periodPayment = regularPayment;
-    if (repaymentType === 'interestOnly') {
+    if (repaymentType === 'interestOnly' || i < interestOnlyPeriods) {
       periodPayment = interestCharged;
     }
+    if (pause) {
+      periodPayment = pause.reducedPayment ?? 0;
+    }
+    const capitalised = pause ? Math.max(interestCharged - periodPayment, 0) : 0;
+    if (activePause) {
+      activePause.summary.interestCapitalised += capitalised;
+    }
 
-    let extra = 0;
+    let scheduledExtra = 0;
     if (extraRepayments && extraRepayments.length > 0) {
       for (const er of extraRepayments) {
         const erDate = new Date(er.effectiveDate);
         const endDate = er.endDate ? new Date(er.endDate) : undefined;
 
         if (er.recurring) {
-          const afterStart = isSameOrAfter(currentDate, erDate);
-          const beforeEnd = !endDate || currentDate <= endDate;
+          const afterStart = isSameOrAfter(rowDate, erDate);
+          const beforeEnd = !endDate || rowDate <= endDate;
           if (afterStart && beforeEnd) {
-            extra += er.amount;
+            scheduledExtra += er.amount;
           }
-        } else if (
-          currentDate.getFullYear() === erDate.getFullYear() &&
-          currentDate.getMonth() === erDate.getMonth() &&
-          currentDate.getDate() === erDate.getDate()
-        ) {
-          extra += er.amount;
+        } else if (!dailyAccrual && isSameDay(currentDate, erDate)) {
+          scheduledExtra += er.amount;
         }
       }
     }
+    scheduledExtra = limitExtra(rowDate, scheduledExtra);
+    let extra = oneOffExtras + scheduledExtra;
+
+    let scheduledRedraw = 0;
+    if (redraw?.withdrawals) {
+      for (const withdrawal of redraw.withdrawals) {
+        const withdrawalDate = new Date(withdrawal.effectiveDate);
+        const endDate = withdrawal.endDate ? new Date(withdrawal.endDate) : undefined;
+
+        if (withdrawal.recurring) {
+          const afterStart = isSameOrAfter(rowDate, withdrawalDate);
+          const beforeEnd = !endDate || rowDate <= endDate;
+          if (afterStart && beforeEnd) {
+            scheduledRedraw += drawRedraw(withdrawal.amount);
+          }
+        } else if (!dailyAccrual && isSameDay(currentDate, withdrawalDate)) {
+          scheduledRedraw += drawRedraw(withdrawal.amount);
+        }
+      }
+    }
+    const redrawWithdrawal = oneOffRedraws + scheduledRedraw;
 
     let periodFees = 0;
     if (fees) {
@@ -288,39 +879,77 @@ export function generateAmortisation(inputs: LoanInputs): AmortisationResult {
         periodFees += fees.annualFee;
       }
     }
-
-    if (offset && frequency === 'monthly') {
-      offsetBalance += offset.monthlyContribution;
+    periodFees += redrawFees;
+
+    let principalPaid: number;
+    let closingBalance: number;
+    if (dailyAccrual) {
+      // Charged interest is already in the balance, so the repayment and any
+      // recurring extra come straight off it. The final repayment also clears
+      // interest accrued since the last charge day.
+      balance += scheduledRedraw;
+      const recurringExtra = Math.min(scheduledExtra, balance);
+      balance -= recurringExtra;
+      extra = oneOffExtras + recurringExtra;
+      if (periodIndex === periodLimit || balance <= periodPayment) {
+        balance += accruedInterest;
+        interestCharged += accruedInterest;
+        accruedInterest = 0;
+      }
+      periodPayment = Math.min(periodPayment, balance);
+      closingBalance = balance - periodPayment;
+      if (periodIndex === periodLimit) {
+        periodPayment += closingBalance;
+        closingBalance = 0;
+      }
+      // Net reduction in the balance, which dips below zero in a weekly or
+      // fortnightly period that carries a whole month's interest charge
+      principalPaid = openingBalance + redrawWithdrawal - closingBalance;
+    } else {
+      // Interest a paused repayment doesn't cover is added to the balance
+      const repaid = Math.min(
+        Math.max(periodPayment - interestCharged, 0) + extra,
+        balance + redrawWithdrawal
+      );
+      closingBalance = balance + redrawWithdrawal + capitalised - repaid;
+      principalPaid = repaid - capitalised;
     }
 
-    const principalPaid = Math.min(
-      Math.max(periodPayment - interestCharged, 0) + extra,
-      balance
-    );
-    const closingBalance = balance - principalPaid;
+    // Only extra repayments build up redraw; it can never exceed the balance
+    redrawAvailable = Math.min(redrawAvailable + extra, closingBalance);
+
+    if (!dailyAccrual) {
+      offsetAccounts.forEach((account, index) => {
+        offsetBalances[index] += (account.monthlyContribution * 12) / paymentsPerYear;
+      });
+    }
 
     totalInterest += interestCharged;
     totalFees += periodFees;
     totalPaid += periodPayment + extra + periodFees;
 
     schedule.push({
-      date: currentDate.toISOString(),
+      date: rowDate.toISOString(),
       periodIndex,
-      openingBalance: balance,
+      openingBalance,
       interestCharged,
       principalPaid,
       extraRepayment: extra,
       feesApplied: periodFees,
-      offsetBalance,
+      offsetBalance: sumBalances(offsetBalances),
+      offsetInterestSaved,
+      redrawWithdrawal,
+      redrawAvailable,
       closingBalance
     });
 
     balance = closingBalance;
 
-    if (repaymentStrategy === 'reduceRepayment' && repaymentType === 'principalAndInterest') {
-      const remainingYears = (maxPeriods - periodIndex) / paymentsPerYear;
+    // Repayments are recalculated when a pause ends rather than during it
+    if (repaymentStrategy === 'reduceRepayment' && repaymentType === 'principalAndInterest' && !activePause) {
+      const remainingYears = (periodLimit - periodIndex) / paymentsPerYear;
       if (remainingYears > 0) {
-        const newBaseRate = findCurrentRate(annualRate, rateChanges, currentDate);
+        const newBaseRate = rateOnDate(rowDate);
         regularPayment = calculateBasePayment(
           balance,
           newBaseRate,
@@ -330,20 +959,28 @@ export function generateAmortisation(inputs: LoanInputs): AmortisationResult {
       }
     }
 
-    currentDate = nextPeriodDate(currentDate, frequency);
+    currentDate = periodEnd;
   }
 
   const payoffDate = schedule.length
     ? schedule[schedule.length - 1].date
     : start.toISOString();
 
+  const propertyValue = inputs.propertyValue
+    ? applyPropertyValueTrack(inputs.propertyValue, amount, schedule, paymentsPerYear)
+    : undefined;
+
   return {
     summary: {
       regularPayment,
       totalInterest,
       totalFees,
       totalPaid,
-      payoffDate
+      payoffDate,
+      fixedRateExpiry,
+      interestOnlyExpiry,
+      repaymentPauses: pauseSummaries.length ? pauseSummaries : undefined,
+      propertyValue
     },
     schedule
   };
@@ -372,11 +1009,12 @@ export interface ScenarioWithExtrasResult {
 
 export function generateScenarioWithExtras(
   inputs: LoanInputs,
-  extraRules: ExtraRule[]
+  extraRules: ExtraRule[],
+  repaymentPauses: RepaymentPause[] = []
 ): ScenarioWithExtrasResult {
   const baseline = generateAmortisation(inputs);
 
-  if (!extraRules.length) {
+  if (!extraRules.length && !repaymentPauses.length) {
     const payoffYear = new Date(baseline.summary.payoffDate).getFullYear();
     return {
       baseline,
@@ -462,12 +1100,16 @@ export function generateScenarioWithExtras(
     });
   }
 
-  const withExtras = extras.length
-    ? generateAmortisation({
-        ...inputs,
-        extraRepayments: extras
-      })
-    : baseline;
+  // Pauses only apply to the with-extras scenario so the comparison shows
+  // what they cost
+  const withExtras =
+    extras.length || repaymentPauses.length
+      ? generateAmortisation({
+          ...inputs,
+          extraRepayments: extras.length ? extras : inputs.extraRepayments,
+          repaymentPauses: repaymentPauses.length ? repaymentPauses : inputs.repaymentPauses
+        })
+      : baseline;
 
   const baselineInterest = baseline.summary.totalInterest;
   const extrasInterest = withExtras.summary.totalInterest;
@@ -526,6 +1168,7 @@ export interface BorrowingCapacityInputs {
   creditCardLimits: number;
   personalLoans: LiabilityInput[];
   carLoans: LiabilityInput[];
+  homeLoans?: LiabilityInput[];        // Existing mortgages kept after the purchase
   hasHECS: boolean;
   baseRate: number;
   bufferRate: number;
@@ -533,6 +1176,13 @@ export interface BorrowingCapacityInputs {
   repaymentType: RepaymentType;
   expenseFloorMonthly?: number;
   depositPercent?: number;
+  lmi?: BorrowingCapacityLMIOptions;   // Price LMI when the deposit is under 20%
+}
+
+export interface BorrowingCapacityLMIOptions {
+  state: AustralianState;
+  capitalise?: boolean;
+  premiumTable?: LMIPremiumTable;
 }
 
 export interface BorrowingCapacityResult {
@@ -544,6 +1194,7 @@ export interface BorrowingCapacityResult {
    assessedExpensesMonthly: number;
    totalOtherDebt: number;
   capacityByRate: { rate: number; capacity: number }[];
+  lmi?: LMIResult;
 }
 
 export function estimateBorrowingCapacity(
@@ -556,12 +1207,14 @@ export function estimateBorrowingCapacity(
     creditCardLimits,
     personalLoans,
     carLoans,
+    homeLoans = [],
     hasHECS,
     baseRate,
     bufferRate,
     termYears,
     expenseFloorMonthly,
-    depositPercent
+    depositPercent,
+    lmi: lmiOptions
   } = inputs;
 
   const shadedIncomeMonthly =
@@ -578,11 +1231,12 @@ export function estimateBorrowingCapacity(
     0
   );
   const carDebt = carLoans.reduce((sum, l) => sum + l.monthlyRepayment, 0);
+  const homeLoanDebt = homeLoans.reduce((sum, l) => sum + l.monthlyRepayment, 0);
 
   const cardDebt = (creditCardLimits * 0.0375) || 0;
   const hecsDebt = hasHECS ? shadedIncomeMonthly * 0.07 : 0;
 
-  const totalOtherDebt = personalDebt + carDebt + cardDebt + hecsDebt;
+  const totalOtherDebt = personalDebt + carDebt + homeLoanDebt + cardDebt + hecsDebt;
 
   const assessmentRate = baseRate + bufferRate;
   const paymentsPerYear = 12;
@@ -602,7 +1256,27 @@ export function estimateBorrowingCapacity(
   const maxBorrowing = Math.max(maxBorrowingRaw, 0);
 
   const lvr = 1 - (depositPercent ?? 0.2);
-  const estimatedPurchasePrice = lvr > 0 ? maxBorrowing / lvr : maxBorrowing;
+  let estimatedPurchasePrice = lvr > 0 ? maxBorrowing / lvr : maxBorrowing;
+
+  let lmi: LMIResult | undefined;
+  if (lmiOptions && lvr > 0) {
+    const lmiFor = (loanAmount: number) =>
+      estimateLMI({ ...lmiOptions, propertyValue: loanAmount / lvr, loanAmount });
+    lmi = lmiFor(maxBorrowing);
+    if (lmi.capitalised && lmi.totalPremium > 0) {
+      // A capitalised premium uses up borrowing power, so shrink the base
+      // loan until base plus premium fits. The premium rate only steps at
+      // band edges, so this settles in a few rounds.
+      let baseLoan = maxBorrowing;
+      for (let round = 0; round < 20; round += 1) {
+        const next = maxBorrowing - lmiFor(baseLoan).totalPremium;
+        if (Math.abs(next - baseLoan) < 0.01) break;
+        baseLoan = next;
+      }
+      lmi = lmiFor(baseLoan);
+      estimatedPurchasePrice = baseLoan / lvr;
+    }
+  }
   const monthlyRepaymentAtAssessment = maxBorrowing * paymentFactor;
 
   const limitingFactors: string[] = [];
@@ -618,6 +1292,9 @@ export function estimateBorrowingCapacity(
     if (hasHECS) {
       limitingFactors.push('HECS/HELP reduces net income available.');
     }
+    if (homeLoanDebt > 0) {
+      limitingFactors.push('Existing home loan repayments reduce borrowing capacity.');
+    }
   }
 
   const capacityByRate: { rate: number; capacity: number }[] = [];
@@ -642,41 +1319,11 @@ export function estimateBorrowingCapacity(
     assessedExpensesMonthly: expensesMonthly,
     totalOtherDebt,
     limitingFactors,
-    capacityByRate
+    capacityByRate,
+    lmi
   };
 }
 
-/**
- * Merges two loan schedules by summing all fields period by period
- */
-function mergeLoanSchedules(
-  schedule1: PeriodRow[],
-  schedule2: PeriodRow[]
-): PeriodRow[] {
-  const length = Math.max(schedule1.length, schedule2.length);
-  const merged: PeriodRow[] = [];
-
-  for (let i = 0; i < length; i++) {
-    const row1 = schedule1[i];
-    const row2 = schedule2[i];
-    const date = (row1?.date ?? row2?.date) as string;
-
-    merged.push({
-      periodIndex: i,
-      date,
-      openingBalance: (row1?.openingBalance ?? 0) + (row2?.openingBalance ?? 0),
-      closingBalance: (row1?.closingBalance ?? 0) + (row2?.closingBalance ?? 0),
-      principalPaid: (row1?.principalPaid ?? 0) + (row2?.principalPaid ?? 0),
-      interestCharged: (row1?.interestCharged ?? 0) + (row2?.interestCharged ?? 0),
-      extraRepayment: (row1?.extraRepayment ?? 0) + (row2?.extraRepayment ?? 0),
-      feesApplied: (row1?.feesApplied ?? 0) + (row2?.feesApplied ?? 0),
-      offsetBalance: (row1?.offsetBalance ?? 0) + (row2?.offsetBalance ?? 0)
-    });
-  }
-
-  return merged;
-}
-
 /**
  * Compares two loan financing scenarios:
  * - Scenario A: Finance entire amount as single mortgage
@@ -684,51 +1331,48 @@ function mergeLoanSchedules(
  *
  * Returns detailed comparison including individual loan results,
  * combined schedule for Scenario B, and calculated differences.
+ *
+ * @deprecated Use compareLoanScenarios, which takes any number of scenarios
  */
 export function compareMortgageVsPersonalLoan(
   inputs: LoanComparisonInputs
 ): LoanComparisonResult {
-  // CORRECTED LOGIC:
   // Total purchase amount = mortgageAmount + personalLoanAmount
-  // Scenario A: Finance entire amount as single mortgage
-  // Scenario B: Split between mortgage and personal loan
-
   const totalAmount = inputs.fullMortgageAmount + inputs.personalLoanAmount;
 
-  // 1. Generate Scenario A (Full Mortgage for TOTAL amount)
-  const fullMortgage = generateAmortisation({
-    amount: totalAmount,  // Use total of both amounts
-    annualRate: inputs.mortgageRate,
-    years: inputs.mortgageTermYears,
-    frequency: inputs.frequency,
-    repaymentType: inputs.repaymentType,
-    repaymentStrategy: inputs.repaymentStrategy,
-    startDate: inputs.startDate
-  });
-
-  // 2. Generate Scenario B - Mortgage Component
-  const splitMortgage = generateAmortisation({
-    amount: inputs.fullMortgageAmount,  // Use mortgage amount as-is
+  const mortgage = {
     annualRate: inputs.mortgageRate,
     years: inputs.mortgageTermYears,
+    fees: inputs.mortgageFees
+  };
+  const comparison = compareLoanScenarios({
+    scenarios: [
+      // Scenario A: Finance entire amount as single mortgage
+      { name: 'fullMortgage', loans: [{ ...mortgage, amount: totalAmount }] },
+      // Scenario B: Split between mortgage and personal loan
+      {
+        name: 'split',
+        loans: [
+          { ...mortgage, amount: inputs.fullMortgageAmount },
+          {
+            amount: inputs.personalLoanAmount,
+            annualRate: inputs.personalLoanRate,
+            years: inputs.personalLoanTermYears,
+            fees: inputs.personalLoanFees
+          }
+        ]
+      }
+    ],
     frequency: inputs.frequency,
     repaymentType: inputs.repaymentType,
     repaymentStrategy: inputs.repaymentStrategy,
     startDate: inputs.startDate
   });
 
-  // 3. Generate Scenario B - Personal Loan Component
-  const splitPersonalLoan = generateAmortisation({
-    amount: inputs.personalLoanAmount,
-    annualRate: inputs.personalLoanRate,
-    years: inputs.personalLoanTermYears,
-    frequency: inputs.frequency,
-    repaymentType: inputs.repaymentType,
-    repaymentStrategy: inputs.repaymentStrategy,
-    startDate: inputs.startDate
-  });
+  const [fullMortgage] = comparison.scenarios[0].loans;
+  const [splitMortgage, splitPersonalLoan] = comparison.scenarios[1].loans;
 
-  // 4. Merge Scenario B schedules
+  // Unpadded, so the schedule ends when the split scenario is repaid
   const splitCombinedSchedule = mergeLoanSchedules(
     splitMortgage.schedule,
     splitPersonalLoan.schedule
@@ -742,6 +1386,7 @@ export function compareMortgageVsPersonalLoan(
     // Scenario A
     fullMortgagePayment: fullMortgage.summary.regularPayment,
     fullMortgageTotalInterest: fullMortgage.summary.totalInterest,
+    fullMortgageTotalFees: fullMortgage.summary.totalFees,
     fullMortgageTotalPaid: fullMortgage.summary.totalPaid,
     fullMortgagePayoffDate: fullMortgage.summary.payoffDate,
 
@@ -749,6 +1394,7 @@ export function compareMortgageVsPersonalLoan(
     splitMortgageAmount: inputs.fullMortgageAmount,
     splitMortgagePayment: splitMortgage.summary.regularPayment,
     splitMortgageTotalInterest: splitMortgage.summary.totalInterest,
+    splitMortgageTotalFees: splitMortgage.summary.totalFees,
     splitMortgageTotalPaid: splitMortgage.summary.totalPaid,
     splitMortgagePayoffDate: splitMortgage.summary.payoffDate,
 
@@ -756,12 +1402,14 @@ export function compareMortgageVsPersonalLoan(
     splitPersonalAmount: inputs.personalLoanAmount,
     splitPersonalPayment: splitPersonalLoan.summary.regularPayment,
     splitPersonalTotalInterest: splitPersonalLoan.summary.totalInterest,
+    splitPersonalTotalFees: splitPersonalLoan.summary.totalFees,
     splitPersonalTotalPaid: splitPersonalLoan.summary.totalPaid,
     splitPersonalPayoffDate: splitPersonalLoan.summary.payoffDate,
 
     // Scenario B - Combined
     splitCombinedPaymentInitial: splitMortgage.summary.regularPayment + splitPersonalLoan.summary.regularPayment,
     splitCombinedTotalInterest: splitMortgage.summary.totalInterest + splitPersonalLoan.summary.totalInterest,
+    splitCombinedTotalFees: splitMortgage.summary.totalFees + splitPersonalLoan.summary.totalFees,
     splitCombinedTotalPaid: splitMortgage.summary.totalPaid + splitPersonalLoan.summary.totalPaid,
 
     // Differences (existing)
@@ -769,6 +1417,8 @@ export function compareMortgageVsPersonalLoan(
       (splitMortgage.summary.regularPayment + splitPersonalLoan.summary.regularPayment) - fullMortgage.summary.regularPayment,
     totalInterestDifference:
       (splitMortgage.summary.totalInterest + splitPersonalLoan.summary.totalInterest) - fullMortgage.summary.totalInterest,
+    totalFeesDifference:
+      (splitMortgage.summary.totalFees + splitPersonalLoan.summary.totalFees) - fullMortgage.summary.totalFees,
     totalPaidDifference:
       (splitMortgage.summary.totalPaid + splitPersonalLoan.summary.totalPaid) - fullMortgage.summary.totalPaid,
 
@@ -786,6 +1436,166 @@ export function compareMortgageVsPersonalLoan(
   };
 }
 
+// Loan calculation types
+export type {
+  ComparisonRateBenchmark,
+  ComparisonRateInputs,
+  ComparisonRateResult
+} from './loan/calculateComparisonRate';
+export type { BreakCostInputs, BreakCostResult } from './loan/estimateBreakCost';
+export type {
+  RefinanceCurrentLoan,
+  RefinanceCandidateLoan,
+  RefinanceInputs,
+  RefinanceHorizonSavings,
+  RefinanceResult
+} from './loan/analyseRefinance';
+export type {
+  TrancheRateType,
+  LoanTranche,
+  SplitLoanInputs,
+  SplitLoanTrancheResult,
+  SplitLoanSummary,
+  SplitLoanResult
+} from './loan/generateSplitLoan';
+export type { GoalSeekResult } from './loan/goalSeek';
+export type {
+  ComparisonLoan,
+  LoanScenario,
+  ScenarioRankingMetric,
+  LoanScenarioComparisonInputs,
+  LoanScenarioSummary,
+  LoanScenarioResult,
+  LoanScenarioDifference,
+  LoanScenarioRank,
+  LoanScenarioComparisonResult
+} from './loan/compareLoanScenarios';
+export type {
+  ConstructionStage,
+  ConstructionLoanInputs,
+  ConstructionLoanRow,
+  ConstructionDrawdown,
+  ConstructionHoldingCost,
+  ConstructionLoanResult
+} from './loan/generateConstructionLoan';
+export type {
+  BridgingLoanInputs,
+  BridgingMonth,
+  BridgingScenario,
+  BridgingLoanResult
+} from './loan/analyseBridgingLoan';
+export type {
+  RateSimulationInputs,
+  PercentileBand,
+  RateSimulationYear,
+  RateSimulationResult
+} from './loan/simulateRatePaths';
+export type { HistoricalRate } from './loan/historicalRates';
+export type {
+  HistoricalRateSeries,
+  HistoricalReplayInputs,
+  HistoricalReplay
+} from './loan/replayHistoricalRates';
+
+// Property purchase types
+export type { AustralianState } from './property/types';
+export type { LMIInputs, LMIResult } from './property/estimateLMI';
+export type { LMIPremiumBand, LMIPremiumTable } from './property/lmiPremiumRates';
+export type {
+  TransferDutyInputs,
+  TransferDutyResult,
+  FirstHomeBuyerOutcome
+} from './property/calculateTransferDuty';
+export type {
+  DutyBracket,
+  DutyPropertyType,
+  FirstHomeBuyerRule,
+  StateDutySchedule
+} from './property/transferDutyRates';
+export type {
+  PurchaseCosts,
+  PurchasePlanInputs,
+  PurchaseFundsBreakdown,
+  PurchasePlanResult
+} from './property/planPurchaseFunds';
+export type {
+  InvestmentPropertyExpenses,
+  InvestmentDepreciation,
+  InvestmentPropertyInputs,
+  InvestmentPropertyYear,
+  InvestmentPropertyTotals,
+  InvestmentBreakEvenRent,
+  InvestmentPropertyResult
+} from './property/analyseInvestmentProperty';
+export type { RentVsBuyInputs, RentVsBuyPoint, RentVsBuyResult } from './property/compareRentVsBuy';
+export type {
+  DepositSavingsInputs,
+  DepositGoal,
+  DepositSavingsMonth,
+  DepositSavingsResult
+} from './property/planDepositSavings';
+export type {
+  NextPurchaseGoal,
+  NextPurchaseStructure,
+  NextPurchaseInputs,
+  NextPurchaseMonth,
+  NextPurchaseLoan,
+  NextPurchaseResult
+} from './property/planNextPurchase';
+
+// Debt planning types
+export type {
+  DebtKind,
+  DebtStrategy,
+  DebtAccount,
+  DebtConsolidationOptions,
+  DebtPlanInputs,
+  DebtPayoffSchedule,
+  DebtStrategyResult,
+  DebtBorrowingPowerImpact,
+  DebtPlanResult
+} from './debt/planDebtPayoff';
+
+// Loan calculation functions
+export {
+  calculateComparisonRate,
+  COMPARISON_RATE_BENCHMARKS
+} from './loan/calculateComparisonRate';
+export { estimateBreakCost } from './loan/estimateBreakCost';
+export { analyseRefinance } from './loan/analyseRefinance';
+export { generateSplitLoan } from './loan/generateSplitLoan';
+export {
+  generateConstructionLoan,
+  STANDARD_CONSTRUCTION_STAGES
+} from './loan/generateConstructionLoan';
+export { analyseBridgingLoan } from './loan/analyseBridgingLoan';
+export { simulateRatePaths } from './loan/simulateRatePaths';
+export {
+  HISTORICAL_CASH_RATES,
+  HISTORICAL_STANDARD_VARIABLE_RATES,
+  HISTORICAL_RATES_TO
+} from './loan/historicalRates';
+export { replayHistoricalRates } from './loan/replayHistoricalRates';
+export { compareLoanScenarios } from './loan/compareLoanScenarios';
+export { solveExtraRepaymentForPayoff } from './loan/solveExtraRepaymentForPayoff';
+export { solveMaxLoanForRepayment } from './loan/solveMaxLoanForRepayment';
+export { solveRateForRepayment } from './loan/solveRateForRepayment';
+export { solveLumpSumForYearsSaved } from './loan/solveLumpSumForYearsSaved';
+
+// Property purchase functions
+export { estimateLMI, LMI_LVR_THRESHOLD } from './property/estimateLMI';
+export { DEFAULT_LMI_PREMIUM_TABLE, LMI_STAMP_DUTY_RATES } from './property/lmiPremiumRates';
+export { calculateTransferDuty } from './property/calculateTransferDuty';
+export { TRANSFER_DUTY_SCHEDULES } from './property/transferDutyRates';
+export { planPurchaseFunds } from './property/planPurchaseFunds';
+export { analyseInvestmentProperty } from './property/analyseInvestmentProperty';
+export { compareRentVsBuy } from './property/compareRentVsBuy';
+export { planDepositSavings } from './property/planDepositSavings';
+export { planNextPurchase } from './property/planNextPurchase';
+
+// Debt planning functions
+export { planDebtPayoff } from './debt/planDebtPayoff';
+
 // Pay calculation types
 export type {
   PayCalculateRequest,
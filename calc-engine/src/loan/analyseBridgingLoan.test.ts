@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { generateAmortisation } from '../index';
+import { calculateTransferDuty } from '../property/calculateTransferDuty';
+import { analyseBridgingLoan, type BridgingLoanInputs } from './analyseBridgingLoan';
+
+describe('analyseBridgingLoan', () => {
+  const baseInputs: BridgingLoanInputs = {
+    existingLoanBalance: 350000,
+    purchasePrice: 1200000,
+    purchaseCosts: 3000,
+    bridgingRate: 7.5,
+    bridgingMonths: 6,
+    expectedSalePrice: 900000,
+    endDebtLoan: {
+      annualRate: 6,
+      years: 30,
+      frequency: 'monthly',
+      repaymentType: 'principalAndInterest',
+      repaymentStrategy: 'reduceTerm'
+    },
+    startDate: '2025-07-01'
+  };
+
+  it('adds the new purchase and its costs to the existing loan for peak debt', () => {
+    const result = analyseBridgingLoan({ ...baseInputs, state: 'NSW', cashContribution: 20000 });
+    const duty = calculateTransferDuty({ state: 'NSW', price: 1200000 }).totalGovernmentCharges;
+
+    expect(result.purchaseCosts).toBeCloseTo(duty + 3000, 6);
+    expect(result.peakDebt).toBeCloseTo(350000 + 1200000 + duty + 3000 - 20000, 6);
+    expect(result.peakDebtLvr).toBeCloseTo((result.peakDebt / 2100000) * 100, 6);
+  });
+
+  it('capitalises interest monthly while the home is on the market', () => {
+    const result = analyseBridgingLoan(baseInputs);
+
+    expect(result.months).toHaveLength(6);
+    expect(result.months[0].openingBalance).toBeCloseTo(1553000, 6);
+    result.months.forEach((month, index) => {
+      expect(month.interestCapitalised).toBeCloseTo((month.openingBalance * 0.075) / 12, 6);
+      if (index > 0) expect(month.openingBalance).toBeCloseTo(result.months[index - 1].closingBalance, 6);
+    });
+    expect(result.capitalisedInterest).toBeCloseTo(1553000 * (Math.pow(1 + 0.075 / 12, 6) - 1), 4);
+  });
+
+  it('repays the bridge from the net sale proceeds and amortises the end debt', () => {
+    const result = analyseBridgingLoan(baseInputs);
+    const expected = generateAmortisation({
+      ...baseInputs.endDebtLoan,
+      amount: result.endDebt,
+      startDate: result.saleDate
+    });
+
+    expect(result.netSaleProceeds).toBeCloseTo(900000 * 0.975, 6);
+    expect(result.endDebt).toBeCloseTo(result.peakDebt + result.capitalisedInterest - result.netSaleProceeds, 6);
+    expect(result.endDebtLvr).toBeCloseTo((result.endDebt / 1200000) * 100, 6);
+    expect(result.saleDate).toBe(new Date('2026-01-01').toISOString());
+    expect(result.endDebtLoan.summary.regularPayment).toBeCloseTo(expected.summary.regularPayment, 6);
+  });
+
+  it('moves the end debt dollar for dollar with the net sale price', () => {
+    const result = analyseBridgingLoan(baseInputs);
+    const [lowest, , base, , highest] = result.salePriceSensitivity;
+
+    expect(result.salePriceSensitivity.map((scenario) => scenario.salePrice)).toEqual([
+      810000,
+      855000,
+      900000,
+      945000,
+      expect.closeTo(990000, 6)
+    ]);
+    expect(base.endDebtChange).toBe(0);
+    expect(lowest.endDebtChange).toBeCloseTo(90000 * 0.975, 6);
+    expect(highest.endDebtChange).toBeCloseTo(-90000 * 0.975, 6);
+    expect(lowest.regularPayment).toBeGreaterThan(base.regularPayment);
+  });
+
+  it('adds capitalised interest for every month the sale takes', () => {
+    const result = analyseBridgingLoan(baseInputs);
+    const months = result.saleTimingSensitivity.map((scenario) => scenario.saleMonths);
+    const interest = result.saleTimingSensitivity.map((scenario) => scenario.capitalisedInterest);
+
+    expect(months).toEqual([3, 6, 9, 12]);
+    expect(interest[0]).toBeLessThan(interest[1]);
+    expect(interest[3]).toBeGreaterThan(interest[2]);
+    expect(result.saleTimingSensitivity[1].endDebtChange).toBe(0);
+    expect(result.saleTimingSensitivity[3].endDebtChange).toBeCloseTo(interest[3] - interest[1], 6);
+  });
+
+  it('caps the bridging period at 12 months', () => {
+    const result = analyseBridgingLoan({ ...baseInputs, bridgingMonths: 18, saleMonthOptions: [6, 15, 24] });
+
+    expect(result.months).toHaveLength(12);
+    expect(result.saleTimingSensitivity.map((scenario) => scenario.saleMonths)).toEqual([6, 12]);
+  });
+
+  it('leaves no end debt when the sale clears the bridge', () => {
+    const result = analyseBridgingLoan({ ...baseInputs, expectedSalePrice: 2000000 });
+
+    expect(result.endDebt).toBe(0);
+    expect(result.endDebtLoan.schedule).toHaveLength(0);
+    expect(result.surplus).toBeCloseTo(result.netSaleProceeds - result.peakDebt - result.capitalisedInterest, 6);
+    expect(result.salePriceSensitivity[0].surplus).toBeLessThan(result.surplus);
+    expect(result.saleTimingSensitivity.every((scenario) => scenario.surplus > 0 && scenario.endDebt === 0)).toBe(true);
+  });
+
+  it('reports no surplus while end debt remains', () => {
+    const result = analyseBridgingLoan(baseInputs);
+
+    expect(result.endDebt).toBeGreaterThan(0);
+    expect(result.surplus).toBe(0);
+    expect(result.salePriceSensitivity.every((scenario) => scenario.surplus === 0)).toBe(true);
+  });
+});
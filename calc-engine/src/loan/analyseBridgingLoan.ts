@@ -0,0 +1,183 @@
+/**
+ * Bridging Loan Analyser
+ *
+ * Models buying the next home before the current one sells. The lender
+ * funds the new purchase on top of the existing loan, so peak debt is both
+ * loans plus purchase costs less any cash put in. No repayments are made
+ * while the home is on the market: interest is capitalised monthly until
+ * the sale, then the net sale proceeds pay the bridge down and whatever is
+ * left becomes the end debt, repaid through generateAmortisation. Proceeds
+ * beyond the bridge come back as a cash surplus.
+ *
+ * Because the end debt hinges on what the home sells for and when, the
+ * analysis re-runs the bridge across a range of sale prices and sale months.
+ */
+
+import { generateAmortisation, type AmortisationResult, type LoanInputs } from '../index';
+import { calculateTransferDuty } from '../property/calculateTransferDuty';
+import type { AustralianState } from '../property/types';
+
+export interface BridgingLoanInputs {
+  existingLoanBalance: number;
+  purchasePrice: number;
+  state?: AustralianState;         // Adds transfer duty and registration on the purchase
+  purchaseCosts?: number;          // Legal, inspections and loan fees beyond duty
+  cashContribution?: number;
+  bridgingRate: number;            // % p.a. while bridging, capitalised monthly
+  bridgingMonths: number;          // Expected months to sell, clamped to 1-12
+  expectedSalePrice: number;
+  sellingCostRate?: number;        // % of the sale price, defaults to 2.5
+  endDebtLoan: Omit<LoanInputs, 'amount' | 'startDate'>;
+  startDate: string;               // Settlement of the new purchase
+  salePriceChanges?: number[];     // % changes to test, defaults to -10, -5, 0, 5 and 10
+  saleMonthOptions?: number[];     // Sale months to test, defaults to 3, 6, 9 and 12
+}
+
+export interface BridgingMonth {
+  month: number;                   // 1-based
+  date: string;
+  openingBalance: number;
+  interestCapitalised: number;
+  closingBalance: number;
+}
+
+export interface BridgingScenario {
+  salePrice: number;
+  saleMonths: number;
+  capitalisedInterest: number;
+  netSaleProceeds: number;
+  endDebt: number;
+  surplus: number;                 // Net sale proceeds left once the bridge is cleared
+  regularPayment: number;          // End debt repayment
+  endDebtChange: number;           // Against the expected sale
+}
+
+export interface BridgingLoanResult {
+  purchaseCosts: number;           // Duty, registration and other costs
+  peakDebt: number;                // At settlement, before capitalised interest
+  peakDebtLvr: number;             // % of the expected sale price plus the purchase price
+  months: BridgingMonth[];
+  capitalisedInterest: number;
+  saleDate: string;
+  netSaleProceeds: number;
+  endDebt: number;
+  surplus: number;                 // Net sale proceeds left once the bridge is cleared
+  endDebtLvr: number;              // % of the purchase price
+  endDebtLoan: AmortisationResult;
+  salePriceSensitivity: BridgingScenario[];
+  saleTimingSensitivity: BridgingScenario[];
+}
+
+const MIN_BRIDGING_MONTHS = 1;
+const MAX_BRIDGING_MONTHS = 12;
+const DEFAULT_SELLING_COST_RATE = 2.5;
+const DEFAULT_SALE_PRICE_CHANGES = [-10, -5, 0, 5, 10];
+const DEFAULT_SALE_MONTH_OPTIONS = [3, 6, 9, 12];
+
+function addMonths(startDate: string, months: number): Date {
+  const date = new Date(startDate);
+  date.setMonth(date.getMonth() + months);
+  return date;
+}
+
+function clampMonths(months: number): number {
+  return Math.min(Math.max(Math.round(months), MIN_BRIDGING_MONTHS), MAX_BRIDGING_MONTHS);
+}
+
+/**
+ * Analyse the peak and end debt of a bridging loan
+ *
+ * @param inputs - Existing loan, purchase, bridging rate and term, expected
+ * sale and the loan the end debt moves to
+ * @returns Peak debt, capitalised interest, end debt or surplus and its repayments, and
+ * how the end debt moves with the sale price and sale month
+ *
+ * @example
+ * analyseBridgingLoan({
+ *   existingLoanBalance: 350000, purchasePrice: 1200000, state: 'NSW', purchaseCosts: 3000,
+ *   bridgingRate: 7.5, bridgingMonths: 6, expectedSalePrice: 900000,
+ *   endDebtLoan: { annualRate: 6, years: 30, frequency: 'monthly', repaymentType: 'principalAndInterest', repaymentStrategy: 'reduceTerm' },
+ *   startDate: '2025-07-01'
+ * })
+ * // peakDebt 1,601,694, capitalisedInterest 61,010, endDebt 785,204
+ */
+export function analyseBridgingLoan(inputs: BridgingLoanInputs): BridgingLoanResult {
+  const sellingCostRate = (inputs.sellingCostRate ?? DEFAULT_SELLING_COST_RATE) / 100;
+  const monthlyRate = inputs.bridgingRate / 100 / 12;
+  const duty = inputs.state
+    ? calculateTransferDuty({ state: inputs.state, price: inputs.purchasePrice }).totalGovernmentCharges
+    : 0;
+  const purchaseCosts = duty + (inputs.purchaseCosts ?? 0);
+  const peakDebt = Math.max(
+    inputs.existingLoanBalance + inputs.purchasePrice + purchaseCosts - (inputs.cashContribution ?? 0),
+    0
+  );
+
+  const bridge = (salePrice: number, saleMonths: number) => {
+    const months: BridgingMonth[] = [];
+    let balance = peakDebt;
+    for (let month = 1; month <= saleMonths; month++) {
+      const interestCapitalised = balance * monthlyRate;
+      months.push({
+        month,
+        date: addMonths(inputs.startDate, month - 1).toISOString(),
+        openingBalance: balance,
+        interestCapitalised,
+        closingBalance: balance + interestCapitalised
+      });
+      balance += interestCapitalised;
+    }
+
+    const netSaleProceeds = salePrice * (1 - sellingCostRate);
+    const endDebt = Math.max(balance - netSaleProceeds, 0);
+    const surplus = Math.max(netSaleProceeds - balance, 0);
+    const saleDate = addMonths(inputs.startDate, saleMonths).toISOString();
+    const endDebtLoan = generateAmortisation({ ...inputs.endDebtLoan, amount: endDebt, startDate: saleDate });
+    return {
+      months,
+      saleDate,
+      endDebtLoan,
+      scenario: {
+        salePrice,
+        saleMonths,
+        capitalisedInterest: balance - peakDebt,
+        netSaleProceeds,
+        endDebt,
+        surplus,
+        regularPayment: endDebtLoan.summary.regularPayment,
+        endDebtChange: 0
+      }
+    };
+  };
+
+  const bridgingMonths = clampMonths(inputs.bridgingMonths);
+  const expected = bridge(inputs.expectedSalePrice, bridgingMonths);
+  const against = (scenario: BridgingScenario): BridgingScenario => ({
+    ...scenario,
+    endDebtChange: scenario.endDebt - expected.scenario.endDebt
+  });
+
+  const salePriceSensitivity = (inputs.salePriceChanges ?? DEFAULT_SALE_PRICE_CHANGES).map((change) =>
+    against(bridge(inputs.expectedSalePrice * (1 + change / 100), bridgingMonths).scenario)
+  );
+  const saleTimingSensitivity = [...new Set((inputs.saleMonthOptions ?? DEFAULT_SALE_MONTH_OPTIONS).map(clampMonths))]
+    .sort((a, b) => a - b)
+    .map((months) => against(bridge(inputs.expectedSalePrice, months).scenario));
+
+  const combinedValue = inputs.expectedSalePrice + inputs.purchasePrice;
+  return {
+    purchaseCosts,
+    peakDebt,
+    peakDebtLvr: combinedValue > 0 ? (peakDebt / combinedValue) * 100 : 0,
+    months: expected.months,
+    capitalisedInterest: expected.scenario.capitalisedInterest,
+    saleDate: expected.saleDate,
+    netSaleProceeds: expected.scenario.netSaleProceeds,
+    endDebt: expected.scenario.endDebt,
+    surplus: expected.scenario.surplus,
+    endDebtLvr: inputs.purchasePrice > 0 ? (expected.scenario.endDebt / inputs.purchasePrice) * 100 : 0,
+    endDebtLoan: expected.endDebtLoan,
+    salePriceSensitivity,
+    saleTimingSensitivity
+  };
+}
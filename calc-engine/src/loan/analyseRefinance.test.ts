@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { analyseRefinance, type RefinanceInputs } from './analyseRefinance';
+
+const baseInputs: RefinanceInputs = {
+  current: { balance: 500000, annualRate: 6.5, remainingYears: 25 },
+  candidate: { annualRate: 5.99, dischargeCost: 350, establishmentCost: 500 },
+  frequency: 'monthly',
+  repaymentType: 'principalAndInterest',
+  startDate: '2025-01-01'
+};
+
+describe('analyseRefinance', () => {
+  it('runs both loans over the current balance and term', () => {
+    const result = analyseRefinance(baseInputs);
+
+    expect(result.current.schedule[0].openingBalance).toBe(500000);
+    expect(result.candidate.schedule[0].openingBalance).toBe(500000);
+    expect(result.current.schedule).toHaveLength(300);
+    expect(result.candidate.schedule).toHaveLength(300);
+    expect(result.repaymentChange).toBeLessThan(0);
+  });
+
+  it('recovers switching costs once cumulative savings turn positive', () => {
+    const result = analyseRefinance(baseInputs);
+    const period = result.breakEvenPeriod!;
+
+    expect(result.netSwitchingCost).toBe(850);
+    expect(period).toBeGreaterThan(1);
+    expect(result.cumulativeSavings[period - 1]).toBeGreaterThanOrEqual(0);
+    expect(result.cumulativeSavings[period - 2]).toBeLessThan(0);
+    expect(result.breakEvenMonths).toBe(period);
+    expect(result.breakEvenDate).toBe(result.candidate.schedule[period - 1].date);
+  });
+
+  it('reports savings that grow with the horizon', () => {
+    const { savings } = analyseRefinance(baseInputs);
+
+    expect(savings.oneYear).toBeLessThan(savings.threeYears);
+    expect(savings.threeYears).toBeLessThan(savings.fiveYears);
+    expect(savings.fiveYears).toBeLessThan(savings.fullTerm);
+  });
+
+  it('matches the total interest difference over the full term', () => {
+    const result = analyseRefinance(baseInputs);
+
+    expect(result.savings.fullTerm).toBeCloseTo(
+      result.current.summary.totalInterest - result.candidate.summary.totalInterest - 850,
+      4
+    );
+  });
+
+  it('counts the application fee and cashback', () => {
+    const result = analyseRefinance({
+      ...baseInputs,
+      candidate: {
+        ...baseInputs.candidate,
+        fees: { upfrontFee: 400, monthlyFee: 0, annualFee: 0 },
+        cashback: 3000
+      }
+    });
+
+    expect(result.switchingCosts).toBe(1250);
+    expect(result.netSwitchingCost).toBe(-1750);
+    expect(result.breakEvenPeriod).toBe(0);
+    expect(result.breakEvenDate).toBe('2025-01-01');
+  });
+
+  it('includes ongoing fees in the savings', () => {
+    const result = analyseRefinance({
+      ...baseInputs,
+      candidate: { ...baseInputs.candidate, fees: { upfrontFee: 0, monthlyFee: 0, annualFee: 395 } }
+    });
+    const withoutFee = analyseRefinance(baseInputs);
+
+    expect(withoutFee.savings.oneYear - result.savings.oneYear).toBeCloseTo(395, 6);
+  });
+
+  it('never breaks even when the candidate rate is higher', () => {
+    const result = analyseRefinance({
+      ...baseInputs,
+      candidate: { ...baseInputs.candidate, annualRate: 7 }
+    });
+
+    expect(result.breakEvenPeriod).toBeUndefined();
+    expect(result.breakEvenDate).toBeUndefined();
+    expect(result.savings.fullTerm).toBeLessThan(0);
+  });
+
+  it('converts break-even periods to months for fortnightly repayments', () => {
+    const result = analyseRefinance({ ...baseInputs, frequency: 'fortnightly' });
+
+    expect(result.breakEvenMonths).toBe(Math.ceil((result.breakEvenPeriod! * 12) / 26));
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Refinance Break-Even Analyser
+ *
+ * Runs the current loan and a candidate loan over the same balance through
+ * generateAmortisation and tracks the cumulative saving from switching:
+ * interest and ongoing fees avoided, less discharge and establishment costs,
+ * plus any cashback. Because both loans start from the same balance, the
+ * interest-and-fees difference equals the difference in net position (cash
+ * paid out plus debt still owed), so loans with different terms compare
+ * fairly at every horizon.
+ */
+
+import {
+  frequencyToPeriodsPerYear,
+  generateAmortisation,
+  type AmortisationResult,
+  type FeeConfig,
+  type RepaymentFrequency,
+  type RepaymentStrategy,
+  type RepaymentType
+} from '../index';
+
+export interface RefinanceCurrentLoan {
+  balance: number;
+  annualRate: number;
+  remainingYears: number;
+  fees?: FeeConfig;                  // Ongoing fees; upfrontFee is already paid and ignored
+}
+
+export interface RefinanceCandidateLoan {
+  annualRate: number;
+  years?: number;                    // Defaults to the current remaining term
+  fees?: FeeConfig;                  // upfrontFee is the lender's application fee
+  cashback?: number;
+  dischargeCost?: number;            // Charged by the current lender to close the loan
+  establishmentCost?: number;        // Settlement, registration and valuation costs
+}
+
+export interface RefinanceInputs {
+  current: RefinanceCurrentLoan;
+  candidate: RefinanceCandidateLoan;
+  frequency: RepaymentFrequency;
+  repaymentType: RepaymentType;
+  repaymentStrategy?: RepaymentStrategy;  // Defaults to 'reduceTerm'
+  startDate: string;
+}
+
+export interface RefinanceHorizonSavings {
+  oneYear: number;
+  threeYears: number;
+  fiveYears: number;
+  fullTerm: number;
+}
+
+export interface RefinanceResult {
+  current: AmortisationResult;
+  candidate: AmortisationResult;
+  switchingCosts: number;            // Discharge, establishment and application fee
+  cashback: number;
+  netSwitchingCost: number;          // switchingCosts - cashback (negative if cashback exceeds costs)
+  repaymentChange: number;           // Candidate minus current regular repayment
+  cumulativeSavings: number[];       // Net saving at the end of each period
+  breakEvenPeriod?: number;          // Periods until costs are recovered (0 if recovered on day one)
+  breakEvenMonths?: number;
+  breakEvenDate?: string;
+  savings: RefinanceHorizonSavings;
+}
+
+/**
+ * Analyse when refinancing pays for itself
+ *
+ * @param inputs - Current loan, candidate loan and shared repayment settings
+ * @returns Both schedules, switching costs, break-even point and savings by horizon
+ *
+ * @example
+ * analyseRefinance({
+ *   current: { balance: 500000, annualRate: 6.5, remainingYears: 25 },
+ *   candidate: { annualRate: 5.99, dischargeCost: 350, establishmentCost: 500, cashback: 2000 },
+ *   frequency: 'monthly',
+ *   repaymentType: 'principalAndInterest',
+ *   startDate: '2025-01-01'
+ * })
+ * // netSwitchingCost -1,150, breakEvenPeriod 0, savings.fiveYears ≈ 13,820
+ */
+export function analyseRefinance(inputs: RefinanceInputs): RefinanceResult {
+  const {
+    current: currentLoan,
+    candidate: candidateLoan,
+    frequency,
+    repaymentType,
+    repaymentStrategy = 'reduceTerm',
+    startDate
+  } = inputs;
+
+  // Upfront fees don't appear in schedule rows, so they're counted once in switching costs
+  const ongoing = (fees?: FeeConfig): FeeConfig | undefined =>
+    fees && { upfrontFee: 0, monthlyFee: fees.monthlyFee, annualFee: fees.annualFee };
+
+  const shared = { amount: currentLoan.balance, frequency, repaymentType, repaymentStrategy, startDate };
+  const current = generateAmortisation({
+    ...shared,
+    annualRate: currentLoan.annualRate,
+    years: currentLoan.remainingYears,
+    fees: ongoing(currentLoan.fees)
+  });
+  const candidate = generateAmortisation({
+    ...shared,
+    annualRate: candidateLoan.annualRate,
+    years: candidateLoan.years ?? currentLoan.remainingYears,
+    fees: ongoing(candidateLoan.fees)
+  });
+
+  const switchingCosts =
+    (candidateLoan.dischargeCost ?? 0) +
+    (candidateLoan.establishmentCost ?? 0) +
+    (candidateLoan.fees?.upfrontFee ?? 0);
+  const cashback = candidateLoan.cashback ?? 0;
+  const netSwitchingCost = switchingCosts - cashback;
+
+  const periods = Math.max(current.schedule.length, candidate.schedule.length);
+  const cumulativeSavings: number[] = [];
+  let saving = -netSwitchingCost;
+  let breakEvenPeriod: number | undefined = saving >= 0 ? 0 : undefined;
+  for (let i = 0; i < periods; i += 1) {
+    const currentRow = current.schedule[i];
+    const candidateRow = candidate.schedule[i];
+    saving +=
+      (currentRow ? currentRow.interestCharged + currentRow.feesApplied : 0) -
+      (candidateRow ? candidateRow.interestCharged + candidateRow.feesApplied : 0);
+    cumulativeSavings.push(saving);
+    if (breakEvenPeriod === undefined && saving >= 0) {
+      breakEvenPeriod = i + 1;
+    }
+  }
+
+  const periodsPerYear = frequencyToPeriodsPerYear(frequency);
+  const savingsAfterYears = (years: number) => {
+    if (cumulativeSavings.length === 0) return -netSwitchingCost;
+    const index = Math.min(years * periodsPerYear, cumulativeSavings.length) - 1;
+    return cumulativeSavings[index];
+  };
+
+  const breakEvenRow =
+    breakEvenPeriod !== undefined && breakEvenPeriod > 0
+      ? (candidate.schedule[breakEvenPeriod - 1] ?? current.schedule[breakEvenPeriod - 1])
+      : undefined;
+
+  return {
+    current,
+    candidate,
+    switchingCosts,
+    cashback,
+    netSwitchingCost,
+    repaymentChange: candidate.summary.regularPayment - current.summary.regularPayment,
+    cumulativeSavings,
+    breakEvenPeriod,
+    breakEvenMonths:
+      breakEvenPeriod !== undefined ? Math.ceil((breakEvenPeriod * 12) / periodsPerYear) : undefined,
+    breakEvenDate: breakEvenPeriod === 0 ? startDate : breakEvenRow?.date,
+    savings: {
+      oneYear: savingsAfterYears(1),
+      threeYears: savingsAfterYears(3),
+      fiveYears: savingsAfterYears(5),
+      fullTerm: cumulativeSavings.length > 0 ? cumulativeSavings[cumulativeSavings.length - 1] : -netSwitchingCost
+    }
+  };
+}
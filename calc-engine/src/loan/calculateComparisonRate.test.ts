@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateComparisonRate,
+  COMPARISON_RATE_BENCHMARKS
+} from './calculateComparisonRate';
+
+describe('calculateComparisonRate', () => {
+  it('equals the headline rate when there are no fees', () => {
+    const result = calculateComparisonRate({ annualRate: 6 });
+    expect(result.comparisonRate).toBeCloseTo(6, 6);
+    expect(result.totalFees).toBe(0);
+  });
+
+  it('uses the $150k / 25 year benchmark for home loans', () => {
+    const result = calculateComparisonRate({ annualRate: 6 });
+    expect(result.benchmarkAmount).toBe(150000);
+    expect(result.benchmarkYears).toBe(25);
+    expect(result.monthlyRepayment).toBeCloseTo(966.45, 2);
+  });
+
+  it('uses the $30k / 5 year benchmark for secured car loans', () => {
+    const result = calculateComparisonRate({ annualRate: 8.5, benchmark: 'securedCarLoan' });
+    expect(result.benchmarkAmount).toBe(COMPARISON_RATE_BENCHMARKS.securedCarLoan.amount);
+    expect(result.benchmarkYears).toBe(5);
+    expect(result.comparisonRate).toBeCloseTo(8.5, 6);
+  });
+
+  it('raises the rate for upfront and annual fees', () => {
+    const result = calculateComparisonRate({
+      annualRate: 6,
+      fees: { upfrontFee: 600, monthlyFee: 0, annualFee: 395 }
+    });
+    expect(result.comparisonRate).toBeCloseTo(6.41, 2);
+    expect(result.totalFees).toBe(600 + 25 * 395);
+  });
+
+  it('weighs the same fees more heavily on the shorter car loan benchmark', () => {
+    const fees = { upfrontFee: 250, monthlyFee: 10, annualFee: 0 };
+    const home = calculateComparisonRate({ annualRate: 8.5, fees });
+    const car = calculateComparisonRate({ annualRate: 8.5, fees, benchmark: 'securedCarLoan' });
+
+    expect(car.comparisonRate).toBeGreaterThan(home.comparisonRate);
+    expect(car.comparisonRate).toBeCloseTo(9.55, 2);
+  });
+});
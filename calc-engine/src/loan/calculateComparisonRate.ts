@@ -0,0 +1,117 @@
+/**
+ * Comparison Rate Calculator
+ *
+ * Calculates the ASIC comparison rate: the nominal annual rate (compounding
+ * monthly) at which the net amount received by the borrower equals the present
+ * value of every repayment and fee on a regulated benchmark loan.
+ *
+ * Benchmarks (National Consumer Credit Protection Regulations, Sch. 1 Pt 2):
+ * - Home loans: $150,000 over 25 years
+ * - Secured fixed-term loans (e.g. car loans): $30,000 over 5 years
+ */
+
+import type { FeeConfig } from '../index';
+
+export type ComparisonRateBenchmark = 'homeLoan' | 'securedCarLoan';
+
+export interface ComparisonRateInputs {
+  annualRate: number;
+  fees?: FeeConfig;
+  benchmark?: ComparisonRateBenchmark;  // Defaults to 'homeLoan'
+}
+
+export interface ComparisonRateResult {
+  comparisonRate: number;
+  benchmarkAmount: number;
+  benchmarkYears: number;
+  monthlyRepayment: number;
+  totalFees: number;
+}
+
+export const COMPARISON_RATE_BENCHMARKS: Record<
+  ComparisonRateBenchmark,
+  { amount: number; years: number }
+> = {
+  homeLoan: { amount: 150000, years: 25 },
+  securedCarLoan: { amount: 30000, years: 5 }
+};
+
+/**
+ * Net present value of monthly cash flows at a monthly rate, where
+ * cashFlows[0] falls at settlement
+ */
+function presentValue(cashFlows: number[], monthlyRate: number): number {
+  let npv = 0;
+  let discount = 1;
+  for (const flow of cashFlows) {
+    npv += flow * discount;
+    discount /= 1 + monthlyRate;
+  }
+  return npv;
+}
+
+/**
+ * Solves the monthly internal rate of return by bisection. The cash flows
+ * start with one inflow followed by outflows, so NPV rises with the rate and
+ * the root is unique.
+ */
+function solveMonthlyIrr(cashFlows: number[]): number {
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < 200; i += 1) {
+    const mid = (low + high) / 2;
+    if (presentValue(cashFlows, mid) > 0) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Calculate the comparison rate for a headline rate and fee structure
+ *
+ * @param inputs - Headline annual rate (%), fees and benchmark loan
+ * @returns Comparison rate (% p.a.) with the benchmark loan details
+ *
+ * @example
+ * calculateComparisonRate({ annualRate: 6, fees: { upfrontFee: 600, monthlyFee: 0, annualFee: 395 } })
+ * // comparisonRate ≈ 6.41
+ */
+export function calculateComparisonRate(
+  inputs: ComparisonRateInputs
+): ComparisonRateResult {
+  const { annualRate, fees, benchmark = 'homeLoan' } = inputs;
+  const { amount, years } = COMPARISON_RATE_BENCHMARKS[benchmark];
+
+  const n = years * 12;
+  const r = annualRate / 100 / 12;
+  const monthlyRepayment = r === 0 ? amount / n : (amount * r) / (1 - Math.pow(1 + r, -n));
+
+  const upfrontFee = fees?.upfrontFee ?? 0;
+  const monthlyFee = fees?.monthlyFee ?? 0;
+  const annualFee = fees?.annualFee ?? 0;
+
+  const cashFlows: number[] = [amount - upfrontFee];
+  let totalFees = upfrontFee;
+  for (let month = 1; month <= n; month += 1) {
+    let outflow = monthlyRepayment + monthlyFee;
+    totalFees += monthlyFee;
+    if (month % 12 === 1) {
+      outflow += annualFee;
+      totalFees += annualFee;
+    }
+    cashFlows.push(-outflow);
+  }
+
+  const comparisonRate = solveMonthlyIrr(cashFlows) * 12 * 100;
+
+  return {
+    comparisonRate,
+    benchmarkAmount: amount,
+    benchmarkYears: years,
+    monthlyRepayment,
+    totalFees
+  };
+}
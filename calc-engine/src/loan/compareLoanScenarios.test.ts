@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { compareLoanScenarios, type LoanScenarioComparisonInputs } from './compareLoanScenarios';
+
+const baseInputs: LoanScenarioComparisonInputs = {
+  scenarios: [
+    { name: 'Mortgage only', loans: [{ amount: 480000, annualRate: 5.85, years: 30 }] },
+    {
+      name: 'Mortgage + personal',
+      loans: [
+        { amount: 440000, annualRate: 5.85, years: 30 },
+        { amount: 40000, annualRate: 8.5, years: 5 }
+      ]
+    },
+    { name: 'Lender B', loans: [{ amount: 480000, annualRate: 5.59, years: 25 }] }
+  ],
+  frequency: 'monthly',
+  repaymentType: 'principalAndInterest',
+  repaymentStrategy: 'reduceTerm',
+  startDate: '2025-01-01'
+};
+
+describe('compareLoanScenarios', () => {
+  it('summarises each scenario across its loans', () => {
+    const result = compareLoanScenarios(baseInputs);
+    const split = result.scenarios[1];
+
+    expect(split.loans).toHaveLength(2);
+    expect(split.summary.totalAmount).toBe(480000);
+    expect(split.summary.initialPayment).toBeCloseTo(
+      split.loans[0].summary.regularPayment + split.loans[1].summary.regularPayment,
+      6
+    );
+    expect(split.summary.totalInterest).toBeCloseTo(
+      split.loans[0].summary.totalInterest + split.loans[1].summary.totalInterest,
+      6
+    );
+    expect(split.schedule[0].openingBalance).toBe(480000);
+  });
+
+  it('aligns every schedule to the longest', () => {
+    const result = compareLoanScenarios(baseInputs);
+    const lenderB = result.scenarios[2];
+
+    expect(result.periods).toBe(360);
+    result.scenarios.forEach((scenario) => expect(scenario.schedule).toHaveLength(360));
+    expect(lenderB.summary.payoffPeriods).toBe(300);
+    expect(lenderB.schedule[300].closingBalance).toBe(0);
+    expect(lenderB.schedule[300].interestCharged).toBe(0);
+    expect(lenderB.schedule[359].date).toBe(result.scenarios[0].schedule[359].date);
+    expect(lenderB.summary.payoffDate).toBe(lenderB.schedule[299].date);
+  });
+
+  it('reports differences for every pair', () => {
+    const result = compareLoanScenarios(baseInputs);
+    const [onlyVsSplit, onlyVsB, splitVsB] = result.differences;
+
+    expect(result.differences).toHaveLength(3);
+    expect(onlyVsSplit.baseline).toBe('Mortgage only');
+    expect(onlyVsSplit.scenario).toBe('Mortgage + personal');
+    expect(splitVsB.baseline).toBe('Mortgage + personal');
+    expect(splitVsB.scenario).toBe('Lender B');
+    expect(onlyVsB.totalPaid).toBeCloseTo(
+      result.scenarios[2].summary.totalPaid - result.scenarios[0].summary.totalPaid,
+      6
+    );
+    expect(onlyVsB.payoffPeriods).toBe(-60);
+  });
+
+  it('ranks by total cost by default', () => {
+    const result = compareLoanScenarios(baseInputs);
+    const totals = result.scenarios.map((scenario) => scenario.summary.totalPaid);
+
+    expect(result.rankBy).toBe('totalCost');
+    expect(result.ranking.map((entry) => entry.rank)).toEqual([1, 2, 3]);
+    expect(result.ranking[0].value).toBe(Math.min(...totals));
+    expect(result.ranking[2].name).toBe('Mortgage only');
+  });
+
+  it('ranks by payoff date', () => {
+    const result = compareLoanScenarios({ ...baseInputs, rankBy: 'payoffDate' });
+
+    expect(result.ranking[0]).toEqual({ name: 'Lender B', rank: 1, value: 300 });
+    expect(result.ranking[1].rank).toBe(2);
+    expect(result.ranking[2].rank).toBe(2);
+  });
+
+  it('adds each loan\'s fees to the scenario totals', () => {
+    const result = compareLoanScenarios({
+      ...baseInputs,
+      scenarios: [
+        baseInputs.scenarios[0],
+        {
+          name: 'With fees',
+          loans: [
+            {
+              amount: 480000,
+              annualRate: 5.85,
+              years: 30,
+              fees: { upfrontFee: 600, monthlyFee: 10, annualFee: 0 }
+            }
+          ]
+        }
+      ]
+    });
+    const [noFees, withFees] = result.scenarios;
+
+    expect(noFees.summary.totalFees).toBe(0);
+    expect(withFees.summary.totalFees).toBeCloseTo(600 + 10 * 360, 6);
+    expect(withFees.summary.totalPaid - noFees.summary.totalPaid).toBeCloseTo(600 + 10 * 360, 6);
+    expect(result.differences[0].totalFees).toBeCloseTo(600 + 10 * 360, 6);
+    expect(result.ranking[0].name).toBe(baseInputs.scenarios[0].name);
+  });
+
+  it('handles a single scenario', () => {
+    const result = compareLoanScenarios({ ...baseInputs, scenarios: [baseInputs.scenarios[0]] });
+
+    expect(result.differences).toEqual([]);
+    expect(result.ranking).toHaveLength(1);
+  });
+});
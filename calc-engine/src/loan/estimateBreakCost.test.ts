@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { estimateBreakCost } from './estimateBreakCost';
+
+describe('estimateBreakCost', () => {
+  const baseInputs = {
+    fixedBalance: 500000,
+    fixedRate: 6.2,
+    remainingFixedYears: 2,
+    remainingTermYears: 27,
+    swapRateAtFixing: 4.5,
+    currentSwapRate: 3.5
+  };
+
+  it('charges the discounted swap rate difference on the amortising balance', () => {
+    const result = estimateBreakCost(baseInputs);
+
+    expect(result.swapRateDifference).toBeCloseTo(1, 10);
+    expect(result.monthsRemaining).toBe(24);
+    expect(result.averageFixedBalance).toBeLessThan(500000);
+    expect(result.breakCost).toBeCloseTo(9508, 0);
+  });
+
+  it('is zero when swap rates have risen since fixing', () => {
+    const result = estimateBreakCost({ ...baseInputs, currentSwapRate: 5.5 });
+
+    expect(result.economicCost).toBe(0);
+    expect(result.breakCost).toBe(0);
+  });
+
+  it('adds the admin fee on top of the economic cost', () => {
+    const withoutFee = estimateBreakCost(baseInputs);
+    const withFee = estimateBreakCost({ ...baseInputs, adminFee: 300 });
+
+    expect(withFee.breakCost - withoutFee.breakCost).toBeCloseTo(300, 6);
+  });
+
+  it('costs more on an interest-only balance that does not run down', () => {
+    const principalAndInterest = estimateBreakCost(baseInputs);
+    const interestOnly = estimateBreakCost({ ...baseInputs, repaymentType: 'interestOnly' });
+
+    expect(interestOnly.averageFixedBalance).toBeCloseTo(500000, 6);
+    expect(interestOnly.breakCost).toBeGreaterThan(principalAndInterest.breakCost);
+  });
+
+  it('shrinks as the fixed term runs out', () => {
+    const twoYears = estimateBreakCost(baseInputs);
+    const sixMonths = estimateBreakCost({ ...baseInputs, remainingFixedYears: 0.5 });
+
+    expect(sixMonths.breakCost).toBeLessThan(twoYears.breakCost);
+  });
+});
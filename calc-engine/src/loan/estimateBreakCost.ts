@@ -0,0 +1,96 @@
+/**
+ * Fixed Rate Break Cost Estimator
+ *
+ * Lenders fund fixed loans with wholesale swaps. When a fixed loan is repaid
+ * early and swap rates have fallen since it was fixed, the lender recovers the
+ * lost margin: the swap rate difference on the remaining fixed balance for each
+ * month left in the fixed term, discounted at today's swap rate. If rates have
+ * risen there is no break cost (lenders do not pay out the gain).
+ *
+ * This is an estimate only. Each lender's break cost formula differs.
+ */
+
+import type { RepaymentType } from '../index';
+
+export interface BreakCostInputs {
+  fixedBalance: number;              // Balance still on the fixed rate
+  fixedRate: number;                 // Fixed rate (% p.a.), used to run the balance down
+  remainingFixedYears: number;       // Time left on the fixed term
+  remainingTermYears: number;        // Loan term left, for P&I repayments
+  swapRateAtFixing: number;          // Wholesale swap rate when the rate was fixed (% p.a.)
+  currentSwapRate: number;           // Swap rate today for the remaining fixed term (% p.a.)
+  repaymentType?: RepaymentType;     // Defaults to 'principalAndInterest'
+  adminFee?: number;                 // Lender's flat break/processing fee
+}
+
+export interface BreakCostResult {
+  breakCost: number;                 // Economic cost plus admin fee
+  economicCost: number;
+  swapRateDifference: number;        // Percentage points (at fixing - current)
+  averageFixedBalance: number;
+  monthsRemaining: number;
+}
+
+/**
+ * Estimate the cost of breaking a fixed rate early
+ *
+ * @param inputs - Remaining fixed balance, terms and swap rates
+ * @returns Break cost estimate with the swap rate difference it was based on
+ *
+ * @example
+ * estimateBreakCost({
+ *   fixedBalance: 500000,
+ *   fixedRate: 6.2,
+ *   remainingFixedYears: 2,
+ *   remainingTermYears: 27,
+ *   swapRateAtFixing: 4.5,
+ *   currentSwapRate: 3.5
+ * })
+ * // breakCost ≈ 9,500
+ */
+export function estimateBreakCost(inputs: BreakCostInputs): BreakCostResult {
+  const {
+    fixedBalance,
+    fixedRate,
+    remainingFixedYears,
+    remainingTermYears,
+    swapRateAtFixing,
+    currentSwapRate,
+    repaymentType = 'principalAndInterest',
+    adminFee = 0
+  } = inputs;
+
+  const monthsRemaining = Math.max(0, Math.round(remainingFixedYears * 12));
+  const termMonths = Math.max(1, Math.round(remainingTermYears * 12));
+  const swapRateDifference = swapRateAtFixing - currentSwapRate;
+
+  const r = fixedRate / 100 / 12;
+  const payment =
+    repaymentType === 'interestOnly'
+      ? fixedBalance * r
+      : r === 0
+      ? fixedBalance / termMonths
+      : (fixedBalance * r) / (1 - Math.pow(1 + r, -termMonths));
+
+  const monthlyDifference = swapRateDifference / 100 / 12;
+  const monthlyDiscount = currentSwapRate / 100 / 12;
+
+  let balance = fixedBalance;
+  let economicCost = 0;
+  let balanceSum = 0;
+  for (let month = 1; month <= monthsRemaining && balance > 0; month += 1) {
+    balanceSum += balance;
+    economicCost += (balance * monthlyDifference) / Math.pow(1 + monthlyDiscount, month);
+    balance = Math.max(0, balance - (payment - balance * r));
+  }
+
+  economicCost = Math.max(0, economicCost);
+
+  return {
+    breakCost: economicCost + adminFee,
+    economicCost,
+    swapRateDifference,
+    averageFixedBalance: monthsRemaining > 0 ? balanceSum / monthsRemaining : 0,
+    monthsRemaining
+  };
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { generateAmortisation } from '../index';
+import {
+  generateConstructionLoan,
+  STANDARD_CONSTRUCTION_STAGES,
+  type ConstructionLoanInputs
+} from './generateConstructionLoan';
+
+describe('generateConstructionLoan', () => {
+  const baseInputs: ConstructionLoanInputs = {
+    landAmount: 400000,
+    contractPrice: 450000,
+    annualRate: 6.5,
+    years: 30,
+    startDate: '2025-07-01'
+  };
+
+  it('spreads the standard stages over the build and draws them progressively', () => {
+    const result = generateConstructionLoan(baseInputs);
+
+    expect(STANDARD_CONSTRUCTION_STAGES.reduce((sum, stage) => sum + stage.percent, 0)).toBe(100);
+    expect(result.drawdowns.map((draw) => draw.stage)).toEqual([
+      'Deposit',
+      'Slab',
+      'Frame',
+      'Lock-up',
+      'Fixing',
+      'Completion'
+    ]);
+    expect(result.drawdowns.map((draw) => draw.month)).toEqual([0, 2, 4, 6, 9, 12]);
+    expect(result.loanLimit).toBeCloseTo(850000, 6);
+    expect(result.completionMonth).toBe(12);
+  });
+
+  it('charges interest-only on the drawn balance during construction', () => {
+    const result = generateConstructionLoan(baseInputs);
+    const construction = result.schedule.filter((row) => row.phase === 'construction');
+
+    expect(construction).toHaveLength(12);
+    construction.forEach((row) => {
+      expect(row.principalPaid).toBe(0);
+      expect(row.closingBalance).toBeCloseTo(row.openingBalance + row.drawdown, 6);
+      expect(row.interestCharged).toBeCloseTo((row.closingBalance * 0.065) / 12, 6);
+      expect(row.undrawn).toBeCloseTo(result.loanLimit - row.closingBalance, 6);
+    });
+    expect(construction[0].drawdown).toBeCloseTo(400000 + 22500, 6);
+    expect(construction[1].stage).toBeUndefined();
+  });
+
+  it('converts the full limit to P&I over the rest of the term at completion', () => {
+    const result = generateConstructionLoan(baseInputs);
+    const firstRepayment = result.schedule[12];
+    const expected = generateAmortisation({
+      amount: 850000,
+      annualRate: 6.5,
+      years: 29,
+      frequency: 'monthly',
+      repaymentType: 'principalAndInterest',
+      repaymentStrategy: 'reduceTerm',
+      startDate: result.completionDate
+    });
+
+    expect(firstRepayment.phase).toBe('repayment');
+    expect(firstRepayment.stage).toBe('Completion');
+    expect(firstRepayment.drawdown).toBeCloseTo(67500, 6);
+    expect(firstRepayment.undrawn).toBe(0);
+    expect(result.summary.regularPayment).toBeCloseTo(expected.summary.regularPayment, 6);
+    expect(result.schedule).toHaveLength(360);
+    expect(result.schedule[359].periodIndex).toBe(360);
+    expect(result.summary.payoffDate).toBe(expected.summary.payoffDate);
+  });
+
+  it('reports the holding cost of the build and the repayment jump at completion', () => {
+    const result = generateConstructionLoan({
+      ...baseInputs,
+      fees: { upfrontFee: 600, monthlyFee: 10, annualFee: 395 }
+    });
+    const construction = result.schedule.filter((row) => row.phase === 'construction');
+    const interest = construction.reduce((sum, row) => sum + row.interestCharged, 0);
+
+    expect(result.holdingCost.interest).toBeCloseTo(interest, 6);
+    expect(result.holdingCost.fees).toBeCloseTo(600 + 12 * 10 + 395, 6);
+    expect(result.holdingCost.total).toBeCloseTo(interest + 1115, 6);
+    expect(result.summary.interestOnlyExpiry!.paymentBefore).toBeCloseTo(construction[11].interestCharged, 6);
+    expect(result.summary.interestOnlyExpiry!.repaymentShock).toBeGreaterThan(0);
+  });
+
+  it('pays the earliest stages from the cash contribution first', () => {
+    const result = generateConstructionLoan({ ...baseInputs, cashContribution: 50000 });
+
+    expect(result.drawdowns[0]).toMatchObject({ fromCash: 22500, fromLoan: 0 });
+    expect(result.drawdowns[1].fromCash).toBeCloseTo(27500, 6);
+    expect(result.drawdowns[1].fromLoan).toBeCloseTo(40000, 6);
+    expect(result.drawdowns[2].fromCash).toBe(0);
+    expect(result.loanLimit).toBeCloseTo(800000, 6);
+  });
+
+  it('takes custom stages and a build with no land loan', () => {
+    const result = generateConstructionLoan({
+      contractPrice: 300000,
+      stages: [
+        { name: 'Completion', percent: 50, month: 6 },
+        { name: 'Deposit', percent: 50, month: 0 }
+      ],
+      annualRate: 6,
+      years: 25,
+      startDate: '2025-01-01'
+    });
+
+    expect(result.drawdowns.map((draw) => draw.stage)).toEqual(['Deposit', 'Completion']);
+    expect(result.schedule[0].openingBalance).toBe(0);
+    expect(result.schedule[0].closingBalance).toBeCloseTo(150000, 6);
+    expect(result.completionMonth).toBe(6);
+    expect(result.holdingCost.interest).toBeCloseTo(6 * 150000 * 0.005, 6);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Construction Loan Generator
+ *
+ * Models a build funded by progress payments. The loan limit covers any land
+ * borrowed at settlement plus the build contract, less the borrower's own
+ * contribution, which pays the earliest stages before the lender draws
+ * anything. Until the completion payment only the drawn balance accrues
+ * interest and repayments are interest-only; at completion the full balance
+ * converts to P&I over the rest of the term via generateAmortisation.
+ *
+ * Knockdown-rebuilds pass the existing loan as the land amount;
+ * house-and-land packages pass the land loan.
+ */
+
+import {
+  generateAmortisation,
+  type AmortisationResult,
+  type AmortisationSummary,
+  type FeeConfig,
+  type PeriodRow,
+  type RepaymentStrategy
+} from '../index';
+
+export interface ConstructionStage {
+  name: string;
+  percent: number;                 // % of the contract price
+  month: number;                   // Months after settlement the stage is paid
+}
+
+export interface ConstructionLoanInputs {
+  landAmount?: number;             // Borrowed at settlement for the land, or the existing loan on a knockdown-rebuild
+  contractPrice: number;
+  stages?: ConstructionStage[];    // Defaults to the standard stages spread over buildMonths
+  buildMonths?: number;            // Defaults to 12
+  cashContribution?: number;       // Pays the earliest stages before the loan draws
+  annualRate: number;
+  years: number;                   // Term from settlement, construction included
+  repaymentStrategy?: RepaymentStrategy;
+  startDate: string;               // Land settlement, or the first stage when there's no land
+  fees?: FeeConfig;
+}
+
+export interface ConstructionLoanRow extends PeriodRow {
+  phase: 'construction' | 'repayment';
+  stage?: string;                  // Progress payment drawn this period
+  drawdown: number;                // Loan funds drawn this period
+  undrawn: number;                 // Loan limit not yet drawn, at period end
+}
+
+export interface ConstructionDrawdown {
+  stage: string;
+  month: number;
+  date: string;
+  amount: number;                  // Full progress payment
+  fromCash: number;
+  fromLoan: number;
+}
+
+export interface ConstructionHoldingCost {
+  interest: number;                // Interest-only repayments before completion
+  fees: number;                    // Upfront fee and loan fees before completion
+  total: number;
+}
+
+export interface ConstructionLoanResult extends AmortisationResult {
+  schedule: ConstructionLoanRow[];
+  drawdowns: ConstructionDrawdown[];
+  loanLimit: number;
+  completionMonth: number;
+  completionDate: string;
+  holdingCost: ConstructionHoldingCost;
+  repayment: AmortisationResult;   // P&I loan from completion
+}
+
+/**
+ * Standard residential progress payments; `timing` places each stage as a
+ * share of the build period
+ */
+export const STANDARD_CONSTRUCTION_STAGES: { name: string; percent: number; timing: number }[] = [
+  { name: 'Deposit', percent: 5, timing: 0 },
+  { name: 'Slab', percent: 15, timing: 1 / 6 },
+  { name: 'Frame', percent: 20, timing: 1 / 3 },
+  { name: 'Lock-up', percent: 25, timing: 1 / 2 },
+  { name: 'Fixing', percent: 20, timing: 3 / 4 },
+  { name: 'Completion', percent: 15, timing: 1 }
+];
+
+const DEFAULT_BUILD_MONTHS = 12;
+
+function addMonths(startDate: string, months: number): Date {
+  const date = new Date(startDate);
+  date.setMonth(date.getMonth() + months);
+  return date;
+}
+
+/**
+ * Generate a construction loan schedule with progressive drawdowns
+ *
+ * @param inputs - Land amount, build contract and stages, rate, term and fees
+ * @returns Interest-only construction periods followed by the P&I schedule,
+ * each row showing the amount drawn and undrawn, plus the build's holding cost
+ *
+ * @example
+ * generateConstructionLoan({
+ *   landAmount: 400000, contractPrice: 450000, cashContribution: 50000,
+ *   annualRate: 6.5, years: 30, startDate: '2025-07-01'
+ * })
+ * // loanLimit 800,000, completionMonth 12, holdingCost.total 37,185, P&I repayment 5,114
+ */
+export function generateConstructionLoan(inputs: ConstructionLoanInputs): ConstructionLoanResult {
+  const landAmount = Math.max(inputs.landAmount ?? 0, 0);
+  const buildMonths = Math.max(Math.round(inputs.buildMonths ?? DEFAULT_BUILD_MONTHS), 1);
+  const stages = [
+    ...(inputs.stages ??
+      STANDARD_CONSTRUCTION_STAGES.map(({ name, percent, timing }) => ({
+        name,
+        percent,
+        month: Math.round(timing * buildMonths)
+      })))
+  ].sort((a, b) => a.month - b.month);
+  const fees = inputs.fees;
+  const monthlyRate = inputs.annualRate / 100 / 12;
+
+  // Own funds go in first, stage by stage
+  let cashLeft = Math.max(inputs.cashContribution ?? 0, 0);
+  const drawdowns: ConstructionDrawdown[] = stages.map((stage) => {
+    const amount = (inputs.contractPrice * stage.percent) / 100;
+    const fromCash = Math.min(cashLeft, amount);
+    const month = Math.max(Math.round(stage.month), 0);
+    cashLeft -= fromCash;
+    return {
+      stage: stage.name,
+      month,
+      date: addMonths(inputs.startDate, month).toISOString(),
+      amount,
+      fromCash,
+      fromLoan: amount - fromCash
+    };
+  });
+  const loanLimit = landAmount + drawdowns.reduce((sum, draw) => sum + draw.fromLoan, 0);
+  const completionMonth = drawdowns.length ? drawdowns[drawdowns.length - 1].month : 0;
+
+  const schedule: ConstructionLoanRow[] = [];
+  let balance = 0;
+  let constructionInterest = 0;
+  let constructionFees = fees?.upfrontFee ?? 0;
+
+  for (let month = 0; month < completionMonth; month++) {
+    const openingBalance = balance;
+    const stagesDrawn = drawdowns.filter((draw) => draw.month === month);
+    const drawdown =
+      (month === 0 ? landAmount : 0) + stagesDrawn.reduce((sum, draw) => sum + draw.fromLoan, 0);
+    balance += drawdown;
+
+    const interestCharged = balance * monthlyRate;
+    const feesApplied = fees ? fees.monthlyFee + (month % 12 === 0 ? fees.annualFee : 0) : 0;
+    constructionInterest += interestCharged;
+    constructionFees += feesApplied;
+
+    schedule.push({
+      date: addMonths(inputs.startDate, month).toISOString(),
+      periodIndex: month + 1,
+      openingBalance,
+      interestCharged,
+      principalPaid: 0,
+      extraRepayment: 0,
+      feesApplied,
+      offsetBalance: 0,
+      offsetInterestSaved: 0,
+      redrawWithdrawal: 0,
+      redrawAvailable: 0,
+      closingBalance: balance,
+      phase: 'construction',
+      stage: stagesDrawn.length ? stagesDrawn.map((draw) => draw.stage).join(', ') : undefined,
+      drawdown,
+      undrawn: loanLimit - balance
+    });
+  }
+
+  // The completion payment is drawn, then P&I runs over the rest of the term
+  const completionDraws = drawdowns.filter((draw) => draw.month === completionMonth);
+  const completionDrawdown =
+    (completionMonth === 0 ? landAmount : 0) + completionDraws.reduce((sum, draw) => sum + draw.fromLoan, 0);
+  const repaymentMonths = Math.max(inputs.years * 12 - completionMonth, 1);
+  const repayment = generateAmortisation({
+    amount: balance + completionDrawdown,
+    annualRate: inputs.annualRate,
+    years: repaymentMonths / 12,
+    frequency: 'monthly',
+    repaymentType: 'principalAndInterest',
+    repaymentStrategy: inputs.repaymentStrategy ?? 'reduceTerm',
+    startDate: addMonths(inputs.startDate, completionMonth).toISOString(),
+    fees: fees ? { ...fees, upfrontFee: 0 } : undefined
+  });
+
+  repayment.schedule.forEach((row, index) => {
+    const drawdown = index === 0 ? completionDrawdown : 0;
+    schedule.push({
+      ...row,
+      periodIndex: row.periodIndex + completionMonth,
+      openingBalance: index === 0 ? balance : row.openingBalance,
+      phase: 'repayment',
+      stage: index === 0 && completionDraws.length ? completionDraws.map((draw) => draw.stage).join(', ') : undefined,
+      drawdown,
+      undrawn: Math.max(loanLimit - balance - completionDrawdown, 0)
+    });
+  });
+
+  const lastConstruction = schedule[completionMonth - 1];
+  const completionDate = addMonths(inputs.startDate, completionMonth).toISOString();
+  const summary: AmortisationSummary = {
+    regularPayment: repayment.summary.regularPayment,
+    totalInterest: constructionInterest + repayment.summary.totalInterest,
+    totalFees: constructionFees + repayment.summary.totalFees,
+    totalPaid: constructionInterest + constructionFees + repayment.summary.totalPaid,
+    payoffDate: repayment.summary.payoffDate,
+    interestOnlyExpiry: lastConstruction
+      ? {
+          date: completionDate,
+          balance: balance + completionDrawdown,
+          paymentBefore: lastConstruction.interestCharged,
+          paymentAfter: repayment.summary.regularPayment,
+          repaymentShock: repayment.summary.regularPayment - lastConstruction.interestCharged
+        }
+      : undefined
+  };
+
+  return {
+    summary,
+    schedule,
+    drawdowns,
+    loanLimit,
+    completionMonth,
+    completionDate,
+    holdingCost: {
+      interest: constructionInterest,
+      fees: constructionFees,
+      total: constructionInterest + constructionFees
+    },
+    repayment
+  };
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { generateAmortisation } from '../index';
+import { generateSplitLoan, type SplitLoanInputs } from './generateSplitLoan';
+
+describe('generateSplitLoan', () => {
+  const baseInputs: SplitLoanInputs = {
+    tranches: [
+      {
+        name: 'Fixed',
+        amount: 390000,
+        rateType: 'fixed',
+        annualRate: 5.5,
+        years: 30,
+        repaymentType: 'principalAndInterest',
+        fixedYears: 3,
+        revertRate: 6.2
+      },
+      {
+        name: 'Variable',
+        amount: 260000,
+        rateType: 'variable',
+        annualRate: 6.2,
+        years: 30,
+        repaymentType: 'principalAndInterest',
+        offsetLinked: true
+      }
+    ],
+    frequency: 'monthly',
+    repaymentStrategy: 'reduceTerm',
+    startDate: '2025-01-01'
+  };
+
+  it('combines tranche balances and repayments', () => {
+    const result = generateSplitLoan(baseInputs);
+
+    expect(result.summary.totalAmount).toBe(650000);
+    expect(result.schedule[0].openingBalance).toBe(650000);
+    expect(result.tranches).toHaveLength(2);
+
+    const fixedPayment = generateAmortisation({
+      amount: 390000,
+      annualRate: 5.5,
+      years: 30,
+      frequency: 'monthly',
+      repaymentType: 'principalAndInterest',
+      repaymentStrategy: 'reduceTerm',
+      startDate: '2025-01-01'
+    }).summary.regularPayment;
+    const variablePayment = generateAmortisation({
+      amount: 260000,
+      annualRate: 6.2,
+      years: 30,
+      frequency: 'monthly',
+      repaymentType: 'principalAndInterest',
+      repaymentStrategy: 'reduceTerm',
+      startDate: '2025-01-01'
+    }).summary.regularPayment;
+
+    expect(result.summary.regularPayment).toBeCloseTo(fixedPayment + variablePayment, 6);
+  });
+
+  it('sums interest across tranches', () => {
+    const result = generateSplitLoan(baseInputs);
+    const trancheInterest = result.tranches.reduce(
+      (sum, t) => sum + t.result.summary.totalInterest,
+      0
+    );
+
+    expect(result.summary.totalInterest).toBeCloseTo(trancheInterest, 6);
+  });
+
+  it('reverts the fixed tranche at the end of its fixed term', () => {
+    const result = generateSplitLoan(baseInputs);
+    const fixed = result.tranches[0].result;
+
+    expect(fixed.summary.fixedRateExpiry).toBeDefined();
+    expect(fixed.summary.fixedRateExpiry!.revertRate).toBe(6.2);
+  });
+
+  it('applies the offset to linked variable tranches only', () => {
+    const result = generateSplitLoan({
+      ...baseInputs,
+      tranches: baseInputs.tranches.map((t) => ({ ...t, offsetLinked: true })),
+      offset: { startingBalance: 50000, monthlyContribution: 0 }
+    });
+
+    expect(result.tranches[0].offsetShare).toBe(0);
+    expect(result.tranches[0].result.schedule[0].offsetBalance).toBe(0);
+    expect(result.tranches[1].offsetShare).toBe(1);
+    expect(result.tranches[1].result.schedule[0].interestCharged).toBeCloseTo(
+      (210000 * 0.062) / 12,
+      6
+    );
+  });
+
+  it('shares the offset between several linked variable tranches', () => {
+    const result = generateSplitLoan({
+      ...baseInputs,
+      tranches: [
+        { ...baseInputs.tranches[1], name: 'Variable A', amount: 300000 },
+        { ...baseInputs.tranches[1], name: 'Variable B', amount: 100000 }
+      ],
+      offset: { startingBalance: 40000, monthlyContribution: 0 }
+    });
+
+    expect(result.tranches[0].offsetShare).toBeCloseTo(0.75, 10);
+    expect(result.tranches[1].result.schedule[0].offsetBalance).toBeCloseTo(10000, 6);
+  });
+
+  it('charges package fees once for the whole loan', () => {
+    const result = generateSplitLoan({
+      ...baseInputs,
+      fees: { upfrontFee: 600, monthlyFee: 0, annualFee: 395 }
+    });
+
+    expect(result.schedule[0].feesApplied).toBe(395);
+    expect(result.schedule[1].feesApplied).toBe(0);
+    expect(result.summary.totalFees).toBe(600 + 395 * 30);
+  });
+
+  it('reports the payoff date of the last tranche', () => {
+    const result = generateSplitLoan({
+      ...baseInputs,
+      tranches: [
+        baseInputs.tranches[0],
+        { ...baseInputs.tranches[1], years: 10 }
+      ]
+    });
+
+    expect(result.summary.payoffDate).toBe(result.tranches[0].result.summary.payoffDate);
+    expect(result.schedule.length).toBe(result.tranches[0].result.schedule.length);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Split Loan Generator
+ *
+ * Models one home loan split into any number of tranches (e.g. 60% fixed /
+ * 40% variable). Each tranche runs through generateAmortisation with its own
+ * rate type, term and repayment type, and the tranche schedules are merged
+ * into one combined schedule and summary.
+ *
+ * Offset accounts only reduce interest on variable tranches. When several
+ * variable tranches are linked, the offset is shared between them in
+ * proportion to their starting amounts.
+ */
+
+import {
+  frequencyToPeriodsPerYear,
+  generateAmortisation,
+  type AmortisationResult,
+  type FeeConfig,
+  type LoanInputs,
+  type OffsetAccount,
+  type OffsetConfig,
+  type PeriodRow,
+  type RateChange,
+  type RepaymentFrequency,
+  type RepaymentStrategy,
+  type RepaymentType
+} from '../index';
+import { initialRepayment } from './initialRepayment';
+import { mergeLoanSchedules } from './mergeLoanSchedules';
+
+export type TrancheRateType = 'fixed' | 'variable';
+
+export interface LoanTranche {
+  name: string;
+  amount: number;
+  rateType: TrancheRateType;
+  annualRate: number;              // Variable rate, or the fixed rate for fixed tranches
+  years: number;
+  repaymentType: RepaymentType;
+  fixedYears?: number;             // Fixed tranches: fixed term, defaults to the full term
+  revertRate?: number;             // Fixed tranches: rate after the fixed term, defaults to annualRate
+  offsetLinked?: boolean;          // Variable tranches only
+}
+
+export interface SplitLoanInputs {
+  tranches: LoanTranche[];
+  frequency: RepaymentFrequency;
+  repaymentStrategy: RepaymentStrategy;
+  startDate: string;
+  offset?: OffsetConfig;           // Shared by linked variable tranches
+  rateChanges?: RateChange[];      // Variable rate movements
+  fees?: FeeConfig;                // Package fees, charged once for the whole loan
+}
+
+export interface SplitLoanTrancheResult {
+  name: string;
+  rateType: TrancheRateType;
+  amount: number;
+  offsetShare: number;             // Fraction of the offset applied to this tranche
+  result: AmortisationResult;
+}
+
+export interface SplitLoanSummary {
+  totalAmount: number;
+  regularPayment: number;          // Sum of tranche repayments at the start
+  totalInterest: number;
+  totalFees: number;
+  totalPaid: number;
+  payoffDate: string;              // When the last tranche is repaid
+}
+
+export interface SplitLoanResult {
+  tranches: SplitLoanTrancheResult[];
+  schedule: PeriodRow[];
+  summary: SplitLoanSummary;
+}
+
+function scaleOffsetAccount(account: OffsetAccount, share: number): OffsetAccount {
+  return {
+    ...account,
+    startingBalance: account.startingBalance * share,
+    monthlyContribution: account.monthlyContribution * share,
+    transactions: account.transactions?.map((transaction) => ({
+      ...transaction,
+      amount: transaction.amount * share
+    }))
+  };
+}
+
+/**
+ * Generate a combined schedule for a loan split into tranches
+ *
+ * @param inputs - Tranches plus the settings they share
+ * @returns Per-tranche results, the merged schedule and a combined summary
+ */
+export function generateSplitLoan(inputs: SplitLoanInputs): SplitLoanResult {
+  const { tranches, frequency, repaymentStrategy, startDate, offset, rateChanges, fees } = inputs;
+
+  const linkedAmount = tranches
+    .filter((tranche) => tranche.rateType === 'variable' && tranche.offsetLinked)
+    .reduce((sum, tranche) => sum + tranche.amount, 0);
+
+  const trancheResults: SplitLoanTrancheResult[] = tranches.map((tranche) => {
+    const linked = tranche.rateType === 'variable' && tranche.offsetLinked && linkedAmount > 0;
+    const offsetShare = linked ? tranche.amount / linkedAmount : 0;
+
+    const loanInputs: LoanInputs = {
+      amount: tranche.amount,
+      annualRate: tranche.annualRate,
+      years: tranche.years,
+      frequency,
+      repaymentType: tranche.repaymentType,
+      repaymentStrategy,
+      startDate,
+      rateChanges
+    };
+
+    if (tranche.rateType === 'fixed') {
+      loanInputs.fixedRate = {
+        annualRate: tranche.annualRate,
+        years: tranche.fixedYears ?? tranche.years,
+        revertRate: tranche.revertRate ?? tranche.annualRate
+      };
+    } else if (offset && offsetShare > 0) {
+      loanInputs.offset = {
+        ...scaleOffsetAccount(offset, offsetShare),
+        linkedAccounts: offset.linkedAccounts?.map((account) =>
+          scaleOffsetAccount(account, offsetShare)
+        )
+      };
+    }
+
+    return {
+      name: tranche.name,
+      rateType: tranche.rateType,
+      amount: tranche.amount,
+      offsetShare,
+      result: generateAmortisation(loanInputs)
+    };
+  });
+
+  // Package fees are charged once for the whole loan rather than per tranche
+  const upfrontFee = fees?.upfrontFee ?? 0;
+  const schedule = mergeLoanSchedules(...trancheResults.map((t) => t.result.schedule));
+  const periodsPerYear = frequencyToPeriodsPerYear(frequency);
+  let periodFeesTotal = 0;
+  if (fees) {
+    schedule.forEach((row, index) => {
+      let periodFees = (fees.monthlyFee * 12) / periodsPerYear;
+      if (index % periodsPerYear === 0) {
+        periodFees += fees.annualFee;
+      }
+      row.feesApplied += periodFees;
+      periodFeesTotal += periodFees;
+    });
+  }
+
+  const payoffDate = trancheResults.reduce(
+    (latest, t) => (t.result.summary.payoffDate > latest ? t.result.summary.payoffDate : latest),
+    new Date(startDate).toISOString()
+  );
+
+  const summary: SplitLoanSummary = {
+    totalAmount: tranches.reduce((sum, tranche) => sum + tranche.amount, 0),
+    regularPayment: trancheResults.reduce((sum, t) => sum + initialRepayment(t.result), 0),
+    totalInterest: trancheResults.reduce((sum, t) => sum + t.result.summary.totalInterest, 0),
+    totalFees: upfrontFee + periodFeesTotal,
+    totalPaid:
+      trancheResults.reduce((sum, t) => sum + t.result.summary.totalPaid, 0) +
+      upfrontFee +
+      periodFeesTotal,
+    payoffDate
+  };
+
+  return { tranches: trancheResults, schedule, summary };
+}
@@ -0,0 +1,38 @@
+/**
+ * Goal Seek
+ *
+ * Shared pieces of the inverse loan solvers. Each solver bisects a single
+ * input to generateAmortisation until the schedule crosses its target, so
+ * every loan feature the engine models (fees, offset, fixed periods, daily
+ * accrual) is honoured by the answer.
+ */
+
+import type { AmortisationResult } from '../index';
+
+export interface GoalSeekResult {
+  value: number;                  // Solved input, in dollars or % p.a.
+  achievable: boolean;            // False when the target can't be met within the search bounds
+  result: AmortisationResult;     // Schedule at the solved value
+}
+
+/**
+ * Finds the smallest value in [low, high] that reaches the target, assuming
+ * `reachesTarget` flips from false to true exactly once as the value rises.
+ * Returns `high` when even the upper bound falls short.
+ */
+export function bisect(
+  low: number,
+  high: number,
+  reachesTarget: (value: number) => boolean,
+  tolerance: number
+): number {
+  while (high - low > tolerance) {
+    const mid = (low + high) / 2;
+    if (reachesTarget(mid)) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return high;
+}
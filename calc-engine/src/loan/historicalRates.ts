@@ -0,0 +1,176 @@
+/**
+ * Historical Australian Housing Rates (January 2000 to August 2025)
+ *
+ * Bundled so historical replays run offline. Each entry is the rate in force
+ * from its effective date until the next entry.
+ *
+ * Data sources:
+ * - RBA cash rate target: https://www.rba.gov.au/statistics/cash-rate/
+ * - Standard variable rate: RBA statistical table F5, "Lenders' Interest
+ *   Rates", banks' standard variable owner-occupier housing rate
+ *   https://www.rba.gov.au/statistics/tables/#interest-rates
+ *
+ * The standard variable rate moves with most cash rate decisions but not
+ * always by the same amount, and banks also moved it between decisions
+ * (January 2008, February 2012, November 2015 and September 2018).
+ */
+
+export interface HistoricalRate {
+  effectiveDate: string;
+  rate: number;                    // % p.a.
+}
+
+/** Last date the bundled history covers; later rates are held at the final entry */
+export const HISTORICAL_RATES_TO = '2025-08-31';
+
+/** RBA cash rate target, from the rate in force on 1 January 2000 */
+export const HISTORICAL_CASH_RATES: HistoricalRate[] = [
+  { effectiveDate: '2000-01-01', rate: 5.0 },
+  { effectiveDate: '2000-02-02', rate: 5.5 },
+  { effectiveDate: '2000-04-05', rate: 5.75 },
+  { effectiveDate: '2000-05-03', rate: 6.0 },
+  { effectiveDate: '2000-08-02', rate: 6.25 },
+  { effectiveDate: '2001-02-07', rate: 5.75 },
+  { effectiveDate: '2001-03-07', rate: 5.5 },
+  { effectiveDate: '2001-04-04', rate: 5.0 },
+  { effectiveDate: '2001-09-05', rate: 4.75 },
+  { effectiveDate: '2001-10-03', rate: 4.5 },
+  { effectiveDate: '2001-12-05', rate: 4.25 },
+  { effectiveDate: '2002-05-08', rate: 4.5 },
+  { effectiveDate: '2002-06-05', rate: 4.75 },
+  { effectiveDate: '2003-11-05', rate: 5.0 },
+  { effectiveDate: '2003-12-03', rate: 5.25 },
+  { effectiveDate: '2005-03-02', rate: 5.5 },
+  { effectiveDate: '2006-05-03', rate: 5.75 },
+  { effectiveDate: '2006-08-02', rate: 6.0 },
+  { effectiveDate: '2006-11-08', rate: 6.25 },
+  { effectiveDate: '2007-08-08', rate: 6.5 },
+  { effectiveDate: '2007-11-07', rate: 6.75 },
+  { effectiveDate: '2008-02-06', rate: 7.0 },
+  { effectiveDate: '2008-03-05', rate: 7.25 },
+  { effectiveDate: '2008-09-03', rate: 7.0 },
+  { effectiveDate: '2008-10-08', rate: 6.0 },
+  { effectiveDate: '2008-11-05', rate: 5.25 },
+  { effectiveDate: '2008-12-03', rate: 4.25 },
+  { effectiveDate: '2009-02-04', rate: 3.25 },
+  { effectiveDate: '2009-04-08', rate: 3.0 },
+  { effectiveDate: '2009-10-07', rate: 3.25 },
+  { effectiveDate: '2009-11-04', rate: 3.5 },
+  { effectiveDate: '2009-12-02', rate: 3.75 },
+  { effectiveDate: '2010-03-03', rate: 4.0 },
+  { effectiveDate: '2010-04-07', rate: 4.25 },
+  { effectiveDate: '2010-05-05', rate: 4.5 },
+  { effectiveDate: '2010-11-03', rate: 4.75 },
+  { effectiveDate: '2011-11-02', rate: 4.5 },
+  { effectiveDate: '2011-12-07', rate: 4.25 },
+  { effectiveDate: '2012-05-02', rate: 3.75 },
+  { effectiveDate: '2012-06-06', rate: 3.5 },
+  { effectiveDate: '2012-10-03', rate: 3.25 },
+  { effectiveDate: '2012-12-05', rate: 3.0 },
+  { effectiveDate: '2013-05-08', rate: 2.75 },
+  { effectiveDate: '2013-08-07', rate: 2.5 },
+  { effectiveDate: '2015-02-04', rate: 2.25 },
+  { effectiveDate: '2015-05-06', rate: 2.0 },
+  { effectiveDate: '2016-05-04', rate: 1.75 },
+  { effectiveDate: '2016-08-03', rate: 1.5 },
+  { effectiveDate: '2019-06-05', rate: 1.25 },
+  { effectiveDate: '2019-07-03', rate: 1.0 },
+  { effectiveDate: '2019-10-02', rate: 0.75 },
+  { effectiveDate: '2020-03-04', rate: 0.5 },
+  { effectiveDate: '2020-03-20', rate: 0.25 },
+  { effectiveDate: '2020-11-04', rate: 0.1 },
+  { effectiveDate: '2022-05-04', rate: 0.35 },
+  { effectiveDate: '2022-06-08', rate: 0.85 },
+  { effectiveDate: '2022-07-06', rate: 1.35 },
+  { effectiveDate: '2022-08-03', rate: 1.85 },
+  { effectiveDate: '2022-09-07', rate: 2.35 },
+  { effectiveDate: '2022-10-05', rate: 2.6 },
+  { effectiveDate: '2022-11-02', rate: 2.85 },
+  { effectiveDate: '2022-12-07', rate: 3.1 },
+  { effectiveDate: '2023-02-08', rate: 3.35 },
+  { effectiveDate: '2023-03-08', rate: 3.6 },
+  { effectiveDate: '2023-05-03', rate: 3.85 },
+  { effectiveDate: '2023-06-07', rate: 4.1 },
+  { effectiveDate: '2023-11-08', rate: 4.35 },
+  { effectiveDate: '2025-02-19', rate: 4.1 },
+  { effectiveDate: '2025-05-21', rate: 3.85 },
+  { effectiveDate: '2025-08-13', rate: 3.6 }
+];
+
+/** Banks' standard variable owner-occupier housing rate, from the rate in force on 1 January 2000 */
+export const HISTORICAL_STANDARD_VARIABLE_RATES: HistoricalRate[] = [
+  { effectiveDate: '2000-01-01', rate: 6.8 },
+  { effectiveDate: '2000-02-02', rate: 7.3 },
+  { effectiveDate: '2000-04-05', rate: 7.55 },
+  { effectiveDate: '2000-05-03', rate: 7.8 },
+  { effectiveDate: '2000-08-02', rate: 8.05 },
+  { effectiveDate: '2001-02-07', rate: 7.55 },
+  { effectiveDate: '2001-03-07', rate: 7.3 },
+  { effectiveDate: '2001-04-04', rate: 6.8 },
+  { effectiveDate: '2001-09-05', rate: 6.55 },
+  { effectiveDate: '2001-10-03', rate: 6.3 },
+  { effectiveDate: '2001-12-05', rate: 6.05 },
+  { effectiveDate: '2002-05-08', rate: 6.3 },
+  { effectiveDate: '2002-06-05', rate: 6.55 },
+  { effectiveDate: '2003-11-05', rate: 6.8 },
+  { effectiveDate: '2003-12-03', rate: 7.05 },
+  { effectiveDate: '2005-03-02', rate: 7.3 },
+  { effectiveDate: '2006-05-03', rate: 7.55 },
+  { effectiveDate: '2006-08-02', rate: 7.8 },
+  { effectiveDate: '2006-11-08', rate: 8.05 },
+  { effectiveDate: '2007-08-08', rate: 8.3 },
+  { effectiveDate: '2007-11-07', rate: 8.55 },
+  { effectiveDate: '2008-01-16', rate: 8.65 },
+  { effectiveDate: '2008-02-06', rate: 8.95 },
+  { effectiveDate: '2008-03-05', rate: 9.3 },
+  { effectiveDate: '2008-04-16', rate: 9.45 },
+  { effectiveDate: '2008-09-03', rate: 9.3 },
+  { effectiveDate: '2008-10-08', rate: 8.5 },
+  { effectiveDate: '2008-11-05', rate: 7.8 },
+  { effectiveDate: '2008-12-03', rate: 6.95 },
+  { effectiveDate: '2009-02-04', rate: 6.05 },
+  { effectiveDate: '2009-04-08', rate: 5.75 },
+  { effectiveDate: '2009-10-07', rate: 6.0 },
+  { effectiveDate: '2009-11-04', rate: 6.3 },
+  { effectiveDate: '2009-12-02', rate: 6.65 },
+  { effectiveDate: '2010-03-03', rate: 6.9 },
+  { effectiveDate: '2010-04-07', rate: 7.15 },
+  { effectiveDate: '2010-05-05', rate: 7.4 },
+  { effectiveDate: '2010-11-03', rate: 7.8 },
+  { effectiveDate: '2011-11-02', rate: 7.55 },
+  { effectiveDate: '2011-12-07', rate: 7.3 },
+  { effectiveDate: '2012-02-15', rate: 7.4 },
+  { effectiveDate: '2012-05-02', rate: 7.05 },
+  { effectiveDate: '2012-06-06', rate: 6.8 },
+  { effectiveDate: '2012-10-03', rate: 6.6 },
+  { effectiveDate: '2012-12-05', rate: 6.4 },
+  { effectiveDate: '2013-05-08', rate: 6.15 },
+  { effectiveDate: '2013-08-07', rate: 5.95 },
+  { effectiveDate: '2015-02-04', rate: 5.7 },
+  { effectiveDate: '2015-05-06', rate: 5.45 },
+  { effectiveDate: '2015-11-18', rate: 5.6 },
+  { effectiveDate: '2016-05-04', rate: 5.4 },
+  { effectiveDate: '2016-08-03', rate: 5.25 },
+  { effectiveDate: '2018-09-19', rate: 5.4 },
+  { effectiveDate: '2019-06-05', rate: 5.15 },
+  { effectiveDate: '2019-07-03', rate: 4.95 },
+  { effectiveDate: '2019-10-02', rate: 4.8 },
+  { effectiveDate: '2020-03-04', rate: 4.6 },
+  { effectiveDate: '2020-03-20', rate: 4.52 },
+  { effectiveDate: '2022-05-04', rate: 4.77 },
+  { effectiveDate: '2022-06-08', rate: 5.27 },
+  { effectiveDate: '2022-07-06', rate: 5.77 },
+  { effectiveDate: '2022-08-03', rate: 6.27 },
+  { effectiveDate: '2022-09-07', rate: 6.77 },
+  { effectiveDate: '2022-10-05', rate: 7.02 },
+  { effectiveDate: '2022-11-02', rate: 7.27 },
+  { effectiveDate: '2022-12-07', rate: 7.52 },
+  { effectiveDate: '2023-02-08', rate: 7.77 },
+  { effectiveDate: '2023-03-08', rate: 8.02 },
+  { effectiveDate: '2023-05-03', rate: 8.27 },
+  { effectiveDate: '2023-06-07', rate: 8.52 },
+  { effectiveDate: '2023-11-08', rate: 8.77 },
+  { effectiveDate: '2025-02-19', rate: 8.52 },
+  { effectiveDate: '2025-05-21', rate: 8.27 },
+  { effectiveDate: '2025-08-13', rate: 8.02 }
+];
@@ -0,0 +1,10 @@
+import type { AmortisationResult } from '../index';
+
+/**
+ * Scheduled repayment in the first period, excluding any extra repayment
+ */
+export function initialRepayment(result: AmortisationResult): number {
+  const first = result.schedule[0];
+  if (!first) return 0;
+  return first.interestCharged + first.principalPaid - first.extraRepayment;
+}
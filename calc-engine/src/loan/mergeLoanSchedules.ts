@@ -0,0 +1,35 @@
+import type { PeriodRow } from '../index';
+
+/**
+ * Merges loan schedules by summing all fields period by period. Schedules
+ * must share a repayment frequency and start date; shorter schedules simply
+ * stop contributing once they are paid off.
+ */
+export function mergeLoanSchedules(...schedules: PeriodRow[][]): PeriodRow[] {
+  const length = Math.max(0, ...schedules.map((schedule) => schedule.length));
+  const merged: PeriodRow[] = [];
+
+  for (let i = 0; i < length; i++) {
+    const rows = schedules.map((schedule) => schedule[i]).filter(Boolean);
+    // Property value, equity and LVR belong to a single loan and aren't summed
+    const sum = (field: keyof Omit<PeriodRow, 'date' | 'periodIndex' | 'propertyValue' | 'equity' | 'lvr'>) =>
+      rows.reduce((total, row) => total + row[field], 0);
+
+    merged.push({
+      periodIndex: i,
+      date: rows[0].date,
+      openingBalance: sum('openingBalance'),
+      closingBalance: sum('closingBalance'),
+      principalPaid: sum('principalPaid'),
+      interestCharged: sum('interestCharged'),
+      extraRepayment: sum('extraRepayment'),
+      feesApplied: sum('feesApplied'),
+      offsetBalance: sum('offsetBalance'),
+      offsetInterestSaved: sum('offsetInterestSaved'),
+      redrawWithdrawal: sum('redrawWithdrawal'),
+      redrawAvailable: sum('redrawAvailable')
+    });
+  }
+
+  return merged;
+}
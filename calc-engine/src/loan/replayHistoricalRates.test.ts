@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { generateAmortisation } from '../index';
+import {
+  HISTORICAL_CASH_RATES,
+  HISTORICAL_RATES_TO,
+  HISTORICAL_STANDARD_VARIABLE_RATES
+} from './historicalRates';
+import { replayHistoricalRates } from './replayHistoricalRates';
+
+describe('historical rate data', () => {
+  it('runs in date order from January 2000 to the coverage date', () => {
+    for (const series of [HISTORICAL_CASH_RATES, HISTORICAL_STANDARD_VARIABLE_RATES]) {
+      expect(series[0].effectiveDate).toBe('2000-01-01');
+      expect(series[series.length - 1].effectiveDate <= HISTORICAL_RATES_TO).toBe(true);
+      series.slice(1).forEach((entry, index) => {
+        expect(entry.effectiveDate > series[index].effectiveDate).toBe(true);
+      });
+    }
+  });
+});
+
+describe('replayHistoricalRates', () => {
+  it('starts on the rate in force and lists every move after the start date', () => {
+    const replay = replayHistoricalRates({ startDate: '2015-06-01', series: 'cashRate' });
+
+    expect(replay.annualRate).toBe(2.0);
+    expect(replay.rateChanges[0]).toEqual({ effectiveDate: '2016-05-04', annualRate: 1.75 });
+    expect(replay.rateChanges[replay.rateChanges.length - 1]).toEqual({
+      effectiveDate: '2025-08-13',
+      annualRate: 3.6
+    });
+    expect(replay.low).toEqual({ effectiveDate: '2020-11-04', rate: 0.1 });
+    expect(replay.peak).toEqual({ effectiveDate: '2023-11-08', rate: 4.35 });
+    expect(replay.dataTo).toBe(HISTORICAL_RATES_TO);
+  });
+
+  it('defaults to the standard variable rate and applies the margin', () => {
+    const replay = replayHistoricalRates({ startDate: '2008-03-15', margin: -0.5 });
+
+    expect(replay.annualRate).toBeCloseTo(8.8, 9);
+    expect(replay.rateChanges[0].effectiveDate).toBe('2008-04-16');
+    expect(replay.rateChanges[0].annualRate).toBeCloseTo(8.95, 9);
+    expect(replay.peak.rate).toBeCloseTo(8.95, 9);
+    expect(replay.low.rate).toBeCloseTo(4.02, 9);
+  });
+
+  it('only includes moves within the loan term', () => {
+    const replay = replayHistoricalRates({ startDate: '2008-01-01', years: 2, series: 'cashRate' });
+
+    expect(replay.rateChanges.map((change) => change.effectiveDate)).toEqual([
+      '2008-02-06',
+      '2008-03-05',
+      '2008-09-03',
+      '2008-10-08',
+      '2008-11-05',
+      '2008-12-03',
+      '2009-02-04',
+      '2009-04-08',
+      '2009-10-07',
+      '2009-11-04',
+      '2009-12-02'
+    ]);
+  });
+
+  it('uses the first rate held for start dates before the history', () => {
+    const replay = replayHistoricalRates({ startDate: '1998-07-01', years: 1, series: 'cashRate' });
+
+    expect(replay.annualRate).toBe(5.0);
+    expect(replay.rateChanges).toHaveLength(0);
+  });
+
+  it('never takes the rate below zero', () => {
+    const replay = replayHistoricalRates({ startDate: '2021-01-01', series: 'cashRate', margin: -0.5 });
+
+    expect(replay.annualRate).toBe(0);
+    expect(replay.rateChanges[0].annualRate).toBe(0);
+  });
+
+  it('feeds generateAmortisation directly', () => {
+    const replay = replayHistoricalRates({ startDate: '2020-06-01', years: 30 });
+    const loan = {
+      amount: 500000,
+      years: 30,
+      frequency: 'monthly' as const,
+      repaymentType: 'principalAndInterest' as const,
+      repaymentStrategy: 'reduceRepayment' as const,
+      startDate: '2020-06-01'
+    };
+    const replayed = generateAmortisation({ ...loan, annualRate: replay.annualRate, rateChanges: replay.rateChanges });
+    const flat = generateAmortisation({ ...loan, annualRate: replay.annualRate });
+
+    expect(replayed.schedule[0].principalPaid).toBeCloseTo(flat.schedule[0].principalPaid, 6);
+    expect(replayed.summary.totalInterest).toBeGreaterThan(flat.summary.totalInterest);
+    const row2024 = replayed.schedule.find((row) => row.date.startsWith('2024-01'));
+    expect(row2024!.interestCharged).toBeCloseTo((row2024!.openingBalance * 8.77) / 100 / 12, 6);
+  });
+});
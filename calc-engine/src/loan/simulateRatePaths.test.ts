@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { generateAmortisation } from '../index';
+import { simulateRatePaths, type RateSimulationInputs } from './simulateRatePaths';
+
+describe('simulateRatePaths', () => {
+  const baseInputs: RateSimulationInputs = {
+    loan: {
+      amount: 600000,
+      annualRate: 6,
+      years: 30,
+      frequency: 'monthly',
+      repaymentType: 'principalAndInterest',
+      repaymentStrategy: 'reduceRepayment',
+      startDate: '2025-07-01'
+    },
+    cashRate: 3.85,
+    longRunCashRate: 3.5,
+    paths: 200
+  };
+
+  it('gives the same bands for the same seed and different bands for another', () => {
+    const first = simulateRatePaths({ ...baseInputs, seed: 7 });
+    const second = simulateRatePaths({ ...baseInputs, seed: 7 });
+    const other = simulateRatePaths({ ...baseInputs, seed: 8 });
+
+    expect(second.totalInterest).toEqual(first.totalInterest);
+    expect(second.years).toEqual(first.years);
+    expect(other.totalInterest.p50).not.toBeCloseTo(first.totalInterest.p50, 0);
+  });
+
+  it('matches the deterministic schedule when rates cannot move', () => {
+    const result = simulateRatePaths({
+      ...baseInputs,
+      longRunCashRate: 3.85,
+      volatility: 0,
+      paths: 5
+    });
+    const expected = generateAmortisation(baseInputs.loan);
+
+    expect(result.totalInterest.p10).toBeCloseTo(expected.summary.totalInterest, 6);
+    expect(result.totalInterest.p90).toBeCloseTo(expected.summary.totalInterest, 6);
+    expect(result.payoffDate.p50).toBe(expected.summary.payoffDate);
+    expect(result.years[0].loanRate.p50).toBeCloseTo(6, 9);
+    expect(result.baseline.summary.totalInterest).toBeCloseTo(expected.summary.totalInterest, 6);
+  });
+
+  it('orders every band from P10 to P90', () => {
+    const result = simulateRatePaths(baseInputs);
+
+    expect(result.years).toHaveLength(30);
+    for (const band of [
+      result.totalInterest,
+      result.repayment,
+      ...result.years.flatMap((year) => [year.cashRate, year.loanRate, year.repayment, year.balance])
+    ]) {
+      expect(band.p10).toBeLessThanOrEqual(band.p50);
+      expect(band.p50).toBeLessThanOrEqual(band.p90);
+    }
+    expect(result.payoffDate.p10 <= result.payoffDate.p90).toBe(true);
+  });
+
+  it('keeps the cash rate on 25 basis point steps above the floor', () => {
+    const result = simulateRatePaths({ ...baseInputs, volatility: 3, longRunCashRate: 0.5 });
+
+    for (const year of result.years) {
+      expect(year.cashRate.p10).toBeGreaterThanOrEqual(0.1);
+    }
+    const steps = (result.years[0].cashRate.p90 - 3.85) / 0.25;
+    expect(steps).toBeCloseTo(Math.round(steps), 9);
+  });
+
+  it('pulls the median toward the long-run rate and widens with volatility', () => {
+    const calm = simulateRatePaths({ ...baseInputs, longRunCashRate: 5, volatility: 0.5 });
+    const wild = simulateRatePaths({ ...baseInputs, longRunCashRate: 5, volatility: 2 });
+    const last = calm.years[calm.years.length - 1];
+
+    expect(last.cashRate.p50).toBeGreaterThan(4.5);
+    expect(calm.totalInterest.p50).toBeGreaterThan(calm.baseline.summary.totalInterest);
+    expect(wild.totalInterest.p90 - wild.totalInterest.p10).toBeGreaterThan(
+      calm.totalInterest.p90 - calm.totalInterest.p10
+    );
+  });
+
+  it('spreads the payoff date when repayments are held and the term moves', () => {
+    const result = simulateRatePaths({
+      ...baseInputs,
+      loan: { ...baseInputs.loan, repaymentStrategy: 'reduceTerm', years: 25 },
+      longRunCashRate: 2.5
+    });
+
+    expect(result.payoffDate.p10 < result.payoffDate.p90).toBe(true);
+    expect(result.repayment.p10).toBeCloseTo(result.repayment.p90, 6);
+  });
+
+  it('reports the scheduled repayment without extras or the final payment', () => {
+    const loan = {
+      ...baseInputs.loan,
+      repaymentStrategy: 'reduceTerm' as const,
+      extraRepayments: [{ effectiveDate: '2025-07-01', amount: 1000, recurring: true }]
+    };
+    const result = simulateRatePaths({ ...baseInputs, loan, longRunCashRate: 3.85, volatility: 0, paths: 5 });
+    const expected = generateAmortisation(loan);
+    const payoffYear = Math.ceil(expected.schedule.length / 12);
+
+    expect(result.repayment.p50).toBeCloseTo(expected.summary.regularPayment, 6);
+    expect(result.years[0].repayment.p50).toBeCloseTo(expected.summary.regularPayment, 6);
+    expect(result.years[payoffYear - 2].repayment.p50).toBeCloseTo(expected.summary.regularPayment, 6);
+    expect(result.years[payoffYear - 1].repayment.p50).toBe(0);
+  });
+
+  it('holds the fixed rate until it expires', () => {
+    const result = simulateRatePaths({
+      ...baseInputs,
+      loan: { ...baseInputs.loan, fixedRate: { annualRate: 5.5, years: 3, revertRate: 6.5 } }
+    });
+
+    expect(result.years[0].loanRate.p10).toBe(5.5);
+    expect(result.years[1].loanRate.p90).toBe(5.5);
+    expect(result.years[3].loanRate.p10).not.toBe(result.years[3].loanRate.p90);
+    expect(result.years[0].repayment.p10).toBeCloseTo(result.years[0].repayment.p90, 6);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Interest Rate Path Simulator
+ *
+ * A RateChange[] describes one future for rates; this runs thousands. Each
+ * path moves the cash rate month by month with a mean-reverting
+ * (Ornstein-Uhlenbeck) model: it drifts back toward a long-run level at the
+ * reversion speed while normally distributed shocks scaled by the volatility
+ * push it around. Moves are rounded to the RBA's 25 basis point steps and
+ * passed through to the loan at its current margin over the cash rate, then
+ * each path runs through generateAmortisation.
+ *
+ * Shocks come from a seeded generator, so the same inputs and seed always
+ * give the same bands.
+ */
+
+import {
+  frequencyToPeriodsPerYear,
+  generateAmortisation,
+  type AmortisationResult,
+  type LoanInputs,
+  type RateChange
+} from '../index';
+
+export interface RateSimulationInputs {
+  loan: LoanInputs;                // rateChanges are replaced by each simulated path
+  cashRate: number;                // Today's cash rate, %
+  longRunCashRate: number;         // % the cash rate reverts toward
+  reversionSpeed?: number;         // Per year, defaults to 0.25
+  volatility?: number;             // % points per square-root year, defaults to 1
+  rateStep?: number;               // % the cash rate moves by, defaults to 0.25 (0 for continuous)
+  paths?: number;                  // Defaults to 2000
+  seed?: number;                   // Defaults to 1
+}
+
+export interface PercentileBand {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface RateSimulationYear {
+  year: number;                    // 1-based loan year
+  date: string;                    // End of the loan year
+  cashRate: PercentileBand;
+  loanRate: PercentileBand;
+  repayment: PercentileBand;       // Scheduled repayment at year end, excluding extras, 0 once repaid
+  balance: PercentileBand;
+}
+
+export interface RateSimulationResult {
+  paths: number;
+  seed: number;
+  baseline: AmortisationResult;    // Rates held where they are today
+  years: RateSimulationYear[];
+  repayment: PercentileBand;       // Highest scheduled repayment on each path, excluding extras
+  totalInterest: PercentileBand;
+  payoffDate: { p10: string; p50: string; p90: string };
+}
+
+const DEFAULT_REVERSION_SPEED = 0.25;
+const DEFAULT_VOLATILITY = 1;
+const DEFAULT_RATE_STEP = 0.25;
+const DEFAULT_PATHS = 2000;
+const DEFAULT_SEED = 1;
+const MIN_CASH_RATE = 0.1;        // The RBA's effective lower bound
+
+function addMonths(startDate: string, months: number): Date {
+  const date = new Date(startDate);
+  date.setMonth(date.getMonth() + months);
+  return date;
+}
+
+/** Mulberry32: a small, fast generator giving uniform numbers in [0, 1) */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal draw via Box-Muller */
+function normal(random: () => number): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/** Linearly interpolated percentile of an ascending list */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/** Scheduled repayment for a row, leaving out extras and the short final payment */
+function scheduledRepayment(schedule: AmortisationResult['schedule'], index: number): number {
+  // The final payment only clears what is left, so the one before stands in for it
+  const row = schedule[index === schedule.length - 1 && index > 0 ? index - 1 : index];
+  return row.interestCharged + row.principalPaid - row.extraRepayment;
+}
+
+function bandOf(values: number[]): PercentileBand {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9)
+  };
+}
+
+/**
+ * Simulate mean-reverting cash rate paths and the loan outcome on each
+ *
+ * @param inputs - Loan, today's and the long-run cash rate, model settings,
+ * number of paths and seed
+ * @returns P10/P50/P90 bands for the cash rate, loan rate, repayment and
+ * balance at the end of each loan year, plus bands for the highest
+ * repayment, total interest and payoff date. P10 is the low end of each
+ * range, so the earliest payoff and the least interest.
+ *
+ * @example
+ * simulateRatePaths({
+ *   loan: { amount: 600000, annualRate: 6, years: 30, frequency: 'monthly', repaymentType: 'principalAndInterest', repaymentStrategy: 'reduceRepayment', startDate: '2025-07-01' },
+ *   cashRate: 3.85, longRunCashRate: 3.5
+ * })
+ * // totalInterest p10 536,164, p50 651,438, p90 766,538
+ */
+export function simulateRatePaths(inputs: RateSimulationInputs): RateSimulationResult {
+  const { loan } = inputs;
+  const reversionSpeed = Math.max(inputs.reversionSpeed ?? DEFAULT_REVERSION_SPEED, 0);
+  const volatility = Math.max(inputs.volatility ?? DEFAULT_VOLATILITY, 0);
+  const rateStep = Math.max(inputs.rateStep ?? DEFAULT_RATE_STEP, 0);
+  const pathCount = Math.max(Math.round(inputs.paths ?? DEFAULT_PATHS), 1);
+  const seed = inputs.seed ?? DEFAULT_SEED;
+  const random = createRandom(seed);
+
+  // Simulated moves apply to the variable rate, which is the revert rate on a fixed loan
+  const variableRate = loan.fixedRate ? loan.fixedRate.revertRate : loan.annualRate;
+  const margin = variableRate - inputs.cashRate;
+  const months = Math.round(loan.years * 12);
+  const loanYears = Math.ceil(loan.years);
+  const paymentsPerYear = frequencyToPeriodsPerYear(loan.frequency);
+  const fixedMonths = loan.fixedRate ? Math.round(loan.fixedRate.years * 12) : 0;
+
+  // Exact monthly step of the Ornstein-Uhlenbeck process
+  const dt = 1 / 12;
+  const decay = Math.exp(-reversionSpeed * dt);
+  const shockScale =
+    reversionSpeed > 0
+      ? volatility * Math.sqrt((1 - decay * decay) / (2 * reversionSpeed))
+      : volatility * Math.sqrt(dt);
+  // Moves are whole steps from today's rate, so 3.85% moves to 3.60% or 4.10%
+  const roundToStep = (rate: number) =>
+    Math.max(
+      rateStep > 0 ? inputs.cashRate + Math.round((rate - inputs.cashRate) / rateStep) * rateStep : rate,
+      MIN_CASH_RATE
+    );
+
+  const yearly = Array.from({ length: loanYears }, () => ({
+    cashRate: [] as number[],
+    loanRate: [] as number[],
+    repayment: [] as number[],
+    balance: [] as number[]
+  }));
+  const peakRepayments: number[] = [];
+  const totalInterests: number[] = [];
+  const payoffTimes: number[] = [];
+
+  for (let path = 0; path < pathCount; path++) {
+    const cashRates: number[] = [inputs.cashRate];
+    const rateChanges: RateChange[] = [];
+    let state = inputs.cashRate;
+    let current = inputs.cashRate;
+    for (let month = 1; month <= months; month++) {
+      state = inputs.longRunCashRate + (state - inputs.longRunCashRate) * decay + shockScale * normal(random);
+      const stepped = roundToStep(state);
+      if (stepped !== current) {
+        current = stepped;
+        rateChanges.push({
+          effectiveDate: addMonths(loan.startDate, month).toISOString(),
+          annualRate: current + margin
+        });
+      }
+      cashRates.push(current);
+    }
+
+    const result = generateAmortisation({ ...loan, rateChanges });
+    const { schedule } = result;
+    let peakRepayment = 0;
+    for (let index = 0; index < schedule.length; index++) {
+      peakRepayment = Math.max(peakRepayment, scheduledRepayment(schedule, index));
+    }
+    peakRepayments.push(peakRepayment);
+    totalInterests.push(result.summary.totalInterest);
+    payoffTimes.push(new Date(result.summary.payoffDate).getTime());
+
+    yearly.forEach((values, index) => {
+      const cashRate = cashRates[Math.min((index + 1) * 12, months)];
+      const rowIndex = (index + 1) * paymentsPerYear - 1;
+      const row = schedule[rowIndex];
+      values.cashRate.push(cashRate);
+      values.loanRate.push(
+        loan.fixedRate && (index + 1) * 12 < fixedMonths ? loan.fixedRate.annualRate : cashRate + margin
+      );
+      values.repayment.push(row ? scheduledRepayment(schedule, rowIndex) : 0);
+      values.balance.push(row ? row.closingBalance : 0);
+    });
+  }
+
+  const payoff = bandOf(payoffTimes);
+  return {
+    paths: pathCount,
+    seed,
+    baseline: generateAmortisation({ ...loan, rateChanges: [] }),
+    years: yearly.map((values, index) => ({
+      year: index + 1,
+      date: addMonths(loan.startDate, (index + 1) * 12).toISOString(),
+      cashRate: bandOf(values.cashRate),
+      loanRate: bandOf(values.loanRate),
+      repayment: bandOf(values.repayment),
+      balance: bandOf(values.balance)
+    })),
+    repayment: bandOf(peakRepayments),
+    totalInterest: bandOf(totalInterests),
+    payoffDate: {
+      p10: new Date(payoff.p10).toISOString(),
+      p50: new Date(payoff.p50).toISOString(),
+      p90: new Date(payoff.p90).toISOString()
+    }
+  };
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { solveExtraRepaymentForPayoff } from './solveExtraRepaymentForPayoff';
+
+describe('solveExtraRepaymentForPayoff', () => {
+  const baseInputs = {
+    amount: 600000,
+    annualRate: 6,
+    years: 30,
+    frequency: 'monthly' as const,
+    repaymentType: 'principalAndInterest' as const,
+    repaymentStrategy: 'reduceTerm' as const,
+    startDate: '2025-01-01'
+  };
+
+  it('finds the extra repayment that pays the loan off by the target date', () => {
+    const result = solveExtraRepaymentForPayoff(baseInputs, '2045-01-01');
+
+    expect(result.achievable).toBe(true);
+    expect(result.value).toBeCloseTo(692.06, 2);
+    expect(new Date(result.result.summary.payoffDate).getTime()).toBeLessThanOrEqual(
+      new Date('2045-01-01').getTime()
+    );
+  });
+
+  it('is the smallest extra that meets the target', () => {
+    const result = solveExtraRepaymentForPayoff(baseInputs, '2045-01-01');
+    const short = solveExtraRepaymentForPayoff(baseInputs, '2044-12-01');
+
+    expect(short.value).toBeGreaterThan(result.value);
+  });
+
+  it('spreads the extra over fortnightly repayments', () => {
+    const result = solveExtraRepaymentForPayoff(
+      { ...baseInputs, frequency: 'fortnightly' },
+      '2045-01-01'
+    );
+
+    expect(result.result.schedule[0].extraRepayment).toBeCloseTo(result.value, 6);
+    expect(result.value).toBeLessThan(692.06);
+  });
+
+  it('needs no extra when the loan already finishes in time', () => {
+    const result = solveExtraRepaymentForPayoff(baseInputs, '2060-01-01');
+
+    expect(result.value).toBe(0);
+    expect(result.achievable).toBe(true);
+  });
+
+  it('flags targets before the first repayment as not achievable', () => {
+    const result = solveExtraRepaymentForPayoff(baseInputs, '2024-06-01');
+
+    expect(result.achievable).toBe(false);
+  });
+});
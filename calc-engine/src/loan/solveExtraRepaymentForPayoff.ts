@@ -0,0 +1,63 @@
+/**
+ * Extra Repayment Goal Seek
+ *
+ * Solves the extra repayment needed each period, on top of the scheduled
+ * repayment, for the loan to be paid off by a target date. Extras start with
+ * the first repayment and run through generateScenarioWithExtras.
+ */
+
+import {
+  frequencyToPeriodsPerYear,
+  generateScenarioWithExtras,
+  type ExtraRule,
+  type LoanInputs,
+  type ScenarioWithExtrasResult
+} from '../index';
+import { bisect, type GoalSeekResult } from './goalSeek';
+
+function scenarioWithExtra(inputs: LoanInputs, extraPerPeriod: number): ScenarioWithExtrasResult {
+  const periodsPerYear = frequencyToPeriodsPerYear(inputs.frequency);
+  // Recurring rules are expressed as a monthly amount and spread over the
+  // repayment periods by generateScenarioWithExtras
+  const rule: ExtraRule = {
+    startMonth: 0,
+    amount: (extraPerPeriod * periodsPerYear) / 12,
+    frequency: 'customMonths',
+    intervalMonths: 1
+  };
+  return generateScenarioWithExtras(inputs, extraPerPeriod > 0 ? [rule] : []);
+}
+
+/**
+ * Solve the extra repayment per period needed to be debt-free by a date
+ *
+ * @param inputs - Loan inputs
+ * @param targetPayoffDate - ISO date the loan should be paid off by
+ * @returns Extra repayment per period (rounded up to the cent) and the resulting schedule
+ *
+ * @example
+ * solveExtraRepaymentForPayoff(
+ *   { amount: 600000, annualRate: 6, years: 30, frequency: 'monthly', repaymentType: 'principalAndInterest', repaymentStrategy: 'reduceTerm', startDate: '2025-01-01' },
+ *   '2045-01-01'
+ * )
+ * // value ≈ 692.06 per month on top of the $3,597 repayment
+ */
+export function solveExtraRepaymentForPayoff(
+  inputs: LoanInputs,
+  targetPayoffDate: string
+): GoalSeekResult {
+  const target = new Date(targetPayoffDate).getTime();
+  const paidOffInTime = (extra: number) =>
+    new Date(scenarioWithExtra(inputs, extra).withExtras.summary.payoffDate).getTime() <= target;
+
+  if (paidOffInTime(0)) {
+    return { value: 0, achievable: true, result: scenarioWithExtra(inputs, 0).withExtras };
+  }
+
+  // Paying the whole amount as an extra clears the loan in the first period
+  const achievable = paidOffInTime(inputs.amount);
+  const extra = achievable ? bisect(0, inputs.amount, paidOffInTime, 0.005) : inputs.amount;
+  const value = Math.ceil(extra * 100) / 100;
+
+  return { value, achievable, result: scenarioWithExtra(inputs, value).withExtras };
+}
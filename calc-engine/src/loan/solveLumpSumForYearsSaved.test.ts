@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { solveLumpSumForYearsSaved } from './solveLumpSumForYearsSaved';
+
+describe('solveLumpSumForYearsSaved', () => {
+  const baseInputs = {
+    amount: 600000,
+    annualRate: 6,
+    years: 30,
+    frequency: 'monthly' as const,
+    repaymentType: 'principalAndInterest' as const,
+    repaymentStrategy: 'reduceTerm' as const,
+    startDate: '2025-01-01'
+  };
+
+  it('finds the up-front lump sum that cuts the requested years', () => {
+    const result = solveLumpSumForYearsSaved(baseInputs, 5);
+
+    expect(result.achievable).toBe(true);
+    expect(result.value).toBe(41883);
+    expect(result.result.schedule.length).toBe(300);
+  });
+
+  it('needs a larger lump sum when it is paid later', () => {
+    const upfront = solveLumpSumForYearsSaved(baseInputs, 5);
+    const later = solveLumpSumForYearsSaved(baseInputs, 5, 60);
+
+    expect(later.value).toBeGreaterThan(upfront.value);
+    expect(later.result.schedule[60].extraRepayment).toBe(later.value);
+  });
+
+  it('needs nothing to cut zero years', () => {
+    expect(solveLumpSumForYearsSaved(baseInputs, 0).value).toBe(0);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Lump Sum Goal Seek
+ *
+ * Solves the one-off lump sum that takes a given number of years off the
+ * loan, compared with the same loan without it. Runs through
+ * generateScenarioWithExtras, so the saving is measured the same way as in
+ * the extra repayment comparison.
+ */
+
+import {
+  generateScenarioWithExtras,
+  type LoanInputs,
+  type ScenarioWithExtrasResult
+} from '../index';
+import { bisect, type GoalSeekResult } from './goalSeek';
+
+/**
+ * Solve the lump sum needed to cut a number of years off the loan
+ *
+ * @param inputs - Loan inputs
+ * @param yearsToCut - Years to take off the payoff date
+ * @param startMonth - Months after the loan start the lump sum is paid (default 0)
+ * @returns Lump sum (rounded up to the dollar) and the resulting schedule
+ *
+ * @example
+ * solveLumpSumForYearsSaved(
+ *   { amount: 600000, annualRate: 6, years: 30, frequency: 'monthly', repaymentType: 'principalAndInterest', repaymentStrategy: 'reduceTerm', startDate: '2025-01-01' },
+ *   5
+ * )
+ * // value ≈ 41,883 paid up front
+ */
+export function solveLumpSumForYearsSaved(
+  inputs: LoanInputs,
+  yearsToCut: number,
+  startMonth = 0
+): GoalSeekResult {
+  const scenarioWithLumpSum = (amount: number): ScenarioWithExtrasResult =>
+    generateScenarioWithExtras(
+      inputs,
+      amount > 0 ? [{ startMonth, amount, frequency: 'oneOff' }] : []
+    );
+  const cutsEnough = (amount: number) =>
+    scenarioWithLumpSum(amount).comparison.yearsSaved >= yearsToCut;
+
+  if (yearsToCut <= 0) {
+    return { value: 0, achievable: true, result: scenarioWithLumpSum(0).withExtras };
+  }
+
+  const achievable = cutsEnough(inputs.amount);
+  const value = achievable ? Math.ceil(bisect(0, inputs.amount, cutsEnough, 0.5)) : inputs.amount;
+
+  return { value, achievable, result: scenarioWithLumpSum(value).withExtras };
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { generateAmortisation } from '../index';
+import { solveMaxLoanForRepayment } from './solveMaxLoanForRepayment';
+
+describe('solveMaxLoanForRepayment', () => {
+  const baseInputs = {
+    annualRate: 6,
+    years: 30,
+    frequency: 'monthly' as const,
+    repaymentType: 'principalAndInterest' as const,
+    repaymentStrategy: 'reduceTerm' as const,
+    startDate: '2025-01-01'
+  };
+
+  it('matches the annuity formula for a plain loan', () => {
+    const result = solveMaxLoanForRepayment(baseInputs, 3000);
+
+    expect(result.achievable).toBe(true);
+    expect(result.value).toBe(500374);
+    expect(result.result.summary.regularPayment).toBeLessThanOrEqual(3000);
+  });
+
+  it('keeps the repayment within the target at the solved amount', () => {
+    const result = solveMaxLoanForRepayment({ ...baseInputs, frequency: 'fortnightly' }, 1400);
+    const oneMore = generateAmortisation({
+      ...baseInputs,
+      frequency: 'fortnightly',
+      amount: result.value + 1
+    });
+
+    expect(result.result.summary.regularPayment).toBeLessThanOrEqual(1400);
+    expect(oneMore.summary.regularPayment).toBeGreaterThan(1400);
+  });
+
+  it('allows a larger loan when interest only', () => {
+    const pi = solveMaxLoanForRepayment(baseInputs, 3000);
+    const io = solveMaxLoanForRepayment({ ...baseInputs, repaymentType: 'interestOnly' }, 3000);
+
+    expect(io.value).toBe(600000);
+    expect(io.value).toBeGreaterThan(pi.value);
+  });
+});
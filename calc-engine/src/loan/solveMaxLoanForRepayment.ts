@@ -0,0 +1,52 @@
+/**
+ * Maximum Loan Goal Seek
+ *
+ * Solves the largest loan whose first scheduled repayment fits a target
+ * repayment, at the rate, term, frequency and fees given.
+ */
+
+import { generateAmortisation, type LoanInputs } from '../index';
+import { bisect, type GoalSeekResult } from './goalSeek';
+import { initialRepayment } from './initialRepayment';
+
+const MAX_LOAN_AMOUNT = 100_000_000;
+
+/**
+ * Solve the maximum loan amount for a target repayment
+ *
+ * @param inputs - Loan inputs; `amount` is ignored
+ * @param targetRepayment - Affordable scheduled repayment per period
+ * @returns Maximum loan amount (rounded down to the dollar) and its schedule
+ *
+ * @example
+ * solveMaxLoanForRepayment(
+ *   { annualRate: 6, years: 30, frequency: 'monthly', repaymentType: 'principalAndInterest', repaymentStrategy: 'reduceTerm', startDate: '2025-01-01' },
+ *   3000
+ * )
+ * // value ≈ 500,374
+ */
+export function solveMaxLoanForRepayment(
+  inputs: Omit<LoanInputs, 'amount'>,
+  targetRepayment: number
+): GoalSeekResult {
+  const repaymentFor = (amount: number) =>
+    initialRepayment(generateAmortisation({ ...inputs, amount }));
+
+  const achievable = targetRepayment > 0 && repaymentFor(MAX_LOAN_AMOUNT) >= targetRepayment;
+  const upperBound = achievable
+    ? bisect(0, MAX_LOAN_AMOUNT, (amount) => repaymentFor(amount) >= targetRepayment, 0.5)
+    : MAX_LOAN_AMOUNT;
+
+  // The bisection lands just above the target, so step down to a whole
+  // dollar that fits
+  let value = Math.floor(upperBound);
+  while (value > 0 && repaymentFor(value) > targetRepayment) {
+    value -= 1;
+  }
+
+  return {
+    value,
+    achievable,
+    result: generateAmortisation({ ...inputs, amount: value })
+  };
+}
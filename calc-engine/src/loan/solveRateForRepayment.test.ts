@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { solveRateForRepayment } from './solveRateForRepayment';
+
+describe('solveRateForRepayment', () => {
+  const baseInputs = {
+    amount: 600000,
+    years: 30,
+    frequency: 'monthly' as const,
+    repaymentType: 'principalAndInterest' as const,
+    repaymentStrategy: 'reduceTerm' as const,
+    startDate: '2025-01-01'
+  };
+
+  it('finds the rate at which repayments reach the target', () => {
+    const result = solveRateForRepayment(baseInputs, 4500);
+
+    expect(result.achievable).toBe(true);
+    expect(result.value).toBeCloseTo(8.23, 2);
+    expect(result.result.summary.regularPayment).toBeCloseTo(4500, 2);
+  });
+
+  it('returns the current-rate repayment when solving for it', () => {
+    const result = solveRateForRepayment(baseInputs, 3597.3);
+
+    expect(result.value).toBeCloseTo(6, 3);
+  });
+
+  it('flags targets below the 0% repayment as not achievable', () => {
+    const result = solveRateForRepayment(baseInputs, 1000);
+
+    expect(result.achievable).toBe(false);
+    expect(result.value).toBe(0);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Rate Goal Seek
+ *
+ * Solves the interest rate at which the first scheduled repayment reaches a
+ * given amount. Useful for "how far can rates rise before we pay $X?"
+ */
+
+import { generateAmortisation, type LoanInputs } from '../index';
+import { bisect, type GoalSeekResult } from './goalSeek';
+import { initialRepayment } from './initialRepayment';
+
+const MAX_RATE = 30;
+
+/**
+ * Solve the rate at which repayments reach a target amount
+ *
+ * @param inputs - Loan inputs; `annualRate` is ignored
+ * @param targetRepayment - Scheduled repayment per period to reach
+ * @returns Annual rate (%) and the schedule at that rate. Not achievable when
+ * even a 0% loan repays more than the target, or 30% repays less.
+ *
+ * @example
+ * solveRateForRepayment(
+ *   { amount: 600000, years: 30, frequency: 'monthly', repaymentType: 'principalAndInterest', repaymentStrategy: 'reduceTerm', startDate: '2025-01-01' },
+ *   4500
+ * )
+ * // value ≈ 8.23
+ */
+export function solveRateForRepayment(
+  inputs: Omit<LoanInputs, 'annualRate'>,
+  targetRepayment: number
+): GoalSeekResult {
+  const repaymentAt = (annualRate: number) =>
+    initialRepayment(generateAmortisation({ ...inputs, annualRate }));
+  const reachesTarget = (annualRate: number) => repaymentAt(annualRate) >= targetRepayment;
+
+  const achievable = !reachesTarget(0) && reachesTarget(MAX_RATE);
+  let value: number;
+  if (achievable) {
+    value = bisect(0, MAX_RATE, reachesTarget, 1e-6);
+  } else {
+    value = reachesTarget(0) ? 0 : MAX_RATE;
+  }
+
+  return {
+    value,
+    achievable,
+    result: generateAmortisation({ ...inputs, annualRate: value })
+  };
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { calculatePaySummary } from '../pay/calculatePaySummary';
+import { analyseInvestmentProperty, type InvestmentPropertyInputs } from './analyseInvestmentProperty';
+
+const baseInputs: InvestmentPropertyInputs = {
+  purchasePrice: 650000,
+  weeklyRent: 550,
+  expenses: { propertyManagementRate: 7, strata: 0, councilRates: 2000, insurance: 1500, maintenance: 1500 },
+  loan: {
+    amount: 520000,
+    annualRate: 6.2,
+    years: 30,
+    frequency: 'monthly',
+    repaymentType: 'interestOnly',
+    repaymentStrategy: 'reduceTerm',
+    startDate: '2025-07-01'
+  },
+  owner: {
+    taxYear: '2025-26',
+    annualSalary: 120000,
+    frequency: 'monthly',
+    hasHELP: false,
+    medicareExempt: false,
+    deductions: 0,
+    includeSuper: false,
+    superRate: 0.12
+  }
+};
+
+describe('analyseInvestmentProperty', () => {
+  it('builds the first year cash flow from rent, vacancy and expenses', () => {
+    const [first] = analyseInvestmentProperty(baseInputs).years;
+
+    expect(first.grossRent).toBeCloseTo(28600, 6);
+    expect(first.vacancyLoss).toBeCloseTo(1100, 6);
+    expect(first.propertyManagement).toBeCloseTo(1925, 6);
+    expect(first.operatingExpenses).toBe(5000);
+    expect(first.interest).toBeCloseTo(32240, 2);
+    expect(first.principalRepaid).toBe(0);
+    expect(first.preTaxCashFlow).toBeCloseTo(27500 - 1925 - 5000 - 32240, 2);
+  });
+
+  it('values the tax saved by a rental loss through calculatePaySummary', () => {
+    const [first] = analyseInvestmentProperty(baseInputs).years;
+    const without = calculatePaySummary(baseInputs.owner).annual.totalWithheld;
+    const withLoss = calculatePaySummary({ ...baseInputs.owner, deductions: -first.netRentalResult }).annual.totalWithheld;
+
+    expect(first.netRentalResult).toBeLessThan(0);
+    expect(first.taxBenefit).toBeCloseTo(without - withLoss, 6);
+    expect(first.afterTaxCashFlow).toBeCloseTo(first.preTaxCashFlow + first.taxBenefit, 6);
+    expect(first.afterTaxHoldingCost).toBeLessThan(first.preTaxHoldingCost);
+  });
+
+  it('deducts depreciation without touching the pre-tax cash flow', () => {
+    const plain = analyseInvestmentProperty(baseInputs).years[0];
+    const depreciated = analyseInvestmentProperty({
+      ...baseInputs,
+      depreciation: { capitalWorksCost: 200000, plantValue: 20000, plantEffectiveLife: 10 }
+    }).years;
+
+    expect(depreciated[0].depreciation).toBeCloseTo(5000 + 4000, 6);
+    expect(depreciated[1].depreciation).toBeCloseTo(5000 + 3200, 6);
+    expect(depreciated[0].preTaxCashFlow).toBeCloseTo(plain.preTaxCashFlow, 6);
+    expect(depreciated[0].taxBenefit).toBeGreaterThan(plain.taxBenefit);
+  });
+
+  it('counts P&I principal as a cash cost but not a deduction', () => {
+    const interestOnly = analyseInvestmentProperty(baseInputs).years[0];
+    const [first] = analyseInvestmentProperty({
+      ...baseInputs,
+      loan: { ...baseInputs.loan, repaymentType: 'principalAndInterest' }
+    }).years;
+
+    expect(first.principalRepaid).toBeGreaterThan(0);
+    expect(first.preTaxCashFlow).toBeLessThan(interestOnly.preTaxCashFlow);
+    expect(first.netRentalResult).toBeCloseTo(
+      first.rentalIncome - first.propertyManagement - first.operatingExpenses - first.interest,
+      6
+    );
+  });
+
+  it('charges extra tax when the property is positively geared', () => {
+    const result = analyseInvestmentProperty({
+      ...baseInputs,
+      weeklyRent: 1000,
+      loan: { ...baseInputs.loan, amount: 200000 }
+    });
+
+    expect(result.negativelyGeared).toBe(false);
+    expect(result.years[0].taxBenefit).toBeLessThan(0);
+    expect(result.years[0].preTaxHoldingCost).toBe(0);
+  });
+
+  it('spreads the upfront loan fee over five years of deductions', () => {
+    const { years } = analyseInvestmentProperty({
+      ...baseInputs,
+      loan: { ...baseInputs.loan, fees: { upfrontFee: 1000, monthlyFee: 10, annualFee: 0 } }
+    });
+
+    expect(years[0].borrowingCosts).toBe(200);
+    expect(years[4].borrowingCosts).toBe(200);
+    expect(years[5].borrowingCosts).toBe(0);
+    expect(years[0].loanFees).toBeCloseTo(120, 6);
+  });
+
+  it('grows rent and expenses and totals each year', () => {
+    const result = analyseInvestmentProperty({ ...baseInputs, rentGrowthRate: 3, expenseGrowthRate: 2, years: 5 });
+
+    expect(result.years).toHaveLength(5);
+    expect(result.years[1].grossRent).toBeCloseTo(28600 * 1.03, 6);
+    expect(result.years[1].operatingExpenses).toBeCloseTo(5100, 6);
+    expect(result.totals.afterTaxCashFlow).toBeCloseTo(
+      result.years.reduce((sum, year) => sum + year.afterTaxCashFlow, 0),
+      6
+    );
+  });
+
+  it('solves the weekly rent that breaks even before and after tax', () => {
+    const inputs: InvestmentPropertyInputs = {
+      ...baseInputs,
+      depreciation: { capitalWorksCost: 300000 }
+    };
+    const { breakEvenWeeklyRent, grossYield } = analyseInvestmentProperty(inputs);
+    const atPreTax = analyseInvestmentProperty({ ...inputs, weeklyRent: breakEvenWeeklyRent.preTax }).years[0];
+    const atAfterTax = analyseInvestmentProperty({ ...inputs, weeklyRent: breakEvenWeeklyRent.afterTax }).years[0];
+
+    expect(grossYield).toBeCloseTo(4.4, 6);
+    expect(atPreTax.preTaxCashFlow).toBeCloseTo(0, 4);
+    expect(breakEvenWeeklyRent.afterTax).toBeLessThan(breakEvenWeeklyRent.preTax);
+    expect(Math.abs(atAfterTax.afterTaxCashFlow)).toBeLessThan(5);
+  });
+});
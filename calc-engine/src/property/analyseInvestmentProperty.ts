@@ -0,0 +1,259 @@
+/**
+ * Investment Property Analyser
+ *
+ * Models the yearly cash flow of a rental property: rent less vacancy,
+ * property management and holding costs, and the repayments on an
+ * interest-only or P&I loan from generateAmortisation. Interest, loan fees,
+ * borrowing costs and depreciation (Div 40 plant and equipment, Div 43
+ * capital works) are deducted from the rent, and the owner's salary is run
+ * through calculatePaySummary with and without the net rental result, so a
+ * negatively geared loss shows up as the tax it saves.
+ */
+
+import {
+  frequencyToPeriodsPerYear,
+  generateAmortisation,
+  type AmortisationResult,
+  type LoanInputs
+} from '../index';
+import { bisect } from '../loan/goalSeek';
+import { calculatePaySummary } from '../pay/calculatePaySummary';
+import type { PayCalculateRequest } from '../pay/types';
+
+export interface InvestmentPropertyExpenses {
+  propertyManagementRate: number;  // % of rent collected, incl. letting fees
+  strata: number;                  // Annual amounts from here down
+  councilRates: number;
+  insurance: number;
+  maintenance: number;
+  landTax?: number;
+  other?: number;
+}
+
+export interface InvestmentDepreciation {
+  capitalWorksCost?: number;       // Div 43 construction cost, written off at 2.5% p.a.
+  plantValue?: number;             // Div 40 plant and equipment, diminishing value
+  plantEffectiveLife?: number;     // Years, defaults to 10
+}
+
+export interface InvestmentPropertyInputs {
+  purchasePrice: number;
+  weeklyRent: number;
+  vacancyWeeks?: number;           // Weeks untenanted each year, defaults to 2
+  rentGrowthRate?: number;         // % p.a.
+  expenseGrowthRate?: number;      // % p.a.
+  expenses: InvestmentPropertyExpenses;
+  depreciation?: InvestmentDepreciation;
+  loan: LoanInputs;                // repaymentType 'interestOnly' or 'principalAndInterest'
+  owner: PayCalculateRequest;      // The owner's salary, before the property
+  years?: number;                  // Years to model, defaults to 10
+}
+
+export interface InvestmentPropertyYear {
+  year: number;                    // 1-based
+  grossRent: number;               // 52 weeks at the year's rent
+  vacancyLoss: number;
+  rentalIncome: number;
+  propertyManagement: number;
+  operatingExpenses: number;       // Strata, council, insurance, maintenance, land tax, other
+  interest: number;
+  loanFees: number;
+  principalRepaid: number;         // Not deductible
+  borrowingCosts: number;          // Upfront loan fee, deducted over five years
+  depreciation: number;            // Div 40 plus Div 43
+  netRentalResult: number;         // Taxable result; negative is a loss
+  preTaxCashFlow: number;
+  taxBenefit: number;              // Tax saved by the loss, negative when extra tax is due
+  afterTaxCashFlow: number;
+  preTaxHoldingCost: number;       // Out of pocket before tax, zero when cash flow positive
+  afterTaxHoldingCost: number;
+}
+
+export interface InvestmentPropertyTotals {
+  rentalIncome: number;
+  interest: number;
+  depreciation: number;
+  netRentalResult: number;
+  preTaxCashFlow: number;
+  taxBenefit: number;
+  afterTaxCashFlow: number;
+}
+
+export interface InvestmentBreakEvenRent {
+  preTax: number;                  // Weekly rent for a zero first-year cash flow before tax
+  afterTax: number;                // ... and after the tax benefit
+}
+
+export interface InvestmentPropertyResult {
+  loan: AmortisationResult;
+  years: InvestmentPropertyYear[];
+  totals: InvestmentPropertyTotals;
+  grossYield: number;              // % of purchase price, first year
+  netYield: number;                // After vacancy and running costs, before finance
+  negativelyGeared: boolean;       // First year net rental result is a loss
+  breakEvenWeeklyRent: InvestmentBreakEvenRent;
+}
+
+const CAPITAL_WORKS_RATE = 0.025;
+const CAPITAL_WORKS_YEARS = 40;
+const BORROWING_COST_YEARS = 5;
+const DEFAULT_PLANT_LIFE = 10;
+
+/**
+ * Tax withheld on the salary once a net rental result is added to income.
+ * A loss lifts deductions; a profit lifts assessable income.
+ */
+function taxWithRentalResult(owner: PayCalculateRequest, salary: number, netRentalResult: number): number {
+  const deductions = Math.max(owner.deductions, 0) - netRentalResult;
+  return calculatePaySummary({
+    ...owner,
+    annualSalary: salary + Math.max(-deductions, 0),
+    includeSuper: false,
+    deductions: Math.max(deductions, 0)
+  }).annual.totalWithheld;
+}
+
+/**
+ * Analyse the cash flow and tax position of an investment property
+ *
+ * @param inputs - Rent, expenses, depreciation, loan and the owner's pay details
+ * @returns Yearly pre- and after-tax cash flows, totals, yields and break-even rent
+ *
+ * @example
+ * analyseInvestmentProperty({
+ *   purchasePrice: 650000,
+ *   weeklyRent: 550,
+ *   expenses: { propertyManagementRate: 7, strata: 0, councilRates: 2000, insurance: 1500, maintenance: 1500 },
+ *   loan: {
+ *     amount: 520000, annualRate: 6.2, years: 30, frequency: 'monthly',
+ *     repaymentType: 'interestOnly', repaymentStrategy: 'reduceTerm', startDate: '2025-07-01'
+ *   },
+ *   owner: {
+ *     taxYear: '2025-26', annualSalary: 120000, frequency: 'monthly',
+ *     hasHELP: false, medicareExempt: false, deductions: 0, includeSuper: false, superRate: 0.12
+ *   }
+ * })
+ * // years[0]: preTaxCashFlow -11,665, taxBenefit 3,733, afterTaxCashFlow -7,932
+ */
+export function analyseInvestmentProperty(inputs: InvestmentPropertyInputs): InvestmentPropertyResult {
+  const { expenses, depreciation = {}, owner } = inputs;
+  const vacancyWeeks = Math.min(Math.max(inputs.vacancyWeeks ?? 2, 0), 52);
+  const rentGrowth = (inputs.rentGrowthRate ?? 0) / 100;
+  const expenseGrowth = (inputs.expenseGrowthRate ?? 0) / 100;
+  const horizon = Math.max(Math.round(inputs.years ?? 10), 1);
+
+  const loan = generateAmortisation(inputs.loan);
+  const periodsPerYear = frequencyToPeriodsPerYear(inputs.loan.frequency);
+  const upfrontFee = inputs.loan.fees?.upfrontFee ?? 0;
+
+  const baseline = calculatePaySummary(owner);
+  const salary = baseline.annual.gross;
+  const baselineTax = baseline.annual.totalWithheld;
+
+  const annualOperatingExpenses =
+    expenses.strata +
+    expenses.councilRates +
+    expenses.insurance +
+    expenses.maintenance +
+    (expenses.landTax ?? 0) +
+    (expenses.other ?? 0);
+  const plantLife = Math.max(depreciation.plantEffectiveLife ?? DEFAULT_PLANT_LIFE, 1);
+
+  const analyseYear = (yearIndex: number, weeklyRent: number): InvestmentPropertyYear => {
+    const rows = loan.schedule.slice(yearIndex * periodsPerYear, (yearIndex + 1) * periodsPerYear);
+    const interest = rows.reduce((sum, row) => sum + row.interestCharged, 0);
+    const loanFees = rows.reduce((sum, row) => sum + row.feesApplied, 0);
+    const principalRepaid = rows.reduce((sum, row) => sum + row.principalPaid, 0);
+
+    const grossRent = weeklyRent * 52 * Math.pow(1 + rentGrowth, yearIndex);
+    const vacancyLoss = (grossRent * vacancyWeeks) / 52;
+    const rentalIncome = grossRent - vacancyLoss;
+    const propertyManagement = (rentalIncome * expenses.propertyManagementRate) / 100;
+    const operatingExpenses = annualOperatingExpenses * Math.pow(1 + expenseGrowth, yearIndex);
+
+    // Diminishing value writes off 200% / effective life of the remaining value each year
+    const plantRate = Math.min(2 / plantLife, 1);
+    const plantDeduction = (depreciation.plantValue ?? 0) * Math.pow(1 - plantRate, yearIndex) * plantRate;
+    const capitalWorksDeduction =
+      yearIndex < CAPITAL_WORKS_YEARS ? (depreciation.capitalWorksCost ?? 0) * CAPITAL_WORKS_RATE : 0;
+    const borrowingCosts = yearIndex < BORROWING_COST_YEARS ? upfrontFee / BORROWING_COST_YEARS : 0;
+    const yearDepreciation = plantDeduction + capitalWorksDeduction;
+
+    const netRentalResult =
+      rentalIncome -
+      propertyManagement -
+      operatingExpenses -
+      interest -
+      loanFees -
+      borrowingCosts -
+      yearDepreciation;
+    const preTaxCashFlow =
+      rentalIncome - propertyManagement - operatingExpenses - interest - loanFees - principalRepaid;
+    const taxBenefit = baselineTax - taxWithRentalResult(owner, salary, netRentalResult);
+    const afterTaxCashFlow = preTaxCashFlow + taxBenefit;
+
+    return {
+      year: yearIndex + 1,
+      grossRent,
+      vacancyLoss,
+      rentalIncome,
+      propertyManagement,
+      operatingExpenses,
+      interest,
+      loanFees,
+      principalRepaid,
+      borrowingCosts,
+      depreciation: yearDepreciation,
+      netRentalResult,
+      preTaxCashFlow,
+      taxBenefit,
+      afterTaxCashFlow,
+      preTaxHoldingCost: Math.max(-preTaxCashFlow, 0),
+      afterTaxHoldingCost: Math.max(-afterTaxCashFlow, 0)
+    };
+  };
+
+  const years = Array.from({ length: horizon }, (_, i) => analyseYear(i, inputs.weeklyRent));
+  const sum = (pick: (year: InvestmentPropertyYear) => number) =>
+    years.reduce((total, year) => total + pick(year), 0);
+
+  // Cash outgoings in the first year don't depend on rent, so the pre-tax
+  // break-even solves directly; the after-tax one has to re-run the tax
+  const first = years[0];
+  const rentRetained = (52 - vacancyWeeks) * (1 - expenses.propertyManagementRate / 100);
+  const firstYearOutgoings = first.operatingExpenses + first.interest + first.loanFees + first.principalRepaid;
+  const preTaxBreakEven = rentRetained > 0 ? firstYearOutgoings / rentRetained : Infinity;
+  // Tax on a rental profit is at most the top marginal rate, so four times
+  // the pre-tax figure always brackets the after-tax break-even
+  const afterTaxBreakEven =
+    rentRetained > 0
+      ? bisect(
+          0,
+          Math.max(preTaxBreakEven, inputs.weeklyRent) * 4,
+          (rent) => analyseYear(0, rent).afterTaxCashFlow >= 0,
+          0.01
+        )
+      : Infinity;
+
+  const grossRent = first.grossRent;
+  return {
+    loan,
+    years,
+    totals: {
+      rentalIncome: sum((year) => year.rentalIncome),
+      interest: sum((year) => year.interest),
+      depreciation: sum((year) => year.depreciation),
+      netRentalResult: sum((year) => year.netRentalResult),
+      preTaxCashFlow: sum((year) => year.preTaxCashFlow),
+      taxBenefit: sum((year) => year.taxBenefit),
+      afterTaxCashFlow: sum((year) => year.afterTaxCashFlow)
+    },
+    grossYield: inputs.purchasePrice > 0 ? (grossRent / inputs.purchasePrice) * 100 : 0,
+    netYield:
+      inputs.purchasePrice > 0
+        ? ((first.rentalIncome - first.propertyManagement - first.operatingExpenses) / inputs.purchasePrice) * 100
+        : 0,
+    negativelyGeared: first.netRentalResult < 0,
+    breakEvenWeeklyRent: { preTax: preTaxBreakEven, afterTax: afterTaxBreakEven }
+  };
+}
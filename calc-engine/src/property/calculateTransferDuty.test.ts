@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { calculateTransferDuty } from './calculateTransferDuty';
+
+describe('calculateTransferDuty', () => {
+  it('applies the NSW general scale', () => {
+    const result = calculateTransferDuty({ state: 'NSW', price: 900000 });
+
+    expect(result.generalDuty).toBeCloseTo(10909 + 536000 * 0.045, 6);
+    expect(result.transferDuty).toBe(result.generalDuty);
+    expect(result.mortgageRegistrationFee).toBe(165);
+    expect(result.totalGovernmentCharges).toBeCloseTo(result.transferDuty + 165, 6);
+  });
+
+  it('applies the VIC flat rate on the whole value between $960k and $2m', () => {
+    const result = calculateTransferDuty({ state: 'VIC', price: 1200000 });
+
+    expect(result.generalDuty).toBeCloseTo(66000, 6);
+  });
+
+  it('uses the owner-occupier scale where a state has one', () => {
+    const home = calculateTransferDuty({ state: 'QLD', price: 600000 });
+    const investor = calculateTransferDuty({ state: 'QLD', price: 600000, ownerOccupier: false });
+
+    expect(home.generalDuty).toBeCloseTo(10150 + 60000 * 0.045, 6);
+    expect(investor.generalDuty).toBeCloseTo(17325 + 60000 * 0.045, 6);
+  });
+
+  it('uses the NT formula below $525k', () => {
+    const result = calculateTransferDuty({ state: 'NT', price: 500000 });
+
+    expect(result.generalDuty).toBeCloseTo(0.06571441 * 500 * 500 + 15 * 500, 6);
+  });
+
+  describe('first home buyers', () => {
+    it('are exempt below the threshold', () => {
+      const result = calculateTransferDuty({ state: 'NSW', price: 750000, firstHomeBuyer: true });
+
+      expect(result.transferDuty).toBe(0);
+      expect(result.concession).toBe(result.generalDuty);
+      expect(result.firstHomeBuyerOutcome).toBe('exempt');
+    });
+
+    it('phase into full duty across the concession band', () => {
+      const result = calculateTransferDuty({ state: 'NSW', price: 900000, firstHomeBuyer: true });
+
+      expect(result.transferDuty).toBeCloseTo(result.generalDuty / 2, 6);
+      expect(result.firstHomeBuyerOutcome).toBe('concession');
+    });
+
+    it('pay full duty above the concession band', () => {
+      const result = calculateTransferDuty({ state: 'NSW', price: 1100000, firstHomeBuyer: true });
+
+      expect(result.concession).toBe(0);
+      expect(result.firstHomeBuyerOutcome).toBe('none');
+    });
+
+    it('follow vacant land thresholds', () => {
+      const land = calculateTransferDuty({
+        state: 'NSW',
+        price: 400000,
+        propertyType: 'vacantLand',
+        firstHomeBuyer: true
+      });
+
+      expect(land.firstHomeBuyerOutcome).toBe('concession');
+    });
+
+    it('are exempt on new homes but not established homes in SA', () => {
+      const established = calculateTransferDuty({ state: 'SA', price: 650000, firstHomeBuyer: true });
+      const offThePlan = calculateTransferDuty({
+        state: 'SA',
+        price: 650000,
+        propertyType: 'offThePlan',
+        firstHomeBuyer: true
+      });
+
+      expect(established.transferDuty).toBeGreaterThan(0);
+      expect(offThePlan.transferDuty).toBe(0);
+    });
+
+    it('get no relief as foreign purchasers', () => {
+      const result = calculateTransferDuty({
+        state: 'NSW',
+        price: 750000,
+        firstHomeBuyer: true,
+        foreignPurchaser: true
+      });
+
+      expect(result.transferDuty).toBe(result.generalDuty);
+    });
+  });
+
+  it('assesses VIC off-the-plan purchases on the value at contract', () => {
+    const result = calculateTransferDuty({
+      state: 'VIC',
+      price: 800000,
+      propertyType: 'offThePlan',
+      offThePlanDutiableValue: 400000
+    });
+
+    expect(result.dutiableValue).toBe(400000);
+  });
+
+  it('adds the foreign purchaser surcharge', () => {
+    const result = calculateTransferDuty({ state: 'VIC', price: 800000, foreignPurchaser: true });
+
+    expect(result.foreignSurcharge).toBeCloseTo(64000, 6);
+  });
+
+  it('skips the mortgage registration fee for cash purchases', () => {
+    const result = calculateTransferDuty({ state: 'WA', price: 500000, withMortgage: false });
+
+    expect(result.mortgageRegistrationFee).toBe(0);
+  });
+});
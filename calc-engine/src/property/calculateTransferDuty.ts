@@ -0,0 +1,129 @@
+/**
+ * Transfer Duty Calculator
+ *
+ * Calculates the government charges on a residential purchase: transfer
+ * (stamp) duty on the state's general or owner-occupier scale, first home
+ * buyer exemptions and concessions, the foreign purchaser surcharge and the
+ * mortgage registration fee.
+ */
+
+import {
+  TRANSFER_DUTY_SCHEDULES,
+  type DutyBracket,
+  type DutyPropertyType,
+  type FirstHomeBuyerRule
+} from './transferDutyRates';
+import type { AustralianState } from './types';
+
+export interface TransferDutyInputs {
+  state: AustralianState;
+  price: number;
+  propertyType?: DutyPropertyType;     // Defaults to 'established'
+  ownerOccupier?: boolean;             // Defaults to true
+  firstHomeBuyer?: boolean;
+  foreignPurchaser?: boolean;
+  offThePlanDutiableValue?: number;    // Land plus construction at contract (VIC off-the-plan)
+  withMortgage?: boolean;              // Defaults to true; false skips the registration fee
+}
+
+export type FirstHomeBuyerOutcome = 'exempt' | 'concession' | 'none';
+
+export interface TransferDutyResult {
+  dutiableValue: number;
+  generalDuty: number;                 // Before first home buyer relief
+  concession: number;                  // First home buyer relief
+  transferDuty: number;                // generalDuty - concession
+  foreignSurcharge: number;
+  mortgageRegistrationFee: number;
+  totalGovernmentCharges: number;
+  firstHomeBuyerOutcome: FirstHomeBuyerOutcome;
+}
+
+/**
+ * Duty on a dutiable value under a scale
+ */
+function dutyOnScale(scale: DutyBracket[], dutiableValue: number): number {
+  let bracket = scale[0];
+  for (const candidate of scale) {
+    if (dutiableValue >= candidate.from) {
+      bracket = candidate;
+    }
+  }
+  if (bracket.formula) {
+    return bracket.formula(dutiableValue);
+  }
+  if (bracket.wholeValue) {
+    return (dutiableValue * bracket.rate) / 100;
+  }
+  return bracket.baseDuty + ((dutiableValue - bracket.from) * bracket.rate) / 100;
+}
+
+/**
+ * Share of the duty still payable under a first home buyer rule
+ */
+function payableShare(rule: FirstHomeBuyerRule, dutiableValue: number): number {
+  if (dutiableValue <= rule.exemptUpTo) return 0;
+  if (dutiableValue >= rule.concessionUpTo) return 1;
+  return (dutiableValue - rule.exemptUpTo) / (rule.concessionUpTo - rule.exemptUpTo);
+}
+
+/**
+ * Calculate transfer duty and related government charges on a purchase
+ *
+ * @param inputs - State, price and purchaser circumstances
+ * @returns Duty before and after concessions plus surcharges and fees
+ *
+ * @example
+ * calculateTransferDuty({ state: 'NSW', price: 900000, firstHomeBuyer: true })
+ * // generalDuty ≈ 35,029, transferDuty ≈ 17,515 (half way through the concession band)
+ */
+export function calculateTransferDuty(inputs: TransferDutyInputs): TransferDutyResult {
+  const {
+    state,
+    price,
+    propertyType = 'established',
+    ownerOccupier = true,
+    firstHomeBuyer = false,
+    foreignPurchaser = false,
+    offThePlanDutiableValue,
+    withMortgage = true
+  } = inputs;
+  const schedule = TRANSFER_DUTY_SCHEDULES[state];
+
+  const dutiableValue =
+    propertyType === 'offThePlan' && schedule.offThePlanReducedValue
+      ? Math.min(offThePlanDutiableValue ?? price, price)
+      : price;
+
+  const scale = ownerOccupier && schedule.ownerOccupier ? schedule.ownerOccupier : schedule.general;
+  const generalDuty = dutyOnScale(scale, dutiableValue);
+
+  // First home buyers must live in the home, and foreign purchasers don't qualify
+  const ruleKey = propertyType === 'offThePlan' ? 'newHome' : propertyType;
+  const rule =
+    firstHomeBuyer && ownerOccupier && !foreignPurchaser
+      ? schedule.firstHomeBuyer[ruleKey]
+      : undefined;
+
+  let transferDuty = generalDuty;
+  let firstHomeBuyerOutcome: FirstHomeBuyerOutcome = 'none';
+  if (rule) {
+    const share = payableShare(rule, dutiableValue);
+    transferDuty = generalDuty * share;
+    firstHomeBuyerOutcome = share === 0 ? 'exempt' : share < 1 ? 'concession' : 'none';
+  }
+
+  const foreignSurcharge = foreignPurchaser ? (dutiableValue * schedule.foreignSurcharge) / 100 : 0;
+  const mortgageRegistrationFee = withMortgage ? schedule.mortgageRegistrationFee : 0;
+
+  return {
+    dutiableValue,
+    generalDuty,
+    concession: generalDuty - transferDuty,
+    transferDuty,
+    foreignSurcharge,
+    mortgageRegistrationFee,
+    totalGovernmentCharges: transferDuty + foreignSurcharge + mortgageRegistrationFee,
+    firstHomeBuyerOutcome
+  };
+}
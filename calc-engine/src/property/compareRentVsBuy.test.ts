@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { compareRentVsBuy, type RentVsBuyInputs } from './compareRentVsBuy';
+
+const baseInputs: RentVsBuyInputs = {
+  purchasePrice: 800000,
+  deposit: 160000,
+  state: 'NSW',
+  purchaseCosts: 3000,
+  loan: {
+    annualRate: 6,
+    years: 30,
+    repaymentType: 'principalAndInterest',
+    repaymentStrategy: 'reduceTerm',
+    startDate: '2025-07-01'
+  },
+  ownershipCosts: 6000,
+  capitalGrowthRate: 5,
+  sellingCostRate: 2.5,
+  weeklyRent: 650,
+  rentGrowthRate: 3,
+  investmentReturn: 7,
+  years: 20
+};
+
+describe('compareRentVsBuy', () => {
+  it('gives the renter the buyer\'s upfront costs to invest', () => {
+    const result = compareRentVsBuy(baseInputs);
+    const [start] = result.points;
+
+    expect(result.upfrontCosts).toBeCloseTo(160000 + result.duty.totalGovernmentCharges + 3000, 6);
+    expect(start.renterWealth).toBeCloseTo(result.upfrontCosts, 6);
+    expect(start.loanBalance).toBe(640000);
+    expect(start.buyerWealth).toBeCloseTo(800000 * 0.975 - 640000, 6);
+  });
+
+  it('produces a wealth point for every year of the horizon', () => {
+    const result = compareRentVsBuy(baseInputs);
+
+    expect(result.points).toHaveLength(21);
+    expect(result.points[20].propertyValue).toBeCloseTo(800000 * Math.pow(1.05, 20), 4);
+    expect(result.finalBuyerWealth).toBe(result.points[20].buyerWealth);
+    expect(result.finalRenterWealth).toBe(result.points[20].renterWealth);
+  });
+
+  it('clamps the horizon to 10-30 years', () => {
+    expect(compareRentVsBuy({ ...baseInputs, years: 5 }).points).toHaveLength(11);
+    expect(compareRentVsBuy({ ...baseInputs, years: 40 }).points).toHaveLength(31);
+  });
+
+  it('invests the repayment difference for the renter', () => {
+    const result = compareRentVsBuy({ ...baseInputs, investmentReturn: 0, rentGrowthRate: 0 });
+    const [start, first] = result.points;
+    const rent = 650 * 52;
+    const ownerOutgoings = result.loan.schedule
+      .slice(0, 12)
+      .reduce((sum, row) => sum + row.interestCharged + row.principalPaid + row.feesApplied, 0) + 6000;
+
+    expect(first.renterWealth - start.renterWealth).toBeCloseTo(ownerOutgoings - rent, 4);
+    expect(first.buyerPortfolio).toBe(0);
+  });
+
+  it('lets the buyer invest when rent costs more than owning', () => {
+    const result = compareRentVsBuy({ ...baseInputs, weeklyRent: 1200 });
+
+    expect(result.points[1].buyerPortfolio).toBeGreaterThan(0);
+    expect(result.points[1].renterWealth).toBeLessThan(result.points[0].renterWealth * 1.08);
+  });
+
+  it('finds when buying pulls ahead', () => {
+    const result = compareRentVsBuy(baseInputs);
+
+    expect(result.better).toBe('buy');
+    expect(result.breakEvenYear).toBe(4);
+    expect(result.points[3].difference).toBeLessThan(0);
+    expect(result.points[4].difference).toBeGreaterThanOrEqual(0);
+  });
+
+  it('solves the capital growth rate that leaves both paths level', () => {
+    const { breakEvenGrowthRate } = compareRentVsBuy(baseInputs);
+    const level = compareRentVsBuy({ ...baseInputs, capitalGrowthRate: breakEvenGrowthRate! });
+
+    expect(breakEvenGrowthRate).toBeGreaterThan(0);
+    expect(breakEvenGrowthRate).toBeLessThan(5);
+    expect(Math.abs(level.finalBuyerWealth - level.finalRenterWealth)).toBeLessThan(500);
+  });
+
+  it('favours renting when prices stagnate', () => {
+    const result = compareRentVsBuy({ ...baseInputs, capitalGrowthRate: 0 });
+
+    expect(result.better).toBe('rent');
+    expect(result.breakEvenYear).toBeUndefined();
+  });
+});
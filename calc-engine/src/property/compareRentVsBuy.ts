@@ -0,0 +1,159 @@
+/**
+ * Rent vs Buy Comparison
+ *
+ * Follows two households with the same savings and the same monthly budget
+ * over a 10-30 year horizon. The buyer pays the deposit, transfer duty and
+ * purchase costs, then loan repayments and ownership costs while the
+ * property grows in value. The renter invests those upfront funds instead,
+ * pays rent, and invests whatever the buyer's outgoings exceed the rent by.
+ * When rent costs more than owning, the buyer invests the difference, so
+ * both paths always spend the same each month.
+ */
+
+import { generateAmortisation, type AmortisationResult, type LoanInputs } from '../index';
+import { bisect } from '../loan/goalSeek';
+import { calculateTransferDuty, type TransferDutyResult } from './calculateTransferDuty';
+import type { AustralianState } from './types';
+
+export interface RentVsBuyInputs {
+  purchasePrice: number;
+  deposit: number;                 // Cash toward the price; the rest is borrowed
+  state: AustralianState;
+  firstHomeBuyer?: boolean;
+  purchaseCosts?: number;          // Legal, inspections and other costs beyond duty
+  loan: Omit<LoanInputs, 'amount' | 'frequency'>;  // Repaid monthly
+  ownershipCosts: number;          // Annual council, insurance, strata and maintenance
+  capitalGrowthRate: number;       // % p.a.
+  sellingCostRate?: number;        // % of value deducted from the buyer's wealth, defaults to 0
+  weeklyRent: number;
+  rentGrowthRate?: number;         // % p.a., defaults to 0
+  costGrowthRate?: number;         // % p.a. growth in ownership costs, defaults to 0
+  investmentReturn: number;        // % p.a. after tax on invested savings
+  years: number;                   // Horizon, clamped to 10-30
+}
+
+export interface RentVsBuyPoint {
+  year: number;                    // 0 is settlement day
+  propertyValue: number;
+  loanBalance: number;
+  buyerPortfolio: number;          // Buyer's savings invested when rent would have cost more
+  buyerWealth: number;             // Equity after selling costs plus portfolio
+  renterWealth: number;
+  difference: number;              // Buyer minus renter
+}
+
+export interface RentVsBuyResult {
+  points: RentVsBuyPoint[];
+  duty: TransferDutyResult;
+  loan: AmortisationResult;
+  upfrontCosts: number;            // Deposit, duty, registration, purchase costs and loan fee
+  finalBuyerWealth: number;
+  finalRenterWealth: number;
+  better: 'buy' | 'rent';
+  breakEvenYear?: number;          // First year buying is ahead, undefined if never
+  breakEvenGrowthRate?: number;    // Capital growth (% p.a.) where both paths finish level
+}
+
+const MIN_YEARS = 10;
+const MAX_YEARS = 30;
+
+/** Bounds for the break-even growth search, % p.a. */
+const MIN_GROWTH_RATE = -10;
+const MAX_GROWTH_RATE = 30;
+
+/**
+ * Compare the long-run wealth of buying a home against renting and investing
+ *
+ * @param inputs - Purchase, loan, rent and growth assumptions
+ * @returns Yearly wealth for both paths and the break-even capital growth rate
+ *
+ * @example
+ * compareRentVsBuy({
+ *   purchasePrice: 800000, deposit: 160000, state: 'NSW', purchaseCosts: 3000,
+ *   loan: { annualRate: 6, years: 30, repaymentType: 'principalAndInterest', repaymentStrategy: 'reduceTerm', startDate: '2025-07-01' },
+ *   ownershipCosts: 6000, capitalGrowthRate: 5, sellingCostRate: 2.5,
+ *   weeklyRent: 650, rentGrowthRate: 3, investmentReturn: 7, years: 20
+ * })
+ * // better 'buy', breakEvenYear 4, breakEvenGrowthRate 3.31
+ */
+export function compareRentVsBuy(inputs: RentVsBuyInputs): RentVsBuyResult {
+  const years = Math.min(Math.max(Math.round(inputs.years), MIN_YEARS), MAX_YEARS);
+  const months = years * 12;
+  const rentGrowth = (inputs.rentGrowthRate ?? 0) / 100;
+  const costGrowth = (inputs.costGrowthRate ?? 0) / 100;
+  const sellingCostRate = (inputs.sellingCostRate ?? 0) / 100;
+  const monthlyReturn = Math.pow(1 + inputs.investmentReturn / 100, 1 / 12) - 1;
+
+  const duty = calculateTransferDuty({
+    state: inputs.state,
+    price: inputs.purchasePrice,
+    firstHomeBuyer: inputs.firstHomeBuyer
+  });
+  const loan = generateAmortisation({
+    ...inputs.loan,
+    amount: Math.max(inputs.purchasePrice - inputs.deposit, 0),
+    frequency: 'monthly'
+  });
+  const upfrontCosts =
+    inputs.deposit +
+    duty.totalGovernmentCharges +
+    (inputs.purchaseCosts ?? 0) +
+    (inputs.loan.fees?.upfrontFee ?? 0);
+
+  // Cash flows don't depend on capital growth, so both portfolios are built once
+  const buyerPortfolios = [0];
+  const renterPortfolios = [upfrontCosts];
+  for (let month = 0; month < months; month++) {
+    const yearIndex = Math.floor(month / 12);
+    const row = loan.schedule[month];
+    const repayment = row ? row.interestCharged + row.principalPaid + row.feesApplied : 0;
+    const ownership = (inputs.ownershipCosts * Math.pow(1 + costGrowth, yearIndex)) / 12;
+    const rent = (inputs.weeklyRent * 52 * Math.pow(1 + rentGrowth, yearIndex)) / 12;
+    const ownerOutgoings = repayment + ownership;
+
+    buyerPortfolios.push(buyerPortfolios[month] * (1 + monthlyReturn) + Math.max(rent - ownerOutgoings, 0));
+    renterPortfolios.push(renterPortfolios[month] * (1 + monthlyReturn) + Math.max(ownerOutgoings - rent, 0));
+  }
+
+  const loanBalanceAt = (month: number) =>
+    month === 0
+      ? loan.schedule[0]?.openingBalance ?? 0
+      : loan.schedule[Math.min(month, loan.schedule.length) - 1]?.closingBalance ?? 0;
+
+  const buyerWealthAt = (month: number, growthRate: number) => {
+    const propertyValue = inputs.purchasePrice * Math.pow(1 + growthRate / 100, month / 12);
+    return propertyValue * (1 - sellingCostRate) - loanBalanceAt(month) + buyerPortfolios[month];
+  };
+
+  const points: RentVsBuyPoint[] = Array.from({ length: years + 1 }, (_, year) => {
+    const month = year * 12;
+    const buyerWealth = buyerWealthAt(month, inputs.capitalGrowthRate);
+    return {
+      year,
+      propertyValue: inputs.purchasePrice * Math.pow(1 + inputs.capitalGrowthRate / 100, year),
+      loanBalance: loanBalanceAt(month),
+      buyerPortfolio: buyerPortfolios[month],
+      buyerWealth,
+      renterWealth: renterPortfolios[month],
+      difference: buyerWealth - renterPortfolios[month]
+    };
+  });
+
+  const final = points[points.length - 1];
+  const buyerAheadAt = (growthRate: number) => buyerWealthAt(months, growthRate) >= renterPortfolios[months];
+  const breakEvenGrowthRate = buyerAheadAt(MAX_GROWTH_RATE)
+    ? bisect(MIN_GROWTH_RATE, MAX_GROWTH_RATE, buyerAheadAt, 0.0001)
+    : undefined;
+
+  return {
+    points,
+    duty,
+    loan,
+    upfrontCosts,
+    finalBuyerWealth: final.buyerWealth,
+    finalRenterWealth: final.renterWealth,
+    better: final.difference >= 0 ? 'buy' : 'rent',
+    breakEvenYear: points.find((point) => point.year > 0 && point.difference >= 0)?.year,
+    breakEvenGrowthRate
+  };
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { estimateLMI } from './estimateLMI';
+
+describe('estimateLMI', () => {
+  it('is not required at or below 80% LVR', () => {
+    const result = estimateLMI({ propertyValue: 800000, loanAmount: 640000, state: 'VIC' });
+
+    expect(result.lvr).toBe(80);
+    expect(result.required).toBe(false);
+    expect(result.premium).toBe(0);
+    expect(result.totalLoanAmount).toBe(640000);
+  });
+
+  it('prices the premium by LVR band and loan size with state stamp duty', () => {
+    const result = estimateLMI({ propertyValue: 700000, loanAmount: 630000, state: 'NSW' });
+
+    expect(result.lvr).toBe(90);
+    expect(result.premiumRate).toBe(2.39);
+    expect(result.premium).toBeCloseTo(15057, 6);
+    expect(result.stampDuty).toBeCloseTo(1355.13, 6);
+    expect(result.upfrontCost).toBeCloseTo(16412.13, 6);
+    expect(result.totalLoanAmount).toBe(630000);
+  });
+
+  it('capitalises the premium into the loan', () => {
+    const result = estimateLMI({
+      propertyValue: 700000,
+      loanAmount: 630000,
+      state: 'NSW',
+      capitalise: true
+    });
+
+    expect(result.totalLoanAmount).toBeCloseTo(646412.13, 6);
+    expect(result.effectiveLvr).toBeCloseTo(92.34, 2);
+    expect(result.upfrontCost).toBe(0);
+  });
+
+  it('charges no duty on the premium in the ACT', () => {
+    const result = estimateLMI({ propertyValue: 500000, loanAmount: 450000, state: 'ACT' });
+
+    expect(result.premium).toBeGreaterThan(0);
+    expect(result.stampDuty).toBe(0);
+  });
+
+  it('flags loans beyond the premium table as not insurable', () => {
+    expect(estimateLMI({ propertyValue: 500000, loanAmount: 490000, state: 'QLD' }).insurable).toBe(false);
+    expect(estimateLMI({ propertyValue: 2000000, loanAmount: 1800000, state: 'QLD' }).insurable).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Lenders Mortgage Insurance Estimator
+ *
+ * Estimates the LMI premium on a loan above 80% LVR from a premium table
+ * banded by LVR and loan size, adds state stamp duty on the premium, and
+ * optionally capitalises the total into the loan.
+ *
+ * The premium is priced on the base loan. Pass `totalLoanAmount` as the
+ * `amount` to generateAmortisation to model repayments on a capitalised
+ * premium.
+ */
+
+import { DEFAULT_LMI_PREMIUM_TABLE, LMI_STAMP_DUTY_RATES, type LMIPremiumTable } from './lmiPremiumRates';
+import type { AustralianState } from './types';
+
+/** LVR (%) above which lenders require LMI */
+export const LMI_LVR_THRESHOLD = 80;
+
+export interface LMIInputs {
+  propertyValue: number;
+  loanAmount: number;              // Before any capitalised premium
+  state: AustralianState;
+  capitalise?: boolean;            // Add the premium and its duty to the loan
+  premiumTable?: LMIPremiumTable;  // Defaults to DEFAULT_LMI_PREMIUM_TABLE
+}
+
+export interface LMIResult {
+  lvr: number;                     // Base loan over property value (%)
+  required: boolean;               // LVR above 80%
+  insurable: boolean;              // Within the table's LVR and loan size limits
+  premiumRate: number;             // % of the base loan
+  premium: number;
+  stampDuty: number;
+  totalPremium: number;            // Premium plus stamp duty
+  capitalised: boolean;
+  totalLoanAmount: number;         // Base loan plus any capitalised premium
+  effectiveLvr: number;            // Total loan over property value (%)
+  upfrontCost: number;             // Premium paid in cash when not capitalised
+}
+
+/**
+ * Estimate LMI for a loan and property value
+ *
+ * @param inputs - Property value, base loan, state and capitalisation choice
+ * @returns Premium, stamp duty and the resulting total loan and LVR
+ *
+ * @example
+ * estimateLMI({ propertyValue: 700000, loanAmount: 630000, state: 'NSW', capitalise: true })
+ * // lvr 90, premium ≈ 15,057, stampDuty ≈ 1,355, totalLoanAmount ≈ 646,412
+ */
+export function estimateLMI(inputs: LMIInputs): LMIResult {
+  const {
+    propertyValue,
+    loanAmount,
+    state,
+    capitalise = false,
+    premiumTable = DEFAULT_LMI_PREMIUM_TABLE
+  } = inputs;
+
+  // Round away floating point noise so 90.000000001% stays in the 90% band
+  const lvr = propertyValue > 0 ? Math.round((loanAmount / propertyValue) * 1e6) / 1e4 : 0;
+  const required = lvr > LMI_LVR_THRESHOLD;
+
+  const band = premiumTable.bands.find((entry) => lvr <= entry.maxLvr);
+  const sizeIndex = premiumTable.loanSizeLimits.findIndex((limit) => loanAmount <= limit);
+  const insurable = !required || (band !== undefined && sizeIndex >= 0);
+
+  const premiumRate = required && band && sizeIndex >= 0 ? band.rates[sizeIndex] : 0;
+  const premium = (loanAmount * premiumRate) / 100;
+  const stampDuty = (premium * LMI_STAMP_DUTY_RATES[state]) / 100;
+  const totalPremium = premium + stampDuty;
+
+  const totalLoanAmount = capitalise ? loanAmount + totalPremium : loanAmount;
+
+  return {
+    lvr,
+    required,
+    insurable,
+    premiumRate,
+    premium,
+    stampDuty,
+    totalPremium,
+    capitalised: capitalise,
+    totalLoanAmount,
+    effectiveLvr: propertyValue > 0 ? (totalLoanAmount / propertyValue) * 100 : 0,
+    upfrontCost: capitalise ? 0 : totalPremium
+  };
+}
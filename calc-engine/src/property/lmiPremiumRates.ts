@@ -0,0 +1,56 @@
+/**
+ * Lenders Mortgage Insurance Premium Data
+ *
+ * Indicative single-premium LMI rates for owner-occupied loans, expressed as
+ * a percentage of the loan amount. Insurers publish their own tables and
+ * vary them by lender, so treat these as a planning estimate and pass a
+ * lender's table to estimateLMI where one is available.
+ *
+ * Stamp duty on the premium is the general insurance duty rate in each state
+ * (ACT abolished insurance duty in 2016).
+ */
+
+import type { AustralianState } from './types';
+
+/**
+ * Premium rates for one LVR band
+ */
+export interface LMIPremiumBand {
+  /** Highest LVR (%) in the band */
+  maxLvr: number;
+  /** Premium rate (% of loan) for each loan size limit, in order */
+  rates: number[];
+}
+
+export interface LMIPremiumTable {
+  /** Upper loan amount of each loan size column, ascending */
+  loanSizeLimits: number[];
+  /** LVR bands above 80%, ascending */
+  bands: LMIPremiumBand[];
+}
+
+export const DEFAULT_LMI_PREMIUM_TABLE: LMIPremiumTable = {
+  loanSizeLimits: [300000, 500000, 600000, 750000, 1000000, 1500000],
+  bands: [
+    { maxLvr: 82, rates: [0.47, 0.57, 0.65, 0.75, 0.92, 1.1] },
+    { maxLvr: 84, rates: [0.64, 0.77, 0.88, 1.0, 1.2, 1.43] },
+    { maxLvr: 86, rates: [0.85, 1.05, 1.22, 1.37, 1.59, 1.84] },
+    { maxLvr: 88, rates: [1.11, 1.35, 1.6, 1.81, 2.06, 2.36] },
+    { maxLvr: 90, rates: [1.44, 1.81, 2.13, 2.39, 2.7, 3.05] },
+    { maxLvr: 92, rates: [2.09, 2.54, 2.89, 3.24, 3.59, 3.96] },
+    { maxLvr: 94, rates: [2.71, 3.26, 3.6, 3.95, 4.25, 4.62] },
+    { maxLvr: 95, rates: [3.13, 3.65, 3.98, 4.3, 4.63, 5.0] }
+  ]
+};
+
+/** Stamp duty on the LMI premium (% of premium) by state */
+export const LMI_STAMP_DUTY_RATES: Record<AustralianState, number> = {
+  NSW: 9,
+  VIC: 10,
+  QLD: 9,
+  WA: 10,
+  SA: 11,
+  TAS: 10,
+  ACT: 0,
+  NT: 10
+};
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { calculatePaySummary } from '../pay/calculatePaySummary';
+import { planDepositSavings, type DepositSavingsInputs } from './planDepositSavings';
+
+const baseInputs: DepositSavingsInputs = {
+  pay: {
+    taxYear: '2025-26',
+    annualSalary: 110000,
+    frequency: 'monthly',
+    hasHELP: false,
+    medicareExempt: false,
+    deductions: 0,
+    includeSuper: false,
+    superRate: 0.12
+  },
+  savingsRate: 30,
+  currentSavings: 40000,
+  savingsInterestRate: 4.5,
+  targetPrice: 700000,
+  depositPercent: 0.2,
+  state: 'NSW',
+  startDate: '2025-07-01'
+};
+
+describe('planDepositSavings', () => {
+  it('saves a share of net pay from calculatePaySummary', () => {
+    const result = planDepositSavings(baseInputs);
+    const net = calculatePaySummary(baseInputs.pay).annual.net;
+
+    expect(result.monthlyNetPay).toBeCloseTo(net / 12, 6);
+    expect(result.monthlySavings).toBeCloseTo((net / 12) * 0.3, 6);
+  });
+
+  it('prefers a fixed monthly budget over the savings rate', () => {
+    const result = planDepositSavings({ ...baseInputs, monthlySavings: 1500 });
+
+    expect(result.monthlySavings).toBe(1500);
+    expect(result.months[0].contribution).toBe(1500);
+  });
+
+  it('prices the goal from the deposit and transfer duty', () => {
+    const { goalToday } = planDepositSavings({ ...baseInputs, purchaseCosts: 3000 });
+
+    expect(goalToday.deposit).toBe(140000);
+    expect(goalToday.transferDuty).toBeGreaterThan(0);
+    expect(goalToday.lmi).toBe(0);
+    expect(goalToday.total).toBeCloseTo(140000 + goalToday.transferDuty + 3000, 6);
+    expect(planDepositSavings({ ...baseInputs, includeStampDuty: false }).goalToday.transferDuty).toBe(0);
+  });
+
+  it('adds LMI to the goal unless it is capitalised', () => {
+    const cash = planDepositSavings({ ...baseInputs, depositPercent: 0.1 });
+    const capitalised = planDepositSavings({ ...baseInputs, depositPercent: 0.1, capitaliseLmi: true });
+
+    expect(cash.goalToday.lmi).toBeGreaterThan(0);
+    expect(capitalised.goalToday.lmi).toBe(0);
+    expect(capitalised.monthsToGoal!).toBeLessThan(cash.monthsToGoal!);
+  });
+
+  it('compounds interest monthly and stops at the month the goal is reached', () => {
+    const result = planDepositSavings(baseInputs);
+    const [first] = result.months;
+    const last = result.months[result.months.length - 1];
+
+    expect(first.interestEarned).toBeCloseTo(40000 * 0.045 / 12, 6);
+    expect(first.savings).toBeCloseTo(40000 + first.interestEarned + result.monthlySavings, 6);
+    expect(result.reached).toBe(true);
+    expect(last.month).toBe(result.monthsToGoal);
+    expect(last.gap).toBe(0);
+    expect(result.months[result.months.length - 2].gap).toBeGreaterThan(0);
+    expect(result.goalDate).toBe(last.date);
+  });
+
+  it('shows how a rising price pushes the date out', () => {
+    const result = planDepositSavings({ ...baseInputs, priceGrowthRate: 6 });
+    const flat = planDepositSavings(baseInputs);
+
+    expect(result.monthsToGoalAtTodaysPrice).toBe(flat.monthsToGoal);
+    expect(result.monthsToGoal!).toBeGreaterThan(flat.monthsToGoal!);
+    expect(result.priceGrowthDelay).toBe(result.monthsToGoal! - flat.monthsToGoal!);
+    expect(result.goalAtPurchase.purchasePrice).toBeGreaterThan(700000);
+  });
+
+  it('reports a goal already met', () => {
+    const result = planDepositSavings({ ...baseInputs, currentSavings: 250000 });
+
+    expect(result.monthsToGoal).toBe(0);
+    expect(result.months).toHaveLength(0);
+    expect(result.priceGrowthDelay).toBe(0);
+  });
+
+  it('flags a goal that savings never catch', () => {
+    const result = planDepositSavings({ ...baseInputs, savingsRate: 0, savingsInterestRate: 0, priceGrowthRate: 5 });
+
+    expect(result.reached).toBe(false);
+    expect(result.monthsToGoal).toBeUndefined();
+    expect(result.priceGrowthDelay).toBeUndefined();
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Deposit Savings Planner
+ *
+ * Answers "when can I buy?". Monthly savings come from net pay (via
+ * calculatePaySummary) as either a share of pay or a fixed budget, and earn
+ * interest each month. The goal is the deposit plus transfer duty, purchase
+ * costs and any LMI paid in cash, re-priced every month as the target price
+ * grows. Running the same plan with a flat price shows how much a rising
+ * market pushes the date out.
+ */
+
+import { calculatePaySummary } from '../pay/calculatePaySummary';
+import type { PayCalculateRequest } from '../pay/types';
+import { calculateTransferDuty } from './calculateTransferDuty';
+import { estimateLMI } from './estimateLMI';
+import type { LMIPremiumTable } from './lmiPremiumRates';
+import type { AustralianState } from './types';
+
+export interface DepositSavingsInputs {
+  pay: PayCalculateRequest;
+  savingsRate?: number;            // % of net pay saved, used when monthlySavings is not set
+  monthlySavings?: number;         // Fixed monthly budget
+  currentSavings: number;
+  savingsInterestRate: number;     // % p.a., compounded monthly
+  targetPrice: number;             // Today's price
+  priceGrowthRate?: number;        // % p.a., defaults to 0
+  depositPercent: number;          // Fraction of the price, e.g. 0.2, or 0.05-0.1 with LMI
+  state: AustralianState;
+  firstHomeBuyer?: boolean;
+  includeStampDuty?: boolean;      // Defaults to true
+  capitaliseLmi?: boolean;         // Otherwise LMI is saved for in cash
+  purchaseCosts?: number;          // Legal, inspections and loan fees, in today's dollars
+  premiumTable?: LMIPremiumTable;
+  startDate: string;
+}
+
+export interface DepositGoal {
+  purchasePrice: number;
+  deposit: number;
+  transferDuty: number;            // Including mortgage registration
+  lmi: number;                     // LMI paid in cash
+  purchaseCosts: number;
+  total: number;
+}
+
+export interface DepositSavingsMonth {
+  month: number;                   // 1-based
+  date: string;
+  contribution: number;
+  interestEarned: number;
+  savings: number;                 // Balance at month end
+  goal: number;                    // Total needed at this month's price
+  gap: number;                     // Goal minus savings, zero once reached
+}
+
+export interface DepositSavingsResult {
+  monthlyNetPay: number;
+  monthlySavings: number;
+  goalToday: DepositGoal;
+  goalAtPurchase: DepositGoal;     // At the price when the goal is reached, or at the last month
+  months: DepositSavingsMonth[];
+  reached: boolean;
+  monthsToGoal?: number;
+  goalDate?: string;
+  monthsToGoalAtTodaysPrice?: number;
+  priceGrowthDelay?: number;       // Months added by the rising price
+}
+
+/** Longest projection, so goals out of reach still end */
+const MAX_MONTHS = 600;
+
+function addMonths(startDate: string, months: number): Date {
+  const date = new Date(startDate);
+  date.setMonth(date.getMonth() + months);
+  return date;
+}
+
+function depositGoal(inputs: DepositSavingsInputs, purchasePrice: number, costIndex: number): DepositGoal {
+  const deposit = purchasePrice * inputs.depositPercent;
+  const duty =
+    inputs.includeStampDuty ?? true
+      ? calculateTransferDuty({ state: inputs.state, price: purchasePrice, firstHomeBuyer: inputs.firstHomeBuyer })
+      : undefined;
+  const lmi = estimateLMI({
+    propertyValue: purchasePrice,
+    loanAmount: Math.max(purchasePrice - deposit, 0),
+    state: inputs.state,
+    capitalise: inputs.capitaliseLmi,
+    premiumTable: inputs.premiumTable
+  });
+  const transferDuty = duty ? duty.transferDuty + duty.foreignSurcharge + duty.mortgageRegistrationFee : 0;
+  const purchaseCosts = (inputs.purchaseCosts ?? 0) * costIndex;
+
+  return {
+    purchasePrice,
+    deposit,
+    transferDuty,
+    lmi: lmi.upfrontCost,
+    purchaseCosts,
+    total: deposit + transferDuty + lmi.upfrontCost + purchaseCosts
+  };
+}
+
+function project(
+  inputs: DepositSavingsInputs,
+  monthlySavings: number,
+  priceGrowthRate: number
+): { months: DepositSavingsMonth[]; goal: DepositGoal; reachedMonth?: number } {
+  const monthlyRate = inputs.savingsInterestRate / 100 / 12;
+  const months: DepositSavingsMonth[] = [];
+  let savings = Math.max(inputs.currentSavings, 0);
+  let goal = depositGoal(inputs, inputs.targetPrice, 1);
+
+  if (savings >= goal.total) {
+    return { months, goal, reachedMonth: 0 };
+  }
+
+  for (let month = 1; month <= MAX_MONTHS; month++) {
+    const priceIndex = Math.pow(1 + priceGrowthRate / 100, month / 12);
+    goal = depositGoal(inputs, inputs.targetPrice * priceIndex, priceIndex);
+    const interestEarned = savings * monthlyRate;
+    savings += interestEarned + monthlySavings;
+
+    months.push({
+      month,
+      date: addMonths(inputs.startDate, month).toISOString(),
+      contribution: monthlySavings,
+      interestEarned,
+      savings,
+      goal: goal.total,
+      gap: Math.max(goal.total - savings, 0)
+    });
+    if (savings >= goal.total) {
+      return { months, goal, reachedMonth: month };
+    }
+  }
+
+  return { months, goal };
+}
+
+/**
+ * Project when savings from net pay cover a deposit and purchase costs
+ *
+ * @param inputs - Pay details, savings plan, target price and deposit options
+ * @returns Month-by-month savings against the goal and the month it is reached
+ *
+ * @example
+ * planDepositSavings({
+ *   pay: {
+ *     taxYear: '2025-26', annualSalary: 110000, frequency: 'monthly',
+ *     hasHELP: false, medicareExempt: false, deductions: 0, includeSuper: false, superRate: 0.12
+ *   },
+ *   savingsRate: 30, currentSavings: 40000, savingsInterestRate: 4.5,
+ *   targetPrice: 700000, priceGrowthRate: 5, depositPercent: 0.1,
+ *   state: 'VIC', firstHomeBuyer: true, capitaliseLmi: true, startDate: '2025-07-01'
+ * })
+ * // monthlySavings 2,100, monthsToGoal 36, monthsToGoalAtTodaysPrice 24
+ */
+export function planDepositSavings(inputs: DepositSavingsInputs): DepositSavingsResult {
+  const netPay = calculatePaySummary(inputs.pay).annual.net;
+  const monthlyNetPay = netPay / 12;
+  const monthlySavings = Math.max(
+    inputs.monthlySavings ?? (monthlyNetPay * (inputs.savingsRate ?? 0)) / 100,
+    0
+  );
+  const priceGrowthRate = inputs.priceGrowthRate ?? 0;
+
+  const projection = project(inputs, monthlySavings, priceGrowthRate);
+  const { reachedMonth } = projection;
+  const atTodaysPrice =
+    priceGrowthRate === 0 ? reachedMonth : project(inputs, monthlySavings, 0).reachedMonth;
+
+  return {
+    monthlyNetPay,
+    monthlySavings,
+    goalToday: depositGoal(inputs, inputs.targetPrice, 1),
+    goalAtPurchase: projection.goal,
+    months: projection.months,
+    reached: reachedMonth !== undefined,
+    monthsToGoal: reachedMonth,
+    goalDate: reachedMonth !== undefined ? addMonths(inputs.startDate, reachedMonth).toISOString() : undefined,
+    monthsToGoalAtTodaysPrice: atTodaysPrice,
+    priceGrowthDelay:
+      reachedMonth !== undefined && atTodaysPrice !== undefined ? reachedMonth - atTodaysPrice : undefined
+  };
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { estimateBorrowingCapacity } from '../index';
+import { planNextPurchase, type NextPurchaseInputs } from './planNextPurchase';
+
+const baseInputs: NextPurchaseInputs = {
+  existingLoan: {
+    amount: 550000,
+    annualRate: 6,
+    years: 30,
+    repaymentType: 'principalAndInterest',
+    repaymentStrategy: 'reduceTerm',
+    startDate: '2025-07-01'
+  },
+  existingProperty: { startValue: 750000, growthRate: 6 },
+  capacity: {
+    incomes: [{ amountAnnual: 220000, shadingFactor: 1 }],
+    livingExpensesMonthly: 4500,
+    dependants: 0,
+    creditCardLimits: 0,
+    personalLoans: [],
+    carLoans: [],
+    hasHECS: false,
+    baseRate: 6,
+    bufferRate: 3,
+    termYears: 30,
+    repaymentType: 'principalAndInterest'
+  },
+  goal: 'secondProperty',
+  targetPrice: 600000,
+  priceGrowthRate: 4,
+  state: 'QLD',
+  purchaseCosts: 3000,
+  weeklyRent: 550
+};
+
+describe('planNextPurchase', () => {
+  it('waits until equity up to 80% LVR covers the deposit and costs', () => {
+    const result = planNextPurchase(baseInputs);
+    const month = result.months[result.monthsToPurchase!];
+
+    expect(result.feasible).toBe(true);
+    expect(result.monthsToPurchase).toBeGreaterThan(0);
+    expect(result.months[0].equityOk).toBe(false);
+    expect(month.usableEquity).toBeCloseTo(month.propertyValue * 0.8 - month.loanBalance, 6);
+    expect(month.usableEquity).toBeGreaterThanOrEqual(month.fundsRequired);
+    expect(result.equityRelease).toBeCloseTo(month.fundsRequired, 6);
+  });
+
+  it('prices the purchase at the grown target price', () => {
+    const result = planNextPurchase(baseInputs);
+
+    expect(result.purchasePrice).toBeCloseTo(600000 * Math.pow(1.04, result.monthsToPurchase! / 12), 6);
+    expect(result.purchaseDate).toBe(result.months[result.monthsToPurchase!].date);
+  });
+
+  it('splits a standalone structure into a top-up and a new loan at 80%', () => {
+    const result = planNextPurchase(baseInputs);
+    const [existing, added] = result.loans;
+    const month = result.months[result.monthsToPurchase!];
+
+    expect(existing.security).toBe('existing');
+    expect(existing.amount).toBeCloseTo(month.loanBalance + result.equityRelease!, 6);
+    expect(existing.lvr).toBeLessThanOrEqual(80);
+    expect(added.security).toBe('new');
+    expect(added.lvr).toBeCloseTo(80, 6);
+    expect(result.totalDebt).toBeCloseTo(existing.amount + added.amount, 6);
+  });
+
+  it('counts the topped-up home loan as a liability when servicing the new loan', () => {
+    const result = planNextPurchase(baseInputs);
+    const month = result.months[result.monthsToPurchase!];
+    const withoutHomeLoan = estimateBorrowingCapacity({
+      ...baseInputs.capacity,
+      incomes: [...baseInputs.capacity.incomes, { amountAnnual: 550 * 52, shadingFactor: 0.8 }]
+    }).maxBorrowing;
+
+    expect(month.assessedBorrowing).toBeCloseTo(result.loans[1].amount, 6);
+    expect(month.maxBorrowing).toBeLessThan(withoutHomeLoan);
+  });
+
+  it('assesses a cross-collateralised loan over both properties as one debt', () => {
+    const standalone = planNextPurchase(baseInputs);
+    const result = planNextPurchase({ ...baseInputs, structure: 'crossCollateral' });
+    const month = result.months[result.monthsToPurchase!];
+
+    expect(result.loans).toHaveLength(1);
+    expect(result.loans[0].security).toBe('both');
+    expect(result.loans[0].lvr).toBeCloseTo((month.totalDebt / (month.propertyValue + month.targetPrice)) * 100, 6);
+    expect(month.assessedBorrowing).toBeCloseTo(month.totalDebt, 6);
+    expect(result.totalDebt).toBeCloseTo(standalone.totalDebt!, 6);
+  });
+
+  it('funds an upgrade from the net sale proceeds of the home', () => {
+    const result = planNextPurchase({ ...baseInputs, goal: 'upgrade', targetPrice: 1200000, sellingCostRate: 2.5 });
+    const month = result.months[result.monthsToPurchase!];
+
+    expect(result.feasible).toBe(true);
+    expect(result.equityRelease).toBeUndefined();
+    expect(month.usableEquity).toBeCloseTo(month.propertyValue * 0.975 - month.loanBalance, 6);
+    expect(result.loans).toHaveLength(1);
+    expect(result.loans[0].amount).toBeCloseTo(month.targetPrice + month.purchaseCosts - month.usableEquity, 6);
+    expect(result.loans[0].lvr).toBeLessThanOrEqual(80);
+  });
+
+  it('buys today when cash savings already cover the deposit', () => {
+    const result = planNextPurchase({ ...baseInputs, cashSavings: 100000 });
+
+    expect(result.monthsToPurchase).toBe(0);
+    expect(result.maxPriceToday).toBeGreaterThanOrEqual(600000);
+  });
+
+  it('reports serviceability as the limit when income never supports the debt', () => {
+    const result = planNextPurchase({
+      ...baseInputs,
+      capacity: { ...baseInputs.capacity, incomes: [{ amountAnnual: 120000, shadingFactor: 1 }] }
+    });
+
+    expect(result.feasible).toBe(false);
+    expect(result.loans).toEqual([]);
+    expect(result.months).toHaveLength(121);
+    expect(result.limitingFactor).toBe('serviceability');
+  });
+});
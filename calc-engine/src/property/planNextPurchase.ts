@@ -0,0 +1,303 @@
+/**
+ * Next Purchase Planner
+ *
+ * Finds the earliest month an established owner can buy again, using the
+ * equity in their home as the deposit. The home's value follows a property
+ * value track while generateAmortisation pays the loan down, so usable
+ * equity (up to 80% LVR) grows on both sides. A second property is funded
+ * by releasing that equity either as a standalone top-up on the home plus a
+ * new loan on the purchase, or as one cross-collateralised loan over both;
+ * an upgrade sells the home and puts the net proceeds in. Each month the
+ * purchase must pass two tests: the equity covers the deposit and costs, and
+ * estimateBorrowingCapacity services the new debt with every home loan kept
+ * counted as a liability.
+ */
+
+import {
+  estimateBorrowingCapacity,
+  generateAmortisation,
+  projectPropertyValue,
+  type AmortisationResult,
+  type BorrowingCapacityInputs,
+  type IncomeInput,
+  type LoanInputs,
+  type PropertyValueTrack
+} from '../index';
+import { bisect } from '../loan/goalSeek';
+import { calculateTransferDuty } from './calculateTransferDuty';
+import type { AustralianState } from './types';
+
+export type NextPurchaseGoal = 'secondProperty' | 'upgrade';
+
+export type NextPurchaseStructure = 'standalone' | 'crossCollateral';
+
+export interface NextPurchaseInputs {
+  existingLoan: Omit<LoanInputs, 'frequency' | 'propertyValue'>;  // Repaid monthly
+  existingProperty: PropertyValueTrack;
+  capacity: Omit<BorrowingCapacityInputs, 'homeLoans' | 'depositPercent' | 'lmi'>;  // Household as it is today
+  goal: NextPurchaseGoal;
+  structure?: NextPurchaseStructure;  // Second property only, defaults to 'standalone'
+  targetPrice: number;             // Today's price
+  priceGrowthRate?: number;        // % p.a., defaults to 0
+  state: AustralianState;
+  purchaseCosts?: number;          // Legal, inspections and loan fees beyond duty
+  cashSavings?: number;            // Cash put toward the purchase
+  maxLvr?: number;                 // %, defaults to 80
+  sellingCostRate?: number;        // % of the home's value, upgrade only
+  weeklyRent?: number;             // Second property rent, counted as shaded income
+  rentShadingFactor?: number;      // Defaults to 0.8
+  searchYears?: number;            // Defaults to 10
+}
+
+export interface NextPurchaseMonth {
+  month: number;                   // 0 is today
+  date: string;
+  propertyValue: number;           // Existing home
+  loanBalance: number;             // Existing loan
+  usableEquity: number;            // Up to maxLvr, or net sale proceeds for an upgrade
+  targetPrice: number;
+  purchaseCosts: number;           // Duty, registration and purchase costs
+  fundsRequired: number;           // Deposit plus purchase costs
+  totalDebt: number;               // Every home loan after the purchase
+  assessedBorrowing: number;       // Debt that has to pass serviceability
+  maxBorrowing: number;
+  equityOk: boolean;
+  serviceable: boolean;
+}
+
+export interface NextPurchaseLoan {
+  security: 'existing' | 'new' | 'both';
+  amount: number;
+  lvr: number;                     // % of the property (or properties) securing it
+  monthlyRepayment: number;        // P&I at the base rate
+}
+
+export interface NextPurchaseResult {
+  existingLoan: AmortisationResult;
+  months: NextPurchaseMonth[];
+  feasible: boolean;
+  monthsToPurchase?: number;       // 0 when the purchase works today
+  purchaseDate?: string;
+  purchasePrice?: number;          // Target price grown to the purchase date
+  equityRelease?: number;          // Equity drawn from the home, second property only
+  loans: NextPurchaseLoan[];       // Structure at the purchase date
+  totalDebt?: number;
+  maxPriceToday: number;           // Highest price that passes both tests today
+  limitingFactor?: 'equity' | 'serviceability' | 'both';  // What blocks the last month searched
+}
+
+const DEFAULT_MAX_LVR = 80;
+const DEFAULT_RENT_SHADING = 0.8;
+
+function addMonths(startDate: string, months: number): Date {
+  const date = new Date(startDate);
+  date.setMonth(date.getMonth() + months);
+  return date;
+}
+
+function monthlyRepayment(amount: number, annualRate: number, years: number): number {
+  const n = Math.max(years, 1) * 12;
+  const r = annualRate / 100 / 12;
+  return r === 0 ? amount / n : (amount * r) / (1 - Math.pow(1 + r, -n));
+}
+
+interface PurchaseTest {
+  row: NextPurchaseMonth;
+  equityRelease: number;
+  loans: NextPurchaseLoan[];
+}
+
+/**
+ * Plan when equity in an existing home can fund a second property or an upgrade
+ *
+ * @param inputs - Existing loan and home, household capacity inputs, target
+ * price and how the purchase is structured
+ * @returns Month-by-month equity and serviceability tests, the earliest
+ * feasible purchase date and price, and the loans at that date
+ *
+ * @example
+ * planNextPurchase({
+ *   existingLoan: { amount: 550000, annualRate: 6, years: 30, repaymentType: 'principalAndInterest', repaymentStrategy: 'reduceTerm', startDate: '2025-07-01' },
+ *   existingProperty: { startValue: 750000, growthRate: 6 },
+ *   capacity: {
+ *     incomes: [{ amountAnnual: 220000, shadingFactor: 1 }], livingExpensesMonthly: 4500, dependants: 0,
+ *     creditCardLimits: 0, personalLoans: [], carLoans: [], hasHECS: false,
+ *     baseRate: 6, bufferRate: 3, termYears: 30, repaymentType: 'principalAndInterest'
+ *   },
+ *   goal: 'secondProperty', targetPrice: 600000, priceGrowthRate: 4, state: 'QLD',
+ *   purchaseCosts: 3000, weeklyRent: 550
+ * })
+ * // monthsToPurchase 30, purchasePrice 661,812, equityRelease 158,400
+ */
+export function planNextPurchase(inputs: NextPurchaseInputs): NextPurchaseResult {
+  const { capacity, goal, existingProperty } = inputs;
+  const structure = inputs.structure ?? 'standalone';
+  const maxLvr = (inputs.maxLvr ?? DEFAULT_MAX_LVR) / 100;
+  const sellingCostRate = (inputs.sellingCostRate ?? 0) / 100;
+  const cash = Math.max(inputs.cashSavings ?? 0, 0);
+  const searchMonths = Math.max(Math.round(inputs.searchYears ?? 10), 0) * 12;
+  const assessmentRate = capacity.baseRate + capacity.bufferRate;
+
+  const existingLoan = generateAmortisation({
+    ...inputs.existingLoan,
+    frequency: 'monthly',
+    propertyValue: existingProperty
+  });
+  const balanceAt = (month: number) =>
+    month === 0
+      ? inputs.existingLoan.amount
+      : existingLoan.schedule[Math.min(month, existingLoan.schedule.length) - 1]?.closingBalance ?? 0;
+
+  const incomes: IncomeInput[] =
+    goal === 'secondProperty' && inputs.weeklyRent
+      ? [
+          ...capacity.incomes,
+          { amountAnnual: inputs.weeklyRent * 52, shadingFactor: inputs.rentShadingFactor ?? DEFAULT_RENT_SHADING }
+        ]
+      : capacity.incomes;
+
+  const testPurchase = (month: number, price: number): PurchaseTest => {
+    const propertyValue = projectPropertyValue(existingProperty, month / 12);
+    const loanBalance = balanceAt(month);
+    const remainingYears = inputs.existingLoan.years - month / 12;
+    const duty = calculateTransferDuty({
+      state: inputs.state,
+      price,
+      ownerOccupier: goal === 'upgrade'
+    });
+    const purchaseCosts = duty.totalGovernmentCharges + (inputs.purchaseCosts ?? 0);
+    const fundsRequired = price * (1 - maxLvr) + purchaseCosts;
+    const maxBorrowingFor = (homeLoans: number[]) =>
+      estimateBorrowingCapacity({
+        ...capacity,
+        incomes,
+        homeLoans: homeLoans.map((amount) => ({ monthlyRepayment: amount }))
+      }).maxBorrowing;
+
+    let usableEquity: number;
+    let equityRelease = 0;
+    let totalDebt: number;
+    let assessedBorrowing: number;
+    let maxBorrowing: number;
+    let loans: NextPurchaseLoan[];
+
+    if (goal === 'upgrade') {
+      // The home is sold, so only the new loan is left to service
+      usableEquity = propertyValue * (1 - sellingCostRate) - loanBalance;
+      totalDebt = Math.max(price + purchaseCosts - usableEquity - cash, 0);
+      assessedBorrowing = totalDebt;
+      maxBorrowing = maxBorrowingFor([]);
+      loans = [
+        {
+          security: 'new',
+          amount: totalDebt,
+          lvr: price > 0 ? (totalDebt / price) * 100 : 0,
+          monthlyRepayment: monthlyRepayment(totalDebt, capacity.baseRate, capacity.termYears)
+        }
+      ];
+    } else {
+      usableEquity = Math.max(propertyValue * maxLvr - loanBalance, 0);
+      equityRelease = Math.min(Math.max(fundsRequired - cash, 0), usableEquity);
+      const newLoan = Math.max(price + purchaseCosts - cash - equityRelease, 0);
+      const homeLoan = loanBalance + equityRelease;
+      totalDebt = homeLoan + newLoan;
+
+      if (structure === 'crossCollateral') {
+        // One facility over both properties, assessed as a single new loan
+        assessedBorrowing = totalDebt;
+        maxBorrowing = maxBorrowingFor([]);
+        loans = [
+          {
+            security: 'both',
+            amount: totalDebt,
+            lvr: (totalDebt / (propertyValue + price)) * 100,
+            monthlyRepayment: monthlyRepayment(totalDebt, capacity.baseRate, capacity.termYears)
+          }
+        ];
+      } else {
+        // The topped-up home loan keeps its remaining term and is a liability
+        assessedBorrowing = newLoan;
+        maxBorrowing = maxBorrowingFor(
+          homeLoan > 0 ? [monthlyRepayment(homeLoan, assessmentRate, remainingYears)] : []
+        );
+        loans = [
+          {
+            security: 'existing',
+            amount: homeLoan,
+            lvr: propertyValue > 0 ? (homeLoan / propertyValue) * 100 : 0,
+            monthlyRepayment: monthlyRepayment(homeLoan, capacity.baseRate, remainingYears)
+          },
+          {
+            security: 'new',
+            amount: newLoan,
+            lvr: price > 0 ? (newLoan / price) * 100 : 0,
+            monthlyRepayment: monthlyRepayment(newLoan, capacity.baseRate, capacity.termYears)
+          }
+        ];
+      }
+    }
+
+    return {
+      row: {
+        month,
+        date: addMonths(inputs.existingLoan.startDate, month).toISOString(),
+        propertyValue,
+        loanBalance,
+        usableEquity,
+        targetPrice: price,
+        purchaseCosts,
+        fundsRequired,
+        totalDebt,
+        assessedBorrowing,
+        maxBorrowing,
+        equityOk: usableEquity + cash >= fundsRequired,
+        serviceable: assessedBorrowing <= maxBorrowing
+      },
+      equityRelease,
+      loans
+    };
+  };
+
+  const priceAt = (month: number) =>
+    inputs.targetPrice * Math.pow(1 + (inputs.priceGrowthRate ?? 0) / 100, month / 12);
+  const passes = ({ row }: PurchaseTest) => row.equityOk && row.serviceable;
+
+  const tests: PurchaseTest[] = [];
+  let purchase: PurchaseTest | undefined;
+  for (let month = 0; month <= searchMonths; month++) {
+    const test = testPurchase(month, priceAt(month));
+    tests.push(test);
+    if (passes(test)) {
+      purchase = test;
+      break;
+    }
+  }
+
+  // Both tests only get harder as the price rises, so the highest passing price bisects
+  const atZero = testPurchase(0, 0);
+  const priceCeiling = (atZero.row.usableEquity + cash) / Math.max(1 - maxLvr, 0.05) + 1;
+  const maxPriceToday = passes(atZero)
+    ? -bisect(-priceCeiling, 0, (negativePrice) => passes(testPurchase(0, -negativePrice)), 1)
+    : 0;
+
+  const last = tests[tests.length - 1].row;
+  return {
+    existingLoan,
+    months: tests.map((test) => test.row),
+    feasible: purchase !== undefined,
+    monthsToPurchase: purchase?.row.month,
+    purchaseDate: purchase?.row.date,
+    purchasePrice: purchase?.row.targetPrice,
+    equityRelease: purchase && goal === 'secondProperty' ? purchase.equityRelease : undefined,
+    loans: purchase?.loans ?? [],
+    totalDebt: purchase?.row.totalDebt,
+    maxPriceToday,
+    limitingFactor: purchase
+      ? undefined
+      : !last.equityOk && !last.serviceable
+        ? 'both'
+        : !last.equityOk
+          ? 'equity'
+          : 'serviceability'
+  };
+}
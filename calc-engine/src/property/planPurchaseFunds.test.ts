@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { planPurchaseFunds, type PurchasePlanInputs } from './planPurchaseFunds';
+
+const baseInputs: PurchasePlanInputs = {
+  capacity: { maxBorrowing: 640000, estimatedPurchasePrice: 800000 },
+  savings: 200000,
+  state: 'VIC',
+  costs: {
+    legalFees: 1800,
+    inspectionFees: 600,
+    loanFees: { upfrontFee: 600, monthlyFee: 0, annualFee: 0 }
+  }
+};
+
+describe('planPurchaseFunds', () => {
+  it('prices the estimated purchase from borrowing capacity by default', () => {
+    const result = planPurchaseFunds(baseInputs);
+
+    expect(result.purchasePrice).toBe(800000);
+    expect(result.loanAmount).toBe(640000);
+    expect(result.breakdown.deposit).toBe(160000);
+    expect(result.breakdown.transferDuty).toBeCloseTo(43070, 6);
+    expect(result.breakdown.lmi).toBe(0);
+    expect(result.breakdown.loanEstablishmentFee).toBe(600);
+  });
+
+  it('totals the statement and reports a shortfall', () => {
+    const result = planPurchaseFunds(baseInputs);
+    const expected = 160000 + 43070 + 128 + 1800 + 600 + 600;
+
+    expect(result.fundsRequired).toBeCloseTo(expected, 6);
+    expect(result.upfrontCosts).toBeCloseTo(expected - 160000, 6);
+    expect(result.surplus).toBeCloseTo(200000 - expected, 6);
+    expect(result.shortfall).toBeCloseTo(expected - 200000, 6);
+  });
+
+  it('reports a surplus when savings cover everything', () => {
+    const result = planPurchaseFunds({ ...baseInputs, savings: 250000 });
+
+    expect(result.surplus).toBeGreaterThan(0);
+    expect(result.shortfall).toBe(0);
+  });
+
+  it('borrows the price less the deposit when no loan amount is given', () => {
+    const twentyPercent = planPurchaseFunds({ ...baseInputs, targetPrice: 600000 });
+    const tenPercent = planPurchaseFunds({ ...baseInputs, targetPrice: 600000, depositPercent: 0.1 });
+
+    expect(twentyPercent.loanAmount).toBe(480000);
+    expect(twentyPercent.breakdown.deposit).toBe(120000);
+    expect(twentyPercent.breakdown.lmi).toBe(0);
+    expect(twentyPercent.loanLimitedByCapacity).toBe(false);
+    expect(tenPercent.loanAmount).toBe(540000);
+    expect(tenPercent.breakdown.deposit).toBe(60000);
+    expect(tenPercent.lmi.required).toBe(true);
+    expect(tenPercent.breakdown.lmi).toBeGreaterThan(0);
+  });
+
+  it('caps the loan at borrowing capacity for a dearer target', () => {
+    const result = planPurchaseFunds({ ...baseInputs, targetPrice: 900000 });
+
+    expect(result.loanAmount).toBe(640000);
+    expect(result.loanLimitedByCapacity).toBe(true);
+    expect(result.breakdown.deposit).toBe(260000);
+  });
+
+  it('adds upfront LMI when the deposit is under 20%', () => {
+    const result = planPurchaseFunds({ ...baseInputs, targetPrice: 700000, loanAmount: 630000 });
+
+    expect(result.lmi.required).toBe(true);
+    expect(result.breakdown.lmi).toBeCloseTo(result.lmi.totalPremium, 6);
+  });
+
+  it('keeps base loan plus capitalised LMI within capacity', () => {
+    const result = planPurchaseFunds({
+      ...baseInputs,
+      targetPrice: 700000,
+      depositPercent: 0.05,
+      capitaliseLmi: true
+    });
+
+    expect(result.breakdown.lmi).toBe(0);
+    expect(result.totalLoanAmount).toBeCloseTo(640000, 1);
+    expect(result.loanAmount).toBeLessThan(640000);
+  });
+
+  it('applies first home buyer relief to duty', () => {
+    const result = planPurchaseFunds({
+      ...baseInputs,
+      targetPrice: 550000,
+      firstHomeBuyer: true
+    });
+
+    expect(result.breakdown.transferDuty).toBe(0);
+  });
+
+  it('drops loan costs for a cash purchase', () => {
+    const result = planPurchaseFunds({ ...baseInputs, loanAmount: 0 });
+
+    expect(result.breakdown.deposit).toBe(800000);
+    expect(result.breakdown.mortgageRegistrationFee).toBe(0);
+    expect(result.breakdown.loanEstablishmentFee).toBe(0);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Purchase Funds Planner
+ *
+ * Builds a "funds required" statement for a purchase: the deposit, transfer
+ * duty and registration fee, any LMI paid in cash, legal and conveyancing,
+ * building and pest inspections and the loan establishment fee. The loan is
+ * the price less the deposit, capped at an estimateBorrowingCapacity result,
+ * and the statement reports whether savings cover the cash needed to settle.
+ */
+
+import type { BorrowingCapacityResult, FeeConfig } from '../index';
+import { calculateTransferDuty, type TransferDutyResult } from './calculateTransferDuty';
+import { estimateLMI, type LMIResult } from './estimateLMI';
+import type { LMIPremiumTable } from './lmiPremiumRates';
+import type { DutyPropertyType } from './transferDutyRates';
+import type { AustralianState } from './types';
+
+export interface PurchaseCosts {
+  legalFees: number;               // Legal and conveyancing
+  inspectionFees: number;          // Building and pest inspections
+  loanFees?: FeeConfig;            // upfrontFee is the loan establishment fee
+  otherCosts?: number;
+}
+
+export interface PurchasePlanInputs {
+  capacity: Pick<BorrowingCapacityResult, 'maxBorrowing' | 'estimatedPurchasePrice'>;
+  targetPrice?: number;            // Defaults to capacity.estimatedPurchasePrice
+  loanAmount?: number;             // Preferred loan, capped at capacity; defaults to the price less the deposit
+  depositPercent?: number;         // Fraction of the price, as in BorrowingCapacityInputs; defaults to 0.2
+  savings: number;
+  state: AustralianState;
+  propertyType?: DutyPropertyType;
+  ownerOccupier?: boolean;
+  firstHomeBuyer?: boolean;
+  foreignPurchaser?: boolean;
+  capitaliseLmi?: boolean;
+  premiumTable?: LMIPremiumTable;
+  costs: PurchaseCosts;
+}
+
+export interface PurchaseFundsBreakdown {
+  deposit: number;
+  transferDuty: number;            // Includes any foreign purchaser surcharge
+  mortgageRegistrationFee: number;
+  lmi: number;                     // LMI paid in cash (zero when capitalised)
+  legalFees: number;
+  inspectionFees: number;
+  loanEstablishmentFee: number;
+  otherCosts: number;
+}
+
+export interface PurchasePlanResult {
+  purchasePrice: number;
+  loanAmount: number;              // Base loan, before any capitalised LMI
+  totalLoanAmount: number;
+  loanLimitedByCapacity: boolean;
+  breakdown: PurchaseFundsBreakdown;
+  upfrontCosts: number;            // Everything except the deposit
+  fundsRequired: number;
+  savings: number;
+  surplus: number;                 // Negative when savings fall short
+  shortfall: number;
+  duty: TransferDutyResult;
+  lmi: LMIResult;
+}
+
+const DEFAULT_DEPOSIT_PERCENT = 0.2;
+
+/**
+ * Plan the cash needed to complete a purchase
+ *
+ * @param inputs - Borrowing capacity, target price, savings and purchase costs
+ * @returns Funds required statement with the surplus or shortfall against savings
+ *
+ * @example
+ * planPurchaseFunds({
+ *   capacity: { maxBorrowing: 640000, estimatedPurchasePrice: 800000 },
+ *   savings: 200000,
+ *   state: 'VIC',
+ *   costs: { legalFees: 1800, inspectionFees: 600, loanFees: { upfrontFee: 600, monthlyFee: 0, annualFee: 0 } }
+ * })
+ * // deposit 160,000, transferDuty 43,070, fundsRequired 206,198, shortfall 6,198
+ */
+export function planPurchaseFunds(inputs: PurchasePlanInputs): PurchasePlanResult {
+  const {
+    capacity,
+    targetPrice,
+    loanAmount: preferredLoan,
+    depositPercent = DEFAULT_DEPOSIT_PERCENT,
+    savings,
+    state,
+    propertyType,
+    ownerOccupier,
+    firstHomeBuyer,
+    foreignPurchaser,
+    capitaliseLmi = false,
+    premiumTable,
+    costs
+  } = inputs;
+
+  const purchasePrice = targetPrice ?? capacity.estimatedPurchasePrice;
+  const maxBorrowing = Math.max(capacity.maxBorrowing, 0);
+  const requestedLoan = Math.min(preferredLoan ?? purchasePrice * (1 - depositPercent), purchasePrice);
+
+  const lmiFor = (loanAmount: number) =>
+    estimateLMI({ propertyValue: purchasePrice, loanAmount, state, capitalise: capitaliseLmi, premiumTable });
+
+  let loanAmount = Math.min(requestedLoan, maxBorrowing);
+  let lmi = lmiFor(loanAmount);
+  if (lmi.totalLoanAmount > maxBorrowing) {
+    // A capitalised premium counts against capacity, so shrink the base loan
+    // until base plus premium fits
+    for (let round = 0; round < 20; round += 1) {
+      const next = maxBorrowing - lmiFor(loanAmount).totalPremium;
+      if (Math.abs(next - loanAmount) < 0.01) break;
+      loanAmount = next;
+    }
+    lmi = lmiFor(loanAmount);
+  }
+
+  const duty = calculateTransferDuty({
+    state,
+    price: purchasePrice,
+    propertyType,
+    ownerOccupier,
+    firstHomeBuyer,
+    foreignPurchaser,
+    withMortgage: loanAmount > 0
+  });
+
+  const breakdown: PurchaseFundsBreakdown = {
+    deposit: purchasePrice - loanAmount,
+    transferDuty: duty.transferDuty + duty.foreignSurcharge,
+    mortgageRegistrationFee: duty.mortgageRegistrationFee,
+    lmi: lmi.upfrontCost,
+    legalFees: costs.legalFees,
+    inspectionFees: costs.inspectionFees,
+    loanEstablishmentFee: loanAmount > 0 ? costs.loanFees?.upfrontFee ?? 0 : 0,
+    otherCosts: costs.otherCosts ?? 0
+  };
+
+  const fundsRequired = Object.values(breakdown).reduce((sum, amount) => sum + amount, 0);
+  const surplus = savings - fundsRequired;
+
+  return {
+    purchasePrice,
+    loanAmount,
+    totalLoanAmount: lmi.totalLoanAmount,
+    loanLimitedByCapacity: loanAmount < requestedLoan,
+    breakdown,
+    upfrontCosts: fundsRequired - breakdown.deposit,
+    fundsRequired,
+    savings,
+    surplus,
+    shortfall: Math.max(-surplus, 0),
+    duty,
+    lmi
+  };
+}
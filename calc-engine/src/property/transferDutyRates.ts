@@ -0,0 +1,232 @@
+/**
+ * Transfer (Stamp) Duty Schedules by State and Territory
+ *
+ * Residential transfer duty scales, first home buyer rules, foreign purchaser
+ * surcharges and mortgage registration fees as published for 2024-25. Rules
+ * change most budgets and several concessions are income or residency
+ * tested, so treat results as an estimate and confirm with the state revenue
+ * office.
+ *
+ * Data sources:
+ * - NSW: https://www.revenue.nsw.gov.au/taxes-duties-levies-royalties/transfer-duty
+ * - VIC: https://www.sro.vic.gov.au/land-transfer-duty
+ * - QLD: https://qro.qld.gov.au/duties/transfer-duty/
+ * - WA: https://www.wa.gov.au/organisation/department-of-finance/transfer-duty
+ * - SA: https://www.revenuesa.sa.gov.au/stampduty
+ * - TAS: https://www.sro.tas.gov.au/property-transfer-duties
+ * - ACT: https://www.revenue.act.gov.au/duties/conveyance-duty
+ * - NT: https://treasury.nt.gov.au/dtf/territory-revenue-office/stamp-duty
+ */
+
+import type { AustralianState } from './types';
+
+/**
+ * Transfer duty bracket
+ */
+export interface DutyBracket {
+  /** Start of the dutiable value range */
+  from: number;
+  /** Duty payable at the start of the bracket */
+  baseDuty: number;
+  /** Marginal rate (%) on value above `from` */
+  rate: number;
+  /** If true, `rate` applies to the whole dutiable value */
+  wholeValue?: boolean;
+  /** Overrides baseDuty and rate within the bracket (NT's sliding formula) */
+  formula?: (dutiableValue: number) => number;
+}
+
+/**
+ * First home buyer relief: full exemption up to `exemptUpTo`, then duty
+ * phased in linearly until it is paid in full at `concessionUpTo`
+ */
+export interface FirstHomeBuyerRule {
+  exemptUpTo: number;
+  concessionUpTo: number;
+}
+
+export type DutyPropertyType = 'established' | 'newHome' | 'offThePlan' | 'vacantLand';
+
+export interface StateDutySchedule {
+  /** General scale, used by investors and where no owner-occupier scale exists */
+  general: DutyBracket[];
+  /** Concessional scale for a principal place of residence (QLD, VIC, ACT) */
+  ownerOccupier?: DutyBracket[];
+  /** First home buyer relief by property type; off-the-plan uses `newHome` */
+  firstHomeBuyer: Partial<Record<'established' | 'newHome' | 'vacantLand', FirstHomeBuyerRule>>;
+  /** Duty on off-the-plan purchases is assessed on the value at contract (VIC) */
+  offThePlanReducedValue?: boolean;
+  /** Foreign purchaser surcharge (% of dutiable value) */
+  foreignSurcharge: number;
+  mortgageRegistrationFee: number;
+}
+
+const NO_CAP = Number.POSITIVE_INFINITY;
+
+export const TRANSFER_DUTY_SCHEDULES: Record<AustralianState, StateDutySchedule> = {
+  NSW: {
+    general: [
+      { from: 0, baseDuty: 0, rate: 1.25 },
+      { from: 17000, baseDuty: 212, rate: 1.5 },
+      { from: 36000, baseDuty: 497, rate: 1.75 },
+      { from: 97000, baseDuty: 1564, rate: 3.5 },
+      { from: 364000, baseDuty: 10909, rate: 4.5 },
+      { from: 1212000, baseDuty: 49069, rate: 5.5 },
+      { from: 3636000, baseDuty: 182389, rate: 7 }
+    ],
+    firstHomeBuyer: {
+      established: { exemptUpTo: 800000, concessionUpTo: 1000000 },
+      newHome: { exemptUpTo: 800000, concessionUpTo: 1000000 },
+      vacantLand: { exemptUpTo: 350000, concessionUpTo: 450000 }
+    },
+    foreignSurcharge: 9,
+    mortgageRegistrationFee: 165
+  },
+  VIC: {
+    general: [
+      { from: 0, baseDuty: 0, rate: 1.4 },
+      { from: 25000, baseDuty: 350, rate: 2.4 },
+      { from: 130000, baseDuty: 2870, rate: 6 },
+      { from: 960000, baseDuty: 0, rate: 5.5, wholeValue: true },
+      { from: 2000000, baseDuty: 110000, rate: 6.5 }
+    ],
+    ownerOccupier: [
+      { from: 0, baseDuty: 0, rate: 1.4 },
+      { from: 25000, baseDuty: 350, rate: 2.4 },
+      { from: 130000, baseDuty: 2870, rate: 5 },
+      { from: 440000, baseDuty: 18370, rate: 6 },
+      { from: 550000, baseDuty: 28070, rate: 6 },
+      { from: 960000, baseDuty: 0, rate: 5.5, wholeValue: true },
+      { from: 2000000, baseDuty: 110000, rate: 6.5 }
+    ],
+    firstHomeBuyer: {
+      established: { exemptUpTo: 600000, concessionUpTo: 750000 },
+      newHome: { exemptUpTo: 600000, concessionUpTo: 750000 },
+      vacantLand: { exemptUpTo: 600000, concessionUpTo: 750000 }
+    },
+    offThePlanReducedValue: true,
+    foreignSurcharge: 8,
+    mortgageRegistrationFee: 128
+  },
+  QLD: {
+    general: [
+      { from: 0, baseDuty: 0, rate: 0 },
+      { from: 5000, baseDuty: 0, rate: 1.5 },
+      { from: 75000, baseDuty: 1050, rate: 3.5 },
+      { from: 540000, baseDuty: 17325, rate: 4.5 },
+      { from: 1000000, baseDuty: 38025, rate: 5.75 }
+    ],
+    ownerOccupier: [
+      { from: 0, baseDuty: 0, rate: 1 },
+      { from: 350000, baseDuty: 3500, rate: 3.5 },
+      { from: 540000, baseDuty: 10150, rate: 4.5 },
+      { from: 1000000, baseDuty: 30850, rate: 5.75 }
+    ],
+    firstHomeBuyer: {
+      established: { exemptUpTo: 700000, concessionUpTo: 800000 },
+      newHome: { exemptUpTo: NO_CAP, concessionUpTo: NO_CAP },
+      vacantLand: { exemptUpTo: NO_CAP, concessionUpTo: NO_CAP }
+    },
+    foreignSurcharge: 8,
+    mortgageRegistrationFee: 231
+  },
+  WA: {
+    general: [
+      { from: 0, baseDuty: 0, rate: 1.9 },
+      { from: 120000, baseDuty: 2280, rate: 2.85 },
+      { from: 150000, baseDuty: 3135, rate: 3.8 },
+      { from: 360000, baseDuty: 11115, rate: 4.75 },
+      { from: 725000, baseDuty: 28453, rate: 5.15 }
+    ],
+    firstHomeBuyer: {
+      established: { exemptUpTo: 500000, concessionUpTo: 700000 },
+      newHome: { exemptUpTo: 500000, concessionUpTo: 700000 },
+      vacantLand: { exemptUpTo: 350000, concessionUpTo: 450000 }
+    },
+    foreignSurcharge: 7,
+    mortgageRegistrationFee: 210
+  },
+  SA: {
+    general: [
+      { from: 0, baseDuty: 0, rate: 1 },
+      { from: 12000, baseDuty: 120, rate: 2 },
+      { from: 30000, baseDuty: 480, rate: 3 },
+      { from: 50000, baseDuty: 1080, rate: 3.5 },
+      { from: 100000, baseDuty: 2830, rate: 4 },
+      { from: 200000, baseDuty: 6830, rate: 4.25 },
+      { from: 250000, baseDuty: 8955, rate: 4.75 },
+      { from: 300000, baseDuty: 11330, rate: 5 },
+      { from: 500000, baseDuty: 21330, rate: 5.5 }
+    ],
+    firstHomeBuyer: {
+      newHome: { exemptUpTo: NO_CAP, concessionUpTo: NO_CAP },
+      vacantLand: { exemptUpTo: NO_CAP, concessionUpTo: NO_CAP }
+    },
+    foreignSurcharge: 7,
+    mortgageRegistrationFee: 198
+  },
+  TAS: {
+    general: [
+      { from: 0, baseDuty: 50, rate: 0 },
+      { from: 3000, baseDuty: 50, rate: 1.75 },
+      { from: 25000, baseDuty: 435, rate: 2.25 },
+      { from: 75000, baseDuty: 1560, rate: 3.5 },
+      { from: 200000, baseDuty: 5935, rate: 4 },
+      { from: 375000, baseDuty: 12935, rate: 4.25 },
+      { from: 725000, baseDuty: 27810, rate: 4.5 }
+    ],
+    firstHomeBuyer: {
+      established: { exemptUpTo: 750000, concessionUpTo: 750000 }
+    },
+    foreignSurcharge: 8,
+    mortgageRegistrationFee: 155
+  },
+  ACT: {
+    general: [
+      { from: 0, baseDuty: 0, rate: 1.2 },
+      { from: 200000, baseDuty: 2400, rate: 2.2 },
+      { from: 300000, baseDuty: 4600, rate: 3.4 },
+      { from: 500000, baseDuty: 11400, rate: 4.32 },
+      { from: 750000, baseDuty: 22200, rate: 5.9 },
+      { from: 1000000, baseDuty: 36950, rate: 6.4 },
+      { from: 1455000, baseDuty: 0, rate: 4.54, wholeValue: true }
+    ],
+    ownerOccupier: [
+      { from: 0, baseDuty: 0, rate: 0.4 },
+      { from: 260000, baseDuty: 1040, rate: 2.2 },
+      { from: 300000, baseDuty: 1920, rate: 3.4 },
+      { from: 500000, baseDuty: 8720, rate: 4.32 },
+      { from: 750000, baseDuty: 19520, rate: 5.9 },
+      { from: 1000000, baseDuty: 34270, rate: 6.4 },
+      { from: 1455000, baseDuty: 0, rate: 4.54, wholeValue: true }
+    ],
+    // Home Buyer Concession Scheme (income tested, no price cap)
+    firstHomeBuyer: {
+      established: { exemptUpTo: NO_CAP, concessionUpTo: NO_CAP },
+      newHome: { exemptUpTo: NO_CAP, concessionUpTo: NO_CAP },
+      vacantLand: { exemptUpTo: NO_CAP, concessionUpTo: NO_CAP }
+    },
+    foreignSurcharge: 0,
+    mortgageRegistrationFee: 178
+  },
+  NT: {
+    general: [
+      {
+        from: 0,
+        baseDuty: 0,
+        rate: 0,
+        // D = 0.06571441V² + 15V, where V is the value in thousands
+        formula: (dutiableValue) => {
+          const v = dutiableValue / 1000;
+          return 0.06571441 * v * v + 15 * v;
+        }
+      },
+      { from: 525000, baseDuty: 0, rate: 4.95, wholeValue: true },
+      { from: 3000000, baseDuty: 0, rate: 5.75, wholeValue: true },
+      { from: 5000000, baseDuty: 0, rate: 5.95, wholeValue: true }
+    ],
+    firstHomeBuyer: {},
+    foreignSurcharge: 0,
+    mortgageRegistrationFee: 171
+  }
+};
@@ -0,0 +1,36 @@
+import React from 'react';
+import { AustralianState } from 'calc-engine';
+
+const STATES: AustralianState[] = ['NSW', 'VIC', 'QLD', 'WA', 'SA', 'TAS', 'ACT', 'NT'];
+
+interface StateSelectProps {
+  label?: string;
+  value: AustralianState;
+  onChange: (value: AustralianState) => void;
+  id?: string;
+  className?: string;
+}
+
+export const StateSelect: React.FC<StateSelectProps> = ({
+  label = 'State',
+  value,
+  onChange,
+  id,
+  className = '',
+}) => (
+  <label className={`text-xs font-semibold text-slate-500 dark:text-dark-muted ${className}`}>
+    {label}
+    <select
+      id={id}
+      value={value}
+      onChange={(e) => onChange(e.target.value as AustralianState)}
+      className="mt-1 w-full rounded-2xl border border-slate-300 bg-white px-3 py-2 text-base font-semibold text-slate-800 focus:outline-none focus:ring dark:border-dark-border dark:bg-dark-surface dark:text-white"
+    >
+      {STATES.map((state) => (
+        <option key={state} value={state}>
+          {state}
+        </option>
+      ))}
+    </select>
+  </label>
+);
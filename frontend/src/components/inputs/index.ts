@@ -1,3 +1,4 @@
 export { CurrencyInput } from './CurrencyInput';
 export { NumberInput } from './NumberInput';
 export { PercentInput } from './PercentInput';
+export { StateSelect } from './StateSelect';
@@ -0,0 +1,47 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import type { PayCalculateRequest } from 'calc-engine';
+
+interface PayProfileContextType {
+  payRequest: PayCalculateRequest | null;
+  setPayRequest: (request: PayCalculateRequest) => void;
+}
+
+const PayProfileContext = createContext<PayProfileContextType | undefined>(undefined);
+
+const STORAGE_KEY = 'payProfile';
+
+export const PayProfileProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [payRequest, setPayRequest] = useState<PayCalculateRequest | null>(() => {
+    // Restore the last pay entered on the Pay & Tax page
+    if (typeof window === 'undefined') return null;
+
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored === null) return null;
+
+    try {
+      return JSON.parse(stored) as PayCalculateRequest;
+    } catch {
+      return null;
+    }
+  });
+
+  useEffect(() => {
+    if (payRequest) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(payRequest));
+    }
+  }, [payRequest]);
+
+  return (
+    <PayProfileContext.Provider value={{ payRequest, setPayRequest }}>
+      {children}
+    </PayProfileContext.Provider>
+  );
+};
+
+export const usePayProfile = () => {
+  const context = useContext(PayProfileContext);
+  if (context === undefined) {
+    throw new Error('usePayProfile must be used within a PayProfileProvider');
+  }
+  return context;
+};
@@ -4,6 +4,7 @@ import {
   RepaymentFrequency,
   RepaymentType,
   RepaymentStrategy,
+  RepaymentPause,
   ExtraRule
 } from 'calc-engine';
 import { BalanceChart } from '../graphs/RepaymentCharts';
@@ -29,7 +30,7 @@ export const AdvancedSimulator: React.FC<AdvancedSimulatorProps> = ({
   const [strategy, setStrategy] =
     useState<RepaymentStrategy>('reduceTerm');
 
-  type ExtraKind = 'one-off' | 'weekly' | 'fortnightly' | 'annual' | 'custom';
+  type ExtraKind = 'one-off' | 'weekly' | 'fortnightly' | 'annual' | 'custom' | 'pause';
 
   interface ExtraRow {
     id: number;
@@ -42,9 +43,26 @@ export const AdvancedSimulator: React.FC<AdvancedSimulatorProps> = ({
 
   const [extraRows, setExtraRows] = useState<ExtraRow[]>([]);
 
+  // Pause rows carry the reduced repayment in `amount`
+  const pauseRows = extraRows.filter((row) => row.kind === 'pause');
+
   const scenario = useMemo(() => {
+    const monthToDate = (month: number) => {
+      const date = new Date(DEFAULT_START_DATE);
+      date.setMonth(date.getMonth() + month);
+      return date.toISOString().slice(0, 10);
+    };
+
+    const pauses: RepaymentPause[] = extraRows
+      .filter((row) => row.kind === 'pause')
+      .map((row) => ({
+        startDate: monthToDate(row.month),
+        endDate: monthToDate(Math.max(row.endMonth ?? row.month, row.month + 1)),
+        reducedPayment: row.amount
+      }));
+
     const rules: ExtraRule[] = extraRows
-      .filter((row) => row.amount > 0)
+      .filter((row) => row.kind !== 'pause' && row.amount > 0)
       .map((row) => ({
         startMonth: row.month,
         endMonth: row.endMonth,
@@ -68,7 +86,8 @@ export const AdvancedSimulator: React.FC<AdvancedSimulatorProps> = ({
         repaymentStrategy: strategy,
         startDate: DEFAULT_START_DATE
       },
-      rules
+      rules,
+      pauses
     );
   }, [amount, rate, years, frequency, repaymentType, strategy, extraRows]);
 
@@ -384,6 +403,7 @@ export const AdvancedSimulator: React.FC<AdvancedSimulatorProps> = ({
                     <option value="fortnightly">Fortnightly</option>
                     <option value="annual">Annual</option>
                     <option value="custom">Custom (months)</option>
+                    <option value="pause">Repayment pause</option>
                   </select>
                 </div>
                 <div className="loan-input-row-split">
@@ -438,7 +458,7 @@ export const AdvancedSimulator: React.FC<AdvancedSimulatorProps> = ({
                 )}
                 <LabeledCurrency
                   id={`extra-amount-${row.id}`}
-                  label="Amount"
+                  label={row.kind === 'pause' ? 'Reduced repayment' : 'Amount'}
                   value={row.amount}
                   min={0}
                   onChange={(value) =>
@@ -496,6 +516,11 @@ export const AdvancedSimulator: React.FC<AdvancedSimulatorProps> = ({
           <BalanceChart
             schedule={result.schedule}
             overlaySchedule={extraRows.length ? baselineResult.schedule : undefined}
+            markers={pauseRows.map((row) => ({
+              monthIndex: row.month,
+              endMonthIndex: Math.max(row.endMonth ?? row.month, row.month + 1),
+              label: 'Pause'
+            }))}
             height={500}
           />
           
@@ -1,5 +1,11 @@
 import React from 'react';
-import { estimateBorrowingCapacity } from 'calc-engine';
+import {
+  AustralianState,
+  BorrowingCapacityInputs,
+  BorrowingCapacityResult,
+  estimateBorrowingCapacity,
+  generateAmortisation,
+} from 'calc-engine';
 import { BorrowingPowerView } from './BorrowingPowerView';
 
 type SimpleDebtEntry = { id: string; label: string; amount: number };
@@ -7,12 +13,30 @@ type SimpleDebtEntry = { id: string; label: string; amount: number };
 const createId = () =>
   globalThis.crypto?.randomUUID?.() ?? `entry-${Date.now()}-${Math.random().toString(16).slice(2)}`;
 
-export const BorrowingPowerCard: React.FC = () => {
+export interface BorrowingPowerSnapshot {
+  inputs: BorrowingCapacityInputs;
+  estimate: BorrowingCapacityResult;
+  mortgageRate: number;
+  propertyState: AustralianState;
+  capitaliseLmi: boolean;
+}
+
+type BorrowingPowerViewProps = React.ComponentProps<typeof BorrowingPowerView>;
+
+/**
+ * Inputs and estimate for the borrowing power calculator. The section holds
+ * them so the planners built on the estimate show while the calculator is
+ * collapsed.
+ */
+export const useBorrowingPower = (): { snapshot: BorrowingPowerSnapshot; viewProps: BorrowingPowerViewProps } => {
   const [incomeInputValue, setIncomeInputValue] = React.useState(160000);
   const [incomeFrequency, setIncomeFrequency] = React.useState<'weekly' | 'fortnightly' | 'monthly' | 'annual'>('annual');
   const [dependants, setDependants] = React.useState(0);
   const [creditCards, setCreditCards] = React.useState<SimpleDebtEntry[]>([]);
   const [hasHecs, setHasHecs] = React.useState(false);
+  const [depositPercent, setDepositPercent] = React.useState(20);
+  const [propertyState, setPropertyState] = React.useState<AustralianState>('NSW');
+  const [capitaliseLmi, setCapitaliseLmi] = React.useState(true);
 
   const DEFAULT_BASE_RATE = 6;
   const ASSESSMENT_BUFFER_PERCENT = 3;
@@ -35,8 +59,8 @@ export const BorrowingPowerCard: React.FC = () => {
   const [interestRate, setInterestRate] = React.useState(DEFAULT_BASE_RATE);
   const assessmentRate = interestRate + ASSESSMENT_BUFFER_PERCENT;
 
-  const borrowingEstimate = React.useMemo(() => {
-    return estimateBorrowingCapacity({
+  const capacityInputs = React.useMemo<BorrowingCapacityInputs>(
+    () => ({
       incomes: [{ amountAnnual: householdIncome, shadingFactor: INCOME_SHADING_FACTOR }],
       livingExpensesMonthly: hemLivingExpensesMonthly,
       dependants,
@@ -48,15 +72,50 @@ export const BorrowingPowerCard: React.FC = () => {
       bufferRate: 0,
       termYears: DEFAULT_TERM_YEARS,
       repaymentType: 'principalAndInterest',
-    });
-  }, [
-    householdIncome,
-    hemLivingExpensesMonthly,
-    dependants,
-    creditCardLimits,
-    hasHecs,
-    assessmentRate,
-  ]);
+      depositPercent: depositPercent / 100,
+      lmi: { state: propertyState, capitalise: capitaliseLmi },
+    }),
+    [
+      householdIncome,
+      hemLivingExpensesMonthly,
+      dependants,
+      creditCardLimits,
+      hasHecs,
+      assessmentRate,
+      depositPercent,
+      propertyState,
+      capitaliseLmi,
+    ]
+  );
+
+  const borrowingEstimate = React.useMemo(() => estimateBorrowingCapacity(capacityInputs), [capacityInputs]);
+
+  const snapshot = React.useMemo<BorrowingPowerSnapshot>(
+    () => ({
+      inputs: capacityInputs,
+      estimate: borrowingEstimate,
+      mortgageRate: interestRate,
+      propertyState,
+      capitaliseLmi,
+    }),
+    [capacityInputs, borrowingEstimate, interestRate, propertyState, capitaliseLmi]
+  );
+
+  // Repayments at the user's rate on the loan including any capitalised LMI
+  const totalLoanAmount = borrowingEstimate.lmi?.totalLoanAmount ?? borrowingEstimate.maxBorrowing;
+  const monthlyRepayment = React.useMemo(
+    () =>
+      generateAmortisation({
+        amount: totalLoanAmount,
+        annualRate: interestRate,
+        years: DEFAULT_TERM_YEARS,
+        frequency: 'monthly',
+        repaymentType: 'principalAndInterest',
+        repaymentStrategy: 'reduceTerm',
+        startDate: new Date().toISOString().slice(0, 10),
+      }).summary.regularPayment,
+    [totalLoanAmount, interestRate]
+  );
 
   const handleIncomeFrequencyChange = (next: typeof incomeFrequency) => {
     const annual = incomeInputValue * incomeMultipliers[incomeFrequency];
@@ -80,32 +139,46 @@ export const BorrowingPowerCard: React.FC = () => {
     setCreditCards((prev) => prev.filter((entry) => entry.id !== id));
   };
 
-  return (
-    <BorrowingPowerView
-      householdIncomeAnnual={householdIncome}
-      incomeInputValue={incomeInputValue}
-      onIncomeInputValueChange={setIncomeInputValue}
-      incomeFrequency={incomeFrequency}
-      onIncomeFrequencyChange={handleIncomeFrequencyChange}
-      hemLivingExpensesMonthly={hemLivingExpensesMonthly}
-      dependants={dependants}
-      onDependantsChange={setDependants}
-      creditCards={creditCards}
-      onAddCreditCard={handleAddCreditCard}
-      onCreditCardUpdate={handleUpdateCreditCard}
-      onCreditCardRemove={handleRemoveCreditCard}
-      hasHecs={hasHecs}
-      onHasHecsChange={setHasHecs}
-      borrowingPower={borrowingEstimate.maxBorrowing}
-      borrowingPowerMeta={{
+  return {
+    snapshot,
+    viewProps: {
+      householdIncomeAnnual: householdIncome,
+      incomeInputValue,
+      onIncomeInputValueChange: setIncomeInputValue,
+      incomeFrequency,
+      onIncomeFrequencyChange: handleIncomeFrequencyChange,
+      hemLivingExpensesMonthly,
+      dependants,
+      onDependantsChange: setDependants,
+      creditCards,
+      onAddCreditCard: handleAddCreditCard,
+      onCreditCardUpdate: handleUpdateCreditCard,
+      onCreditCardRemove: handleRemoveCreditCard,
+      hasHecs,
+      onHasHecsChange: setHasHecs,
+      borrowingPower: borrowingEstimate.maxBorrowing,
+      borrowingPowerMeta: {
         incomeShadingFactor: INCOME_SHADING_FACTOR,
         assessmentRate,
         userRate: interestRate,
         bufferPercent: ASSESSMENT_BUFFER_PERCENT,
         termYears: DEFAULT_TERM_YEARS,
-      }}
-      interestRate={interestRate}
-      onInterestRateChange={setInterestRate}
-    />
-  );
+      },
+      interestRate,
+      onInterestRateChange: setInterestRate,
+      depositPercent,
+      onDepositPercentChange: setDepositPercent,
+      propertyState,
+      onPropertyStateChange: setPropertyState,
+      capitaliseLmi,
+      onCapitaliseLmiChange: setCapitaliseLmi,
+      estimatedPurchasePrice: borrowingEstimate.estimatedPurchasePrice,
+      lmi: borrowingEstimate.lmi,
+      monthlyRepayment,
+    },
+  };
 };
+
+export const BorrowingPowerCard: React.FC<{ viewProps: BorrowingPowerViewProps }> = ({ viewProps }) => (
+  <BorrowingPowerView {...viewProps} />
+);
@@ -1,11 +1,28 @@
 import React from 'react';
 import { CollapsibleContainer } from '../components/CollapsibleContainer';
-import { BorrowingPowerCard } from './BorrowingPowerCard';
+import { BorrowingPowerCard, useBorrowingPower } from './BorrowingPowerCard';
+import { PurchasePlannerCard } from './PurchasePlannerCard';
+import { DebtPlannerCard } from './DebtPlannerCard';
 
-export const BorrowingPowerSection: React.FC = () => (
-  <div className="space-y-5">
-    <CollapsibleContainer title="Simple Calculator" collapsible defaultOpen={false}>
-      <BorrowingPowerCard />
-    </CollapsibleContainer>
-  </div>
-);
+export const BorrowingPowerSection: React.FC = () => {
+  const { snapshot, viewProps } = useBorrowingPower();
+
+  return (
+    <div className="space-y-5">
+      <CollapsibleContainer title="Simple Calculator" collapsible defaultOpen={false}>
+        <BorrowingPowerCard viewProps={viewProps} />
+      </CollapsibleContainer>
+      <CollapsibleContainer title="Funds to Complete" collapsible defaultOpen={false}>
+        <PurchasePlannerCard
+          capacity={snapshot.estimate}
+          depositPercent={snapshot.inputs.depositPercent}
+          propertyState={snapshot.propertyState}
+          capitaliseLmi={snapshot.capitaliseLmi}
+        />
+      </CollapsibleContainer>
+      <CollapsibleContainer title="Debt Payoff Planner" collapsible defaultOpen={false}>
+        <DebtPlannerCard capacityInputs={snapshot.inputs} mortgageRate={snapshot.mortgageRate} />
+      </CollapsibleContainer>
+    </div>
+  );
+};
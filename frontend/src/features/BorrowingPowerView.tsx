@@ -1,9 +1,10 @@
 import React from 'react';
 import { CollapsibleContainer } from '../components/CollapsibleContainer';
 import { ToggleGroup, ToggleOption } from '../components/ToggleGroup';
-import { CurrencyInput, NumberInput } from '../components/inputs';
+import { CurrencyInput, NumberInput, PercentInput, StateSelect } from '../components/inputs';
 import { formatCurrency, toNumberOrZero } from '../lib/formatters';
 import { Tooltip } from '../components/Tooltip';
+import { AustralianState, LMIResult } from 'calc-engine';
 
 type SimpleEntry = { id: string; label: string; amount: number };
 
@@ -32,6 +33,15 @@ interface BorrowingPowerViewProps {
     bufferPercent: number;
     termYears: number;
   };
+  depositPercent: number;
+  onDepositPercentChange: (value: number) => void;
+  propertyState: AustralianState;
+  onPropertyStateChange: (value: AustralianState) => void;
+  capitaliseLmi: boolean;
+  onCapitaliseLmiChange: (value: boolean) => void;
+  estimatedPurchasePrice: number;
+  lmi?: LMIResult;
+  monthlyRepayment: number;
 }
 
 export const BorrowingPowerView: React.FC<BorrowingPowerViewProps> = ({
@@ -53,12 +63,26 @@ export const BorrowingPowerView: React.FC<BorrowingPowerViewProps> = ({
   onHasHecsChange,
   borrowingPower,
   borrowingPowerMeta,
+  depositPercent,
+  onDepositPercentChange,
+  propertyState,
+  onPropertyStateChange,
+  capitaliseLmi,
+  onCapitaliseLmiChange,
+  estimatedPurchasePrice,
+  lmi,
+  monthlyRepayment,
 }) => {
   const hecsOptions: ToggleOption<string>[] = [
     { value: 'no', label: 'No' },
     { value: 'yes', label: 'Yes' },
   ];
 
+  const lmiOptions: ToggleOption<string>[] = [
+    { value: 'capitalise', label: 'Add to loan' },
+    { value: 'upfront', label: 'Pay upfront' },
+  ];
+
   const incomeFrequencyOptions: ToggleOption<'weekly' | 'fortnightly' | 'monthly' | 'annual'>[] = [
     { value: 'weekly', label: 'Weekly' },
     { value: 'fortnightly', label: 'Fortnightly' },
@@ -242,6 +266,53 @@ export const BorrowingPowerView: React.FC<BorrowingPowerViewProps> = ({
             </p>
             <p className="text-[11px] text-slate-500 dark:text-dark-muted">Indicative only</p>
           </div>
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <PercentInput
+              label="Deposit"
+              value={depositPercent}
+              onChange={onDepositPercentChange}
+              asPercentage
+              step={1}
+            />
+            <StateSelect value={propertyState} onChange={onPropertyStateChange} />
+          </div>
+          {lmi?.required && (
+            <div className="flex items-center justify-between">
+              <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-dark-muted">
+                Mortgage insurance
+              </p>
+              <ToggleGroup
+                options={lmiOptions}
+                value={capitaliseLmi ? 'capitalise' : 'upfront'}
+                onChange={(val) => onCapitaliseLmiChange(val === 'capitalise')}
+                size="sm"
+              />
+            </div>
+          )}
+          <div className="space-y-1 rounded-2xl border border-slate-200 px-4 py-3 text-xs text-slate-600 dark:border-dark-border dark:text-dark-text">
+            <div className="flex justify-between">
+              <span>Estimated purchase price</span>
+              <span className="font-semibold">{formatCurrency(estimatedPurchasePrice)}</span>
+            </div>
+            {lmi?.required && (
+              <>
+                <div className="flex justify-between">
+                  <span>LMI ({lmi.lvr.toFixed(0)}% LVR, incl. stamp duty)</span>
+                  <span className="font-semibold">
+                    {lmi.insurable ? formatCurrency(lmi.totalPremium) : 'Not available'}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Total loan</span>
+                  <span className="font-semibold">{formatCurrency(lmi.totalLoanAmount)}</span>
+                </div>
+              </>
+            )}
+            <div className="flex justify-between">
+              <span>Monthly repayment at {interestRate.toFixed(2)}%</span>
+              <span className="font-semibold">{formatCurrency(monthlyRepayment)}</span>
+            </div>
+          </div>
         </div>
       </div>
     </div>
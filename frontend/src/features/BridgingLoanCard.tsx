@@ -0,0 +1,80 @@
+import React from 'react';
+import { analyseBridgingLoan, AustralianState } from 'calc-engine';
+import { BridgingLoanView } from './BridgingLoanView';
+
+export const BridgingLoanCard: React.FC = () => {
+  const [existingLoanBalance, setExistingLoanBalance] = React.useState(350_000);
+  const [expectedSalePrice, setExpectedSalePrice] = React.useState(900_000);
+  const [sellingCostRate, setSellingCostRate] = React.useState(2.5); // % of sale price
+  const [purchasePrice, setPurchasePrice] = React.useState(1_200_000);
+  const [propertyState, setPropertyState] = React.useState<AustralianState>('NSW');
+  const [cashContribution, setCashContribution] = React.useState(0);
+  const [bridgingRate, setBridgingRate] = React.useState(7.5); // % p.a.
+  const [bridgingMonths, setBridgingMonths] = React.useState(6);
+  const [endDebtRate, setEndDebtRate] = React.useState(6); // % p.a.
+  const [endDebtYears, setEndDebtYears] = React.useState(30);
+
+  const startDate = React.useMemo(() => new Date().toISOString().slice(0, 10), []);
+
+  const analysis = React.useMemo(
+    () =>
+      analyseBridgingLoan({
+        existingLoanBalance,
+        purchasePrice,
+        state: propertyState,
+        purchaseCosts: 3_000,
+        cashContribution,
+        bridgingRate,
+        bridgingMonths,
+        expectedSalePrice,
+        sellingCostRate,
+        endDebtLoan: {
+          annualRate: endDebtRate,
+          years: endDebtYears,
+          frequency: 'monthly',
+          repaymentType: 'principalAndInterest',
+          repaymentStrategy: 'reduceTerm',
+        },
+        startDate,
+      }),
+    [
+      existingLoanBalance,
+      purchasePrice,
+      propertyState,
+      cashContribution,
+      bridgingRate,
+      bridgingMonths,
+      expectedSalePrice,
+      sellingCostRate,
+      endDebtRate,
+      endDebtYears,
+      startDate,
+    ]
+  );
+
+  return (
+    <BridgingLoanView
+      existingLoanBalance={existingLoanBalance}
+      onExistingLoanBalanceChange={setExistingLoanBalance}
+      expectedSalePrice={expectedSalePrice}
+      onExpectedSalePriceChange={setExpectedSalePrice}
+      sellingCostRate={sellingCostRate}
+      onSellingCostRateChange={setSellingCostRate}
+      purchasePrice={purchasePrice}
+      onPurchasePriceChange={setPurchasePrice}
+      propertyState={propertyState}
+      onPropertyStateChange={setPropertyState}
+      cashContribution={cashContribution}
+      onCashContributionChange={setCashContribution}
+      bridgingRate={bridgingRate}
+      onBridgingRateChange={setBridgingRate}
+      bridgingMonths={bridgingMonths}
+      onBridgingMonthsChange={setBridgingMonths}
+      endDebtRate={endDebtRate}
+      onEndDebtRateChange={setEndDebtRate}
+      endDebtYears={endDebtYears}
+      onEndDebtYearsChange={setEndDebtYears}
+      analysis={analysis}
+    />
+  );
+};
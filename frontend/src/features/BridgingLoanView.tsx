@@ -0,0 +1,167 @@
+import React from 'react';
+import { CurrencyInput, NumberInput, PercentInput, StateSelect } from '../components/inputs';
+import { StatCard } from '../components/StatCard';
+import { formatCurrency } from '../lib/formatters';
+import { AustralianState, BridgingLoanResult, BridgingScenario } from 'calc-engine';
+
+interface BridgingLoanViewProps {
+  existingLoanBalance: number;
+  onExistingLoanBalanceChange: (value: number) => void;
+  expectedSalePrice: number;
+  onExpectedSalePriceChange: (value: number) => void;
+  sellingCostRate: number;
+  onSellingCostRateChange: (value: number) => void;
+  purchasePrice: number;
+  onPurchasePriceChange: (value: number) => void;
+  propertyState: AustralianState;
+  onPropertyStateChange: (value: AustralianState) => void;
+  cashContribution: number;
+  onCashContributionChange: (value: number) => void;
+  bridgingRate: number;
+  onBridgingRateChange: (value: number) => void;
+  bridgingMonths: number;
+  onBridgingMonthsChange: (value: number) => void;
+  endDebtRate: number;
+  onEndDebtRateChange: (value: number) => void;
+  endDebtYears: number;
+  onEndDebtYearsChange: (value: number) => void;
+  analysis: BridgingLoanResult;
+}
+
+const formatChange = (value: number) => (Math.abs(value) < 0.5 ? '—' : `${value > 0 ? '+' : '−'}${formatCurrency(Math.abs(value))}`);
+
+const SensitivityTable: React.FC<{ label: string; scenarios: BridgingScenario[]; describe: (scenario: BridgingScenario) => string }> = ({
+  label,
+  scenarios,
+  describe,
+}) => (
+  <div className="overflow-x-auto rounded-2xl border border-slate-200 dark:border-dark-border">
+    <table className="w-full text-xs text-slate-600 dark:text-dark-text">
+      <thead className="text-left text-slate-400 dark:text-dark-muted">
+        <tr>
+          <th className="px-3 py-2">{label}</th>
+          <th className="px-3 py-2 text-right">End debt</th>
+          <th className="px-3 py-2 text-right">Change</th>
+          <th className="px-3 py-2 text-right">Repayment</th>
+        </tr>
+      </thead>
+      <tbody>
+        {scenarios.map((scenario) => (
+          <tr key={describe(scenario)} className="border-t border-slate-100 dark:border-dark-border">
+            <td className="px-3 py-1.5">{describe(scenario)}</td>
+            <td className="px-3 py-1.5 text-right font-semibold">
+              {scenario.surplus > 0 ? (
+                <span className="text-green-600 dark:text-green-400">{formatCurrency(scenario.surplus)} surplus</span>
+              ) : (
+                formatCurrency(scenario.endDebt)
+              )}
+            </td>
+            <td className="px-3 py-1.5 text-right">{formatChange(scenario.endDebtChange)}</td>
+            <td className="px-3 py-1.5 text-right">{formatCurrency(scenario.regularPayment)}/mth</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export const BridgingLoanView: React.FC<BridgingLoanViewProps> = ({
+  existingLoanBalance,
+  onExistingLoanBalanceChange,
+  expectedSalePrice,
+  onExpectedSalePriceChange,
+  sellingCostRate,
+  onSellingCostRateChange,
+  purchasePrice,
+  onPurchasePriceChange,
+  propertyState,
+  onPropertyStateChange,
+  cashContribution,
+  onCashContributionChange,
+  bridgingRate,
+  onBridgingRateChange,
+  bridgingMonths,
+  onBridgingMonthsChange,
+  endDebtRate,
+  onEndDebtRateChange,
+  endDebtYears,
+  onEndDebtYearsChange,
+  analysis,
+}) => {
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4 text-sm">
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-dark-muted">Selling</p>
+        <div className="grid grid-cols-2 gap-3">
+          <CurrencyInput label="Current loan" value={existingLoanBalance} onChange={onExistingLoanBalanceChange} />
+          <CurrencyInput label="Expected sale price" value={expectedSalePrice} onChange={onExpectedSalePriceChange} />
+          <PercentInput label="Selling costs (%)" value={sellingCostRate} onChange={onSellingCostRateChange} asPercentage />
+          <NumberInput
+            label="Time to sell"
+            value={bridgingMonths}
+            onChange={onBridgingMonthsChange}
+            min={1}
+            max={12}
+            suffix="mths"
+          />
+        </div>
+
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-dark-muted">Buying</p>
+        <div className="grid grid-cols-2 gap-3">
+          <CurrencyInput label="Purchase price" value={purchasePrice} onChange={onPurchasePriceChange} />
+          <StateSelect value={propertyState} onChange={onPropertyStateChange} />
+          <CurrencyInput label="Cash to put in" value={cashContribution} onChange={onCashContributionChange} />
+          <PercentInput label="Bridging rate (%)" value={bridgingRate} onChange={onBridgingRateChange} asPercentage />
+          <PercentInput label="End debt rate (%)" value={endDebtRate} onChange={onEndDebtRateChange} asPercentage />
+          <NumberInput label="End debt term (years)" value={endDebtYears} onChange={onEndDebtYearsChange} min={1} max={30} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <StatCard
+          label="Peak debt"
+          value={formatCurrency(analysis.peakDebt)}
+          subtitle={`${analysis.peakDebtLvr.toFixed(1)}% of both properties`}
+          variant={analysis.peakDebtLvr > 80 ? 'warning' : 'default'}
+        />
+        <StatCard
+          label="Interest capitalised"
+          value={formatCurrency(analysis.capitalisedInterest)}
+          subtitle={`Over ${analysis.months.length} months`}
+          variant="warning"
+        />
+        {analysis.surplus > 0 ? (
+          <StatCard
+            label="Surplus after the sale"
+            value={formatCurrency(analysis.surplus)}
+            subtitle="Bridge cleared with no end debt"
+            variant="success"
+          />
+        ) : (
+          <StatCard
+            label="End debt"
+            value={formatCurrency(analysis.endDebt)}
+            subtitle={`${analysis.endDebtLvr.toFixed(1)}% LVR`}
+            variant={analysis.endDebtLvr > 80 ? 'warning' : 'success'}
+          />
+        )}
+        <StatCard
+          label="Repayments after the sale"
+          value={`${formatCurrency(analysis.endDebtLoan.summary.regularPayment)}/mth`}
+          subtitle={`Net sale proceeds ${formatCurrency(analysis.netSaleProceeds)}`}
+        />
+      </div>
+
+      <SensitivityTable
+        label="Sale price"
+        scenarios={analysis.salePriceSensitivity}
+        describe={(scenario) => formatCurrency(scenario.salePrice)}
+      />
+      <SensitivityTable
+        label="Sold after"
+        scenarios={analysis.saleTimingSensitivity}
+        describe={(scenario) => `${scenario.saleMonths} months`}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { generateConstructionLoan } from 'calc-engine';
+import { ConstructionLoanView } from './ConstructionLoanView';
+
+export const ConstructionLoanCard: React.FC = () => {
+  const [landAmount, setLandAmount] = React.useState(400_000);
+  const [contractPrice, setContractPrice] = React.useState(450_000);
+  const [cashContribution, setCashContribution] = React.useState(50_000);
+  const [buildMonths, setBuildMonths] = React.useState(12);
+  const [interestRate, setInterestRate] = React.useState(6.5); // % p.a.
+  const [loanYears, setLoanYears] = React.useState(30);
+
+  const startDate = React.useMemo(() => new Date().toISOString().slice(0, 10), []);
+
+  const loan = React.useMemo(
+    () =>
+      generateConstructionLoan({
+        landAmount,
+        contractPrice,
+        cashContribution,
+        buildMonths,
+        annualRate: interestRate,
+        years: loanYears,
+        startDate,
+      }),
+    [landAmount, contractPrice, cashContribution, buildMonths, interestRate, loanYears, startDate]
+  );
+
+  return (
+    <ConstructionLoanView
+      landAmount={landAmount}
+      onLandAmountChange={setLandAmount}
+      contractPrice={contractPrice}
+      onContractPriceChange={setContractPrice}
+      cashContribution={cashContribution}
+      onCashContributionChange={setCashContribution}
+      buildMonths={buildMonths}
+      onBuildMonthsChange={setBuildMonths}
+      interestRate={interestRate}
+      onInterestRateChange={setInterestRate}
+      loanYears={loanYears}
+      onLoanYearsChange={setLoanYears}
+      loan={loan}
+    />
+  );
+};
@@ -0,0 +1,106 @@
+import React from 'react';
+import { CurrencyInput, NumberInput, PercentInput } from '../components/inputs';
+import { StatCard } from '../components/StatCard';
+import { BalanceChart } from '../graphs/RepaymentCharts';
+import { formatCurrency } from '../lib/formatters';
+import { ConstructionLoanResult } from 'calc-engine';
+
+interface ConstructionLoanViewProps {
+  landAmount: number;
+  onLandAmountChange: (value: number) => void;
+  contractPrice: number;
+  onContractPriceChange: (value: number) => void;
+  cashContribution: number;
+  onCashContributionChange: (value: number) => void;
+  buildMonths: number;
+  onBuildMonthsChange: (value: number) => void;
+  interestRate: number;
+  onInterestRateChange: (value: number) => void;
+  loanYears: number;
+  onLoanYearsChange: (value: number) => void;
+  loan: ConstructionLoanResult;
+}
+
+const formatMonthYear = (date: string) =>
+  new Date(date).toLocaleDateString('en-AU', { month: 'short', year: 'numeric' });
+
+export const ConstructionLoanView: React.FC<ConstructionLoanViewProps> = ({
+  landAmount,
+  onLandAmountChange,
+  contractPrice,
+  onContractPriceChange,
+  cashContribution,
+  onCashContributionChange,
+  buildMonths,
+  onBuildMonthsChange,
+  interestRate,
+  onInterestRateChange,
+  loanYears,
+  onLoanYearsChange,
+  loan,
+}) => {
+  const ioExpiry = loan.summary.interestOnlyExpiry;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        <CurrencyInput label="Land loan" value={landAmount} onChange={onLandAmountChange} />
+        <CurrencyInput label="Build contract" value={contractPrice} onChange={onContractPriceChange} />
+        <CurrencyInput label="Your contribution" value={cashContribution} onChange={onCashContributionChange} />
+        <NumberInput label="Build time" value={buildMonths} onChange={onBuildMonthsChange} min={1} max={36} suffix="mths" />
+        <PercentInput label="Interest rate (%)" value={interestRate} onChange={onInterestRateChange} asPercentage />
+        <NumberInput label="Term (years)" value={loanYears} onChange={onLoanYearsChange} min={2} max={40} />
+      </div>
+      <p className="text-xs text-slate-500 dark:text-dark-muted">
+        For a knockdown-rebuild, enter your existing loan as the land loan.
+      </p>
+
+      <div className="grid grid-cols-2 gap-3">
+        <StatCard
+          label="Holding cost of the build"
+          value={formatCurrency(loan.holdingCost.total)}
+          subtitle={`Interest-only until ${formatMonthYear(loan.completionDate)}`}
+          variant="warning"
+        />
+        <StatCard
+          label="Repayments from completion"
+          value={`${formatCurrency(loan.summary.regularPayment)}/mth`}
+          subtitle={ioExpiry ? `Up ${formatCurrency(ioExpiry.repaymentShock)} on the last IO payment` : undefined}
+        />
+      </div>
+
+      <div className="overflow-x-auto rounded-2xl border border-slate-200 dark:border-dark-border">
+        <table className="w-full text-xs text-slate-600 dark:text-dark-text">
+          <thead className="text-left text-slate-400 dark:text-dark-muted">
+            <tr>
+              <th className="px-3 py-2">Stage</th>
+              <th className="px-3 py-2">Paid</th>
+              <th className="px-3 py-2 text-right">Payment</th>
+              <th className="px-3 py-2 text-right">From loan</th>
+              <th className="px-3 py-2 text-right">Undrawn after</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loan.drawdowns.map((draw) => (
+              <tr key={draw.stage} className="border-t border-slate-100 dark:border-dark-border">
+                <td className="px-3 py-1.5">{draw.stage}</td>
+                <td className="px-3 py-1.5">{formatMonthYear(draw.date)}</td>
+                <td className="px-3 py-1.5 text-right">{formatCurrency(draw.amount)}</td>
+                <td className="px-3 py-1.5 text-right">{formatCurrency(draw.fromLoan)}</td>
+                <td className="px-3 py-1.5 text-right font-semibold">
+                  {formatCurrency(loan.schedule[draw.month]?.undrawn ?? 0)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <BalanceChart
+        schedule={loan.schedule}
+        height={280}
+        markers={[{ monthIndex: 0, endMonthIndex: loan.completionMonth, label: 'Build' }]}
+      />
+    </div>
+  );
+};
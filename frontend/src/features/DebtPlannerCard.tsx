@@ -0,0 +1,89 @@
+import React from 'react';
+import { BorrowingCapacityInputs, DebtAccount, planDebtPayoff } from 'calc-engine';
+import { DebtPlannerView, DebtEntry } from './DebtPlannerView';
+
+interface DebtPlannerCardProps {
+  capacityInputs: BorrowingCapacityInputs;
+  mortgageRate: number;
+}
+
+const createId = () =>
+  globalThis.crypto?.randomUUID?.() ?? `entry-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+
+export const DebtPlannerCard: React.FC<DebtPlannerCardProps> = ({ capacityInputs, mortgageRate }) => {
+  const [debts, setDebts] = React.useState<DebtEntry[]>(() => [
+    {
+      id: createId(),
+      name: 'Credit card',
+      kind: 'creditCard',
+      balance: 6000,
+      annualRate: 20.99,
+      monthlyRepayment: 180,
+      monthlyFee: 0,
+      limit: 10000,
+    },
+    {
+      id: createId(),
+      name: 'Car loan',
+      kind: 'carLoan',
+      balance: 15000,
+      annualRate: 9.5,
+      monthlyRepayment: 420,
+      monthlyFee: 0,
+    },
+  ]);
+  const [monthlyBudget, setMonthlyBudget] = React.useState(1000);
+  const [consolidateYears, setConsolidateYears] = React.useState(25);
+
+  const startDate = React.useMemo(() => new Date().toISOString().slice(0, 10), []);
+
+  const plan = React.useMemo(() => {
+    // The planner's debts replace whatever the borrowing power calculator assumed
+    const { creditCardLimits: _cards, personalLoans: _personal, carLoans: _car, ...capacity } = capacityInputs;
+    return planDebtPayoff({
+      debts: debts.map(({ id: _id, ...debt }): DebtAccount => debt),
+      monthlyBudget,
+      startDate,
+      consolidation: { annualRate: mortgageRate, years: consolidateYears },
+      capacity,
+    });
+  }, [capacityInputs, debts, monthlyBudget, startDate, mortgageRate, consolidateYears]);
+
+  const handleAddDebt = () => {
+    setDebts((prev) => [
+      ...prev,
+      {
+        id: createId(),
+        name: `Debt ${prev.length + 1}`,
+        kind: 'personalLoan',
+        balance: 5000,
+        annualRate: 12,
+        monthlyRepayment: 150,
+        monthlyFee: 0,
+      },
+    ]);
+  };
+
+  const handleUpdateDebt = (id: string, data: Partial<DebtEntry>) => {
+    setDebts((prev) => prev.map((debt) => (debt.id === id ? { ...debt, ...data } : debt)));
+  };
+
+  const handleRemoveDebt = (id: string) => {
+    setDebts((prev) => prev.filter((debt) => debt.id !== id));
+  };
+
+  return (
+    <DebtPlannerView
+      debts={debts}
+      onAddDebt={handleAddDebt}
+      onDebtUpdate={handleUpdateDebt}
+      onDebtRemove={handleRemoveDebt}
+      monthlyBudget={monthlyBudget}
+      onMonthlyBudgetChange={setMonthlyBudget}
+      mortgageRate={mortgageRate}
+      consolidateYears={consolidateYears}
+      onConsolidateYearsChange={setConsolidateYears}
+      plan={plan}
+    />
+  );
+};
@@ -0,0 +1,229 @@
+import React from 'react';
+import { CurrencyInput, NumberInput } from '../components/inputs';
+import { StatCard } from '../components/StatCard';
+import { BalanceChart } from '../graphs/RepaymentCharts';
+import { formatCurrency } from '../lib/formatters';
+import { DebtKind, DebtPlanResult, DebtStrategy } from 'calc-engine';
+
+export type DebtEntry = {
+  id: string;
+  name: string;
+  kind: DebtKind;
+  balance: number;
+  annualRate: number;
+  monthlyRepayment: number;
+  monthlyFee: number;
+  limit?: number;
+};
+
+interface DebtPlannerViewProps {
+  debts: DebtEntry[];
+  onAddDebt: () => void;
+  onDebtUpdate: (id: string, data: Partial<DebtEntry>) => void;
+  onDebtRemove: (id: string) => void;
+  monthlyBudget: number;
+  onMonthlyBudgetChange: (value: number) => void;
+  mortgageRate: number;
+  consolidateYears: number;
+  onConsolidateYearsChange: (value: number) => void;
+  plan: DebtPlanResult;
+}
+
+const kindLabels: Record<DebtKind, string> = {
+  creditCard: 'Credit card',
+  personalLoan: 'Personal loan',
+  carLoan: 'Car loan',
+  bnpl: 'Buy now pay later',
+};
+
+const strategyLabels: Record<DebtStrategy, string> = {
+  avalanche: 'Avalanche (highest rate first)',
+  snowball: 'Snowball (smallest balance first)',
+  consolidate: 'Consolidate into mortgage',
+};
+
+const formatMonths = (months: number) => {
+  const years = Math.floor(months / 12);
+  const remainder = months % 12;
+  return years > 0 ? `${years}y ${remainder}m` : `${remainder}m`;
+};
+
+export const DebtPlannerView: React.FC<DebtPlannerViewProps> = ({
+  debts,
+  onAddDebt,
+  onDebtUpdate,
+  onDebtRemove,
+  monthlyBudget,
+  onMonthlyBudgetChange,
+  mortgageRate,
+  consolidateYears,
+  onConsolidateYearsChange,
+  plan,
+}) => {
+  const avalanche = plan.strategies.find((strategy) => strategy.strategy === 'avalanche');
+  const snowball = plan.strategies.find((strategy) => strategy.strategy === 'snowball');
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="mb-2 flex items-center justify-between text-xs font-semibold text-slate-600 dark:text-dark-text">
+          <span>Debts</span>
+          <button
+            type="button"
+            onClick={onAddDebt}
+            className="rounded-full border border-brand-500 px-3 py-1 text-[11px] font-semibold text-brand-500"
+          >
+            Add
+          </button>
+        </div>
+        {debts.length === 0 ? (
+          <p className="text-xs text-slate-500 dark:text-dark-muted">No debts added yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {debts.map((debt) => (
+              <div key={debt.id} className="space-y-2 rounded-2xl border border-slate-200 p-3 text-xs dark:border-dark-border">
+                <div className="flex items-center gap-3 font-semibold text-slate-600 dark:text-dark-text">
+                  <input
+                    type="text"
+                    value={debt.name}
+                    onChange={(event) => onDebtUpdate(debt.id, { name: event.target.value })}
+                    className="w-full rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold text-slate-600 focus:outline-none focus:ring dark:border-dark-border dark:bg-transparent dark:text-dark-text"
+                  />
+                  <select
+                    value={debt.kind}
+                    onChange={(event) => onDebtUpdate(debt.id, { kind: event.target.value as DebtKind })}
+                    className="rounded-full border border-slate-200 bg-white px-2 py-1 text-xs dark:border-dark-border dark:bg-dark-surface dark:text-white"
+                  >
+                    {(Object.keys(kindLabels) as DebtKind[]).map((kind) => (
+                      <option key={kind} value={kind}>
+                        {kindLabels[kind]}
+                      </option>
+                    ))}
+                  </select>
+                  <button type="button" className="text-brand-500" onClick={() => onDebtRemove(debt.id)}>
+                    Remove
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <CurrencyInput label="Balance" value={debt.balance} onChange={(value) => onDebtUpdate(debt.id, { balance: value })} />
+                  <NumberInput
+                    label="Rate (%)"
+                    value={debt.annualRate}
+                    onChange={(value) => onDebtUpdate(debt.id, { annualRate: value })}
+                    min={0}
+                    step={0.1}
+                  />
+                  <CurrencyInput
+                    label="Minimum"
+                    value={debt.monthlyRepayment}
+                    onChange={(value) => onDebtUpdate(debt.id, { monthlyRepayment: value })}
+                    suffix="/mth"
+                  />
+                  <CurrencyInput
+                    label="Fees"
+                    value={debt.monthlyFee}
+                    onChange={(value) => onDebtUpdate(debt.id, { monthlyFee: value })}
+                    suffix="/mth"
+                  />
+                  {debt.kind === 'creditCard' && (
+                    <CurrencyInput
+                      label="Card limit"
+                      value={debt.limit ?? debt.balance}
+                      onChange={(value) => onDebtUpdate(debt.id, { limit: value })}
+                    />
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        <CurrencyInput label="Monthly budget" value={monthlyBudget} onChange={onMonthlyBudgetChange} suffix="/mth" />
+        <NumberInput label="Mortgage term left" value={consolidateYears} onChange={onConsolidateYearsChange} suffix="/yrs" />
+      </div>
+      {plan.budgetShortfall > 0 && (
+        <p className="text-xs text-amber-700 dark:text-amber-300">
+          Minimum repayments are {formatCurrency(plan.totalMinimumRepayments)} a month, {formatCurrency(plan.budgetShortfall)} more than your budget.
+        </p>
+      )}
+
+      {plan.borrowingPower && (
+        <div className={`grid gap-3 ${plan.borrowingPower.consolidated !== undefined ? 'grid-cols-3' : 'grid-cols-2'}`}>
+          <StatCard label="Borrowing power today" value={formatCurrency(plan.borrowingPower.withDebts)} />
+          <StatCard
+            label="Once debt-free"
+            value={formatCurrency(plan.borrowingPower.debtFree)}
+            subtitle={`+${formatCurrency(plan.borrowingPower.gain)}`}
+            variant="success"
+          />
+          {plan.borrowingPower.consolidated !== undefined && (
+            <StatCard
+              label="Once consolidated"
+              value={formatCurrency(plan.borrowingPower.consolidated)}
+              subtitle={`${(plan.borrowingPower.consolidatedGain ?? 0) >= 0 ? '+' : '-'}${formatCurrency(Math.abs(plan.borrowingPower.consolidatedGain ?? 0))}`}
+            />
+          )}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {plan.strategies.map((strategy) => (
+          <div
+            key={strategy.strategy}
+            className={`space-y-1 rounded-2xl border px-4 py-3 text-xs text-slate-600 dark:text-dark-text ${
+              plan.best === strategy.strategy
+                ? 'border-green-200 dark:border-green-700'
+                : 'border-slate-200 dark:border-dark-border'
+            }`}
+          >
+            <div className="flex justify-between text-sm font-semibold text-slate-900 dark:text-white">
+              <span>{strategyLabels[strategy.strategy]}</span>
+              {plan.best === strategy.strategy && <span className="text-green-700 dark:text-green-300">Cheapest</span>}
+            </div>
+            {strategy.strategy === 'consolidate' && (
+              <p className="text-[11px] text-slate-400 dark:text-dark-muted">
+                At {mortgageRate.toFixed(2)}% over up to {consolidateYears} years, repaid with the same budget
+              </p>
+            )}
+            <div className="flex justify-between">
+              <span>Debt-free in</span>
+              <span className="font-semibold">
+                {strategy.cleared ? formatMonths(strategy.monthsToDebtFree) : 'Not with this budget'}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span>Interest</span>
+              <span className="font-semibold">{formatCurrency(strategy.totalInterest)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Fees</span>
+              <span className="font-semibold">{formatCurrency(strategy.totalFees)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Total paid</span>
+              <span className="font-semibold">{formatCurrency(strategy.totalPaid)}</span>
+            </div>
+            {strategy.strategy !== 'consolidate' && strategy.payoffOrder.length > 0 && (
+              <div className="flex justify-between">
+                <span>Order</span>
+                <span className="font-semibold">{strategy.payoffOrder.join(' → ')}</span>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {avalanche && snowball && avalanche.schedule.length > 0 && (
+        <BalanceChart
+          schedule={avalanche.schedule}
+          overlaySchedule={snowball.schedule}
+          primaryName="Avalanche"
+          overlayName="Snowball"
+          showLegend
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React from 'react';
+import { AustralianState, DEFAULT_TAX_YEAR, PayCalculateRequest, planDepositSavings } from 'calc-engine';
+import { usePayProfile } from '../contexts/PayProfileContext';
+import { DepositPlannerView, SavingsMode } from './DepositPlannerView';
+
+export const DepositPlannerCard: React.FC = () => {
+  const { payRequest } = usePayProfile();
+
+  // Used until a salary is entered on the Pay & Tax page
+  const [salary, setSalary] = React.useState(100_000);
+
+  const [savingsMode, setSavingsMode] = React.useState<SavingsMode>('rate');
+  const [savingsRate, setSavingsRate] = React.useState(25); // % of net pay
+  const [monthlySavings, setMonthlySavings] = React.useState(1_500);
+  const [currentSavings, setCurrentSavings] = React.useState(30_000);
+  const [savingsInterestRate, setSavingsInterestRate] = React.useState(4.5); // % p.a.
+
+  const [propertyState, setPropertyState] = React.useState<AustralianState>('NSW');
+  const [targetPrice, setTargetPrice] = React.useState(700_000);
+  const [priceGrowthRate, setPriceGrowthRate] = React.useState(5); // % p.a.
+  const [depositPercent, setDepositPercent] = React.useState(20);
+  const [firstHomeBuyer, setFirstHomeBuyer] = React.useState(true);
+  const [capitaliseLmi, setCapitaliseLmi] = React.useState(true);
+
+  const startDate = React.useMemo(() => new Date().toISOString().slice(0, 10), []);
+
+  const pay = React.useMemo<PayCalculateRequest>(
+    () =>
+      payRequest ?? {
+        taxYear: DEFAULT_TAX_YEAR,
+        annualSalary: salary,
+        frequency: 'monthly',
+        hasHELP: false,
+        medicareExempt: false,
+        deductions: 0,
+        includeSuper: false,
+        superRate: 0.12,
+      },
+    [payRequest, salary]
+  );
+
+  const plan = React.useMemo(
+    () =>
+      planDepositSavings({
+        pay,
+        savingsRate,
+        monthlySavings: savingsMode === 'budget' ? monthlySavings : undefined,
+        currentSavings,
+        savingsInterestRate,
+        targetPrice,
+        priceGrowthRate,
+        depositPercent: depositPercent / 100,
+        state: propertyState,
+        firstHomeBuyer,
+        capitaliseLmi,
+        purchaseCosts: 3_000,
+        startDate,
+      }),
+    [
+      pay,
+      savingsMode,
+      savingsRate,
+      monthlySavings,
+      currentSavings,
+      savingsInterestRate,
+      targetPrice,
+      priceGrowthRate,
+      depositPercent,
+      propertyState,
+      firstHomeBuyer,
+      capitaliseLmi,
+      startDate,
+    ]
+  );
+
+  return (
+    <DepositPlannerView
+      payFromProfile={payRequest !== null}
+      annualSalary={pay.annualSalary}
+      onSalaryChange={setSalary}
+      savingsMode={savingsMode}
+      onSavingsModeChange={setSavingsMode}
+      savingsRate={savingsRate}
+      onSavingsRateChange={setSavingsRate}
+      monthlySavings={monthlySavings}
+      onMonthlySavingsChange={setMonthlySavings}
+      currentSavings={currentSavings}
+      onCurrentSavingsChange={setCurrentSavings}
+      savingsInterestRate={savingsInterestRate}
+      onSavingsInterestRateChange={setSavingsInterestRate}
+      propertyState={propertyState}
+      onPropertyStateChange={setPropertyState}
+      targetPrice={targetPrice}
+      onTargetPriceChange={setTargetPrice}
+      priceGrowthRate={priceGrowthRate}
+      onPriceGrowthRateChange={setPriceGrowthRate}
+      depositPercent={depositPercent}
+      onDepositPercentChange={setDepositPercent}
+      firstHomeBuyer={firstHomeBuyer}
+      onFirstHomeBuyerChange={setFirstHomeBuyer}
+      capitaliseLmi={capitaliseLmi}
+      onCapitaliseLmiChange={setCapitaliseLmi}
+      plan={plan}
+    />
+  );
+};
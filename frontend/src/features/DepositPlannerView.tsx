@@ -0,0 +1,224 @@
+import React from 'react';
+import { NavLink } from 'react-router-dom';
+import { ToggleGroup, ToggleOption } from '../components/ToggleGroup';
+import { CurrencyInput, PercentInput, StateSelect } from '../components/inputs';
+import { StatCard } from '../components/StatCard';
+import { SavingsGoalChart } from '../graphs/WealthCharts';
+import { formatCurrency } from '../lib/formatters';
+import { AustralianState, DepositSavingsResult } from 'calc-engine';
+
+export type SavingsMode = 'rate' | 'budget';
+
+interface DepositPlannerViewProps {
+  payFromProfile: boolean;
+  annualSalary: number;
+  onSalaryChange: (value: number) => void;
+  savingsMode: SavingsMode;
+  onSavingsModeChange: (value: SavingsMode) => void;
+  savingsRate: number;
+  onSavingsRateChange: (value: number) => void;
+  monthlySavings: number;
+  onMonthlySavingsChange: (value: number) => void;
+  currentSavings: number;
+  onCurrentSavingsChange: (value: number) => void;
+  savingsInterestRate: number;
+  onSavingsInterestRateChange: (value: number) => void;
+  propertyState: AustralianState;
+  onPropertyStateChange: (value: AustralianState) => void;
+  targetPrice: number;
+  onTargetPriceChange: (value: number) => void;
+  priceGrowthRate: number;
+  onPriceGrowthRateChange: (value: number) => void;
+  depositPercent: number;
+  onDepositPercentChange: (value: number) => void;
+  firstHomeBuyer: boolean;
+  onFirstHomeBuyerChange: (value: boolean) => void;
+  capitaliseLmi: boolean;
+  onCapitaliseLmiChange: (value: boolean) => void;
+  plan: DepositSavingsResult;
+}
+
+const savingsModeOptions: ToggleOption<SavingsMode>[] = [
+  { value: 'rate', label: '% of pay' },
+  { value: 'budget', label: 'Fixed amount' },
+];
+
+const depositOptions: ToggleOption<string>[] = [
+  { value: '5', label: '5%' },
+  { value: '10', label: '10%' },
+  { value: '15', label: '15%' },
+  { value: '20', label: '20%' },
+];
+
+const yesNoOptions: ToggleOption<string>[] = [
+  { value: 'no', label: 'No' },
+  { value: 'yes', label: 'Yes' },
+];
+
+const formatMonths = (months: number) => {
+  const years = Math.floor(months / 12);
+  const remainder = months % 12;
+  return years > 0 ? `${years}y ${remainder}m` : `${remainder}m`;
+};
+
+const formatMonthYear = (date: string) =>
+  new Date(date).toLocaleDateString('en-AU', { month: 'long', year: 'numeric' });
+
+export const DepositPlannerView: React.FC<DepositPlannerViewProps> = ({
+  payFromProfile,
+  annualSalary,
+  onSalaryChange,
+  savingsMode,
+  onSavingsModeChange,
+  savingsRate,
+  onSavingsRateChange,
+  monthlySavings,
+  onMonthlySavingsChange,
+  currentSavings,
+  onCurrentSavingsChange,
+  savingsInterestRate,
+  onSavingsInterestRateChange,
+  propertyState,
+  onPropertyStateChange,
+  targetPrice,
+  onTargetPriceChange,
+  priceGrowthRate,
+  onPriceGrowthRateChange,
+  depositPercent,
+  onDepositPercentChange,
+  firstHomeBuyer,
+  onFirstHomeBuyerChange,
+  capitaliseLmi,
+  onCapitaliseLmiChange,
+  plan,
+}) => {
+  const renderToggleRow = (label: string, value: boolean, onChange: (value: boolean) => void) => (
+    <div className="flex items-center justify-between">
+      <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-dark-muted">{label}</p>
+      <ToggleGroup
+        options={yesNoOptions}
+        value={value ? 'yes' : 'no'}
+        onChange={(val) => onChange(val === 'yes')}
+        size="sm"
+      />
+    </div>
+  );
+
+  const goal = plan.goalAtPurchase;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4 text-sm">
+        {payFromProfile ? (
+          <p className="rounded-2xl bg-slate-50 px-4 py-3 text-xs text-slate-600 dark:bg-dark-surface dark:text-dark-text">
+            Using your {formatCurrency(annualSalary)} salary from{' '}
+            <NavLink to="/pay-tax" className="font-semibold text-brand-500">
+              Pay & Tax
+            </NavLink>
+            : {formatCurrency(plan.monthlyNetPay)} a month after tax.
+          </p>
+        ) : (
+          <div className="space-y-1">
+            <CurrencyInput label="Gross salary" value={annualSalary} onChange={onSalaryChange} suffix="/yr" />
+            <p className="text-xs text-slate-500 dark:text-dark-muted">
+              Or enter your pay on the{' '}
+              <NavLink to="/pay-tax" className="font-semibold text-brand-500">
+                Pay & Tax
+              </NavLink>{' '}
+              page to use it here.
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-center">
+          <ToggleGroup options={savingsModeOptions} value={savingsMode} onChange={onSavingsModeChange} size="sm" />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          {savingsMode === 'rate' ? (
+            <PercentInput label="Saving (% of net pay)" value={savingsRate} onChange={onSavingsRateChange} asPercentage />
+          ) : (
+            <CurrencyInput label="Saving" value={monthlySavings} onChange={onMonthlySavingsChange} suffix="/mth" />
+          )}
+          <CurrencyInput label="Saved so far" value={currentSavings} onChange={onCurrentSavingsChange} />
+          <PercentInput
+            label="Savings interest (%)"
+            value={savingsInterestRate}
+            onChange={onSavingsInterestRateChange}
+            asPercentage
+          />
+        </div>
+
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-dark-muted">Target</p>
+        <div className="grid grid-cols-2 gap-3">
+          <CurrencyInput label="Price today" value={targetPrice} onChange={onTargetPriceChange} />
+          <StateSelect value={propertyState} onChange={onPropertyStateChange} />
+          <PercentInput label="Price growth (%)" value={priceGrowthRate} onChange={onPriceGrowthRateChange} asPercentage />
+        </div>
+        <div className="flex items-center justify-between">
+          <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-dark-muted">Deposit</p>
+          <ToggleGroup
+            options={depositOptions}
+            value={String(depositPercent)}
+            onChange={(val) => onDepositPercentChange(Number(val))}
+            size="sm"
+          />
+        </div>
+        {renderToggleRow('First home buyer', firstHomeBuyer, onFirstHomeBuyerChange)}
+        {depositPercent < 20 && renderToggleRow('Add LMI to loan', capitaliseLmi, onCapitaliseLmiChange)}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <StatCard
+          label="You could buy in"
+          value={plan.monthsToGoal !== undefined ? formatMonths(plan.monthsToGoal) : 'Out of reach'}
+          subtitle={plan.goalDate ? formatMonthYear(plan.goalDate) : 'Save more or lower the target'}
+          variant={plan.reached ? 'success' : 'warning'}
+        />
+        <StatCard
+          label="Rising prices add"
+          value={plan.priceGrowthDelay !== undefined ? formatMonths(plan.priceGrowthDelay) : '—'}
+          subtitle={
+            plan.monthsToGoalAtTodaysPrice !== undefined
+              ? `${formatMonths(plan.monthsToGoalAtTodaysPrice)} at today's price`
+              : undefined
+          }
+        />
+      </div>
+
+      <div className="space-y-1 rounded-2xl border border-slate-200 px-4 py-3 text-xs text-slate-600 dark:border-dark-border dark:text-dark-text">
+        <div className="flex justify-between">
+          <span>Saving each month</span>
+          <span className="font-semibold">{formatCurrency(plan.monthlySavings)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Price {plan.reached ? 'when you buy' : 'by then'}</span>
+          <span className="font-semibold">{formatCurrency(goal.purchasePrice)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Deposit ({depositPercent}%)</span>
+          <span className="font-semibold">{formatCurrency(goal.deposit)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Stamp duty & registration</span>
+          <span className="font-semibold">{formatCurrency(goal.transferDuty)}</span>
+        </div>
+        {goal.lmi > 0 && (
+          <div className="flex justify-between">
+            <span>LMI</span>
+            <span className="font-semibold">{formatCurrency(goal.lmi)}</span>
+          </div>
+        )}
+        <div className="flex justify-between">
+          <span>Legal & other costs</span>
+          <span className="font-semibold">{formatCurrency(goal.purchaseCosts)}</span>
+        </div>
+        <div className="flex justify-between border-t border-slate-100 pt-1 font-semibold dark:border-dark-border">
+          <span>Total needed</span>
+          <span>{formatCurrency(goal.total)}</span>
+        </div>
+      </div>
+
+      {plan.months.length > 0 && <SavingsGoalChart months={plan.months} />}
+    </div>
+  );
+};
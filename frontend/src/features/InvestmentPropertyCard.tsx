@@ -0,0 +1,117 @@
+import React from 'react';
+import {
+  DEFAULT_TAX_YEAR,
+  InvestmentPropertyExpenses,
+  RepaymentType,
+  analyseInvestmentProperty,
+} from 'calc-engine';
+import { InvestmentPropertyView } from './InvestmentPropertyView';
+
+export const InvestmentPropertyCard: React.FC = () => {
+  const [purchasePrice, setPurchasePrice] = React.useState(650_000);
+  const [weeklyRent, setWeeklyRent] = React.useState(550);
+  const [vacancyWeeks, setVacancyWeeks] = React.useState(2);
+  const [rentGrowthRate, setRentGrowthRate] = React.useState(3); // % p.a.
+  const [expenses, setExpenses] = React.useState<InvestmentPropertyExpenses>({
+    propertyManagementRate: 7,
+    strata: 0,
+    councilRates: 2_000,
+    insurance: 1_500,
+    maintenance: 1_500,
+    landTax: 0,
+  });
+  const [capitalWorksCost, setCapitalWorksCost] = React.useState(0);
+  const [plantValue, setPlantValue] = React.useState(0);
+
+  // Loan
+  const [loanAmount, setLoanAmount] = React.useState(520_000);
+  const [interestRate, setInterestRate] = React.useState(6.2); // % p.a.
+  const [loanYears, setLoanYears] = React.useState(30);
+  const [repaymentType, setRepaymentType] = React.useState<RepaymentType>('interestOnly');
+
+  // Owner
+  const [salary, setSalary] = React.useState(120_000);
+
+  const startDate = React.useMemo(() => new Date().toISOString().slice(0, 10), []);
+
+  const analysis = React.useMemo(
+    () =>
+      analyseInvestmentProperty({
+        purchasePrice,
+        weeklyRent,
+        vacancyWeeks,
+        rentGrowthRate,
+        expenseGrowthRate: rentGrowthRate,
+        expenses,
+        depreciation: { capitalWorksCost, plantValue },
+        loan: {
+          amount: loanAmount,
+          annualRate: interestRate,
+          years: loanYears,
+          frequency: 'monthly',
+          repaymentType,
+          repaymentStrategy: 'reduceTerm',
+          startDate,
+        },
+        owner: {
+          taxYear: DEFAULT_TAX_YEAR,
+          annualSalary: salary,
+          frequency: 'monthly',
+          hasHELP: false,
+          medicareExempt: false,
+          deductions: 0,
+          includeSuper: false,
+          superRate: 0.12,
+        },
+      }),
+    [
+      purchasePrice,
+      weeklyRent,
+      vacancyWeeks,
+      rentGrowthRate,
+      expenses,
+      capitalWorksCost,
+      plantValue,
+      loanAmount,
+      interestRate,
+      loanYears,
+      repaymentType,
+      salary,
+      startDate,
+    ]
+  );
+
+  const handleExpenseChange = (data: Partial<InvestmentPropertyExpenses>) => {
+    setExpenses((prev) => ({ ...prev, ...data }));
+  };
+
+  return (
+    <InvestmentPropertyView
+      purchasePrice={purchasePrice}
+      onPurchasePriceChange={setPurchasePrice}
+      weeklyRent={weeklyRent}
+      onWeeklyRentChange={setWeeklyRent}
+      vacancyWeeks={vacancyWeeks}
+      onVacancyWeeksChange={setVacancyWeeks}
+      rentGrowthRate={rentGrowthRate}
+      onRentGrowthRateChange={setRentGrowthRate}
+      expenses={expenses}
+      onExpenseChange={handleExpenseChange}
+      capitalWorksCost={capitalWorksCost}
+      onCapitalWorksCostChange={setCapitalWorksCost}
+      plantValue={plantValue}
+      onPlantValueChange={setPlantValue}
+      loanAmount={loanAmount}
+      onLoanAmountChange={setLoanAmount}
+      interestRate={interestRate}
+      onInterestRateChange={setInterestRate}
+      loanYears={loanYears}
+      onLoanYearsChange={setLoanYears}
+      repaymentType={repaymentType}
+      onRepaymentTypeChange={setRepaymentType}
+      salary={salary}
+      onSalaryChange={setSalary}
+      analysis={analysis}
+    />
+  );
+};
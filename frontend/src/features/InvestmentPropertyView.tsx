@@ -0,0 +1,190 @@
+import React from 'react';
+import { ToggleGroup, ToggleOption } from '../components/ToggleGroup';
+import { CurrencyInput, NumberInput, PercentInput } from '../components/inputs';
+import { StatCard } from '../components/StatCard';
+import { formatCurrency } from '../lib/formatters';
+import { InvestmentPropertyExpenses, InvestmentPropertyResult, RepaymentType } from 'calc-engine';
+
+interface InvestmentPropertyViewProps {
+  purchasePrice: number;
+  onPurchasePriceChange: (value: number) => void;
+  weeklyRent: number;
+  onWeeklyRentChange: (value: number) => void;
+  vacancyWeeks: number;
+  onVacancyWeeksChange: (value: number) => void;
+  rentGrowthRate: number;
+  onRentGrowthRateChange: (value: number) => void;
+  expenses: InvestmentPropertyExpenses;
+  onExpenseChange: (data: Partial<InvestmentPropertyExpenses>) => void;
+  capitalWorksCost: number;
+  onCapitalWorksCostChange: (value: number) => void;
+  plantValue: number;
+  onPlantValueChange: (value: number) => void;
+  loanAmount: number;
+  onLoanAmountChange: (value: number) => void;
+  interestRate: number;
+  onInterestRateChange: (value: number) => void;
+  loanYears: number;
+  onLoanYearsChange: (value: number) => void;
+  repaymentType: RepaymentType;
+  onRepaymentTypeChange: (value: RepaymentType) => void;
+  salary: number;
+  onSalaryChange: (value: number) => void;
+  analysis: InvestmentPropertyResult;
+}
+
+const repaymentTypeOptions: ToggleOption<RepaymentType>[] = [
+  { value: 'interestOnly', label: 'Interest only' },
+  { value: 'principalAndInterest', label: 'P&I' },
+];
+
+const formatWeekly = (annual: number) => `${formatCurrency(annual / 52)}/wk`;
+
+export const InvestmentPropertyView: React.FC<InvestmentPropertyViewProps> = ({
+  purchasePrice,
+  onPurchasePriceChange,
+  weeklyRent,
+  onWeeklyRentChange,
+  vacancyWeeks,
+  onVacancyWeeksChange,
+  rentGrowthRate,
+  onRentGrowthRateChange,
+  expenses,
+  onExpenseChange,
+  capitalWorksCost,
+  onCapitalWorksCostChange,
+  plantValue,
+  onPlantValueChange,
+  loanAmount,
+  onLoanAmountChange,
+  interestRate,
+  onInterestRateChange,
+  loanYears,
+  onLoanYearsChange,
+  repaymentType,
+  onRepaymentTypeChange,
+  salary,
+  onSalaryChange,
+  analysis,
+}) => {
+  const [first] = analysis.years;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4 text-sm">
+        <div className="grid grid-cols-2 gap-3">
+          <CurrencyInput label="Purchase price" value={purchasePrice} onChange={onPurchasePriceChange} />
+          <CurrencyInput label="Rent" value={weeklyRent} onChange={onWeeklyRentChange} suffix="/wk" />
+          <NumberInput label="Vacancy" value={vacancyWeeks} onChange={onVacancyWeeksChange} min={0} max={52} suffix="wks/yr" />
+          <PercentInput label="Rent & cost growth (%)" value={rentGrowthRate} onChange={onRentGrowthRateChange} asPercentage />
+        </div>
+
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-dark-muted">Yearly costs</p>
+        <div className="grid grid-cols-2 gap-3">
+          <PercentInput
+            label="Management (% of rent)"
+            value={expenses.propertyManagementRate}
+            onChange={(value) => onExpenseChange({ propertyManagementRate: value })}
+            asPercentage
+          />
+          <CurrencyInput label="Strata" value={expenses.strata} onChange={(value) => onExpenseChange({ strata: value })} />
+          <CurrencyInput
+            label="Council & water"
+            value={expenses.councilRates}
+            onChange={(value) => onExpenseChange({ councilRates: value })}
+          />
+          <CurrencyInput
+            label="Insurance"
+            value={expenses.insurance}
+            onChange={(value) => onExpenseChange({ insurance: value })}
+          />
+          <CurrencyInput
+            label="Maintenance"
+            value={expenses.maintenance}
+            onChange={(value) => onExpenseChange({ maintenance: value })}
+          />
+          <CurrencyInput
+            label="Land tax"
+            value={expenses.landTax ?? 0}
+            onChange={(value) => onExpenseChange({ landTax: value })}
+          />
+        </div>
+
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-dark-muted">Depreciation</p>
+        <div className="grid grid-cols-2 gap-3">
+          <CurrencyInput label="Construction cost (Div 43)" value={capitalWorksCost} onChange={onCapitalWorksCostChange} />
+          <CurrencyInput label="Plant & equipment (Div 40)" value={plantValue} onChange={onPlantValueChange} />
+        </div>
+
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-dark-muted">Loan & income</p>
+        <div className="grid grid-cols-2 gap-3">
+          <CurrencyInput label="Loan amount" value={loanAmount} onChange={onLoanAmountChange} />
+          <PercentInput label="Interest rate (%)" value={interestRate} onChange={onInterestRateChange} asPercentage />
+          <NumberInput label="Term" value={loanYears} onChange={onLoanYearsChange} min={1} max={40} suffix="/yrs" />
+          <CurrencyInput label="Your salary" value={salary} onChange={onSalaryChange} />
+        </div>
+        <div className="flex justify-center">
+          <ToggleGroup options={repaymentTypeOptions} value={repaymentType} onChange={onRepaymentTypeChange} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <StatCard
+          label="Holding cost before tax"
+          value={formatWeekly(first.preTaxHoldingCost)}
+          subtitle={`${formatCurrency(first.preTaxHoldingCost)} in year one`}
+        />
+        <StatCard
+          label="Holding cost after tax"
+          value={formatWeekly(first.afterTaxHoldingCost)}
+          subtitle={`${formatCurrency(first.taxBenefit)} tax saved`}
+          variant="primary"
+        />
+        <StatCard
+          label="Break-even rent"
+          value={`${formatCurrency(analysis.breakEvenWeeklyRent.preTax)}/wk`}
+          subtitle={`${formatCurrency(analysis.breakEvenWeeklyRent.afterTax)}/wk after tax`}
+        />
+        <StatCard
+          label="Gross yield"
+          value={`${analysis.grossYield.toFixed(2)}%`}
+          subtitle={`${analysis.netYield.toFixed(2)}% net`}
+          variant={analysis.negativelyGeared ? 'warning' : 'success'}
+        />
+      </div>
+
+      <div className="overflow-x-auto rounded-2xl border border-slate-200 dark:border-dark-border">
+        <table className="w-full text-xs text-slate-600 dark:text-dark-text">
+          <thead className="text-left text-slate-400 dark:text-dark-muted">
+            <tr>
+              <th className="px-3 py-2">Year</th>
+              <th className="px-3 py-2 text-right">Rent</th>
+              <th className="px-3 py-2 text-right">Deductions</th>
+              <th className="px-3 py-2 text-right">Net rental</th>
+              <th className="px-3 py-2 text-right">Before tax</th>
+              <th className="px-3 py-2 text-right">After tax</th>
+            </tr>
+          </thead>
+          <tbody>
+            {analysis.years.map((year) => (
+              <tr key={year.year} className="border-t border-slate-100 dark:border-dark-border">
+                <td className="px-3 py-1.5">{year.year}</td>
+                <td className="px-3 py-1.5 text-right">{formatCurrency(year.rentalIncome)}</td>
+                <td className="px-3 py-1.5 text-right">
+                  {formatCurrency(year.rentalIncome - year.netRentalResult)}
+                </td>
+                <td className="px-3 py-1.5 text-right">{formatCurrency(year.netRentalResult)}</td>
+                <td className="px-3 py-1.5 text-right">{formatCurrency(year.preTaxCashFlow)}</td>
+                <td className="px-3 py-1.5 text-right font-semibold">{formatCurrency(year.afterTaxCashFlow)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-slate-500 dark:text-dark-muted">
+        Tax benefit is the difference in tax on your salary with and without the net rental result, at current tax
+        rates. Excludes capital growth and capital gains tax.
+      </p>
+    </div>
+  );
+};
@@ -1,5 +1,15 @@
 import React from 'react';
-import { generateAmortisation, PeriodRow } from 'calc-engine';
+import {
+  calculateComparisonRate,
+  frequencyToPeriodsPerYear,
+  generateAmortisation,
+  ExtraRepayment,
+  FeeConfig,
+  LoanInputs,
+  OffsetConfig,
+  PeriodRow,
+  PropertyValueTrack,
+} from 'calc-engine';
 import {
   LoanCalculatorView,
   RepaymentFrequency,
@@ -9,159 +19,172 @@ import {
   RatePaymentSummary,
 } from './LoanCalculatorView';
 
+// Scheduled repayment in a row, leaving out any extra paid on top
+const scheduledRepayment = (row: PeriodRow) => row.interestCharged + row.principalPaid - row.extraRepayment;
+
 export const LoanCalculatorCard: React.FC = () => {
   const [loanAmount, setLoanAmount] = React.useState(650000);
   const [frequency, setFrequency] = React.useState<RepaymentFrequency>('monthly');
   const [interestRate, setInterestRate] = React.useState(5.85);
   const [termYears, setTermYears] = React.useState(30);
   const [repaymentType, setRepaymentType] = React.useState<'principal' | 'interestOnly'>('principal');
+  const [interestOnlyYears, setInterestOnlyYears] = React.useState(5);
   const [breakdownView, setBreakdownView] = React.useState<BreakdownView>('monthly');
   const [additionalRepayments, setAdditionalRepayments] = React.useState<AdditionalRepayment[]>([]);
   const [rateChanges, setRateChanges] = React.useState<RateChange[]>([]);
+  const [fees, setFees] = React.useState<FeeConfig>({ upfrontFee: 0, monthlyFee: 0, annualFee: 0 });
+  const [offsetEnabled, setOffsetEnabled] = React.useState(false);
+  const [offset, setOffset] = React.useState<OffsetConfig>({ startingBalance: 0, monthlyContribution: 0 });
+  const [propertyValueEnabled, setPropertyValueEnabled] = React.useState(false);
+  const [propertyValue, setPropertyValue] = React.useState(800000);
+  const [propertyGrowthRate, setPropertyGrowthRate] = React.useState(4);
 
   const createId = () =>
     (globalThis.crypto?.randomUUID?.() ?? `id-${Date.now()}-${Math.random().toString(16).slice(2)}`);
 
-  const result = React.useMemo(() => {
-    return generateAmortisation({
+  // An IO period shorter than the term reverts to P&I for the remainder
+  const revertsToPrincipal = repaymentType === 'interestOnly' && interestOnlyYears < termYears;
+
+  const propertyTrack = React.useMemo<PropertyValueTrack | undefined>(
+    () => (propertyValueEnabled ? { startValue: propertyValue, growthRate: propertyGrowthRate } : undefined),
+    [propertyValueEnabled, propertyValue, propertyGrowthRate]
+  );
+
+  const startDate = React.useMemo(() => new Date().toISOString().slice(0, 10), []);
+
+  const loanInputs = React.useMemo<LoanInputs>(
+    () => ({
       amount: loanAmount,
       annualRate: interestRate,
       years: termYears,
       frequency,
-      repaymentType: repaymentType === 'principal' ? 'principalAndInterest' : 'interestOnly',
+      repaymentType:
+        repaymentType === 'principal' || revertsToPrincipal ? 'principalAndInterest' : 'interestOnly',
+      interestOnlyYears: revertsToPrincipal ? interestOnlyYears : undefined,
       repaymentStrategy: 'reduceTerm',
-      startDate: new Date().toISOString().slice(0, 10),
-    });
-  }, [loanAmount, interestRate, termYears, frequency, repaymentType]);
-
-  const periodsPerYear = frequency === 'weekly' ? 52 : frequency === 'fortnightly' ? 26 : 12;
-  const repaymentPerPeriod =
-    repaymentType === 'interestOnly'
-      ? (loanAmount * (interestRate / 100)) / periodsPerYear
-      : result.summary.regularPayment;
-
-  const adjustedData = React.useMemo(() => {
-    const months = termYears * 12;
-    const basePeriodsPerYear = periodsPerYear;
-    const startDate = new Date();
-    let balance = loanAmount;
-    const rows: PeriodRow[] = [];
-    const payments: RatePaymentSummary[] = [];
-
-    const frequencyToFactor = (freq: RepaymentFrequency) =>
-      freq === 'weekly' ? 52 / 12 : freq === 'fortnightly' ? 26 / 12 : 1;
+      startDate,
+      fees,
+      offset: offsetEnabled ? offset : undefined,
+      propertyValue: propertyTrack,
+    }),
+    [
+      loanAmount,
+      interestRate,
+      termYears,
+      frequency,
+      repaymentType,
+      revertsToPrincipal,
+      interestOnlyYears,
+      startDate,
+      fees,
+      offsetEnabled,
+      offset,
+      propertyTrack,
+    ]
+  );
 
-    const calculateExtraRepaymentForMonth = (entry: AdditionalRepayment, month: number) => {
-      if (entry.frequency === 'oneOff') {
-        return month === entry.startMonth ? entry.amount : 0;
-      }
+  const result = React.useMemo(() => generateAmortisation(loanInputs), [loanInputs]);
 
-      if (entry.frequency === 'customMonths') {
-        if (month < entry.startMonth) return 0;
-        if (month > entry.endMonth) return 0;
-        const interval = entry.intervalMonths && entry.intervalMonths > 0 ? entry.intervalMonths : 1;
-        const offset = month - entry.startMonth;
-        return offset % interval === 0 ? entry.amount : 0;
-      }
+  const offsetInterestSaved = React.useMemo(
+    () => result.schedule.reduce((sum, row) => sum + row.offsetInterestSaved, 0),
+    [result]
+  );
 
-      const withinWindow = month >= entry.startMonth && month <= entry.endMonth;
-      if (!withinWindow) return 0;
+  const comparisonRate = React.useMemo(
+    () => calculateComparisonRate({ annualRate: interestRate, fees }).comparisonRate,
+    [interestRate, fees]
+  );
 
-      if (entry.frequency === 'weekly' || entry.frequency === 'fortnightly' || entry.frequency === 'monthly') {
-        return entry.amount * frequencyToFactor(entry.frequency);
-      }
+  const periodsPerYear = frequencyToPeriodsPerYear(frequency);
+  // The first repayment, which is interest only during an IO period
+  const repaymentPerPeriod = result.schedule.length ? scheduledRepayment(result.schedule[0]) : 0;
+
+  // Extra repayments and rate changes are entered in months from the loan start
+  const monthDate = React.useCallback(
+    (month: number) => {
+      const date = new Date(startDate);
+      date.setMonth(date.getMonth() + month);
+      return date;
+    },
+    [startDate]
+  );
 
-      return 0;
+  const extraRepayments = React.useMemo<ExtraRepayment[]>(() => {
+    // The engine applies a one-off on a repayment date, so it lands on the first one due that month
+    const oneOff = (month: number, amount: number): ExtraRepayment => {
+      const target = monthDate(month);
+      const row = result.schedule.find((entry) => new Date(entry.date) >= target);
+      return { effectiveDate: row?.date ?? target.toISOString(), amount, recurring: false };
     };
 
-    const calcMonthlyPayment = (principal: number, annualRate: number, monthsRemaining: number) => {
-      const monthlyRate = (annualRate / 100) / 12;
-      if (repaymentType === 'interestOnly') {
-        return principal * monthlyRate;
-      }
-      if (monthlyRate === 0) {
-        return monthsRemaining > 0 ? principal / monthsRemaining : principal;
+    return additionalRepayments.flatMap((entry): ExtraRepayment[] => {
+      if (entry.frequency === 'oneOff') {
+        return [oneOff(entry.startMonth, entry.amount)];
       }
-      if (monthsRemaining <= 0) {
-        return principal;
+      if (entry.frequency === 'customMonths') {
+        const interval = entry.intervalMonths && entry.intervalMonths > 0 ? entry.intervalMonths : 1;
+        const months: number[] = [];
+        for (let month = entry.startMonth; month <= entry.endMonth; month += interval) {
+          months.push(month);
+        }
+        return months.map((month) => oneOff(month, entry.amount));
       }
-      const pow = Math.pow(1 + monthlyRate, monthsRemaining);
-      return principal * (monthlyRate * pow) / (pow - 1);
-    };
-
-    const sortedRateChanges = [...rateChanges].sort((a, b) => a.startMonth - b.startMonth);
-    let currentRate = interestRate;
-    let monthsRemaining = months;
-    let monthlyPayment = calcMonthlyPayment(balance, currentRate, monthsRemaining);
-    payments.push({
-      id: 'initial',
-      label: 'Current rate',
-      startMonth: 0,
-      payment: monthlyPayment,
-      rate: currentRate,
+      if (entry.endMonth < entry.startMonth) return [];
+      return [
+        {
+          effectiveDate: monthDate(entry.startMonth).toISOString(),
+          endDate: new Date(monthDate(entry.endMonth + 1).getTime() - 1).toISOString(),
+          amount: (entry.amount * frequencyToPeriodsPerYear(entry.frequency)) / periodsPerYear,
+          recurring: true,
+        },
+      ];
     });
+  }, [additionalRepayments, monthDate, periodsPerYear, result]);
+
+  const adjusted = React.useMemo(
+    () =>
+      generateAmortisation({
+        ...loanInputs,
+        rateChanges: rateChanges.map((entry) => ({
+          effectiveDate: monthDate(entry.startMonth).toISOString(),
+          annualRate: entry.newRate,
+        })),
+        extraRepayments,
+        recalculateOnRateChange: true,
+      }),
+    [loanInputs, rateChanges, extraRepayments, monthDate]
+  );
 
-    let changeIndex = 0;
-
-    for (let month = 0; month < months && balance > 0.01; month++) {
-      monthsRemaining = months - month;
-      if (changeIndex < sortedRateChanges.length && month === sortedRateChanges[changeIndex].startMonth) {
-        currentRate = sortedRateChanges[changeIndex].newRate;
-        monthlyPayment = calcMonthlyPayment(balance, currentRate, monthsRemaining);
-        payments.push({
-          id: sortedRateChanges[changeIndex].id,
-          label: `Rate change`,
-          startMonth: month,
-          payment: monthlyPayment,
-          rate: currentRate,
+  const ratePaymentSummaries = React.useMemo<RatePaymentSummary[]>(() => {
+    const summaries: RatePaymentSummary[] = result.schedule.length
+      ? [
+          {
+            id: 'initial',
+            label: 'Current rate',
+            startMonth: 0,
+            payment: scheduledRepayment(result.schedule[0]),
+            rate: interestRate,
+          },
+        ]
+      : [];
+    for (const entry of rateChanges) {
+      const target = monthDate(entry.startMonth);
+      const row = adjusted.schedule.find((candidate) => new Date(candidate.date) >= target);
+      if (row) {
+        summaries.push({
+          id: entry.id,
+          label: 'Rate change',
+          startMonth: entry.startMonth,
+          payment: scheduledRepayment(row),
+          rate: entry.newRate,
         });
-        changeIndex++;
       }
-      const monthlyRate = (currentRate / 100) / 12;
-
-      const interest = balance * monthlyRate;
-      const basePrincipal = repaymentType === 'interestOnly' ? 0 : Math.max(monthlyPayment - interest, 0);
-      const extraPrincipal = additionalRepayments.reduce(
-        (sum, entry) => sum + calculateExtraRepaymentForMonth(entry, month),
-        0
-      );
-
-      const principalPaid = (repaymentType === 'interestOnly' ? 0 : basePrincipal) + extraPrincipal;
-      const closingBalance = Math.max(balance - principalPaid, 0);
-
-      const date = new Date(startDate.getFullYear(), startDate.getMonth() + month, startDate.getDate());
-      rows.push({
-        periodIndex: month,
-        date: date.toISOString(),
-        openingBalance: balance,
-        closingBalance,
-        principalPaid,
-        interestCharged: interest,
-        payment: principalPaid + interest,
-      } as PeriodRow);
-
-      balance = closingBalance;
-      if (balance <= 0) break;
     }
-
-    return { schedule: rows, payments };
-  }, [
-    additionalRepayments,
-    interestRate,
-    loanAmount,
-    periodsPerYear,
-    rateChanges,
-    repaymentPerPeriod,
-    repaymentType,
-    termYears,
-  ]);
-  const adjustedSchedule = adjustedData.schedule;
-  const ratePaymentSummaries = adjustedData.payments;
+    return summaries;
+  }, [adjusted, result, rateChanges, monthDate, interestRate]);
 
   const payoffDateOriginal = result.summary.payoffDate;
-  const payoffDateUpdated = adjustedSchedule.length
-    ? adjustedSchedule[adjustedSchedule.length - 1].date
-    : payoffDateOriginal;
+  const payoffDateUpdated = adjusted.summary.payoffDate;
 
   const formatCompletionLabel = (isoDate: string) => {
     const date = new Date(isoDate);
@@ -173,9 +196,22 @@ export const LoanCalculatorCard: React.FC = () => {
 
   // Calculate total interest for original vs updated scenarios
   const originalTotalInterest = result.summary.totalInterest;
-  const updatedTotalInterest = adjustedSchedule.reduce((sum, row) => sum + row.interestCharged, 0);
+  const updatedTotalInterest = adjusted.summary.totalInterest;
   const interestReduced = originalTotalInterest - updatedTotalInterest;
 
+  const formatMilestone = (milestone?: { date: string }) =>
+    milestone ? formatCompletionLabel(milestone.date) : 'Not reached';
+  const lvrSummary =
+    result.summary.propertyValue && adjusted.summary.propertyValue
+      ? {
+          startLvr: result.summary.propertyValue.startLvr,
+          original80: formatMilestone(result.summary.propertyValue.lvr80),
+          original60: formatMilestone(result.summary.propertyValue.lvr60),
+          updated80: formatMilestone(adjusted.summary.propertyValue.lvr80),
+          updated60: formatMilestone(adjusted.summary.propertyValue.lvr60),
+        }
+      : undefined;
+
   const handleAmountChange = (value: number) => {
     setLoanAmount(value);
   };
@@ -204,6 +240,14 @@ export const LoanCalculatorCard: React.FC = () => {
     setAdditionalRepayments((prev) => prev.filter((entry) => entry.id !== id));
   };
 
+  const handleFeesChange = (update: Partial<FeeConfig>) => {
+    setFees((prev) => ({ ...prev, ...update }));
+  };
+
+  const handleOffsetChange = (update: Partial<OffsetConfig>) => {
+    setOffset((prev) => ({ ...prev, ...update }));
+  };
+
   const handleAddRateChange = () => {
     setRateChanges((prev) => [
       ...prev,
@@ -232,12 +276,30 @@ export const LoanCalculatorCard: React.FC = () => {
       repaymentType={repaymentType}
       breakdownView={breakdownView}
       repaymentPerPeriod={repaymentPerPeriod}
-      schedule={adjustedSchedule}
+      schedule={adjusted.schedule}
       onLoanAmountChange={handleAmountChange}
       onFrequencyChange={setFrequency}
       onInterestRateChange={setInterestRate}
+      comparisonRate={comparisonRate}
+      fees={fees}
+      onFeesChange={handleFeesChange}
+      offsetEnabled={offsetEnabled}
+      offset={offset}
+      offsetInterestSaved={offsetInterestSaved}
+      onOffsetEnabledChange={setOffsetEnabled}
+      onOffsetChange={handleOffsetChange}
+      propertyValueEnabled={propertyValueEnabled}
+      propertyValue={propertyValue}
+      propertyGrowthRate={propertyGrowthRate}
+      lvrSummary={lvrSummary}
+      onPropertyValueEnabledChange={setPropertyValueEnabled}
+      onPropertyValueChange={setPropertyValue}
+      onPropertyGrowthRateChange={setPropertyGrowthRate}
       onTermYearsChange={setTermYears}
       onRepaymentTypeChange={setRepaymentType}
+      interestOnlyYears={interestOnlyYears}
+      interestOnlyExpiry={result.summary.interestOnlyExpiry}
+      onInterestOnlyYearsChange={setInterestOnlyYears}
       onBreakdownViewChange={setBreakdownView}
       additionalRepayments={additionalRepayments}
       onAddAdditional={handleAddAdditional}
@@ -0,0 +1,22 @@
+import React from 'react';
+import { ToggleGroup, ToggleOption } from '../components/ToggleGroup';
+import { LoanCalculatorCard } from './LoanCalculatorCard';
+import { SplitLoanCard } from './SplitLoanCard';
+
+type LoanCalculatorMode = 'single' | 'split';
+
+const modeOptions: ToggleOption<LoanCalculatorMode>[] = [
+  { value: 'single', label: 'Single loan' },
+  { value: 'split', label: 'Split loan' },
+];
+
+export const LoanCalculatorSection: React.FC = () => {
+  const [mode, setMode] = React.useState<LoanCalculatorMode>('single');
+
+  return (
+    <div className="space-y-5">
+      <ToggleGroup options={modeOptions} value={mode} onChange={setMode} />
+      {mode === 'single' ? <LoanCalculatorCard /> : <SplitLoanCard />}
+    </div>
+  );
+};
@@ -2,14 +2,16 @@ import React from 'react';
 import { BalanceChart } from '../graphs/RepaymentCharts';
 import { CollapsibleContainer } from '../components/CollapsibleContainer';
 import { ToggleGroup, ToggleOption } from '../components/ToggleGroup';
-import { NumberInput, PercentInput } from '../components/inputs';
-import { PeriodRow } from 'calc-engine';
+import { CurrencyInput, NumberInput, PercentInput } from '../components/inputs';
+import { FeeConfig, InterestOnlyExpirySummary, OffsetConfig, PeriodRow } from 'calc-engine';
 import { formatCurrency, toNumberOrZero, stripLeadingZeros } from '../lib/formatters';
 
 export type RepaymentFrequency = 'weekly' | 'fortnightly' | 'monthly';
 export type AdditionalRepaymentFrequency = RepaymentFrequency | 'oneOff' | 'customMonths';
 export type BreakdownView = 'monthly' | 'yearly';
 type RepaymentType = 'principal' | 'interestOnly';
+type OffsetToggle = 'off' | 'on';
+type PropertyValueToggle = 'off' | 'on';
 
 export interface RatePaymentSummary {
   id: string;
@@ -19,6 +21,14 @@ export interface RatePaymentSummary {
   rate: number;
 }
 
+export interface LvrSummary {
+  startLvr: number;
+  original80: string;
+  original60: string;
+  updated80: string;
+  updated60: string;
+}
+
 export interface AdditionalRepayment {
   id: string;
   frequency: AdditionalRepaymentFrequency;
@@ -64,8 +74,26 @@ interface LoanCalculatorViewProps {
   onLoanAmountChange: (value: number) => void;
   onFrequencyChange: (value: RepaymentFrequency) => void;
   onInterestRateChange: (value: number) => void;
+  comparisonRate: number;
+  fees: FeeConfig;
+  onFeesChange: (update: Partial<FeeConfig>) => void;
+  offsetEnabled: boolean;
+  offset: OffsetConfig;
+  offsetInterestSaved: number;
+  onOffsetEnabledChange: (value: boolean) => void;
+  onOffsetChange: (update: Partial<OffsetConfig>) => void;
+  propertyValueEnabled: boolean;
+  propertyValue: number;
+  propertyGrowthRate: number;
+  lvrSummary?: LvrSummary;
+  onPropertyValueEnabledChange: (value: boolean) => void;
+  onPropertyValueChange: (value: number) => void;
+  onPropertyGrowthRateChange: (value: number) => void;
   onTermYearsChange: (value: number) => void;
   onRepaymentTypeChange: (value: RepaymentType) => void;
+  interestOnlyYears: number;
+  interestOnlyExpiry?: InterestOnlyExpirySummary;
+  onInterestOnlyYearsChange: (value: number) => void;
   onBreakdownViewChange: (value: BreakdownView) => void;
   additionalRepayments: AdditionalRepayment[];
   onAddAdditional: () => void;
@@ -95,8 +123,26 @@ export const LoanCalculatorView: React.FC<LoanCalculatorViewProps> = ({
   onLoanAmountChange,
   onFrequencyChange,
   onInterestRateChange,
+  comparisonRate,
+  fees,
+  onFeesChange,
+  offsetEnabled,
+  offset,
+  offsetInterestSaved,
+  onOffsetEnabledChange,
+  onOffsetChange,
+  propertyValueEnabled,
+  propertyValue,
+  propertyGrowthRate,
+  lvrSummary,
+  onPropertyValueEnabledChange,
+  onPropertyValueChange,
+  onPropertyGrowthRateChange,
   onTermYearsChange,
   onRepaymentTypeChange,
+  interestOnlyYears,
+  interestOnlyExpiry,
+  onInterestOnlyYearsChange,
   onBreakdownViewChange,
   additionalRepayments,
   onAddAdditional,
@@ -125,6 +171,16 @@ export const LoanCalculatorView: React.FC<LoanCalculatorViewProps> = ({
     label: f.label,
   }));
 
+  const offsetOptions: ToggleOption<OffsetToggle>[] = [
+    { value: 'off', label: 'No offset' },
+    { value: 'on', label: 'Offset account' },
+  ];
+
+  const propertyValueOptions: ToggleOption<PropertyValueToggle>[] = [
+    { value: 'off', label: 'No property value' },
+    { value: 'on', label: 'Track equity' },
+  ];
+
   const breakdownViewOptions: ToggleOption<BreakdownView>[] = [
     { value: 'monthly', label: 'Monthly' },
     { value: 'yearly', label: 'Yearly' },
@@ -212,6 +268,27 @@ export const LoanCalculatorView: React.FC<LoanCalculatorViewProps> = ({
             value={repaymentType}
             onChange={onRepaymentTypeChange}
           />
+          {repaymentType === 'interestOnly' && (
+            <div className="grid grid-cols-2 items-end gap-3 text-sm">
+              <NumberInput
+                label="Interest only (years)"
+                value={interestOnlyYears}
+                onChange={onInterestOnlyYearsChange}
+              />
+              <p className="pb-2 text-xs text-slate-500 dark:text-dark-muted">
+                {interestOnlyExpiry ? (
+                  <>
+                    Then {formatCurrency(Math.round(interestOnlyExpiry.paymentAfter))}/{shortLabel}{' '}
+                    <span className="font-semibold text-slate-700 dark:text-white">
+                      (+{formatCurrency(Math.round(interestOnlyExpiry.repaymentShock))})
+                    </span>
+                  </>
+                ) : (
+                  'Interest only for the full term'
+                )}
+              </p>
+            </div>
+          )}
           <ToggleGroup
             label="Repayment frequency"
             options={frequencyOptions}
@@ -233,6 +310,89 @@ export const LoanCalculatorView: React.FC<LoanCalculatorViewProps> = ({
               onChange={onTermYearsChange}
             />
           </div>
+          <div className="grid grid-cols-3 gap-3 text-sm">
+            <CurrencyInput
+              label="Upfront fee"
+              value={fees.upfrontFee}
+              onChange={(value) => onFeesChange({ upfrontFee: value })}
+            />
+            <CurrencyInput
+              label="Monthly fee"
+              value={fees.monthlyFee}
+              onChange={(value) => onFeesChange({ monthlyFee: value })}
+            />
+            <CurrencyInput
+              label="Annual fee"
+              value={fees.annualFee}
+              onChange={(value) => onFeesChange({ annualFee: value })}
+            />
+          </div>
+          <p className="text-xs text-slate-500 dark:text-dark-muted">
+            {interestRate.toFixed(2)}% p.a. · comparison rate{' '}
+            <span className="font-semibold text-slate-700 dark:text-white">{comparisonRate.toFixed(2)}% p.a.</span>
+          </p>
+          <ToggleGroup
+            options={offsetOptions}
+            value={offsetEnabled ? 'on' : 'off'}
+            onChange={(value) => onOffsetEnabledChange(value === 'on')}
+          />
+          {offsetEnabled && (
+            <>
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <CurrencyInput
+                  label="Offset balance"
+                  value={offset.startingBalance}
+                  onChange={(value) => onOffsetChange({ startingBalance: value })}
+                />
+                <CurrencyInput
+                  label="Monthly savings"
+                  value={offset.monthlyContribution}
+                  onChange={(value) => onOffsetChange({ monthlyContribution: value })}
+                />
+              </div>
+              <p className="text-xs text-slate-500 dark:text-dark-muted">
+                Interest saved by offset:{' '}
+                <span className="font-semibold text-slate-700 dark:text-white">{formatCurrency(offsetInterestSaved)}</span>
+              </p>
+            </>
+          )}
+          <ToggleGroup
+            options={propertyValueOptions}
+            value={propertyValueEnabled ? 'on' : 'off'}
+            onChange={(value) => onPropertyValueEnabledChange(value === 'on')}
+          />
+          {propertyValueEnabled && (
+            <>
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <CurrencyInput label="Property value" value={propertyValue} onChange={onPropertyValueChange} />
+                <PercentInput
+                  label="Growth (p.a.)"
+                  value={propertyGrowthRate}
+                  onChange={onPropertyGrowthRateChange}
+                  min={-20}
+                  asPercentage
+                />
+              </div>
+              {lvrSummary && (
+                <div className="space-y-1 text-xs text-slate-500 dark:text-dark-muted">
+                  <p>
+                    Starting LVR:{' '}
+                    <span className="font-semibold text-slate-700 dark:text-white">{lvrSummary.startLvr.toFixed(1)}%</span>
+                  </p>
+                  <p>
+                    LVR under 80%:{' '}
+                    <span className="font-semibold text-slate-700 dark:text-white">{lvrSummary.original80}</span>
+                    {lvrSummary.updated80 !== lvrSummary.original80 && <> · with changes {lvrSummary.updated80}</>}
+                  </p>
+                  <p>
+                    LVR under 60%:{' '}
+                    <span className="font-semibold text-slate-700 dark:text-white">{lvrSummary.original60}</span>
+                    {lvrSummary.updated60 !== lvrSummary.original60 && <> · with changes {lvrSummary.updated60}</>}
+                  </p>
+                </div>
+              )}
+            </>
+          )}
         </div>
       </CollapsibleContainer>
 
@@ -247,6 +407,7 @@ export const LoanCalculatorView: React.FC<LoanCalculatorViewProps> = ({
           <div className="mb-4">
             <p className="text-xs text-slate-500 dark:text-dark-muted">
               This graph shows how additional repayments or interest rate changes will impact the cost and time of your loan.
+              {propertyValueEnabled && ' Equity in the property is plotted alongside the balance.'}
             </p>
             <BalanceChart schedule={schedule} height={300} />
             
@@ -444,10 +605,10 @@ export const LoanCalculatorView: React.FC<LoanCalculatorViewProps> = ({
                 </div>
                 <div className="mt-3 rounded-2xl border border-slate-200 bg-slate-50 p-3 text-xs text-slate-500 dark:border-dark-border dark:bg-transparent dark:text-dark-muted">
                   {original && (
-                    <p>Original repayment: {formatCurrency(original.payment)} /month</p>
+                    <p>Original repayment: {formatCurrency(original.payment)} /{shortLabel}</p>
                   )}
                   {summary && (
-                    <p>Updated repayment: {formatCurrency(summary.payment)} /month</p>
+                    <p>Updated repayment: {formatCurrency(summary.payment)} /{shortLabel}</p>
                   )}
                 </div>
               </div>
@@ -1,90 +1,185 @@
 import React from 'react';
-import { compareMortgageVsPersonalLoan, generateAmortisation } from 'calc-engine';
 import {
-  CumulativeInterestChart,
-  CumulativeInterestWithDifferenceLine,
-  CumulativeInterestPercentageDifference,
-  CumulativeInterestWithMilestones
-} from '../graphs/RepaymentCharts';
+  calculateComparisonRate,
+  compareLoanScenarios,
+  generateAmortisation,
+  FeeConfig,
+  LoanScenarioResult,
+  ScenarioRankingMetric,
+} from 'calc-engine';
 import { CurrencyInput, NumberInput, PercentInput } from '../components/inputs';
+import { ToggleGroup, ToggleOption } from '../components/ToggleGroup';
 import { formatCurrency } from '../lib/formatters';
 
-export const LoanComparisonCard: React.FC = () => {
-  // Inputs
-  const [mortgageAmount, setMortgageAmount] = React.useState(440_000);
-  const [personalAmount, setPersonalAmount] = React.useState(40_000);
-
-  const [mortgageRate, setMortgageRate] = React.useState(5.85); // % p.a.
-  const [mortgageTermYrs, setMortgageTermYrs] = React.useState(30);
-  const [mortgageFeesYearly, setMortgageFeesYearly] = React.useState(0);
+type LoanEntry = {
+  id: string;
+  label: string;
+  amount: number;
+  rate: number; // % p.a.
+  termYears: number;
+  fees: FeeConfig;
+};
 
-  const [carRate, setCarRate] = React.useState(8.5); // % p.a. (personal loan)
-  const [carTermYrs, setCarTermYrs] = React.useState(5);
-  const [personalFeesMonthly, setPersonalFeesMonthly] = React.useState(0);
+type ScenarioEntry = { id: string; name: string; loans: LoanEntry[] };
 
-  const startDate = React.useMemo(() => new Date().toISOString().slice(0, 10), []);
+const MAX_SCENARIOS = 4;
+// Loans this short are benchmarked like a car/personal loan for the comparison rate
+const PERSONAL_LOAN_MAX_TERM_YEARS = 7;
 
-  // Calculate comparison using calc-engine
-  const comparison = React.useMemo(() => {
-    return compareMortgageVsPersonalLoan({
-      fullMortgageAmount: mortgageAmount,
-      mortgageRate: mortgageRate,
-      mortgageTermYears: mortgageTermYrs,
-      personalLoanAmount: personalAmount,
-      personalLoanRate: carRate,
-      personalLoanTermYears: carTermYrs,
-      frequency: 'monthly',
-      repaymentType: 'principalAndInterest',
-      repaymentStrategy: 'reduceTerm',
-      startDate
-    });
-  }, [mortgageAmount, mortgageRate, mortgageTermYrs, personalAmount, carRate, carTermYrs, startDate]);
+const createId = () =>
+  globalThis.crypto?.randomUUID?.() ?? `entry-${Date.now()}-${Math.random().toString(16).slice(2)}`;
 
-  // Extract values for display
-  const monthlyA = Math.round(comparison.summary.fullMortgagePayment);
-  const monthlyB_mortgage = Math.round(comparison.summary.splitMortgagePayment);
-  const monthlyB_car = Math.round(comparison.summary.splitPersonalPayment);
-  const monthlyB_initial = Math.round(comparison.summary.splitCombinedPaymentInitial);
+const NO_FEES: FeeConfig = { upfrontFee: 0, monthlyFee: 0, annualFee: 0 };
 
-  const totalInterestA = comparison.summary.fullMortgageTotalInterest;
-  const totalInterestB = comparison.summary.splitCombinedTotalInterest;
-  const totalPaidA = comparison.summary.fullMortgageTotalPaid;
-  const totalPaidB = comparison.summary.splitCombinedTotalPaid;
+const createLoan = (data: Omit<LoanEntry, 'id'>): LoanEntry => ({ id: createId(), ...data });
 
-  // Calculate "what if" scenario: Single mortgage with Scenario B payment rate
-  const whatIfScenario = React.useMemo(() => {
-    const extraPayment = monthlyB_initial - monthlyA;
-    const monthsOfExtra = carTermYrs * 12;
+const rankOptions: ToggleOption<ScenarioRankingMetric>[] = [
+  { value: 'totalCost', label: 'Total cost' },
+  { value: 'totalInterest', label: 'Interest' },
+  { value: 'payoffDate', label: 'Payoff' },
+];
 
-    let balance = comparison.summary.totalAmount;
-    const monthlyRate = (mortgageRate / 100) / 12;
-    let totalInterest = 0;
-    let month = 0;
+export const LoanComparisonCard: React.FC = () => {
+  const [scenarios, setScenarios] = React.useState<ScenarioEntry[]>(() => [
+    {
+      id: createId(),
+      name: 'Mortgage',
+      loans: [createLoan({ label: 'Mortgage', amount: 480_000, rate: 5.85, termYears: 30, fees: NO_FEES })],
+    },
+    {
+      id: createId(),
+      name: 'Mortgage + Personal Loan',
+      loans: [
+        createLoan({ label: 'Mortgage', amount: 440_000, rate: 5.85, termYears: 30, fees: NO_FEES }),
+        createLoan({ label: 'Personal loan', amount: 40_000, rate: 8.5, termYears: 5, fees: NO_FEES }),
+      ],
+    },
+  ]);
+  const [rankBy, setRankBy] = React.useState<ScenarioRankingMetric>('totalCost');
 
-    while (balance > 0.01 && month < 360) {
-      const interest = balance * monthlyRate;
-      totalInterest += interest;
+  const startDate = React.useMemo(() => new Date().toISOString().slice(0, 10), []);
 
-      const payment = month < monthsOfExtra ? monthlyB_initial : monthlyA;
-      const principal = payment - interest;
+  // Calculate comparison using calc-engine
+  const comparison = React.useMemo(
+    () =>
+      compareLoanScenarios({
+        scenarios: scenarios.map((scenario) => ({
+          name: scenario.id,
+          loans: scenario.loans.map((loan) => ({
+            name: loan.label,
+            amount: loan.amount,
+            annualRate: loan.rate,
+            years: loan.termYears,
+            fees: loan.fees,
+          })),
+        })),
+        frequency: 'monthly',
+        repaymentType: 'principalAndInterest',
+        repaymentStrategy: 'reduceTerm',
+        startDate,
+        rankBy,
+      }),
+    [scenarios, startDate, rankBy]
+  );
 
-      balance = Math.max(0, balance - principal);
-      month++;
-    }
+  const rankFor = (scenarioId: string) => comparison.ranking.find((entry) => entry.name === scenarioId);
+  const best = comparison.scenarios.find((scenario) => scenario.name === comparison.ranking[0]?.name);
+  const bestName = scenarios.find((scenario) => scenario.id === best?.name)?.name ?? '';
+  const bestLoans = scenarios.find((scenario) => scenario.id === best?.name)?.loans ?? [];
 
-    const yearsEarlier = (comparison.fullMortgage.schedule.length - month) / 12;
-    const interestSaved = totalInterestA - totalInterest;
+  // When a split wins, the same repayments into one mortgage at its rate may still do better
+  const whatIfScenario = React.useMemo(() => {
+    if (!best || bestLoans.length < 2) return undefined;
+    const mortgage = bestLoans.reduce((longest, loan) => (loan.termYears > longest.termYears ? loan : longest));
+    const shorterTermYears = Math.max(
+      ...bestLoans.filter((loan) => loan.id !== mortgage.id).map((loan) => loan.termYears)
+    );
+    const single = {
+      amount: best.summary.totalAmount,
+      annualRate: mortgage.rate,
+      years: mortgage.termYears,
+      frequency: 'monthly' as const,
+      repaymentType: 'principalAndInterest' as const,
+      repaymentStrategy: 'reduceTerm' as const,
+      startDate,
+    };
+    const baseline = generateAmortisation(single);
+    const extraPayment = best.summary.initialPayment - baseline.summary.regularPayment;
+    const extraEnd = new Date(startDate);
+    extraEnd.setMonth(extraEnd.getMonth() + Math.round(shorterTermYears * 12));
+    const whatIf = generateAmortisation({
+      ...single,
+      extraRepayments:
+        extraPayment > 0
+          ? [
+              {
+                effectiveDate: startDate,
+                endDate: new Date(extraEnd.getTime() - 1).toISOString(),
+                amount: extraPayment,
+                recurring: true,
+              },
+            ]
+          : [],
+    });
 
     return {
-      totalInterest,
-      interestSaved,
-      monthsToPayoff: month,
-      yearsEarlier
+      extraPayment,
+      shorterTermYears,
+      interestSaved: baseline.summary.totalInterest - whatIf.summary.totalInterest,
+      yearsEarlier: (baseline.schedule.length - whatIf.schedule.length) / 12,
     };
-  }, [monthlyA, monthlyB_initial, carTermYrs, comparison, mortgageRate, totalInterestA]);
+  }, [best, bestLoans, startDate]);
 
   const [showWhatIf, setShowWhatIf] = React.useState(false);
 
+  const updateScenario = (id: string, update: (scenario: ScenarioEntry) => ScenarioEntry) => {
+    setScenarios((prev) => prev.map((scenario) => (scenario.id === id ? update(scenario) : scenario)));
+  };
+
+  const handleAddScenario = () => {
+    setScenarios((prev) => {
+      if (prev.length >= MAX_SCENARIOS) return prev;
+      const template = prev[prev.length - 1];
+      return [
+        ...prev,
+        {
+          id: createId(),
+          name: `Scenario ${String.fromCharCode(65 + prev.length)}`,
+          loans: template.loans.map((loan) => createLoan({ ...loan })),
+        },
+      ];
+    });
+  };
+
+  const handleRemoveScenario = (id: string) => {
+    setScenarios((prev) => (prev.length > 1 ? prev.filter((scenario) => scenario.id !== id) : prev));
+  };
+
+  const handleAddLoan = (scenarioId: string) => {
+    updateScenario(scenarioId, (scenario) => ({
+      ...scenario,
+      loans: [
+        ...scenario.loans,
+        createLoan({ label: `Loan ${scenario.loans.length + 1}`, amount: 20_000, rate: 8.5, termYears: 5, fees: NO_FEES }),
+      ],
+    }));
+  };
+
+  const handleUpdateLoan = (scenarioId: string, loanId: string, data: Partial<LoanEntry>) => {
+    updateScenario(scenarioId, (scenario) => ({
+      ...scenario,
+      loans: scenario.loans.map((loan) => (loan.id === loanId ? { ...loan, ...data } : loan)),
+    }));
+  };
+
+  const handleRemoveLoan = (scenarioId: string, loanId: string) => {
+    updateScenario(scenarioId, (scenario) =>
+      scenario.loans.length > 1
+        ? { ...scenario, loans: scenario.loans.filter((loan) => loan.id !== loanId) }
+        : scenario
+    );
+  };
+
   return (
     <div className="space-y-5">
       {/* Comparison Objective */}
@@ -92,173 +187,208 @@ export const LoanComparisonCard: React.FC = () => {
         <p className="font-semibold">Comparison objective</p>
         <div className="mt-1 text-xs text-indigo-800 dark:text-indigo-200">
           <p>
-            This tool compares two ways of funding the same purchase: taking the full amount as a mortgage, or splitting it between a mortgage and a personal loan.
+            Compare up to {MAX_SCENARIOS} ways of funding the same purchase side by side, such as a single mortgage, a mortgage plus a personal loan, or offers from different lenders.
           </p>
         </div>
       </div>
 
-      
-
-      {/* Unified container: inputs (split by vertical line) + scenarios below a horizontal line */}
-      <div className="relative rounded-2xl border border-slate-200 p-4 dark:border-dark-border">
-        {/* Inputs two columns with vertical divider on larger screens */}
-        <div className="relative grid grid-cols-2 gap-4">
-          <div className="pointer-events-none absolute inset-y-2 left-1/2 border-l border-slate-200 dark:border-dark-border" />
-
-          {/* LHS: Mortgage */}
-          <div className="space-y-3">
-            <h3 className="text-sm font-semibold text-slate-900 dark:text-white">Mortgage</h3>
-            <CurrencyInput label="Amount" value={mortgageAmount} onChange={setMortgageAmount} />
-            <PercentInput label="Interest" value={mortgageRate} onChange={setMortgageRate} asPercentage step={0.05} />
-            <div>
-              <label className="text-xs font-semibold text-slate-500 dark:text-dark-muted">
-                <div className="flex items-center gap-1">
-                  <span>Term Left</span>
-                  <div className="group relative">
-                    <span className="inline-flex h-3.5 w-3.5 cursor-help items-center justify-center rounded-full border border-slate-400 text-[10px] text-slate-500 dark:border-slate-500 dark:text-slate-400">
-                      i
-                    </span>
-                    <div className="pointer-events-none absolute left-1/2 top-full z-10 mt-1 hidden w-64 -translate-x-1/2 rounded-lg border border-slate-200 bg-white p-2 text-xs font-normal text-slate-700 shadow-lg group-hover:block dark:border-dark-border dark:bg-slate-800 dark:text-slate-300">
-                      If you are partially through paying off your mortgage you can adjust this to calculate based on the remaining loan term. Ensure you update the principal amount remaining also.
-                    </div>
-                  </div>
-                </div>
-              </label>
-              <div className="mt-1 flex items-center rounded-2xl border border-slate-300 px-3 py-2 text-base font-semibold text-slate-800 focus-within:ring dark:border-dark-border dark:bg-transparent dark:text-white">
+      <div className="flex items-center justify-between">
+        <ToggleGroup options={rankOptions} value={rankBy} onChange={setRankBy} />
+        <button
+          type="button"
+          onClick={handleAddScenario}
+          disabled={scenarios.length >= MAX_SCENARIOS}
+          className="rounded-full border border-brand-500 px-3 py-1 text-[11px] font-semibold text-brand-500 disabled:opacity-40"
+        >
+          Add scenario
+        </button>
+      </div>
+
+      {/* Scenario columns */}
+      <div className="flex gap-3 overflow-x-auto pb-1">
+        {scenarios.map((scenario, index) => {
+          const result = comparison.scenarios[index];
+          const rank = rankFor(scenario.id);
+          const isBest = rank?.rank === 1 && scenarios.length > 1;
+          return (
+            <div
+              key={scenario.id}
+              className={`min-w-[240px] flex-1 space-y-3 rounded-2xl border p-4 ${
+                isBest ? 'border-orange-300 dark:border-orange-700/70' : 'border-slate-200 dark:border-dark-border'
+              }`}
+            >
+              <div className="flex items-center gap-2">
                 <input
-                  type="number"
-                  inputMode="decimal"
-                  value={mortgageTermYrs}
-                  onChange={(e) => setMortgageTermYrs(Number(e.target.value))}
-                  className="w-full bg-transparent text-right focus:outline-none"
+                  type="text"
+                  value={scenario.name}
+                  onChange={(event) => updateScenario(scenario.id, (prev) => ({ ...prev, name: event.target.value }))}
+                  className="w-full rounded-full border border-slate-200 px-3 py-1 text-sm font-semibold text-slate-900 focus:outline-none focus:ring dark:border-dark-border dark:bg-transparent dark:text-white"
                 />
-                <span className="ml-1 text-sm text-slate-400">/yrs</span>
+                {scenarios.length > 1 && (
+                  <button
+                    type="button"
+                    className="text-xs text-brand-500"
+                    onClick={() => handleRemoveScenario(scenario.id)}
+                  >
+                    Remove
+                  </button>
+                )}
               </div>
-            </div>
-            <CurrencyInput label="Fees" value={mortgageFeesYearly} onChange={setMortgageFeesYearly} suffix="/yr" />
-          </div>
-
-          {/* RHS: Personal loan */}
-          <div className="space-y-3">
-            <h3 className="text-sm font-semibold text-slate-900 dark:text-white">Personal Loan</h3>
-            <CurrencyInput label="Amount" value={personalAmount} onChange={setPersonalAmount} />
-            <PercentInput label="Interest" value={carRate} onChange={setCarRate} asPercentage step={0.1} />
-            <NumberInput label="Term" value={carTermYrs} onChange={setCarTermYrs} suffix="/yrs" />
-            <CurrencyInput label="Fees" value={personalFeesMonthly} onChange={setPersonalFeesMonthly} suffix="/mth" />
-          </div>
-        </div>
+              {rank && scenarios.length > 1 && (
+                <p className="text-xs text-slate-500 dark:text-slate-400">Rank #{rank.rank}</p>
+              )}
 
-        {/* Scenarios within same container */}
-        <div className="mt-4 grid grid-cols-1 gap-3 sm:grid-cols-2">
-          <div className="rounded-2xl border border-slate-200 p-4 dark:border-dark-border">
-            <h3 className="text-base font-semibold text-slate-900 dark:text-white">Mortgage {formatCurrency(comparison.summary.totalAmount)}</h3>
-            <p className="text-xs text-slate-500 dark:text-slate-400">Scenario A</p>
-            <div className="mt-3 space-y-3">
-              <Row label="Monthly Repayments" value={formatCurrency(monthlyA)} />
-              <Row label="Total Principle" sub="(mortgage)" value={formatCurrency(comparison.summary.totalAmount)} />
-              <Row label="Total interest" value={formatCurrency(totalInterestA)} />
-              <div className="border-t border-slate-200 dark:border-dark-border" />
-              <Row label="Total" value={formatCurrency(totalPaidA)} />
-            </div>
-          </div>
-          <div className="space-y-3">
-            <div className="rounded-2xl border border-slate-200 p-4 dark:border-dark-border">
-              <h3 className="text-base font-semibold text-slate-900 dark:text-white">
-                Mortgage {formatCurrency(comparison.summary.splitMortgageAmount)} +
-                <br />
-                Personal Loan {formatCurrency(comparison.summary.splitPersonalAmount)}
-              </h3>
-              <p className="text-xs text-slate-500 dark:text-slate-400">Scenario B</p>
-              <div className="mt-3 space-y-3">
-                <Row
-                  label={`Monthly Repayments\n(first ${carTermYrs} years)`}
-                  value={formatCurrency(monthlyB_initial)}
-                  sub="(mortgage + personal)"
-                  subValue={`(${formatCurrency(monthlyB_mortgage)} + ${formatCurrency(monthlyB_car)})`}
-                />
-                <Row
-                  label={`Monthly Repayments\n(after ${carTermYrs} years)`}
-                  value={formatCurrency(monthlyB_mortgage)}
-                  sub="(mortgage only)"
-                />
-                <Row
-                  label="Total Principle"
-                  value={formatCurrency(comparison.summary.totalAmount)}
-                  sub="(mortgage + personal)"
-                  subValue={`(${formatCurrency(comparison.summary.splitMortgageAmount)} + ${formatCurrency(comparison.summary.splitPersonalAmount)})`}
-                />
-                <Row label="Total interest" value={formatCurrency(totalInterestB)} />
-                <div className="border-t border-slate-200 dark:border-dark-border" />
-                <Row label="Total" value={formatCurrency(totalPaidB)} />
-              </div>
+              {scenario.loans.map((loan) => (
+                <div key={loan.id} className="space-y-3 rounded-2xl border border-slate-200 p-3 dark:border-dark-border">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={loan.label}
+                      onChange={(event) => handleUpdateLoan(scenario.id, loan.id, { label: event.target.value })}
+                      className="w-full rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold text-slate-600 focus:outline-none focus:ring dark:border-dark-border dark:bg-transparent dark:text-dark-text"
+                    />
+                    {scenario.loans.length > 1 && (
+                      <button
+                        type="button"
+                        className="text-xs text-brand-500"
+                        onClick={() => handleRemoveLoan(scenario.id, loan.id)}
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                  <CurrencyInput
+                    label="Amount"
+                    value={loan.amount}
+                    onChange={(value) => handleUpdateLoan(scenario.id, loan.id, { amount: value })}
+                  />
+                  <PercentInput
+                    label="Interest"
+                    value={loan.rate}
+                    onChange={(value) => handleUpdateLoan(scenario.id, loan.id, { rate: value })}
+                    asPercentage
+                    step={0.05}
+                  />
+                  <ComparisonRateNote
+                    rate={
+                      calculateComparisonRate({
+                        annualRate: loan.rate,
+                        fees: loan.fees,
+                        benchmark: loan.termYears <= PERSONAL_LOAN_MAX_TERM_YEARS ? 'securedCarLoan' : undefined,
+                      }).comparisonRate
+                    }
+                  />
+                  <NumberInput
+                    label="Term Left"
+                    value={loan.termYears}
+                    onChange={(value) => handleUpdateLoan(scenario.id, loan.id, { termYears: value })}
+                    suffix="/yrs"
+                  />
+                  <CurrencyInput
+                    label="Upfront fee"
+                    value={loan.fees.upfrontFee}
+                    onChange={(value) => handleUpdateLoan(scenario.id, loan.id, { fees: { ...loan.fees, upfrontFee: value } })}
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    <CurrencyInput
+                      label="Fees"
+                      value={loan.fees.monthlyFee}
+                      onChange={(value) => handleUpdateLoan(scenario.id, loan.id, { fees: { ...loan.fees, monthlyFee: value } })}
+                      suffix="/mth"
+                    />
+                    <CurrencyInput
+                      label="Fees"
+                      value={loan.fees.annualFee}
+                      onChange={(value) => handleUpdateLoan(scenario.id, loan.id, { fees: { ...loan.fees, annualFee: value } })}
+                      suffix="/yr"
+                    />
+                  </div>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => handleAddLoan(scenario.id)}
+                className="rounded-full border border-brand-500 px-3 py-1 text-[11px] font-semibold text-brand-500"
+              >
+                Add loan
+              </button>
+
+              {result && (
+                <div className="space-y-3 border-t border-slate-200 pt-3 dark:border-dark-border">
+                  <Row label="Monthly Repayments" value={formatCurrency(result.summary.initialPayment)} />
+                  <Row label="Total Principle" value={formatCurrency(result.summary.totalAmount)} />
+                  <Row label="Total interest" value={formatCurrency(result.summary.totalInterest)} />
+                  <Row label="Total fees" value={formatCurrency(result.summary.totalFees)} />
+                  <Row label="Paid off" value={result.summary.payoffDate.slice(0, 7)} />
+                  <div className="border-t border-slate-200 dark:border-dark-border" />
+                  <Row label="Total" value={formatCurrency(result.summary.totalPaid)} />
+                  {best && !isBest && scenarios.length > 1 && (
+                    <Row
+                      label={`vs ${bestName || 'best'}`}
+                      value={
+                        rankBy === 'payoffDate'
+                          ? formatMonthsDelta(rankingDelta(result, best, rankBy))
+                          : formatDelta(rankingDelta(result, best, rankBy))
+                      }
+                      valueClassName={deltaTone(rankingDelta(result, best, rankBy))}
+                    />
+                  )}
+                </div>
+              )}
             </div>
-            {/* Outcome container */}
-            <div className="rounded-2xl border border-orange-300 bg-orange-100 p-4 dark:border-orange-700/70 dark:bg-orange-900/40">
-              <h3 className="text-base font-semibold text-slate-900 dark:text-white">
-                {totalPaidA < totalPaidB ? 'Scenario A Wins' : 'Scenario B Wins'}
-              </h3>
-              {totalPaidA < totalPaidB ? (
-                <div className="mt-2 text-sm text-slate-700 dark:text-slate-300">
-                  <p className="mb-2">
-                    Rolling everything into the mortgage results in a lower total cost overall.
-                  </p>
-                  <p>
-                    The lower interest rate, applied over the full loan term, outweighs the benefit of paying part of the debt down faster.
-                  </p>
+          );
+        })}
+      </div>
+
+      {/* Outcome container */}
+      {scenarios.length > 1 && best && (
+        <div className="rounded-2xl border border-orange-300 bg-orange-100 p-4 dark:border-orange-700/70 dark:bg-orange-900/40">
+          <h3 className="text-base font-semibold text-slate-900 dark:text-white">{bestName} Wins</h3>
+          <p className="mt-2 text-sm text-slate-700 dark:text-slate-300">
+            {rankBy === 'payoffDate'
+              ? `It is fully repaid first, in ${best.summary.payoffDate.slice(0, 7)}.`
+              : `It has the lowest ${rankBy === 'totalInterest' ? 'total interest' : 'total cost'} at ${formatCurrency(
+                  rankBy === 'totalInterest' ? best.summary.totalInterest : best.summary.totalPaid
+                )}.`}
+          </p>
+
+          {/* But... collapsible section when a split wins */}
+          {whatIfScenario && whatIfScenario.extraPayment > 0 && (
+            <div className="mt-4 text-sm text-slate-700 dark:text-slate-300">
+              <button type="button" onClick={() => setShowWhatIf(!showWhatIf)} className="w-full text-left">
+                <div className="flex items-center justify-between">
+                  <h4 className="text-base font-semibold text-slate-900 dark:text-white">But...</h4>
+                  <span className="text-slate-500 dark:text-slate-400">{showWhatIf ? '−' : '+'}</span>
                 </div>
-              ) : (
-                <div className="mt-2 text-sm text-slate-700 dark:text-slate-300">
-                  <p className="mb-2">
-                    Splitting the loan results in a lower total cost overall, despite higher repayments upfront.
+              </button>
+              {showWhatIf && (
+                <div className="mt-3">
+                  <p className="mb-3">
+                    If you put it all into a mortgage and paid at the same rate as {bestName} for the first{' '}
+                    {whatIfScenario.shorterTermYears} years, your final position would be:
                   </p>
-                  <p>
-                    The personal loan is cleared much sooner, which stops interest on that portion early and reduces total interest paid.
-                  </p>
-
-                  {/* But... collapsible section when Scenario B wins */}
-                  <div className="mt-4">
-                    <button
-                      onClick={() => setShowWhatIf(!showWhatIf)}
-                      className="w-full text-left"
-                    >
-                      <div className="flex items-center justify-between">
-                        <h4 className="text-base font-semibold text-slate-900 dark:text-white">
-                          But...
-                        </h4>
-                        <span className="text-slate-500 dark:text-slate-400">
-                          {showWhatIf ? '−' : '+'}
-                        </span>
-                      </div>
-                    </button>
-                    {showWhatIf && (
-                      <div className="mt-3">
-                        <p className="mb-3">
-                          If you put it all into a mortgage and paid at the same rate as Scenario B for the first {carTermYrs} years, your final position would be:
-                        </p>
-                        <div className="space-y-2 rounded-lg bg-blue-100/90 p-3 dark:bg-blue-900/90">
-                          <Row
-                            label="Interest saved"
-                            value={formatCurrency(whatIfScenario.interestSaved)}
-                            valueClassName="text-green-700 dark:text-green-300"
-                          />
-                          <Row
-                            label="Paid off earlier"
-                            value={`${whatIfScenario.yearsEarlier.toFixed(1)} years`}
-                            valueClassName="text-green-700 dark:text-green-300"
-                          />
-                        </div>
-                        <p className="mt-3 text-xs text-slate-500 dark:text-slate-400">
-                          This shows the benefit of putting extra {formatCurrency(monthlyB_initial - monthlyA)}/month toward a single mortgage for {carTermYrs} years instead of taking a personal loan.
-                        </p>
-                      </div>
-                    )}
+                  <div className="space-y-2 rounded-lg bg-blue-100/90 p-3 dark:bg-blue-900/90">
+                    <Row
+                      label="Interest saved"
+                      value={formatCurrency(whatIfScenario.interestSaved)}
+                      valueClassName="text-green-700 dark:text-green-300"
+                    />
+                    <Row
+                      label="Paid off earlier"
+                      value={`${whatIfScenario.yearsEarlier.toFixed(1)} years`}
+                      valueClassName="text-green-700 dark:text-green-300"
+                    />
                   </div>
+                  <p className="mt-3 text-xs text-slate-500 dark:text-slate-400">
+                    This shows the benefit of putting an extra {formatCurrency(whatIfScenario.extraPayment)}/month
+                    toward a single mortgage for {whatIfScenario.shorterTermYears} years instead of splitting the loan.
+                  </p>
                 </div>
               )}
             </div>
-          </div>
+          )}
         </div>
-      </div>
+      )}
     </div>
   );
 };
@@ -296,6 +426,33 @@ const Row: React.FC<RowProps> = ({ label, value, sub, labelSuffix, subValue, sub
   </div>
 );
 
+const ComparisonRateNote: React.FC<{ rate: number }> = ({ rate }) => (
+  <p className="-mt-2 text-[11px] text-slate-400 dark:text-dark-muted">
+    Comparison rate <span className="font-semibold text-slate-600 dark:text-white">{rate.toFixed(2)}%</span>
+  </p>
+);
+
+/** Difference from the best scenario in the metric it is ranked by; months for the payoff date */
+function rankingDelta(
+  scenario: LoanScenarioResult,
+  best: LoanScenarioResult,
+  rankBy: ScenarioRankingMetric
+): number {
+  if (rankBy === 'payoffDate') {
+    const payoff = new Date(scenario.summary.payoffDate);
+    const bestPayoff = new Date(best.summary.payoffDate);
+    return (payoff.getFullYear() - bestPayoff.getFullYear()) * 12 + (payoff.getMonth() - bestPayoff.getMonth());
+  }
+  return rankBy === 'totalInterest'
+    ? scenario.summary.totalInterest - best.summary.totalInterest
+    : scenario.summary.totalPaid - best.summary.totalPaid;
+}
+
+function formatMonthsDelta(months: number): string {
+  const sign = months >= 0 ? '+' : '−';
+  return `${sign}${Math.abs(months)} mths`;
+}
+
 function formatDelta(delta: number): string {
   const sign = delta >= 0 ? '+' : '−';
   const abs = Math.abs(delta);
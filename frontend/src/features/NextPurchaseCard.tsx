@@ -0,0 +1,116 @@
+import React from 'react';
+import { AustralianState, NextPurchaseGoal, NextPurchaseStructure, planNextPurchase } from 'calc-engine';
+import { NextPurchaseView } from './NextPurchaseView';
+
+export const NextPurchaseCard: React.FC = () => {
+  const [homeValue, setHomeValue] = React.useState(850_000);
+  const [homeGrowthRate, setHomeGrowthRate] = React.useState(5); // % p.a.
+  const [loanBalance, setLoanBalance] = React.useState(450_000);
+  const [loanRate, setLoanRate] = React.useState(6); // % p.a.
+  const [loanYearsRemaining, setLoanYearsRemaining] = React.useState(25);
+
+  const [householdIncome, setHouseholdIncome] = React.useState(200_000);
+  const [livingExpenses, setLivingExpenses] = React.useState(4_500); // per month
+  const [cashSavings, setCashSavings] = React.useState(20_000);
+
+  const [goal, setGoal] = React.useState<NextPurchaseGoal>('secondProperty');
+  const [structure, setStructure] = React.useState<NextPurchaseStructure>('standalone');
+  const [propertyState, setPropertyState] = React.useState<AustralianState>('NSW');
+  const [targetPrice, setTargetPrice] = React.useState(650_000);
+  const [priceGrowthRate, setPriceGrowthRate] = React.useState(4); // % p.a.
+  const [weeklyRent, setWeeklyRent] = React.useState(600);
+  const [sellingCostRate, setSellingCostRate] = React.useState(2.5); // % of sale price
+
+  const startDate = React.useMemo(() => new Date().toISOString().slice(0, 10), []);
+
+  const plan = React.useMemo(
+    () =>
+      planNextPurchase({
+        existingLoan: {
+          amount: loanBalance,
+          annualRate: loanRate,
+          years: loanYearsRemaining,
+          repaymentType: 'principalAndInterest',
+          repaymentStrategy: 'reduceTerm',
+          startDate,
+        },
+        existingProperty: { startValue: homeValue, growthRate: homeGrowthRate },
+        capacity: {
+          incomes: [{ amountAnnual: householdIncome, shadingFactor: 1 }],
+          livingExpensesMonthly: livingExpenses,
+          dependants: 0,
+          creditCardLimits: 0,
+          personalLoans: [],
+          carLoans: [],
+          hasHECS: false,
+          baseRate: loanRate,
+          bufferRate: 3,
+          termYears: 30,
+          repaymentType: 'principalAndInterest',
+        },
+        goal,
+        structure,
+        targetPrice,
+        priceGrowthRate,
+        state: propertyState,
+        purchaseCosts: 3_000,
+        cashSavings,
+        sellingCostRate,
+        weeklyRent: goal === 'secondProperty' ? weeklyRent : undefined,
+      }),
+    [
+      loanBalance,
+      loanRate,
+      loanYearsRemaining,
+      startDate,
+      homeValue,
+      homeGrowthRate,
+      householdIncome,
+      livingExpenses,
+      goal,
+      structure,
+      targetPrice,
+      priceGrowthRate,
+      propertyState,
+      cashSavings,
+      sellingCostRate,
+      weeklyRent,
+    ]
+  );
+
+  return (
+    <NextPurchaseView
+      homeValue={homeValue}
+      onHomeValueChange={setHomeValue}
+      homeGrowthRate={homeGrowthRate}
+      onHomeGrowthRateChange={setHomeGrowthRate}
+      loanBalance={loanBalance}
+      onLoanBalanceChange={setLoanBalance}
+      loanRate={loanRate}
+      onLoanRateChange={setLoanRate}
+      loanYearsRemaining={loanYearsRemaining}
+      onLoanYearsRemainingChange={setLoanYearsRemaining}
+      householdIncome={householdIncome}
+      onHouseholdIncomeChange={setHouseholdIncome}
+      livingExpenses={livingExpenses}
+      onLivingExpensesChange={setLivingExpenses}
+      cashSavings={cashSavings}
+      onCashSavingsChange={setCashSavings}
+      goal={goal}
+      onGoalChange={setGoal}
+      structure={structure}
+      onStructureChange={setStructure}
+      propertyState={propertyState}
+      onPropertyStateChange={setPropertyState}
+      targetPrice={targetPrice}
+      onTargetPriceChange={setTargetPrice}
+      priceGrowthRate={priceGrowthRate}
+      onPriceGrowthRateChange={setPriceGrowthRate}
+      weeklyRent={weeklyRent}
+      onWeeklyRentChange={setWeeklyRent}
+      sellingCostRate={sellingCostRate}
+      onSellingCostRateChange={setSellingCostRate}
+      plan={plan}
+    />
+  );
+};
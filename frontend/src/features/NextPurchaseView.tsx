@@ -0,0 +1,227 @@
+import React from 'react';
+import { ToggleGroup, ToggleOption } from '../components/ToggleGroup';
+import { CurrencyInput, NumberInput, PercentInput, StateSelect } from '../components/inputs';
+import { StatCard } from '../components/StatCard';
+import { EquityReleaseChart } from '../graphs/WealthCharts';
+import { formatCurrency } from '../lib/formatters';
+import {
+  AustralianState,
+  NextPurchaseGoal,
+  NextPurchaseLoan,
+  NextPurchaseResult,
+  NextPurchaseStructure,
+} from 'calc-engine';
+
+interface NextPurchaseViewProps {
+  homeValue: number;
+  onHomeValueChange: (value: number) => void;
+  homeGrowthRate: number;
+  onHomeGrowthRateChange: (value: number) => void;
+  loanBalance: number;
+  onLoanBalanceChange: (value: number) => void;
+  loanRate: number;
+  onLoanRateChange: (value: number) => void;
+  loanYearsRemaining: number;
+  onLoanYearsRemainingChange: (value: number) => void;
+  householdIncome: number;
+  onHouseholdIncomeChange: (value: number) => void;
+  livingExpenses: number;
+  onLivingExpensesChange: (value: number) => void;
+  cashSavings: number;
+  onCashSavingsChange: (value: number) => void;
+  goal: NextPurchaseGoal;
+  onGoalChange: (value: NextPurchaseGoal) => void;
+  structure: NextPurchaseStructure;
+  onStructureChange: (value: NextPurchaseStructure) => void;
+  propertyState: AustralianState;
+  onPropertyStateChange: (value: AustralianState) => void;
+  targetPrice: number;
+  onTargetPriceChange: (value: number) => void;
+  priceGrowthRate: number;
+  onPriceGrowthRateChange: (value: number) => void;
+  weeklyRent: number;
+  onWeeklyRentChange: (value: number) => void;
+  sellingCostRate: number;
+  onSellingCostRateChange: (value: number) => void;
+  plan: NextPurchaseResult;
+}
+
+const goalOptions: ToggleOption<NextPurchaseGoal>[] = [
+  { value: 'secondProperty', label: 'Second property' },
+  { value: 'upgrade', label: 'Upgrade' },
+];
+
+const structureOptions: ToggleOption<NextPurchaseStructure>[] = [
+  { value: 'standalone', label: 'Standalone' },
+  { value: 'crossCollateral', label: 'Cross-collateral' },
+];
+
+const securityLabels: Record<NextPurchaseLoan['security'], string> = {
+  existing: 'Home loan (topped up)',
+  new: 'New loan',
+  both: 'Loan over both properties',
+};
+
+const limitingFactorLabels: Record<NonNullable<NextPurchaseResult['limitingFactor']>, string> = {
+  equity: 'Not enough equity for the deposit and costs',
+  serviceability: 'Income is too low to service the extra debt',
+  both: 'Short on both equity and serviceability',
+};
+
+const formatMonths = (months: number) => {
+  const years = Math.floor(months / 12);
+  const remainder = months % 12;
+  return years > 0 ? `${years}y ${remainder}m` : `${remainder}m`;
+};
+
+const formatMonthYear = (date: string) =>
+  new Date(date).toLocaleDateString('en-AU', { month: 'long', year: 'numeric' });
+
+export const NextPurchaseView: React.FC<NextPurchaseViewProps> = ({
+  homeValue,
+  onHomeValueChange,
+  homeGrowthRate,
+  onHomeGrowthRateChange,
+  loanBalance,
+  onLoanBalanceChange,
+  loanRate,
+  onLoanRateChange,
+  loanYearsRemaining,
+  onLoanYearsRemainingChange,
+  householdIncome,
+  onHouseholdIncomeChange,
+  livingExpenses,
+  onLivingExpensesChange,
+  cashSavings,
+  onCashSavingsChange,
+  goal,
+  onGoalChange,
+  structure,
+  onStructureChange,
+  propertyState,
+  onPropertyStateChange,
+  targetPrice,
+  onTargetPriceChange,
+  priceGrowthRate,
+  onPriceGrowthRateChange,
+  weeklyRent,
+  onWeeklyRentChange,
+  sellingCostRate,
+  onSellingCostRateChange,
+  plan,
+}) => {
+  const purchaseMonth = plan.monthsToPurchase !== undefined ? plan.months[plan.monthsToPurchase] : undefined;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4 text-sm">
+        <div className="flex justify-center">
+          <ToggleGroup options={goalOptions} value={goal} onChange={onGoalChange} size="sm" />
+        </div>
+
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-dark-muted">Your home</p>
+        <div className="grid grid-cols-2 gap-3">
+          <CurrencyInput label="Home value" value={homeValue} onChange={onHomeValueChange} />
+          <PercentInput label="Growth (%)" value={homeGrowthRate} onChange={onHomeGrowthRateChange} asPercentage />
+          <CurrencyInput label="Loan balance" value={loanBalance} onChange={onLoanBalanceChange} />
+          <PercentInput label="Interest rate (%)" value={loanRate} onChange={onLoanRateChange} asPercentage />
+          <NumberInput
+            label="Years remaining"
+            value={loanYearsRemaining}
+            onChange={onLoanYearsRemainingChange}
+            min={1}
+            max={30}
+          />
+          {goal === 'upgrade' && (
+            <PercentInput
+              label="Selling costs (%)"
+              value={sellingCostRate}
+              onChange={onSellingCostRateChange}
+              asPercentage
+            />
+          )}
+        </div>
+
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-dark-muted">Household</p>
+        <div className="grid grid-cols-2 gap-3">
+          <CurrencyInput label="Gross income" value={householdIncome} onChange={onHouseholdIncomeChange} suffix="/yr" />
+          <CurrencyInput label="Living expenses" value={livingExpenses} onChange={onLivingExpensesChange} suffix="/mth" />
+          <CurrencyInput label="Cash to put in" value={cashSavings} onChange={onCashSavingsChange} />
+        </div>
+
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-dark-muted">
+          {goal === 'upgrade' ? 'Next home' : 'Second property'}
+        </p>
+        <div className="grid grid-cols-2 gap-3">
+          <CurrencyInput label="Price today" value={targetPrice} onChange={onTargetPriceChange} />
+          <StateSelect value={propertyState} onChange={onPropertyStateChange} />
+          <PercentInput label="Price growth (%)" value={priceGrowthRate} onChange={onPriceGrowthRateChange} asPercentage />
+          {goal === 'secondProperty' && (
+            <CurrencyInput label="Rent" value={weeklyRent} onChange={onWeeklyRentChange} suffix="/wk" />
+          )}
+        </div>
+        {goal === 'secondProperty' && (
+          <div className="flex items-center justify-between">
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-dark-muted">
+              Structure
+            </p>
+            <ToggleGroup options={structureOptions} value={structure} onChange={onStructureChange} size="sm" />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <StatCard
+          label="You could buy in"
+          value={plan.monthsToPurchase !== undefined ? formatMonths(plan.monthsToPurchase) : 'Not within 10 years'}
+          subtitle={
+            plan.purchaseDate
+              ? formatMonthYear(plan.purchaseDate)
+              : plan.limitingFactor && limitingFactorLabels[plan.limitingFactor]
+          }
+          variant={plan.feasible ? 'success' : 'warning'}
+        />
+        <StatCard
+          label="Price then"
+          value={plan.purchasePrice !== undefined ? formatCurrency(plan.purchasePrice) : '—'}
+          subtitle={`Up to ${formatCurrency(plan.maxPriceToday)} today`}
+        />
+      </div>
+
+      {purchaseMonth && (
+        <div className="space-y-1 rounded-2xl border border-slate-200 px-4 py-3 text-xs text-slate-600 dark:border-dark-border dark:text-dark-text">
+          <div className="flex justify-between">
+            <span>{goal === 'upgrade' ? 'Net sale proceeds' : 'Usable equity (80% LVR)'}</span>
+            <span className="font-semibold">{formatCurrency(purchaseMonth.usableEquity)}</span>
+          </div>
+          {plan.equityRelease !== undefined && (
+            <div className="flex justify-between">
+              <span>Equity released</span>
+              <span className="font-semibold">{formatCurrency(plan.equityRelease)}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span>Stamp duty & costs</span>
+            <span className="font-semibold">{formatCurrency(purchaseMonth.purchaseCosts)}</span>
+          </div>
+          {plan.loans.map((loan) => (
+            <div key={loan.security} className="flex justify-between">
+              <span>
+                {securityLabels[loan.security]} · {loan.lvr.toFixed(1)}% LVR
+              </span>
+              <span className="font-semibold">
+                {formatCurrency(loan.amount)} · {formatCurrency(loan.monthlyRepayment)}/mth
+              </span>
+            </div>
+          ))}
+          <div className="flex justify-between border-t border-slate-100 pt-1 font-semibold dark:border-dark-border">
+            <span>Total debt</span>
+            <span>{formatCurrency(plan.totalDebt ?? 0)}</span>
+          </div>
+        </div>
+      )}
+
+      <EquityReleaseChart months={plan.months} cashSavings={cashSavings} />
+    </div>
+  );
+};
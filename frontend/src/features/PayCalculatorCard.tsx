@@ -1,10 +1,11 @@
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { ToggleGroup, ToggleOption } from '../components/ToggleGroup';
 import { CurrencyInput } from '../components/inputs';
 import { formatCurrency, formatPercent } from '../lib/formatters';
 import { Tooltip } from '../components/Tooltip';
 import { InfoTooltipWithLink } from '../components/InfoTooltipWithLink';
-import { calculatePaySummary } from '../../../calc-engine/src';
+import { calculatePaySummary, type PayCalculateRequest } from '../../../calc-engine/src';
+import { usePayProfile } from '../contexts/PayProfileContext';
 
 type Frequency = 'weekly' | 'fortnightly' | 'monthly' | 'annually' | 'projection';
 type TaxYear = '2024-25' | '2025-26';
@@ -102,7 +103,7 @@ const getFinancialYearProgress = (): number => {
   return Math.min(1, Math.max(0, daysPassed / totalDays));
 };
 
-function compute(inputs: Inputs): Results {
+function toPayRequest(inputs: Inputs): PayCalculateRequest {
   // Map frequency for calc-engine (it doesn't support 'annually' or 'projection')
   const engineFrequency =
     inputs.frequency === 'projection' || inputs.frequency === 'annually' ? 'monthly' : inputs.frequency;
@@ -112,8 +113,7 @@ function compute(inputs: Inputs): Results {
     inputs.taxResidency === 'resident' ? 'resident' :
     inputs.taxResidency === 'non-resident' ? 'nonResident' : 'workingHoliday';
 
-  // Call calc-engine
-  const response = calculatePaySummary({
+  return {
     taxYear: inputs.taxYear,
     residency,
     annualSalary: inputs.annualSalary,
@@ -124,7 +124,12 @@ function compute(inputs: Inputs): Results {
     deductions: 0,
     includeSuper: inputs.includeSuper,
     superRate: inputs.superRate,
-  });
+  };
+}
+
+function compute(inputs: Inputs): Results {
+  // Call calc-engine
+  const response = calculatePaySummary(toPayRequest(inputs));
 
   // For 'annually' and 'projection', calculate periods ourselves
   const periods = periodsPerYear[inputs.frequency];
@@ -152,17 +157,27 @@ const incomeTableColumns: Array<{ key: Frequency; label: string }> = [
 ];
 
 export const PayCalculatorCard: React.FC = () => {
-  const [inputs, setInputs] = useState<Inputs>({
-    taxYear: '2025-26',
-    annualSalary: 90000,
+  // Pick up where the user left off, and share this pay with the Loans page planners
+  const { payRequest, setPayRequest } = usePayProfile();
+
+  const [inputs, setInputs] = useState<Inputs>(() => ({
+    taxYear: payRequest?.taxYear === '2024-25' ? '2024-25' : '2025-26',
+    annualSalary: payRequest?.annualSalary ?? 90000,
     frequency: 'fortnightly',
-    hasHELP: false,
-    taxResidency: 'resident',
-    includeSuper: false,
-    superRate: 0.115,
-  });
+    hasHELP: payRequest?.hasHELP ?? false,
+    taxResidency:
+      payRequest?.residency === 'nonResident' ? 'non-resident' :
+      payRequest?.residency === 'workingHoliday' ? 'whm' : 'resident',
+    includeSuper: payRequest?.includeSuper ?? false,
+    superRate: payRequest?.superRate ?? 0.115,
+  }));
 
   const results = useMemo(() => compute(inputs), [inputs]);
+
+  useEffect(() => {
+    setPayRequest(toPayRequest(inputs));
+  }, [inputs, setPayRequest]);
+
   const set = <K extends keyof Inputs>(key: K, value: Inputs[K]) =>
     setInputs((prev) => ({ ...prev, [key]: value }));
 
@@ -0,0 +1,82 @@
+import React from 'react';
+import { AustralianState, BorrowingCapacityResult, planPurchaseFunds } from 'calc-engine';
+import { PurchasePlannerView } from './PurchasePlannerView';
+
+interface PurchasePlannerCardProps {
+  capacity: BorrowingCapacityResult;
+  depositPercent?: number; // Fraction of the price, from the borrowing power deposit
+  propertyState: AustralianState;
+  capitaliseLmi: boolean;
+}
+
+const DEFAULT_LEGAL_FEES = 2000;
+const DEFAULT_INSPECTION_FEES = 600;
+const DEFAULT_ESTABLISHMENT_FEE = 600;
+
+export const PurchasePlannerCard: React.FC<PurchasePlannerCardProps> = ({
+  capacity,
+  depositPercent,
+  propertyState,
+  capitaliseLmi,
+}) => {
+  // Null follows the borrowing power estimate until the user types a price
+  const [targetPrice, setTargetPrice] = React.useState<number | null>(null);
+  const [savings, setSavings] = React.useState(150000);
+  const [firstHomeBuyer, setFirstHomeBuyer] = React.useState(false);
+  const [legalFees, setLegalFees] = React.useState(DEFAULT_LEGAL_FEES);
+  const [inspectionFees, setInspectionFees] = React.useState(DEFAULT_INSPECTION_FEES);
+  const [establishmentFee, setEstablishmentFee] = React.useState(DEFAULT_ESTABLISHMENT_FEE);
+
+  const purchasePrice = targetPrice ?? Math.round(capacity.estimatedPurchasePrice);
+
+  const plan = React.useMemo(
+    () =>
+      planPurchaseFunds({
+        capacity,
+        targetPrice: purchasePrice,
+        depositPercent,
+        savings,
+        state: propertyState,
+        firstHomeBuyer,
+        capitaliseLmi,
+        costs: {
+          legalFees,
+          inspectionFees,
+          loanFees: { upfrontFee: establishmentFee, monthlyFee: 0, annualFee: 0 },
+        },
+      }),
+    [
+      capacity,
+      purchasePrice,
+      depositPercent,
+      savings,
+      propertyState,
+      firstHomeBuyer,
+      capitaliseLmi,
+      legalFees,
+      inspectionFees,
+      establishmentFee,
+    ]
+  );
+
+  return (
+    <PurchasePlannerView
+      purchasePrice={purchasePrice}
+      onPurchasePriceChange={setTargetPrice}
+      followsBorrowingPower={targetPrice === null}
+      onUseBorrowingPower={() => setTargetPrice(null)}
+      savings={savings}
+      onSavingsChange={setSavings}
+      firstHomeBuyer={firstHomeBuyer}
+      onFirstHomeBuyerChange={setFirstHomeBuyer}
+      legalFees={legalFees}
+      onLegalFeesChange={setLegalFees}
+      inspectionFees={inspectionFees}
+      onInspectionFeesChange={setInspectionFees}
+      establishmentFee={establishmentFee}
+      onEstablishmentFeeChange={setEstablishmentFee}
+      propertyState={propertyState}
+      plan={plan}
+    />
+  );
+};
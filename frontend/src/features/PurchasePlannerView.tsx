@@ -0,0 +1,130 @@
+import React from 'react';
+import { ToggleGroup, ToggleOption } from '../components/ToggleGroup';
+import { CurrencyInput } from '../components/inputs';
+import { StatCard } from '../components/StatCard';
+import { formatCurrency } from '../lib/formatters';
+import { AustralianState, PurchaseFundsBreakdown, PurchasePlanResult } from 'calc-engine';
+
+interface PurchasePlannerViewProps {
+  purchasePrice: number;
+  onPurchasePriceChange: (value: number) => void;
+  followsBorrowingPower: boolean;
+  onUseBorrowingPower: () => void;
+  savings: number;
+  onSavingsChange: (value: number) => void;
+  firstHomeBuyer: boolean;
+  onFirstHomeBuyerChange: (value: boolean) => void;
+  legalFees: number;
+  onLegalFeesChange: (value: number) => void;
+  inspectionFees: number;
+  onInspectionFeesChange: (value: number) => void;
+  establishmentFee: number;
+  onEstablishmentFeeChange: (value: number) => void;
+  propertyState: AustralianState;
+  plan: PurchasePlanResult;
+}
+
+const yesNoOptions: ToggleOption<string>[] = [
+  { value: 'no', label: 'No' },
+  { value: 'yes', label: 'Yes' },
+];
+
+export const PurchasePlannerView: React.FC<PurchasePlannerViewProps> = ({
+  purchasePrice,
+  onPurchasePriceChange,
+  followsBorrowingPower,
+  onUseBorrowingPower,
+  savings,
+  onSavingsChange,
+  firstHomeBuyer,
+  onFirstHomeBuyerChange,
+  legalFees,
+  onLegalFeesChange,
+  inspectionFees,
+  onInspectionFeesChange,
+  establishmentFee,
+  onEstablishmentFeeChange,
+  propertyState,
+  plan,
+}) => {
+  const statementRows: { key: keyof PurchaseFundsBreakdown; label: string }[] = [
+    { key: 'deposit', label: `Deposit (${formatCurrency(plan.purchasePrice)} less ${formatCurrency(plan.loanAmount)} loan)` },
+    { key: 'transferDuty', label: `Stamp duty (${propertyState})` },
+    { key: 'mortgageRegistrationFee', label: 'Mortgage registration' },
+    { key: 'lmi', label: 'Lenders mortgage insurance' },
+    { key: 'legalFees', label: 'Legal & conveyancing' },
+    { key: 'inspectionFees', label: 'Building & pest inspection' },
+    { key: 'loanEstablishmentFee', label: 'Loan establishment fee' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3 text-sm">
+        <div className="grid grid-cols-2 gap-3">
+          <CurrencyInput label="Target price" value={purchasePrice} onChange={onPurchasePriceChange} />
+          <CurrencyInput label="Savings available" value={savings} onChange={onSavingsChange} />
+        </div>
+        {!followsBorrowingPower && (
+          <button
+            type="button"
+            onClick={onUseBorrowingPower}
+            className="rounded-full border border-brand-500 px-3 py-1 text-[11px] font-semibold text-brand-500"
+          >
+            Use borrowing power price
+          </button>
+        )}
+        <div className="grid grid-cols-3 gap-3">
+          <CurrencyInput label="Legal" value={legalFees} onChange={onLegalFeesChange} />
+          <CurrencyInput label="Inspections" value={inspectionFees} onChange={onInspectionFeesChange} />
+          <CurrencyInput label="Establishment" value={establishmentFee} onChange={onEstablishmentFeeChange} />
+        </div>
+        <div className="flex items-center justify-between">
+          <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-dark-muted">
+            First home buyer
+          </p>
+          <ToggleGroup
+            options={yesNoOptions}
+            value={firstHomeBuyer ? 'yes' : 'no'}
+            onChange={(val) => onFirstHomeBuyerChange(val === 'yes')}
+            size="sm"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <StatCard label="Funds required" value={formatCurrency(plan.fundsRequired)} variant="primary" />
+        <StatCard
+          label={plan.shortfall > 0 ? 'Shortfall' : 'Surplus'}
+          value={formatCurrency(Math.abs(plan.surplus))}
+          variant={plan.shortfall > 0 ? 'warning' : 'success'}
+        />
+      </div>
+
+      <div className="space-y-1 rounded-2xl border border-slate-200 px-4 py-3 text-xs text-slate-600 dark:border-dark-border dark:text-dark-text">
+        {statementRows
+          .filter((row) => row.key === 'deposit' || plan.breakdown[row.key] > 0)
+          .map((row) => (
+            <div key={row.key} className="flex justify-between">
+              <span>{row.label}</span>
+              <span className="font-semibold">{formatCurrency(plan.breakdown[row.key])}</span>
+            </div>
+          ))}
+        <div className="flex justify-between border-t border-slate-200 pt-1 dark:border-dark-border">
+          <span>Total upfront costs (excl. deposit)</span>
+          <span className="font-semibold">{formatCurrency(plan.upfrontCosts)}</span>
+        </div>
+      </div>
+
+      {plan.loanLimitedByCapacity && (
+        <p className="text-xs text-amber-700 dark:text-amber-300">
+          The loan is capped at your borrowing power, so the deposit covers the rest of the price.
+        </p>
+      )}
+      {plan.lmi.required && !plan.lmi.insurable && (
+        <p className="text-xs text-amber-700 dark:text-amber-300">
+          At {plan.lmi.lvr.toFixed(0)}% LVR this loan is outside typical mortgage insurance limits.
+        </p>
+      )}
+    </div>
+  );
+};
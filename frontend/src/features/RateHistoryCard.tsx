@@ -0,0 +1,58 @@
+import React from 'react';
+import { generateAmortisation, HistoricalRateSeries, LoanInputs, replayHistoricalRates } from 'calc-engine';
+import { RateHistoryView } from './RateHistoryView';
+
+export const RateHistoryCard: React.FC = () => {
+  const [startYear, setStartYear] = React.useState(2008);
+  const [loanAmount, setLoanAmount] = React.useState(500_000);
+  const [loanYears, setLoanYears] = React.useState(30);
+  const [series, setSeries] = React.useState<HistoricalRateSeries>('standardVariable');
+  const [margin, setMargin] = React.useState(0); // % over the series, negative for a discount
+
+  const startDate = `${startYear}-01-01`;
+  const replay = React.useMemo(
+    () => replayHistoricalRates({ startDate, years: loanYears, series, margin }),
+    [startDate, loanYears, series, margin]
+  );
+
+  const { replayed, flat } = React.useMemo(() => {
+    // Lenders recalculate variable repayments after every rate move
+    const loan: LoanInputs = {
+      amount: loanAmount,
+      annualRate: replay.annualRate,
+      years: loanYears,
+      frequency: 'monthly',
+      repaymentType: 'principalAndInterest',
+      repaymentStrategy: 'reduceRepayment',
+      startDate,
+    };
+    return {
+      replayed: generateAmortisation({ ...loan, rateChanges: replay.rateChanges }),
+      flat: generateAmortisation(loan),
+    };
+  }, [loanAmount, loanYears, startDate, replay]);
+
+  // Only the part of the loan the history covers has actually played out
+  const playedOut = React.useMemo(() => {
+    const toDate = (schedule: typeof replayed.schedule) => schedule.filter((row) => row.date <= replay.dataTo);
+    return { replayed: toDate(replayed.schedule), flat: toDate(flat.schedule) };
+  }, [replayed, flat, replay.dataTo]);
+
+  return (
+    <RateHistoryView
+      startYear={startYear}
+      onStartYearChange={setStartYear}
+      loanAmount={loanAmount}
+      onLoanAmountChange={setLoanAmount}
+      loanYears={loanYears}
+      onLoanYearsChange={setLoanYears}
+      series={series}
+      onSeriesChange={setSeries}
+      margin={margin}
+      onMarginChange={setMargin}
+      replay={replay}
+      replayedSchedule={playedOut.replayed}
+      flatSchedule={playedOut.flat}
+    />
+  );
+};
@@ -0,0 +1,132 @@
+import React from 'react';
+import { CurrencyInput, NumberInput, PercentInput } from '../components/inputs';
+import { StatCard } from '../components/StatCard';
+import { ToggleGroup, ToggleOption } from '../components/ToggleGroup';
+import { RateHistoryChart } from '../graphs/RepaymentCharts';
+import { formatCurrency } from '../lib/formatters';
+import { HistoricalRateSeries, HistoricalReplay, PeriodRow } from 'calc-engine';
+
+interface RateHistoryViewProps {
+  startYear: number;
+  onStartYearChange: (value: number) => void;
+  loanAmount: number;
+  onLoanAmountChange: (value: number) => void;
+  loanYears: number;
+  onLoanYearsChange: (value: number) => void;
+  series: HistoricalRateSeries;
+  onSeriesChange: (value: HistoricalRateSeries) => void;
+  margin: number;
+  onMarginChange: (value: number) => void;
+  replay: HistoricalReplay;
+  replayedSchedule: PeriodRow[];
+  flatSchedule: PeriodRow[];
+}
+
+const presetOptions: ToggleOption<string>[] = [
+  { label: '2008', value: '2008' },
+  { label: '2015', value: '2015' },
+  { label: '2020', value: '2020' },
+];
+
+const seriesOptions: ToggleOption<HistoricalRateSeries>[] = [
+  { label: 'Standard variable', value: 'standardVariable' },
+  { label: 'Cash rate + margin', value: 'cashRate' },
+];
+
+const repaymentOf = (row: PeriodRow) => row.interestCharged + row.principalPaid;
+
+const formatMonthYear = (date: string) =>
+  new Date(date).toLocaleDateString('en-AU', { month: 'short', year: 'numeric' });
+
+export const RateHistoryView: React.FC<RateHistoryViewProps> = ({
+  startYear,
+  onStartYearChange,
+  loanAmount,
+  onLoanAmountChange,
+  loanYears,
+  onLoanYearsChange,
+  series,
+  onSeriesChange,
+  margin,
+  onMarginChange,
+  replay,
+  replayedSchedule,
+  flatSchedule,
+}) => {
+  const first = replayedSchedule[0];
+  const last = replayedSchedule[replayedSchedule.length - 1];
+  const peak = replayedSchedule.reduce<PeriodRow | undefined>(
+    (highest, row) => (!highest || repaymentOf(row) > repaymentOf(highest) ? row : highest),
+    undefined
+  );
+  const interestPaid = replayedSchedule.reduce((sum, row) => sum + row.interestCharged, 0);
+  const flatInterestPaid = flatSchedule.reduce((sum, row) => sum + row.interestCharged, 0);
+  const interestDifference = interestPaid - flatInterestPaid;
+  const paidOff = last !== undefined && last.closingBalance <= 0.01;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4 text-sm">
+        <ToggleGroup
+          options={presetOptions}
+          value={String(startYear)}
+          onChange={(value) => onStartYearChange(Number(value))}
+        />
+        <div className="grid grid-cols-2 gap-3">
+          <NumberInput label="Borrowed in" value={startYear} onChange={onStartYearChange} min={2000} max={2025} />
+          <CurrencyInput label="Loan amount" value={loanAmount} onChange={onLoanAmountChange} />
+          <NumberInput label="Loan term (years)" value={loanYears} onChange={onLoanYearsChange} min={1} max={30} />
+          <PercentInput
+            label={series === 'cashRate' ? 'Margin over cash (%)' : 'Discount (-) or premium (%)'}
+            value={margin}
+            onChange={onMarginChange}
+            min={-5}
+            max={10}
+            asPercentage
+          />
+        </div>
+        <ToggleGroup options={seriesOptions} value={series} onChange={onSeriesChange} />
+      </div>
+
+      {first && (
+        <div className="grid grid-cols-2 gap-3">
+          <StatCard
+            label="Starting repayment"
+            value={`${formatCurrency(repaymentOf(first))}/mth`}
+            subtitle={`At ${replay.annualRate.toFixed(2)}% in ${formatMonthYear(first.date)}`}
+          />
+          {peak && (
+            <StatCard
+              label="Highest repayment"
+              value={`${formatCurrency(repaymentOf(peak))}/mth`}
+              subtitle={`${formatMonthYear(peak.date)}, peak rate ${replay.peak.rate.toFixed(2)}%`}
+              variant={repaymentOf(peak) > repaymentOf(first) * 1.1 ? 'warning' : 'default'}
+            />
+          )}
+          <StatCard
+            label="Interest paid"
+            value={formatCurrency(interestPaid)}
+            subtitle={`${interestDifference >= 0 ? '+' : '−'}${formatCurrency(Math.abs(interestDifference))} vs the rate holding`}
+            variant={interestDifference > 0 ? 'warning' : 'success'}
+          />
+          <StatCard
+            label={paidOff ? 'Paid off' : `Balance ${formatMonthYear(last.date)}`}
+            value={paidOff ? formatMonthYear(last.date) : formatCurrency(last.closingBalance)}
+            subtitle={`Lowest rate ${replay.low.rate.toFixed(2)}% from ${formatMonthYear(replay.low.effectiveDate)}`}
+            variant={paidOff ? 'success' : 'default'}
+          />
+        </div>
+      )}
+
+      <RateHistoryChart
+        schedule={replayedSchedule}
+        annualRate={replay.annualRate}
+        rateChanges={replay.rateChanges}
+        flatSchedule={flatSchedule}
+      />
+      <p className="text-xs text-slate-500 dark:text-dark-muted">
+        RBA rate history to {formatMonthYear(replay.dataTo)}, with repayments recalculated after each move.
+      </p>
+    </div>
+  );
+};
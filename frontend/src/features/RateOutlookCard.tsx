@@ -0,0 +1,82 @@
+import React from 'react';
+import { RateSimulationInputs, RateSimulationResult, RepaymentStrategy, simulateRatePaths } from 'calc-engine';
+import { RateFanMetric } from '../graphs/FanCharts';
+import { RateOutlookView } from './RateOutlookView';
+
+export const RateOutlookCard: React.FC = () => {
+  const [loanAmount, setLoanAmount] = React.useState(600_000);
+  const [interestRate, setInterestRate] = React.useState(6); // % p.a.
+  const [loanYears, setLoanYears] = React.useState(30);
+  const [repaymentStrategy, setRepaymentStrategy] = React.useState<RepaymentStrategy>('reduceRepayment');
+  const [cashRate, setCashRate] = React.useState(3.85); // % p.a.
+  const [longRunCashRate, setLongRunCashRate] = React.useState(3.5); // % p.a.
+  const [volatility, setVolatility] = React.useState(1); // % points per square-root year
+  const [paths, setPaths] = React.useState(1000);
+  const [seed, setSeed] = React.useState(1);
+  const [metric, setMetric] = React.useState<RateFanMetric>('repayment');
+
+  const startDate = React.useMemo(() => new Date().toISOString().slice(0, 10), []);
+
+  const inputs = React.useMemo<RateSimulationInputs>(
+    () => ({
+      loan: {
+        amount: loanAmount,
+        annualRate: interestRate,
+        years: loanYears,
+        frequency: 'monthly',
+        repaymentType: 'principalAndInterest',
+        repaymentStrategy,
+        startDate,
+      },
+      cashRate,
+      longRunCashRate,
+      volatility,
+      paths,
+      seed,
+    }),
+    [loanAmount, interestRate, loanYears, repaymentStrategy, cashRate, longRunCashRate, volatility, paths, seed, startDate]
+  );
+
+  // A thousand paths take a second or two, so the simulation only runs on request
+  const [run, setRun] = React.useState<{ inputs: RateSimulationInputs; simulation: RateSimulationResult } | null>(null);
+  const [running, setRunning] = React.useState(false);
+
+  const handleRun = () => {
+    setRunning(true);
+    // Let the running state paint before the simulation blocks the page
+    window.setTimeout(() => {
+      setRun({ inputs, simulation: simulateRatePaths(inputs) });
+      setRunning(false);
+    }, 0);
+  };
+
+  return (
+    <RateOutlookView
+      loanAmount={loanAmount}
+      onLoanAmountChange={setLoanAmount}
+      interestRate={interestRate}
+      onInterestRateChange={setInterestRate}
+      loanYears={loanYears}
+      onLoanYearsChange={setLoanYears}
+      repaymentStrategy={repaymentStrategy}
+      onRepaymentStrategyChange={setRepaymentStrategy}
+      cashRate={cashRate}
+      onCashRateChange={setCashRate}
+      longRunCashRate={longRunCashRate}
+      onLongRunCashRateChange={setLongRunCashRate}
+      volatility={volatility}
+      onVolatilityChange={setVolatility}
+      paths={paths}
+      onPathsChange={setPaths}
+      seed={seed}
+      onSeedChange={setSeed}
+      metric={metric}
+      onMetricChange={setMetric}
+      simulation={run?.simulation ?? null}
+      simulatedInputs={run?.inputs ?? null}
+      running={running}
+      stale={run !== null && run.inputs !== inputs}
+      onRun={handleRun}
+    />
+  );
+};
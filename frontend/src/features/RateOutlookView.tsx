@@ -0,0 +1,175 @@
+import React from 'react';
+import { CurrencyInput, NumberInput, PercentInput } from '../components/inputs';
+import { StatCard } from '../components/StatCard';
+import { ToggleGroup, ToggleOption } from '../components/ToggleGroup';
+import { RateFanChart, RateFanMetric } from '../graphs/FanCharts';
+import { formatCurrency } from '../lib/formatters';
+import { PercentileBand, RateSimulationInputs, RateSimulationResult, RepaymentStrategy } from 'calc-engine';
+
+interface RateOutlookViewProps {
+  loanAmount: number;
+  onLoanAmountChange: (value: number) => void;
+  interestRate: number;
+  onInterestRateChange: (value: number) => void;
+  loanYears: number;
+  onLoanYearsChange: (value: number) => void;
+  repaymentStrategy: RepaymentStrategy;
+  onRepaymentStrategyChange: (value: RepaymentStrategy) => void;
+  cashRate: number;
+  onCashRateChange: (value: number) => void;
+  longRunCashRate: number;
+  onLongRunCashRateChange: (value: number) => void;
+  volatility: number;
+  onVolatilityChange: (value: number) => void;
+  paths: number;
+  onPathsChange: (value: number) => void;
+  seed: number;
+  onSeedChange: (value: number) => void;
+  metric: RateFanMetric;
+  onMetricChange: (value: RateFanMetric) => void;
+  simulation: RateSimulationResult | null;
+  simulatedInputs: RateSimulationInputs | null;
+  running: boolean;
+  stale: boolean;
+  onRun: () => void;
+}
+
+const strategyOptions: ToggleOption<RepaymentStrategy>[] = [
+  { label: 'Repayments follow rates', value: 'reduceRepayment' },
+  { label: 'Repayments held', value: 'reduceTerm' },
+];
+
+const pathOptions: ToggleOption<string>[] = [
+  { label: '500 paths', value: '500' },
+  { label: '1,000', value: '1000' },
+  { label: '2,000', value: '2000' },
+];
+
+const metricOptions: ToggleOption<RateFanMetric>[] = [
+  { label: 'Repayment', value: 'repayment' },
+  { label: 'Loan rate', value: 'loanRate' },
+  { label: 'Balance', value: 'balance' },
+];
+
+const formatRange = (band: PercentileBand) => `${formatCurrency(band.p10)} to ${formatCurrency(band.p90)}`;
+
+const formatMonthYear = (date: string) =>
+  new Date(date).toLocaleDateString('en-AU', { month: 'short', year: 'numeric' });
+
+export const RateOutlookView: React.FC<RateOutlookViewProps> = ({
+  loanAmount,
+  onLoanAmountChange,
+  interestRate,
+  onInterestRateChange,
+  loanYears,
+  onLoanYearsChange,
+  repaymentStrategy,
+  onRepaymentStrategyChange,
+  cashRate,
+  onCashRateChange,
+  longRunCashRate,
+  onLongRunCashRateChange,
+  volatility,
+  onVolatilityChange,
+  paths,
+  onPathsChange,
+  seed,
+  onSeedChange,
+  metric,
+  onMetricChange,
+  simulation,
+  simulatedInputs,
+  running,
+  stale,
+  onRun,
+}) => {
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4 text-sm">
+        <div className="grid grid-cols-2 gap-3">
+          <CurrencyInput label="Loan amount" value={loanAmount} onChange={onLoanAmountChange} />
+          <PercentInput label="Interest rate (%)" value={interestRate} onChange={onInterestRateChange} asPercentage />
+          <NumberInput label="Loan term (years)" value={loanYears} onChange={onLoanYearsChange} min={1} max={30} />
+          <PercentInput label="Cash rate today (%)" value={cashRate} onChange={onCashRateChange} asPercentage />
+          <PercentInput
+            label="Long-run cash rate (%)"
+            value={longRunCashRate}
+            onChange={onLongRunCashRateChange}
+            asPercentage
+          />
+          <PercentInput label="Volatility (% pts/yr)" value={volatility} onChange={onVolatilityChange} asPercentage />
+          <NumberInput label="Seed" value={seed} onChange={onSeedChange} min={1} />
+        </div>
+        <ToggleGroup options={strategyOptions} value={repaymentStrategy} onChange={onRepaymentStrategyChange} />
+        <ToggleGroup options={pathOptions} value={String(paths)} onChange={(value) => onPathsChange(Number(value))} />
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={onRun}
+            disabled={running}
+            className="rounded-full border border-brand-500 px-3 py-1 text-[11px] font-semibold text-brand-500 disabled:opacity-40"
+          >
+            {running ? 'Running…' : simulation ? 'Run again' : 'Run simulation'}
+          </button>
+          {stale && !running && (
+            <span className="text-xs text-amber-700 dark:text-amber-300">Inputs have changed since this run.</span>
+          )}
+        </div>
+      </div>
+
+      {simulation && simulatedInputs && (
+        <RateOutlookResults
+          simulation={simulation}
+          inputs={simulatedInputs}
+          metric={metric}
+          onMetricChange={onMetricChange}
+        />
+      )}
+    </div>
+  );
+};
+
+const RateOutlookResults: React.FC<{
+  simulation: RateSimulationResult;
+  inputs: RateSimulationInputs;
+  metric: RateFanMetric;
+  onMetricChange: (value: RateFanMetric) => void;
+}> = ({ simulation, inputs, metric, onMetricChange }) => {
+  const { baseline } = simulation;
+  const { loan } = inputs;
+  const startValue =
+    metric === 'loanRate' ? loan.annualRate : metric === 'repayment' ? baseline.summary.regularPayment : loan.amount;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-3 gap-3">
+        <StatCard
+          label="Highest repayment"
+          value={`${formatCurrency(simulation.repayment.p50)}/mth`}
+          subtitle={formatRange(simulation.repayment)}
+        />
+        <StatCard
+          label="Total interest"
+          value={formatCurrency(simulation.totalInterest.p50)}
+          subtitle={formatRange(simulation.totalInterest)}
+          variant={simulation.totalInterest.p50 > baseline.summary.totalInterest ? 'warning' : 'success'}
+        />
+        <StatCard
+          label="Paid off"
+          value={formatMonthYear(simulation.payoffDate.p50)}
+          subtitle={`${formatMonthYear(simulation.payoffDate.p10)} to ${formatMonthYear(simulation.payoffDate.p90)}`}
+        />
+      </div>
+      <p className="text-xs text-slate-500 dark:text-dark-muted">
+        Median with the P10 to P90 range across {simulation.paths.toLocaleString('en-AU')} simulated rate paths. If
+        rates stayed where they are: {formatCurrency(baseline.summary.regularPayment)}/mth and{' '}
+        {formatCurrency(baseline.summary.totalInterest)} interest.
+      </p>
+
+      <div className="space-y-2">
+        <ToggleGroup options={metricOptions} value={metric} onChange={onMetricChange} />
+        <RateFanChart years={simulation.years} metric={metric} startValue={startValue} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import React from 'react';
+import { analyseRefinance } from 'calc-engine';
+import { CumulativeInterestWithDifferenceLine } from '../graphs/RepaymentCharts';
+import { CurrencyInput, NumberInput, PercentInput } from '../components/inputs';
+import { StatCard } from '../components/StatCard';
+import { formatCurrency } from '../lib/formatters';
+
+export const RefinanceCard: React.FC = () => {
+  // Current loan
+  const [balance, setBalance] = React.useState(550_000);
+  const [currentRate, setCurrentRate] = React.useState(6.49); // % p.a.
+  const [remainingYears, setRemainingYears] = React.useState(26);
+  const [currentFeesYearly, setCurrentFeesYearly] = React.useState(395);
+
+  // Candidate loan
+  const [newRate, setNewRate] = React.useState(5.94); // % p.a.
+  const [newFeesYearly, setNewFeesYearly] = React.useState(0);
+  const [applicationFee, setApplicationFee] = React.useState(0);
+  const [dischargeCost, setDischargeCost] = React.useState(350);
+  const [establishmentCost, setEstablishmentCost] = React.useState(500);
+  const [cashback, setCashback] = React.useState(2_000);
+
+  const startDate = React.useMemo(() => new Date().toISOString().slice(0, 10), []);
+
+  const analysis = React.useMemo(
+    () =>
+      analyseRefinance({
+        current: {
+          balance,
+          annualRate: currentRate,
+          remainingYears,
+          fees: { upfrontFee: 0, monthlyFee: 0, annualFee: currentFeesYearly },
+        },
+        candidate: {
+          annualRate: newRate,
+          fees: { upfrontFee: applicationFee, monthlyFee: 0, annualFee: newFeesYearly },
+          cashback,
+          dischargeCost,
+          establishmentCost,
+        },
+        frequency: 'monthly',
+        repaymentType: 'principalAndInterest',
+        startDate,
+      }),
+    [
+      balance,
+      currentRate,
+      remainingYears,
+      currentFeesYearly,
+      newRate,
+      newFeesYearly,
+      applicationFee,
+      cashback,
+      dischargeCost,
+      establishmentCost,
+      startDate,
+    ]
+  );
+
+  const breakEvenLabel = (() => {
+    if (analysis.breakEvenMonths === undefined) return 'Never';
+    if (analysis.breakEvenMonths === 0) return 'Day one';
+    return `${analysis.breakEvenMonths} months`;
+  })();
+
+  const horizons: { label: string; value: number }[] = [
+    { label: '1 year', value: analysis.savings.oneYear },
+    { label: '3 years', value: analysis.savings.threeYears },
+    { label: '5 years', value: analysis.savings.fiveYears },
+    { label: 'Full term', value: analysis.savings.fullTerm },
+  ];
+
+  return (
+    <div className="space-y-5">
+      <div className="relative rounded-2xl border border-slate-200 p-4 dark:border-dark-border">
+        <div className="relative grid grid-cols-2 gap-4">
+          <div className="pointer-events-none absolute inset-y-2 left-1/2 border-l border-slate-200 dark:border-dark-border" />
+
+          {/* LHS: Current loan */}
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold text-slate-900 dark:text-white">Current loan</h3>
+            <CurrencyInput label="Balance" value={balance} onChange={setBalance} />
+            <PercentInput label="Interest" value={currentRate} onChange={setCurrentRate} asPercentage step={0.05} />
+            <NumberInput label="Term Left" value={remainingYears} onChange={setRemainingYears} suffix="/yrs" />
+            <CurrencyInput label="Fees" value={currentFeesYearly} onChange={setCurrentFeesYearly} suffix="/yr" />
+            <CurrencyInput label="Discharge cost" value={dischargeCost} onChange={setDischargeCost} />
+          </div>
+
+          {/* RHS: New loan */}
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold text-slate-900 dark:text-white">New loan</h3>
+            <PercentInput label="Interest" value={newRate} onChange={setNewRate} asPercentage step={0.05} />
+            <CurrencyInput label="Fees" value={newFeesYearly} onChange={setNewFeesYearly} suffix="/yr" />
+            <CurrencyInput label="Application fee" value={applicationFee} onChange={setApplicationFee} />
+            <CurrencyInput label="Settlement costs" value={establishmentCost} onChange={setEstablishmentCost} />
+            <CurrencyInput label="Cashback" value={cashback} onChange={setCashback} />
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <StatCard
+          label="Costs recovered"
+          value={breakEvenLabel}
+          subtitle={
+            analysis.breakEvenDate
+              ? `by ${new Date(analysis.breakEvenDate).toLocaleString('en-AU', { month: 'short', year: 'numeric' })}`
+              : undefined
+          }
+          variant={analysis.breakEvenMonths === undefined ? 'warning' : 'success'}
+        />
+        <StatCard
+          label="Repayment change"
+          value={`${analysis.repaymentChange > 0 ? '+' : ''}${formatCurrency(analysis.repaymentChange)}`}
+          subtitle="per month"
+        />
+      </div>
+
+      <div className="space-y-1 rounded-2xl border border-slate-200 px-4 py-3 text-xs text-slate-600 dark:border-dark-border dark:text-dark-text">
+        <div className="flex justify-between">
+          <span>Switching costs</span>
+          <span className="font-semibold">{formatCurrency(analysis.switchingCosts)}</span>
+        </div>
+        {analysis.cashback > 0 && (
+          <div className="flex justify-between">
+            <span>Cashback</span>
+            <span className="font-semibold">-{formatCurrency(analysis.cashback)}</span>
+          </div>
+        )}
+        <div className="border-t border-slate-200 pt-1 dark:border-dark-border" />
+        {horizons.map((horizon) => (
+          <div key={horizon.label} className="flex justify-between">
+            <span>Saved after {horizon.label.toLowerCase()}</span>
+            <span
+              className={`font-semibold ${horizon.value < 0 ? 'text-amber-700 dark:text-amber-300' : 'text-green-700 dark:text-green-300'}`}
+            >
+              {formatCurrency(horizon.value)}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="rounded-2xl border border-slate-200 p-4 dark:border-dark-border">
+        <h3 className="mb-2 text-sm font-semibold text-slate-900 dark:text-white">Cumulative savings</h3>
+        <CumulativeInterestWithDifferenceLine
+          schedule={analysis.current.schedule}
+          overlaySchedule={analysis.candidate.schedule}
+          initialDifference={-analysis.netSwitchingCost}
+          includeFees
+          differenceName="Saved by refinancing"
+          yAxisLabel="Savings ($)"
+        />
+      </div>
+    </div>
+  );
+};
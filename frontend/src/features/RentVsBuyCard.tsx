@@ -0,0 +1,91 @@
+import React from 'react';
+import { AustralianState, compareRentVsBuy } from 'calc-engine';
+import { RentVsBuyView } from './RentVsBuyView';
+
+export const RentVsBuyCard: React.FC = () => {
+  // Buying
+  const [propertyState, setPropertyState] = React.useState<AustralianState>('NSW');
+  const [purchasePrice, setPurchasePrice] = React.useState(800_000);
+  const [deposit, setDeposit] = React.useState(160_000);
+  const [firstHomeBuyer, setFirstHomeBuyer] = React.useState(true);
+  const [interestRate, setInterestRate] = React.useState(6); // % p.a.
+  const [ownershipCosts, setOwnershipCosts] = React.useState(6_000);
+  const [capitalGrowthRate, setCapitalGrowthRate] = React.useState(5); // % p.a.
+
+  // Renting
+  const [weeklyRent, setWeeklyRent] = React.useState(650);
+  const [rentGrowthRate, setRentGrowthRate] = React.useState(3); // % p.a.
+  const [investmentReturn, setInvestmentReturn] = React.useState(7); // % p.a.
+
+  const [years, setYears] = React.useState(20);
+
+  const startDate = React.useMemo(() => new Date().toISOString().slice(0, 10), []);
+
+  const comparison = React.useMemo(
+    () =>
+      compareRentVsBuy({
+        purchasePrice,
+        deposit,
+        state: propertyState,
+        firstHomeBuyer,
+        purchaseCosts: 3_000,
+        loan: {
+          annualRate: interestRate,
+          years: 30,
+          repaymentType: 'principalAndInterest',
+          repaymentStrategy: 'reduceTerm',
+          startDate,
+        },
+        ownershipCosts,
+        capitalGrowthRate,
+        sellingCostRate: 2.5,
+        weeklyRent,
+        rentGrowthRate,
+        costGrowthRate: rentGrowthRate,
+        investmentReturn,
+        years,
+      }),
+    [
+      purchasePrice,
+      deposit,
+      propertyState,
+      firstHomeBuyer,
+      interestRate,
+      ownershipCosts,
+      capitalGrowthRate,
+      weeklyRent,
+      rentGrowthRate,
+      investmentReturn,
+      years,
+      startDate,
+    ]
+  );
+
+  return (
+    <RentVsBuyView
+      propertyState={propertyState}
+      onPropertyStateChange={setPropertyState}
+      purchasePrice={purchasePrice}
+      onPurchasePriceChange={setPurchasePrice}
+      deposit={deposit}
+      onDepositChange={setDeposit}
+      firstHomeBuyer={firstHomeBuyer}
+      onFirstHomeBuyerChange={setFirstHomeBuyer}
+      interestRate={interestRate}
+      onInterestRateChange={setInterestRate}
+      ownershipCosts={ownershipCosts}
+      onOwnershipCostsChange={setOwnershipCosts}
+      capitalGrowthRate={capitalGrowthRate}
+      onCapitalGrowthRateChange={setCapitalGrowthRate}
+      weeklyRent={weeklyRent}
+      onWeeklyRentChange={setWeeklyRent}
+      rentGrowthRate={rentGrowthRate}
+      onRentGrowthRateChange={setRentGrowthRate}
+      investmentReturn={investmentReturn}
+      onInvestmentReturnChange={setInvestmentReturn}
+      years={years}
+      onYearsChange={setYears}
+      comparison={comparison}
+    />
+  );
+};
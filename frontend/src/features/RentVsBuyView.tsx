@@ -0,0 +1,173 @@
+import React from 'react';
+import { ToggleGroup, ToggleOption } from '../components/ToggleGroup';
+import { CurrencyInput, NumberInput, PercentInput, StateSelect } from '../components/inputs';
+import { StatCard } from '../components/StatCard';
+import { BalanceChart } from '../graphs/RepaymentCharts';
+import { RentVsBuyChart } from '../graphs/WealthCharts';
+import { formatCurrency } from '../lib/formatters';
+import { AustralianState, RentVsBuyResult } from 'calc-engine';
+
+interface RentVsBuyViewProps {
+  propertyState: AustralianState;
+  onPropertyStateChange: (value: AustralianState) => void;
+  purchasePrice: number;
+  onPurchasePriceChange: (value: number) => void;
+  deposit: number;
+  onDepositChange: (value: number) => void;
+  firstHomeBuyer: boolean;
+  onFirstHomeBuyerChange: (value: boolean) => void;
+  interestRate: number;
+  onInterestRateChange: (value: number) => void;
+  ownershipCosts: number;
+  onOwnershipCostsChange: (value: number) => void;
+  capitalGrowthRate: number;
+  onCapitalGrowthRateChange: (value: number) => void;
+  weeklyRent: number;
+  onWeeklyRentChange: (value: number) => void;
+  rentGrowthRate: number;
+  onRentGrowthRateChange: (value: number) => void;
+  investmentReturn: number;
+  onInvestmentReturnChange: (value: number) => void;
+  years: number;
+  onYearsChange: (value: number) => void;
+  comparison: RentVsBuyResult;
+}
+
+const yesNoOptions: ToggleOption<string>[] = [
+  { value: 'no', label: 'No' },
+  { value: 'yes', label: 'Yes' },
+];
+
+const horizonOptions: ToggleOption<string>[] = [
+  { value: '10', label: '10 yrs' },
+  { value: '20', label: '20 yrs' },
+  { value: '30', label: '30 yrs' },
+];
+
+export const RentVsBuyView: React.FC<RentVsBuyViewProps> = ({
+  propertyState,
+  onPropertyStateChange,
+  purchasePrice,
+  onPurchasePriceChange,
+  deposit,
+  onDepositChange,
+  firstHomeBuyer,
+  onFirstHomeBuyerChange,
+  interestRate,
+  onInterestRateChange,
+  ownershipCosts,
+  onOwnershipCostsChange,
+  capitalGrowthRate,
+  onCapitalGrowthRateChange,
+  weeklyRent,
+  onWeeklyRentChange,
+  rentGrowthRate,
+  onRentGrowthRateChange,
+  investmentReturn,
+  onInvestmentReturnChange,
+  years,
+  onYearsChange,
+  comparison,
+}) => {
+  const ahead = Math.abs(comparison.finalBuyerWealth - comparison.finalRenterWealth);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4 text-sm">
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-dark-muted">Buy</p>
+        <div className="grid grid-cols-2 gap-3">
+          <CurrencyInput label="Purchase price" value={purchasePrice} onChange={onPurchasePriceChange} />
+          <StateSelect value={propertyState} onChange={onPropertyStateChange} />
+          <CurrencyInput label="Deposit" value={deposit} onChange={onDepositChange} />
+          <PercentInput label="Interest rate (%)" value={interestRate} onChange={onInterestRateChange} asPercentage />
+          <CurrencyInput label="Ownership costs" value={ownershipCosts} onChange={onOwnershipCostsChange} suffix="/yr" />
+          <PercentInput
+            label="Capital growth (%)"
+            value={capitalGrowthRate}
+            onChange={onCapitalGrowthRateChange}
+            min={-10}
+            asPercentage
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-dark-muted">First home buyer</p>
+          <ToggleGroup
+            options={yesNoOptions}
+            value={firstHomeBuyer ? 'yes' : 'no'}
+            onChange={(val) => onFirstHomeBuyerChange(val === 'yes')}
+            size="sm"
+          />
+        </div>
+
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-dark-muted">Rent & invest</p>
+        <div className="grid grid-cols-2 gap-3">
+          <CurrencyInput label="Rent" value={weeklyRent} onChange={onWeeklyRentChange} suffix="/wk" />
+          <PercentInput label="Rent growth (%)" value={rentGrowthRate} onChange={onRentGrowthRateChange} asPercentage />
+          <PercentInput
+            label="Investment return (%)"
+            value={investmentReturn}
+            onChange={onInvestmentReturnChange}
+            asPercentage
+          />
+          <NumberInput label="Horizon" value={years} onChange={onYearsChange} min={10} max={30} suffix="/yrs" />
+        </div>
+        <div className="flex justify-center">
+          <ToggleGroup
+            options={horizonOptions}
+            value={String(years)}
+            onChange={(val) => onYearsChange(Number(val))}
+            size="sm"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <StatCard
+          label={`${comparison.better === 'buy' ? 'Buying' : 'Renting'} is ahead by`}
+          value={formatCurrency(ahead)}
+          subtitle={`after ${comparison.points.length - 1} years`}
+          variant={comparison.better === 'buy' ? 'primary' : 'success'}
+        />
+        <StatCard
+          label="Break-even growth"
+          value={
+            comparison.breakEvenGrowthRate !== undefined
+              ? `${comparison.breakEvenGrowthRate.toFixed(2)}% p.a.`
+              : 'Above 30% p.a.'
+          }
+          subtitle={
+            comparison.breakEvenYear !== undefined
+              ? `Buying pulls ahead in year ${comparison.breakEvenYear}`
+              : 'Buying never pulls ahead'
+          }
+        />
+        <StatCard label="Wealth if you buy" value={formatCurrency(comparison.finalBuyerWealth)} />
+        <StatCard label="Wealth if you rent" value={formatCurrency(comparison.finalRenterWealth)} />
+      </div>
+
+      <RentVsBuyChart points={comparison.points} breakEvenYear={comparison.breakEvenYear} />
+
+      <div className="space-y-1 rounded-2xl border border-slate-200 px-4 py-3 text-xs text-slate-600 dark:border-dark-border dark:text-dark-text">
+        <div className="flex justify-between">
+          <span>Upfront cash (deposit, duty and costs)</span>
+          <span className="font-semibold">{formatCurrency(comparison.upfrontCosts)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Stamp duty</span>
+          <span className="font-semibold">{formatCurrency(comparison.duty.transferDuty)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Monthly repayment</span>
+          <span className="font-semibold">{formatCurrency(comparison.loan.summary.regularPayment)}</span>
+        </div>
+      </div>
+
+      {comparison.loan.schedule.length > 0 && <BalanceChart schedule={comparison.loan.schedule} />}
+
+      <p className="text-xs text-slate-500 dark:text-dark-muted">
+        Both paths spend the same each month: whoever pays less invests the difference. Buyer wealth allows 2.5%
+        selling costs. Ignores LMI, tax on investment returns and capital gains.
+      </p>
+    </div>
+  );
+};
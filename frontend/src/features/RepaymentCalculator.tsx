@@ -1,6 +1,11 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import {
   generateAmortisation,
+  solveExtraRepaymentForPayoff,
+  solveLumpSumForYearsSaved,
+  solveMaxLoanForRepayment,
+  solveRateForRepayment,
+  GoalSeekResult,
   RepaymentFrequency,
   RepaymentType,
   RepaymentStrategy
@@ -10,6 +15,8 @@ import { formatCurrency } from '../lib/formatters';
 
 const DEFAULT_START_DATE = new Date().toISOString().slice(0, 10);
 
+type SolveFor = 'none' | 'extra' | 'maxLoan' | 'rate' | 'lumpSum';
+
 interface RepaymentCalculatorProps {
   mode: 'simple' | 'advanced';
   onModeChange: (mode: 'simple' | 'advanced') => void;
@@ -27,6 +34,9 @@ export const RepaymentCalculator: React.FC<RepaymentCalculatorProps> = ({
     useState<RepaymentType>('principalAndInterest');
   const [strategy, setStrategy] =
     useState<RepaymentStrategy>('reduceTerm');
+  const [solveFor, setSolveFor] = useState<SolveFor>('none');
+  const [targetYears, setTargetYears] = useState(20);
+  const [targetRepayment, setTargetRepayment] = useState(3000);
 
   const result = useMemo(
     () =>
@@ -41,7 +51,52 @@ export const RepaymentCalculator: React.FC<RepaymentCalculatorProps> = ({
       }),
     [amount, rate, years, frequency, repaymentType, strategy]
   );
-  const payoffDate = new Date(result.summary.payoffDate);
+
+  const solved = useMemo<GoalSeekResult | undefined>(() => {
+    const inputs = {
+      amount,
+      annualRate: rate,
+      years,
+      frequency,
+      repaymentType,
+      repaymentStrategy: strategy,
+      startDate: DEFAULT_START_DATE
+    };
+    switch (solveFor) {
+      case 'extra': {
+        const target = new Date(DEFAULT_START_DATE);
+        target.setFullYear(target.getFullYear() + targetYears);
+        return solveExtraRepaymentForPayoff(inputs, target.toISOString().slice(0, 10));
+      }
+      case 'maxLoan':
+        return solveMaxLoanForRepayment(inputs, targetRepayment);
+      case 'rate':
+        return solveRateForRepayment(inputs, targetRepayment);
+      case 'lumpSum':
+        return solveLumpSumForYearsSaved(inputs, targetYears);
+      default:
+        return undefined;
+    }
+  }, [solveFor, targetYears, targetRepayment, amount, rate, years, frequency, repaymentType, strategy]);
+
+  const solvedLabel =
+    solveFor === 'extra'
+      ? 'Extra repayment needed'
+      : solveFor === 'maxLoan'
+      ? 'Maximum loan'
+      : solveFor === 'rate'
+      ? 'Rate at target repayment'
+      : 'Lump sum needed';
+  const solvedValue = solved
+    ? solveFor === 'rate'
+      ? `${solved.value.toFixed(2)}%`
+      : formatCurrency(solved.value)
+    : '';
+  // Solved schedules replace the plain one in the summary, chart and table
+  const displayed = solved?.result ?? result;
+  const displayedAmount = solveFor === 'maxLoan' && solved ? solved.value : amount;
+
+  const payoffDate = new Date(displayed.summary.payoffDate);
   const payoffYear = payoffDate.getFullYear();
 
   const frequencyLabel =
@@ -168,6 +223,49 @@ export const RepaymentCalculator: React.FC<RepaymentCalculatorProps> = ({
               Interest-only
             </label>
           </fieldset>
+          <div>
+            <label htmlFor="solveFor">Solve for</label>
+            <select
+              id="solveFor"
+              value={solveFor}
+              onChange={(e) => setSolveFor(e.target.value as SolveFor)}
+              style={{
+                width: '100%',
+                padding: '0.4rem 0.75rem',
+                fontSize: '0.9rem',
+                borderRadius: '0.375rem',
+                border: '1px solid var(--control-border)',
+                backgroundColor: 'var(--control-bg)',
+                color: 'var(--text-main)'
+              }}
+            >
+              <option value="none">Nothing (show repayments)</option>
+              <option value="extra">Extra repayment to be debt-free by</option>
+              <option value="maxLoan">Maximum loan for a repayment</option>
+              <option value="rate">Rate at which repayments reach</option>
+              <option value="lumpSum">Lump sum to cut years</option>
+            </select>
+          </div>
+          {(solveFor === 'extra' || solveFor === 'lumpSum') && (
+            <LabeledNumber
+              id="targetYears"
+              label={solveFor === 'extra' ? 'Debt-free in (yrs)' : 'Years to cut'}
+              value={targetYears}
+              min={1}
+              max={40}
+              step={1}
+              onChange={setTargetYears}
+            />
+          )}
+          {(solveFor === 'maxLoan' || solveFor === 'rate') && (
+            <LabeledCurrency
+              id="targetRepayment"
+              label="Target repayment"
+              value={targetRepayment}
+              min={0}
+              onChange={setTargetRepayment}
+            />
+          )}
 
           {/* Simple / Advanced toggle below core inputs */}
           <div
@@ -245,24 +343,30 @@ export const RepaymentCalculator: React.FC<RepaymentCalculatorProps> = ({
         >
           <SummaryCard
             label={frequencyLabel}
-            value={formatCurrency(result.summary.regularPayment)}
+            value={formatCurrency(displayed.summary.regularPayment)}
           />
           <SummaryCard
             label="Loan amount (principal)"
-            value={formatCurrency(amount)}
+            value={formatCurrency(displayedAmount)}
           />
           <SummaryCard
             label="Total interest paid"
-            value={formatCurrency(result.summary.totalInterest)}
+            value={formatCurrency(displayed.summary.totalInterest)}
           />
           <SummaryCard
             label="Total paid"
-            value={formatCurrency(result.summary.totalPaid)}
+            value={formatCurrency(displayed.summary.totalPaid)}
           />
           <SummaryCard
             label="Loan completed"
             value={String(payoffYear)}
           />
+          {solved && (
+            <SummaryCard
+              label={solvedLabel}
+              value={solved.achievable ? solvedValue : `Not achievable (${solvedValue})`}
+            />
+          )}
         </div>
 
         <div style={{ marginBottom: '1.5rem' }}>
@@ -277,11 +381,14 @@ export const RepaymentCalculator: React.FC<RepaymentCalculatorProps> = ({
           >
             This graph shows how additional repayments or interest rate changes will impact the cost and time of your loan.
           </p>
-          <BalanceChart schedule={result.schedule} />
+          <BalanceChart
+            schedule={displayed.schedule}
+            overlaySchedule={solved ? result.schedule : undefined}
+          />
           
         </div>
 
-        <RepaymentTable schedule={result.schedule} />
+        <RepaymentTable schedule={displayed.schedule} />
       </section>
     </div>
   );
@@ -0,0 +1,243 @@
+import React from 'react';
+import { generateSplitLoan, LoanTranche, TrancheRateType } from 'calc-engine';
+import { BalanceChart } from '../graphs/RepaymentCharts';
+import { CollapsibleContainer } from '../components/CollapsibleContainer';
+import { ToggleGroup, ToggleOption } from '../components/ToggleGroup';
+import { CurrencyInput, NumberInput, PercentInput } from '../components/inputs';
+import { StatCard } from '../components/StatCard';
+import { formatCurrency } from '../lib/formatters';
+import { RepaymentFrequency } from './LoanCalculatorView';
+
+type TrancheEntry = LoanTranche & { id: string };
+
+const createId = () =>
+  globalThis.crypto?.randomUUID?.() ?? `tranche-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+
+const rateTypeOptions: ToggleOption<TrancheRateType>[] = [
+  { value: 'fixed', label: 'Fixed' },
+  { value: 'variable', label: 'Variable' },
+];
+
+const repaymentTypeOptions: ToggleOption<LoanTranche['repaymentType']>[] = [
+  { value: 'principalAndInterest', label: 'P&I' },
+  { value: 'interestOnly', label: 'Interest Only' },
+];
+
+const frequencyOptions: ToggleOption<RepaymentFrequency>[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'fortnightly', label: 'Fortnightly' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+const frequencyShort: Record<RepaymentFrequency, string> = {
+  weekly: 'wk',
+  fortnightly: 'ftn',
+  monthly: 'mth',
+};
+
+export const SplitLoanCard: React.FC = () => {
+  const [frequency, setFrequency] = React.useState<RepaymentFrequency>('monthly');
+  const [offsetBalance, setOffsetBalance] = React.useState(0);
+  const [tranches, setTranches] = React.useState<TrancheEntry[]>([
+    {
+      id: createId(),
+      name: 'Fixed',
+      amount: 390000,
+      rateType: 'fixed',
+      annualRate: 5.59,
+      years: 30,
+      repaymentType: 'principalAndInterest',
+      fixedYears: 3,
+      revertRate: 6.19,
+    },
+    {
+      id: createId(),
+      name: 'Variable',
+      amount: 260000,
+      rateType: 'variable',
+      annualRate: 6.19,
+      years: 30,
+      repaymentType: 'principalAndInterest',
+      offsetLinked: true,
+    },
+  ]);
+
+  const startDate = React.useMemo(() => new Date().toISOString().slice(0, 10), []);
+
+  const result = React.useMemo(
+    () =>
+      generateSplitLoan({
+        tranches,
+        frequency,
+        repaymentStrategy: 'reduceTerm',
+        startDate,
+        offset: offsetBalance > 0 ? { startingBalance: offsetBalance, monthlyContribution: 0 } : undefined,
+      }),
+    [tranches, frequency, startDate, offsetBalance]
+  );
+
+  const totalAmount = result.summary.totalAmount;
+  const shortLabel = frequencyShort[frequency];
+
+  const handleAddTranche = () => {
+    setTranches((prev) => [
+      ...prev,
+      {
+        id: createId(),
+        name: `Split ${prev.length + 1}`,
+        amount: 0,
+        rateType: 'variable',
+        annualRate: 6.19,
+        years: 30,
+        repaymentType: 'principalAndInterest',
+        offsetLinked: false,
+      },
+    ]);
+  };
+
+  const handleUpdateTranche = (id: string, update: Partial<TrancheEntry>) => {
+    setTranches((prev) => prev.map((entry) => (entry.id === id ? { ...entry, ...update } : entry)));
+  };
+
+  const handleRemoveTranche = (id: string) => {
+    setTranches((prev) => prev.filter((entry) => entry.id !== id));
+  };
+
+  return (
+    <>
+      <CollapsibleContainer title="Loan Splits">
+        <div className="space-y-3">
+          <ToggleGroup
+            label="Repayment frequency"
+            options={frequencyOptions}
+            value={frequency}
+            onChange={setFrequency}
+            size="sm"
+          />
+          <CurrencyInput
+            label="Offset balance (variable splits)"
+            value={offsetBalance}
+            onChange={setOffsetBalance}
+            className="block w-full"
+          />
+          <div className="flex items-center justify-between pl-1 text-sm font-semibold text-slate-600">
+            <span>Splits</span>
+            <button
+              type="button"
+              onClick={handleAddTranche}
+              className="rounded-full border border-brand-500 px-3 py-1 text-xs font-semibold text-brand-500"
+            >
+              Add
+            </button>
+          </div>
+          {tranches.map((tranche, index) => {
+            const trancheResult = result.tranches[index];
+            const share = totalAmount > 0 ? (tranche.amount / totalAmount) * 100 : 0;
+            return (
+              <div key={tranche.id} className="space-y-3 rounded-2xl border border-slate-200 p-3 text-xs dark:border-dark-border">
+                <div className="flex items-center gap-3 font-semibold text-slate-600 dark:text-dark-text">
+                  <input
+                    type="text"
+                    value={tranche.name}
+                    onChange={(e) => handleUpdateTranche(tranche.id, { name: e.target.value })}
+                    className="w-full rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold text-slate-600 focus:outline-none focus:ring dark:border-dark-border dark:bg-transparent dark:text-dark-text"
+                  />
+                  <span className="whitespace-nowrap text-slate-400">{share.toFixed(0)}%</span>
+                  {tranches.length > 1 && (
+                    <button type="button" className="text-brand-500" onClick={() => handleRemoveTranche(tranche.id)}>
+                      Remove
+                    </button>
+                  )}
+                </div>
+                <div className="flex flex-wrap justify-center gap-2">
+                  <ToggleGroup
+                    options={rateTypeOptions}
+                    value={tranche.rateType}
+                    onChange={(rateType) => handleUpdateTranche(tranche.id, { rateType })}
+                  />
+                  <ToggleGroup
+                    options={repaymentTypeOptions}
+                    value={tranche.repaymentType}
+                    onChange={(repaymentType) => handleUpdateTranche(tranche.id, { repaymentType })}
+                  />
+                </div>
+                <div className="grid grid-cols-3 gap-3">
+                  <CurrencyInput
+                    label="Amount"
+                    value={tranche.amount}
+                    onChange={(amount) => handleUpdateTranche(tranche.id, { amount })}
+                  />
+                  <PercentInput
+                    label={tranche.rateType === 'fixed' ? 'Fixed rate %' : 'Rate %'}
+                    value={tranche.annualRate}
+                    onChange={(annualRate) => handleUpdateTranche(tranche.id, { annualRate })}
+                    asPercentage
+                    step={0.05}
+                  />
+                  <NumberInput
+                    label="Term (years)"
+                    value={tranche.years}
+                    onChange={(years) => handleUpdateTranche(tranche.id, { years })}
+                    min={1}
+                  />
+                </div>
+                {tranche.rateType === 'fixed' ? (
+                  <div className="grid grid-cols-2 gap-3">
+                    <NumberInput
+                      label="Fixed for (years)"
+                      value={tranche.fixedYears ?? tranche.years}
+                      onChange={(fixedYears) => handleUpdateTranche(tranche.id, { fixedYears })}
+                      min={1}
+                    />
+                    <PercentInput
+                      label="Revert rate %"
+                      value={tranche.revertRate ?? tranche.annualRate}
+                      onChange={(revertRate) => handleUpdateTranche(tranche.id, { revertRate })}
+                      asPercentage
+                      step={0.05}
+                    />
+                  </div>
+                ) : (
+                  <label className="flex items-center gap-2 text-slate-500 dark:text-dark-muted">
+                    <input
+                      type="checkbox"
+                      checked={Boolean(tranche.offsetLinked)}
+                      onChange={(e) => handleUpdateTranche(tranche.id, { offsetLinked: e.target.checked })}
+                    />
+                    Linked to offset
+                  </label>
+                )}
+                {trancheResult && (
+                  <div className="rounded-2xl border border-slate-200 bg-slate-50 p-3 text-xs text-slate-500 dark:border-dark-border dark:bg-transparent dark:text-dark-muted">
+                    <p>Total interest: {formatCurrency(trancheResult.result.summary.totalInterest)}</p>
+                    {trancheResult.result.summary.fixedRateExpiry && (
+                      <p>
+                        Repayment after fixed term:{' '}
+                        {formatCurrency(trancheResult.result.summary.fixedRateExpiry.paymentAfter)} /{shortLabel}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CollapsibleContainer>
+
+      <div className="mt-6">
+        <CollapsibleContainer title="Combined Loan" accent="blue">
+          <div className="grid grid-cols-3 gap-3">
+            <StatCard label={`Repayment /${shortLabel}`} value={formatCurrency(result.summary.regularPayment)} size="sm" />
+            <StatCard label="Total interest" value={formatCurrency(result.summary.totalInterest)} size="sm" />
+            <StatCard
+              label="Loan completed"
+              value={new Date(result.summary.payoffDate).getFullYear()}
+              size="sm"
+            />
+          </div>
+          <BalanceChart schedule={result.schedule} height={300} />
+        </CollapsibleContainer>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { AustralianState, DutyPropertyType, calculateTransferDuty } from 'calc-engine';
+import { StampDutyView } from './StampDutyView';
+
+export const StampDutyCard: React.FC = () => {
+  const [propertyState, setPropertyState] = React.useState<AustralianState>('NSW');
+  const [price, setPrice] = React.useState(850000);
+  const [propertyType, setPropertyType] = React.useState<DutyPropertyType>('established');
+  const [ownerOccupier, setOwnerOccupier] = React.useState(true);
+  const [firstHomeBuyer, setFirstHomeBuyer] = React.useState(false);
+  const [foreignPurchaser, setForeignPurchaser] = React.useState(false);
+  const [offThePlanDutiableValue, setOffThePlanDutiableValue] = React.useState(400000);
+
+  const duty = React.useMemo(
+    () =>
+      calculateTransferDuty({
+        state: propertyState,
+        price,
+        propertyType,
+        ownerOccupier,
+        firstHomeBuyer,
+        foreignPurchaser,
+        offThePlanDutiableValue,
+      }),
+    [propertyState, price, propertyType, ownerOccupier, firstHomeBuyer, foreignPurchaser, offThePlanDutiableValue]
+  );
+
+  return (
+    <StampDutyView
+      propertyState={propertyState}
+      onPropertyStateChange={setPropertyState}
+      price={price}
+      onPriceChange={setPrice}
+      propertyType={propertyType}
+      onPropertyTypeChange={setPropertyType}
+      ownerOccupier={ownerOccupier}
+      onOwnerOccupierChange={setOwnerOccupier}
+      firstHomeBuyer={firstHomeBuyer}
+      onFirstHomeBuyerChange={setFirstHomeBuyer}
+      foreignPurchaser={foreignPurchaser}
+      onForeignPurchaserChange={setForeignPurchaser}
+      offThePlanDutiableValue={offThePlanDutiableValue}
+      onOffThePlanDutiableValueChange={setOffThePlanDutiableValue}
+      duty={duty}
+    />
+  );
+};
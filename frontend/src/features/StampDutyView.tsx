@@ -0,0 +1,147 @@
+import React from 'react';
+import { ToggleGroup, ToggleOption } from '../components/ToggleGroup';
+import { CurrencyInput, StateSelect } from '../components/inputs';
+import { StatCard } from '../components/StatCard';
+import { formatCurrency } from '../lib/formatters';
+import { AustralianState, DutyPropertyType, TransferDutyResult } from 'calc-engine';
+
+interface StampDutyViewProps {
+  propertyState: AustralianState;
+  onPropertyStateChange: (value: AustralianState) => void;
+  price: number;
+  onPriceChange: (value: number) => void;
+  propertyType: DutyPropertyType;
+  onPropertyTypeChange: (value: DutyPropertyType) => void;
+  ownerOccupier: boolean;
+  onOwnerOccupierChange: (value: boolean) => void;
+  firstHomeBuyer: boolean;
+  onFirstHomeBuyerChange: (value: boolean) => void;
+  foreignPurchaser: boolean;
+  onForeignPurchaserChange: (value: boolean) => void;
+  offThePlanDutiableValue: number;
+  onOffThePlanDutiableValueChange: (value: number) => void;
+  duty: TransferDutyResult;
+}
+
+const yesNoOptions: ToggleOption<string>[] = [
+  { value: 'no', label: 'No' },
+  { value: 'yes', label: 'Yes' },
+];
+
+const propertyTypeOptions: ToggleOption<DutyPropertyType>[] = [
+  { value: 'established', label: 'Established' },
+  { value: 'newHome', label: 'New' },
+  { value: 'offThePlan', label: 'Off the plan' },
+  { value: 'vacantLand', label: 'Land' },
+];
+
+const purposeOptions: ToggleOption<string>[] = [
+  { value: 'home', label: 'Live in' },
+  { value: 'investment', label: 'Investment' },
+];
+
+const fhbOutcomeLabels: Record<TransferDutyResult['firstHomeBuyerOutcome'], string> = {
+  exempt: 'Full exemption',
+  concession: 'Partial concession',
+  none: 'No concession',
+};
+
+export const StampDutyView: React.FC<StampDutyViewProps> = ({
+  propertyState,
+  onPropertyStateChange,
+  price,
+  onPriceChange,
+  propertyType,
+  onPropertyTypeChange,
+  ownerOccupier,
+  onOwnerOccupierChange,
+  firstHomeBuyer,
+  onFirstHomeBuyerChange,
+  foreignPurchaser,
+  onForeignPurchaserChange,
+  offThePlanDutiableValue,
+  onOffThePlanDutiableValueChange,
+  duty,
+}) => {
+  const renderToggleRow = (label: string, value: boolean, onChange: (value: boolean) => void) => (
+    <div className="flex items-center justify-between">
+      <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-dark-muted">{label}</p>
+      <ToggleGroup
+        options={yesNoOptions}
+        value={value ? 'yes' : 'no'}
+        onChange={(val) => onChange(val === 'yes')}
+        size="sm"
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4 text-sm">
+        <div className="grid grid-cols-2 gap-3">
+          <CurrencyInput label="Purchase price" value={price} onChange={onPriceChange} />
+          <StateSelect value={propertyState} onChange={onPropertyStateChange} />
+        </div>
+        <div className="flex justify-center">
+          <ToggleGroup options={propertyTypeOptions} value={propertyType} onChange={onPropertyTypeChange} />
+        </div>
+        {propertyType === 'offThePlan' && propertyState === 'VIC' && (
+          <CurrencyInput
+            label="Value at contract (land + construction to date)"
+            value={offThePlanDutiableValue}
+            onChange={onOffThePlanDutiableValueChange}
+            className="block w-full"
+          />
+        )}
+        <div className="flex items-center justify-between">
+          <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-dark-muted">Purpose</p>
+          <ToggleGroup
+            options={purposeOptions}
+            value={ownerOccupier ? 'home' : 'investment'}
+            onChange={(val) => onOwnerOccupierChange(val === 'home')}
+            size="sm"
+          />
+        </div>
+        {renderToggleRow('First home buyer', firstHomeBuyer, onFirstHomeBuyerChange)}
+        {renderToggleRow('Foreign purchaser', foreignPurchaser, onForeignPurchaserChange)}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <StatCard label="Stamp duty" value={formatCurrency(duty.transferDuty)} variant="primary" />
+        <StatCard label="Total government charges" value={formatCurrency(duty.totalGovernmentCharges)} />
+      </div>
+
+      <div className="space-y-1 rounded-2xl border border-slate-200 px-4 py-3 text-xs text-slate-600 dark:border-dark-border dark:text-dark-text">
+        {duty.dutiableValue !== price && (
+          <div className="flex justify-between">
+            <span>Dutiable value</span>
+            <span className="font-semibold">{formatCurrency(duty.dutiableValue)}</span>
+          </div>
+        )}
+        <div className="flex justify-between">
+          <span>Duty before concessions</span>
+          <span className="font-semibold">{formatCurrency(duty.generalDuty)}</span>
+        </div>
+        {firstHomeBuyer && (
+          <div className="flex justify-between">
+            <span>First home buyer ({fhbOutcomeLabels[duty.firstHomeBuyerOutcome]})</span>
+            <span className="font-semibold">-{formatCurrency(duty.concession)}</span>
+          </div>
+        )}
+        {foreignPurchaser && (
+          <div className="flex justify-between">
+            <span>Foreign purchaser surcharge</span>
+            <span className="font-semibold">{formatCurrency(duty.foreignSurcharge)}</span>
+          </div>
+        )}
+        <div className="flex justify-between">
+          <span>Mortgage registration fee</span>
+          <span className="font-semibold">{formatCurrency(duty.mortgageRegistrationFee)}</span>
+        </div>
+      </div>
+      <p className="text-xs text-slate-500 dark:text-dark-muted">
+        Based on 2024-25 rates. First home buyer schemes have residency, occupancy and sometimes income tests.
+      </p>
+    </div>
+  );
+};
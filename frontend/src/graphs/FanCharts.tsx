@@ -0,0 +1,157 @@
+import React, { useMemo } from 'react';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  TooltipProps
+} from 'recharts';
+import { RateSimulationYear } from 'calc-engine';
+import { formatCurrency, formatThousands } from '../lib/formatters';
+
+export type RateFanMetric = 'loanRate' | 'repayment' | 'balance';
+
+interface RateFanChartProps {
+  years: RateSimulationYear[];
+  metric: RateFanMetric;
+  startValue?: number; // Today's value, so the fan opens from a point
+  height?: number;
+}
+
+interface FanDatum {
+  year: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  bandBottom: number;
+  bandSize: number;
+}
+
+const METRIC_LABELS: Record<RateFanMetric, string> = {
+  loanRate: 'Loan rate (%)',
+  repayment: 'Repayment ($)',
+  balance: 'Balance ($)'
+};
+
+export const RateFanChart: React.FC<RateFanChartProps> = ({ years, metric, startValue, height }) => {
+  const data = useMemo<FanDatum[]>(() => {
+    const points = years.map((year) => {
+      const band = year[metric];
+      return {
+        year: year.year,
+        p10: band.p10,
+        p50: band.p50,
+        p90: band.p90,
+        bandBottom: band.p10,
+        bandSize: band.p90 - band.p10
+      };
+    });
+    return startValue === undefined
+      ? points
+      : [
+          { year: 0, p10: startValue, p50: startValue, p90: startValue, bandBottom: startValue, bandSize: 0 },
+          ...points
+        ];
+  }, [years, metric, startValue]);
+
+  const isRate = metric === 'loanRate';
+
+  return (
+    <ResponsiveContainer width="100%" height={height ?? 250}>
+      <ComposedChart data={data} margin={{ top: 8, right: 16, bottom: 40, left: 0 }}>
+        <XAxis
+          dataKey="year"
+          type="number"
+          domain={[0, 'dataMax']}
+          tick={{ fill: 'var(--text-main)', fontSize: 12 }}
+          label={{
+            value: 'Time (years)',
+            position: 'bottom',
+            offset: 0,
+            style: { fill: 'var(--text-main)', fontSize: 12 }
+          }}
+        />
+        <YAxis
+          tickFormatter={(v) => (isRate ? `${v}` : formatThousands(v))}
+          domain={[0, 'auto']}
+          tick={{ fill: 'var(--text-main)', fontSize: 12 }}
+          width={50}
+          label={{
+            value: METRIC_LABELS[metric],
+            angle: -90,
+            position: 'left',
+            offset: -10,
+            style: { fill: 'var(--text-main)', fontSize: 12 }
+          }}
+        />
+        <Tooltip content={<FanTooltip isRate={isRate} />} />
+        <Legend verticalAlign="top" />
+        {/* P10 to P90 band: a transparent base stacked under the band's width */}
+        <Area
+          type="monotone"
+          dataKey="bandBottom"
+          stackId="fan"
+          stroke="none"
+          fill="transparent"
+          legendType="none"
+          isAnimationActive={false}
+        />
+        <Area
+          type="monotone"
+          dataKey="bandSize"
+          stackId="fan"
+          name="P10 to P90"
+          stroke="none"
+          fill="rgba(59, 130, 246, 0.18)"
+          isAnimationActive={false}
+        />
+        <Line type="monotone" dataKey="p10" name="P10" stroke="#93c5fd" strokeDasharray="4 4" dot={false} />
+        <Line type="monotone" dataKey="p50" name="Median" stroke="#2563eb" strokeWidth={2} dot={false} />
+        <Line type="monotone" dataKey="p90" name="P90" stroke="#93c5fd" strokeDasharray="4 4" dot={false} />
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+};
+
+const FanTooltip: React.FC<TooltipProps<number, string> & { isRate: boolean }> = ({
+  active,
+  payload,
+  label,
+  isRate
+}) => {
+  if (!active || !payload || payload.length === 0) return null;
+
+  const datum = payload[0].payload as FanDatum;
+  const formatValue = (v: number) => (isRate ? `${v.toFixed(2)}%` : formatCurrency(v));
+  const rows: [string, number][] = [
+    ['P90', datum.p90],
+    ['Median', datum.p50],
+    ['P10', datum.p10]
+  ];
+
+  return (
+    <div
+      style={{
+        background: 'var(--chart-tooltip-bg)',
+        borderRadius: 8,
+        padding: '0.6rem 0.9rem',
+        boxShadow: '0 6px 18px rgba(15,23,42,0.25)',
+        fontSize: '0.85rem'
+      }}
+    >
+      <div style={{ fontWeight: 600, marginBottom: 6, color: 'var(--chart-tooltip-text)' }}>
+        Year {label}
+      </div>
+      {rows.map(([name, value]) => (
+        <div key={name} style={{ display: 'flex', justifyContent: 'space-between', gap: 12 }}>
+          <span style={{ color: 'var(--chart-tooltip-label)' }}>{name}</span>
+          <span style={{ fontWeight: 600, color: 'var(--chart-tooltip-text)' }}>{formatValue(value)}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -10,9 +10,10 @@ import {
   AreaChart,
   Area,
   TooltipProps,
-  ReferenceLine
+  ReferenceLine,
+  ReferenceArea
 } from 'recharts';
-import { PeriodRow } from 'calc-engine';
+import { PeriodRow, RateChange } from 'calc-engine';
 import { formatCurrency, formatThousands } from '../lib/formatters';
 
 interface ChartProps {
@@ -21,7 +22,7 @@ interface ChartProps {
   overlaySchedule?: PeriodRow[];
   primaryName?: string;
   overlayName?: string;
-  markers?: { monthIndex: number; label: string }[];
+  markers?: { monthIndex: number; endMonthIndex?: number; label: string }[]; // endMonthIndex shades a window
   interactive?: boolean; // show tooltip/hover cursor
   showLegend?: boolean;  // optional legend
 }
@@ -138,12 +139,17 @@ export const BalanceChart: React.FC<ChartProps> = ({ schedule, height, overlaySc
         baselineInterestArea: (baselinePrincipalRemaining ?? 0) * baselineInterestShare,
         baselinePrincipalArea: (baselinePrincipalRemaining ?? 0) * baselinePrincipalShare,
         gapBottom: bottom,
-        gapSize
+        gapSize,
+        equity: row.equity,
+        lvr: row.lvr
       };
     });
   }, [schedule, overlaySchedule]);
 
-  const maxPrincipal = (schedule[0]?.openingBalance ?? 0) + 100000;
+  // Rows carry equity when the loan has a property value track
+  const hasEquity = data.some((d) => d.equity !== undefined);
+  const maxEquity = hasEquity ? Math.max(...data.map((d) => d.equity ?? 0)) : 0;
+  const maxPrincipal = Math.max((schedule[0]?.openingBalance ?? 0) + 100000, maxEquity * 1.05);
   const lastMonthIndex = data.length ? data[data.length - 1].monthIndex : 0;
   const maxMonth = lastMonthIndex + 12;
 
@@ -235,6 +241,16 @@ export const BalanceChart: React.FC<ChartProps> = ({ schedule, height, overlaySc
           dot={false}
           strokeWidth={2.25}
         />
+        {hasEquity && (
+          <Line
+            type="monotone"
+            dataKey="equity"
+            name="Equity"
+            stroke="#16a34a"
+            dot={false}
+            strokeWidth={2.25}
+          />
+        )}
         {data.some((d) => d.baselinePrincipalRemaining !== undefined) && (
           <>
             <Area
@@ -264,15 +280,27 @@ export const BalanceChart: React.FC<ChartProps> = ({ schedule, height, overlaySc
             />
           </>
         )}
-        {markers?.map((m, idx) => (
-          <ReferenceLine
-            key={idx}
-            x={m.monthIndex}
-            stroke="#94a3b8"
-            strokeDasharray="3 3"
-            label={{ value: m.label, position: 'bottom', fill: 'var(--text-main)', fontSize: 11 }}
-          />
-        ))}
+        {markers?.map((m, idx) =>
+          m.endMonthIndex !== undefined ? (
+            <ReferenceArea
+              key={idx}
+              x1={m.monthIndex}
+              x2={m.endMonthIndex}
+              fill="rgba(148, 163, 184, 0.25)"
+              stroke="#94a3b8"
+              strokeDasharray="3 3"
+              label={{ value: m.label, position: 'insideTop', fill: 'var(--text-main)', fontSize: 11 }}
+            />
+          ) : (
+            <ReferenceLine
+              key={idx}
+              x={m.monthIndex}
+              stroke="#94a3b8"
+              strokeDasharray="3 3"
+              label={{ value: m.label, position: 'bottom', fill: 'var(--text-main)', fontSize: 11 }}
+            />
+          )
+        )}
       </AreaChart>
     </ResponsiveContainer>
   );
@@ -292,6 +320,8 @@ interface BalanceDatum {
   baselinePrincipalArea?: number;
   gapBottom?: number;
   gapSize?: number;
+  equity?: number;
+  lvr?: number;
 }
 
 const BalanceTooltip: React.FC<TooltipProps<number, string>> = ({
@@ -366,24 +396,44 @@ const BalanceTooltip: React.FC<TooltipProps<number, string>> = ({
         </span>{' '}
         <span style={{ color: 'var(--chart-tooltip-label)' }}>({Math.round(principalPct)}%)</span>
       </div>
+      {datum.equity !== undefined && (
+        <div style={{ marginTop: 6, color: '#16a34a' }}>
+          Equity:{' '}
+          <span style={{ fontWeight: 600 }}>
+            {formatCurrency(datum.equity)}
+          </span>{' '}
+          <span style={{ color: 'var(--chart-tooltip-label)' }}>(LVR {(datum.lvr ?? 0).toFixed(1)}%)</span>
+        </div>
+      )}
     </div>
   );
 };
 
 // Alternative 1: Just the difference (simpler, more intuitive)
-export const CumulativeInterestWithDifferenceLine: React.FC<ChartProps> = ({
+interface DifferenceChartProps extends ChartProps {
+  initialDifference?: number;  // Starting offset, e.g. upfront switching costs
+  includeFees?: boolean;       // Add each row's fees to its interest
+  differenceName?: string;
+  yAxisLabel?: string;
+}
+
+export const CumulativeInterestWithDifferenceLine: React.FC<DifferenceChartProps> = ({
   schedule,
   overlaySchedule,
   primaryName = 'Cumulative interest',
   overlayName = 'Overlay',
   showLegend = true,
-  height = 250
+  height = 250,
+  initialDifference = 0,
+  includeFees = false,
+  differenceName = 'Extra Interest Cost (Split vs Single)',
+  yAxisLabel = 'Extra Cost ($)'
 }) => {
   const data = useMemo(() => {
     if (!overlaySchedule) return [];
 
     const maxLength = Math.max(schedule.length, overlaySchedule.length);
-    let splitRunning = 0;  // Mortgage + Personal
+    let splitRunning = initialDifference;  // Mortgage + Personal
     let singleRunning = 0;  // Single Mortgage
 
     const result = [];
@@ -392,10 +442,10 @@ export const CumulativeInterestWithDifferenceLine: React.FC<ChartProps> = ({
       const singleRow = overlaySchedule[i];  // This is single mortgage
 
       if (splitRow) {
-        splitRunning += splitRow.interestCharged;
+        splitRunning += splitRow.interestCharged + (includeFees ? splitRow.feesApplied : 0);
       }
       if (singleRow) {
-        singleRunning += singleRow.interestCharged;
+        singleRunning += singleRow.interestCharged + (includeFees ? singleRow.feesApplied : 0);
       }
 
       const date = new Date((splitRow?.date ?? singleRow?.date) as string);
@@ -409,7 +459,7 @@ export const CumulativeInterestWithDifferenceLine: React.FC<ChartProps> = ({
     }
     console.log('[Alt1] data length:', result.length, 'first:', result[0], 'last:', result[result.length - 1]);
     return result;
-  }, [schedule, overlaySchedule]);
+  }, [schedule, overlaySchedule, initialDifference, includeFees]);
 
   return (
     <ResponsiveContainer width="100%" height={height}>
@@ -423,7 +473,7 @@ export const CumulativeInterestWithDifferenceLine: React.FC<ChartProps> = ({
         <YAxis
           tickFormatter={(v) => formatThousands(v)}
           tick={{ fill: 'var(--text-main)', fontSize: 10, angle: -45 }}
-          label={{ value: 'Extra Cost ($)', angle: -90, position: 'insideLeft', fill: 'var(--text-main)' }}
+          label={{ value: yAxisLabel, angle: -90, position: 'insideLeft', fill: 'var(--text-main)' }}
         />
         <Tooltip
           formatter={(v: number) => formatCurrency(v)}
@@ -441,7 +491,7 @@ export const CumulativeInterestWithDifferenceLine: React.FC<ChartProps> = ({
         <Area
           type="monotone"
           dataKey="difference"
-          name="Extra Interest Cost (Split vs Single)"
+          name={differenceName}
           stroke="#ef4444"
           fill="url(#costGradient)"
           strokeWidth={2.5}
@@ -751,3 +801,102 @@ export const CumulativeInterestChart: React.FC<ChartProps> = ({
     </ResponsiveContainer>
   );
 };
+
+interface RateHistoryChartProps {
+  schedule: PeriodRow[];
+  annualRate: number; // Rate the schedule starts on
+  rateChanges: RateChange[]; // Moves applied to the schedule
+  flatSchedule?: PeriodRow[]; // Same loan with the starting rate held
+  height?: number;
+}
+
+export const RateHistoryChart: React.FC<RateHistoryChartProps> = ({
+  schedule,
+  annualRate,
+  rateChanges,
+  flatSchedule,
+  height = 250
+}) => {
+  const data = useMemo(() => {
+    const moves = rateChanges
+      .map((change) => ({ time: new Date(change.effectiveDate).getTime(), rate: change.annualRate }))
+      .sort((a, b) => a.time - b.time);
+    let moveIndex = 0;
+    let rate = annualRate;
+    return schedule.map((row, index) => {
+      const date = new Date(row.date);
+      // Rows are in date order, so each one picks up the moves made since the last
+      while (moveIndex < moves.length && moves[moveIndex].time <= date.getTime()) {
+        rate = moves[moveIndex].rate;
+        moveIndex++;
+      }
+      const flatRow = flatSchedule?.[index];
+      return {
+        year: date.getFullYear() + date.getMonth() / 12,
+        repayment: row.interestCharged + row.principalPaid,
+        flatRepayment: flatRow ? flatRow.interestCharged + flatRow.principalPaid : undefined,
+        rate
+      };
+    });
+  }, [schedule, annualRate, rateChanges, flatSchedule]);
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <LineChart data={data} margin={{ top: 8, right: 16, bottom: 40, left: 0 }}>
+        <XAxis
+          dataKey="year"
+          type="number"
+          domain={['dataMin', 'dataMax']}
+          tickFormatter={(v) => `${Math.floor(v)}`}
+          tick={{ fill: 'var(--text-main)', fontSize: 12 }}
+        />
+        <YAxis
+          yAxisId="repayment"
+          tickFormatter={(v) => formatThousands(v)}
+          tick={{ fill: 'var(--text-main)', fontSize: 12 }}
+          width={50}
+          label={{
+            value: 'Repayment ($)',
+            angle: -90,
+            position: 'left',
+            offset: -10,
+            style: { fill: 'var(--text-main)', fontSize: 12 }
+          }}
+        />
+        <YAxis
+          yAxisId="rate"
+          orientation="right"
+          domain={[0, 'auto']}
+          tickFormatter={(v) => `${v}%`}
+          tick={{ fill: 'var(--text-main)', fontSize: 12 }}
+          width={40}
+        />
+        <Tooltip
+          labelFormatter={(v: number) => `${Math.floor(v)}-${String(Math.round((v % 1) * 12) + 1).padStart(2, '0')}`}
+          formatter={(v: number, name: string) => (name === 'Loan rate' ? `${v.toFixed(2)}%` : formatCurrency(v))}
+        />
+        <Legend verticalAlign="top" />
+        <Line
+          yAxisId="repayment"
+          type="stepAfter"
+          dataKey="repayment"
+          name="Repayment"
+          stroke="#2563eb"
+          dot={false}
+        />
+        {flatSchedule && (
+          <Line
+            yAxisId="repayment"
+            type="stepAfter"
+            dataKey="flatRepayment"
+            name="If the rate had held"
+            stroke="#94a3b8"
+            strokeDasharray="4 4"
+            dot={false}
+          />
+        )}
+        <Line yAxisId="rate" type="stepAfter" dataKey="rate" name="Loan rate" stroke="#f97316" dot={false} />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+};
@@ -0,0 +1,155 @@
+import React from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine
+} from 'recharts';
+import { DepositSavingsMonth, NextPurchaseMonth, RentVsBuyPoint } from 'calc-engine';
+import { formatCurrency, formatThousands } from '../lib/formatters';
+
+interface RentVsBuyChartProps {
+  points: RentVsBuyPoint[];
+  breakEvenYear?: number;
+  height?: number;
+}
+
+export const RentVsBuyChart: React.FC<RentVsBuyChartProps> = ({ points, breakEvenYear, height }) => {
+  return (
+    <ResponsiveContainer width="100%" height={height ?? 250}>
+      <LineChart data={points} margin={{ top: 8, right: 16, bottom: 40, left: 0 }}>
+        <XAxis
+          dataKey="year"
+          type="number"
+          domain={[0, 'dataMax']}
+          tick={{ fill: 'var(--text-main)', fontSize: 12 }}
+          label={{
+            value: 'Time (years)',
+            position: 'bottom',
+            offset: 0,
+            style: { fill: 'var(--text-main)', fontSize: 12 }
+          }}
+        />
+        <YAxis
+          tickFormatter={(v) => formatThousands(v)}
+          tick={{ fill: 'var(--text-main)', fontSize: 12 }}
+          width={50}
+          label={{
+            value: 'Net wealth ($)',
+            angle: -90,
+            position: 'left',
+            offset: -10,
+            style: { fill: 'var(--text-main)', fontSize: 12 }
+          }}
+        />
+        <Tooltip
+          formatter={(v: number) => formatCurrency(v)}
+          labelFormatter={(year) => `Year ${year}`}
+        />
+        <Legend verticalAlign="top" />
+        {breakEvenYear !== undefined && (
+          <ReferenceLine x={breakEvenYear} stroke="#94a3b8" strokeDasharray="4 4" />
+        )}
+        <Line type="monotone" dataKey="buyerWealth" name="Buy" stroke="#2563eb" dot={false} />
+        <Line type="monotone" dataKey="renterWealth" name="Rent & invest" stroke="#f97316" dot={false} />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+};
+
+interface SavingsGoalChartProps {
+  months: DepositSavingsMonth[];
+  height?: number;
+}
+
+export const SavingsGoalChart: React.FC<SavingsGoalChartProps> = ({ months, height }) => {
+  return (
+    <ResponsiveContainer width="100%" height={height ?? 250}>
+      <LineChart data={months} margin={{ top: 8, right: 16, bottom: 40, left: 0 }}>
+        <XAxis
+          dataKey="month"
+          type="number"
+          domain={[0, 'dataMax']}
+          tickFormatter={(v) => `${Math.round(v / 12)}`}
+          ticks={months.filter((row) => row.month % 12 === 0).map((row) => row.month)}
+          tick={{ fill: 'var(--text-main)', fontSize: 12 }}
+          label={{
+            value: 'Time (years)',
+            position: 'bottom',
+            offset: 0,
+            style: { fill: 'var(--text-main)', fontSize: 12 }
+          }}
+        />
+        <YAxis
+          tickFormatter={(v) => formatThousands(v)}
+          tick={{ fill: 'var(--text-main)', fontSize: 12 }}
+          width={50}
+        />
+        <Tooltip
+          formatter={(v: number) => formatCurrency(v)}
+          labelFormatter={(month) => `Month ${month}`}
+        />
+        <Legend verticalAlign="top" />
+        <Line type="monotone" dataKey="savings" name="Savings" stroke="#16a34a" dot={false} />
+        <Line type="monotone" dataKey="goal" name="Needed" stroke="#2563eb" strokeDasharray="4 4" dot={false} />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+};
+
+interface EquityReleaseChartProps {
+  months: NextPurchaseMonth[];
+  cashSavings?: number;
+  height?: number;
+}
+
+export const EquityReleaseChart: React.FC<EquityReleaseChartProps> = ({ months, cashSavings = 0, height }) => {
+  const data = React.useMemo(
+    () => months.map((row) => ({ ...row, available: row.usableEquity + cashSavings })),
+    [months, cashSavings]
+  );
+
+  return (
+    <ResponsiveContainer width="100%" height={height ?? 250}>
+      <LineChart data={data} margin={{ top: 8, right: 16, bottom: 40, left: 0 }}>
+        <XAxis
+          dataKey="month"
+          type="number"
+          domain={[0, 'dataMax']}
+          tickFormatter={(v) => `${Math.round(v / 12)}`}
+          ticks={data.filter((row) => row.month % 12 === 0).map((row) => row.month)}
+          tick={{ fill: 'var(--text-main)', fontSize: 12 }}
+          label={{
+            value: 'Time (years)',
+            position: 'bottom',
+            offset: 0,
+            style: { fill: 'var(--text-main)', fontSize: 12 }
+          }}
+        />
+        <YAxis
+          tickFormatter={(v) => formatThousands(v)}
+          tick={{ fill: 'var(--text-main)', fontSize: 12 }}
+          width={50}
+        />
+        <Tooltip
+          formatter={(v: number) => formatCurrency(v)}
+          labelFormatter={(month) => `Month ${month}`}
+        />
+        <Legend verticalAlign="top" />
+        <Line type="monotone" dataKey="available" name="Equity & cash" stroke="#16a34a" dot={false} />
+        <Line
+          type="monotone"
+          dataKey="fundsRequired"
+          name="Deposit & costs"
+          stroke="#2563eb"
+          strokeDasharray="4 4"
+          dot={false}
+        />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+};
@@ -2,12 +2,15 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { App } from './App';
 import { DarkModeProvider } from './contexts/DarkModeContext';
+import { PayProfileProvider } from './contexts/PayProfileContext';
 import './styles.css';
 
 ReactDOM.createRoot(document.getElementById('root') as HTMLElement).render(
   <React.StrictMode>
     <DarkModeProvider>
-      <App />
+      <PayProfileProvider>
+        <App />
+      </PayProfileProvider>
     </DarkModeProvider>
   </React.StrictMode>
 );
@@ -1,26 +1,86 @@
 import React from 'react';
 import { FeatureAccordion, FeatureAccordionItem } from '../components/FeatureAccordion';
 import { PageContainer } from '../components/PageContainer';
-import { LoanCalculatorCard } from '../features/LoanCalculatorCard';
+import { LoanCalculatorSection } from '../features/LoanCalculatorSection';
 import { BorrowingPowerSection } from '../features/BorrowingPowerSection';
 import { LoanComparisonCard } from '../features/LoanComparisonCard';
+import { StampDutyCard } from '../features/StampDutyCard';
+import { RefinanceCard } from '../features/RefinanceCard';
+import { ConstructionLoanCard } from '../features/ConstructionLoanCard';
+import { BridgingLoanCard } from '../features/BridgingLoanCard';
+import { RateOutlookCard } from '../features/RateOutlookCard';
+import { RateHistoryCard } from '../features/RateHistoryCard';
+import { InvestmentPropertyCard } from '../features/InvestmentPropertyCard';
+import { RentVsBuyCard } from '../features/RentVsBuyCard';
+import { DepositPlannerCard } from '../features/DepositPlannerCard';
+import { NextPurchaseCard } from '../features/NextPurchaseCard';
 
 const items: FeatureAccordionItem[] = [
   {
     badge: 'Mortgage',
     title: 'Loan Calculator',
-    content: <LoanCalculatorCard />,
+    content: <LoanCalculatorSection />,
   },
   {
     badge: 'Compare',
     title: 'Mortgage vs Personal Loan',
     content: <LoanComparisonCard />,
   },
+  {
+    badge: 'Refinance',
+    title: 'Refinance Break-Even',
+    content: <RefinanceCard />,
+  },
+  {
+    badge: 'Rates',
+    title: 'What If Rates Move?',
+    content: <RateOutlookCard />,
+  },
+  {
+    badge: 'History',
+    title: 'What If I Had Borrowed In...',
+    content: <RateHistoryCard />,
+  },
+  {
+    badge: 'Build',
+    title: 'Construction Loan',
+    content: <ConstructionLoanCard />,
+  },
+  {
+    badge: 'Bridge',
+    title: 'Buy Before You Sell',
+    content: <BridgingLoanCard />,
+  },
+  {
+    badge: 'Deposit',
+    title: 'When Can I Buy?',
+    content: <DepositPlannerCard />,
+  },
+  {
+    badge: 'Rent/Buy',
+    title: 'Rent vs Buy',
+    content: <RentVsBuyCard />,
+  },
+  {
+    badge: 'Equity',
+    title: 'Next Purchase',
+    content: <NextPurchaseCard />,
+  },
   {
     badge: 'Capacity',
     title: 'Borrowing Power',
     content: <BorrowingPowerSection />,
   },
+  {
+    badge: 'Duty',
+    title: 'Stamp Duty',
+    content: <StampDutyCard />,
+  },
+  {
+    badge: 'Investor',
+    title: 'Investment Property',
+    content: <InvestmentPropertyCard />,
+  },
 ];
 
 export const LoansPage: React.FC = () => {